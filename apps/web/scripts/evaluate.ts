@@ -0,0 +1,175 @@
+/**
+ * Evaluate - Grace Hopper: Grade a labeled corpus headlessly and report accuracy
+ *
+ *   pnpm evaluate <corpus-dir> [--references <dir>] [--rubric psa|bgs] [--no-ocr]
+ *                 [--json <report.json>] [--max-grade-mae <n>]
+ *
+ * Corpus layout: one ground-truth JSON per card next to its front image
+ * (same name, .jpg/.jpeg/.png, or an explicit "image" field):
+ *
+ *   {"grade": 8, "subgrades": {"centering": 9, "corners": 8, "edges": 8.5, "surface": 8},
+ *    "identity": {"player": "Mike Trout", "year": 2011, "set": "Topps Update", "cardNumber": "US175"}}
+ *
+ * Reference cards for visual identification sit in <corpus-dir>/references by
+ * default: one identity JSON per image. Runs on the TF.js CPU backend; OCR
+ * downloads Tesseract language data on first use, so pass --no-ocr offline.
+ * Exits non-zero when the grade MAE is above --max-grade-mae.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import * as tf from '@tensorflow/tfjs'
+import * as jpeg from 'jpeg-js'
+import { PNG } from 'pngjs'
+import { GradingEngine } from '../src/lib/grading/GradingEngine'
+import { VisionPipeline } from '../src/lib/vision/VisionPipeline'
+import { OcrEngine, TesseractOcrEngine } from '../src/lib/vision/TextRecognizer'
+import { createImageData } from '../src/lib/vision/image'
+import {
+  CardIdentity,
+  EvaluationSample,
+  GroundTruth,
+  PipelineGrader,
+  evaluate,
+  formatReport
+} from '../src/lib/evaluation/Evaluator'
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png']
+
+interface Options {
+  corpus: string
+  references?: string
+  rubric: string
+  ocr: boolean
+  json?: string
+  maxGradeMae?: number
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { corpus: '', rubric: 'psa', ocr: true }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    switch (arg) {
+      case '--references': options.references = argv[++i]; break
+      case '--rubric': options.rubric = argv[++i]; break
+      case '--no-ocr': options.ocr = false; break
+      case '--json': options.json = argv[++i]; break
+      case '--max-grade-mae': options.maxGradeMae = parseFloat(argv[++i]); break
+      default:
+        if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`)
+        options.corpus = arg
+    }
+  }
+  if (!options.corpus) {
+    throw new Error('Usage: evaluate <corpus-dir> [--references <dir>] [--rubric psa|bgs] [--no-ocr] [--json <file>] [--max-grade-mae <n>]')
+  }
+  return options
+}
+
+function decodeImage(file: string): ImageData {
+  const buffer = fs.readFileSync(file)
+  if (path.extname(file).toLowerCase() === '.png') {
+    const png = PNG.sync.read(buffer)
+    return createImageData(png.width, png.height, new Uint8ClampedArray(png.data))
+  }
+  const decoded = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true })
+  return createImageData(decoded.width, decoded.height, new Uint8ClampedArray(decoded.data))
+}
+
+function encodePng(image: ImageData): string {
+  const png = new PNG({ width: image.width, height: image.height })
+  png.data = Buffer.from(image.data)
+  return `data:image/png;base64,${PNG.sync.write(png).toString('base64')}`
+}
+
+// Labeled JSON files in a directory, paired with the image beside each
+function readLabeled<T>(dir: string): Array<{ id: string; label: T; image: string }> {
+  return fs.readdirSync(dir)
+    .filter(name => name.endsWith('.json'))
+    .sort()
+    .flatMap(name => {
+      const id = path.basename(name, '.json')
+      const label = JSON.parse(fs.readFileSync(path.join(dir, name), 'utf8'))
+      const image = label.image
+        ? path.join(dir, label.image)
+        : IMAGE_EXTENSIONS.map(ext => path.join(dir, id + ext)).find(file => fs.existsSync(file))
+      if (!image || !fs.existsSync(image)) {
+        console.warn(`Skipping ${name}: no image found`)
+        return []
+      }
+      return [{ id, label: label as T, image }]
+    })
+}
+
+// Tesseract under Node reads encoded images, not ImageData
+class NodeOcrEngine implements OcrEngine {
+  private engine = new TesseractOcrEngine()
+
+  recognize(image: ImageData | string) {
+    return this.engine.recognize(typeof image === 'string' ? image : encodePng(image))
+  }
+
+  terminate() {
+    return this.engine.terminate()
+  }
+}
+
+const noOcr: OcrEngine = {
+  recognize: async () => [],
+  terminate: async () => {}
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2))
+  await tf.setBackend('cpu')
+
+  const ocrEngine = options.ocr ? new NodeOcrEngine() : noOcr
+  const pipeline = new VisionPipeline(undefined, ocrEngine)
+  const grader = new PipelineGrader(pipeline, new GradingEngine(), options.rubric)
+
+  const referenceDir = options.references ?? path.join(options.corpus, 'references')
+  if (fs.existsSync(referenceDir)) {
+    const references = readLabeled<CardIdentity>(referenceDir)
+    references.forEach(({ label, image }) => grader.addReference(label, decodeImage(image)))
+    console.log(`Loaded ${references.length} reference cards`)
+  }
+
+  const samples: EvaluationSample[] = readLabeled<GroundTruth>(options.corpus).map(({ id, label, image }) => ({
+    id,
+    truth: label,
+    load: async () => decodeImage(image)
+  }))
+  if (samples.length === 0) {
+    throw new Error(`No labeled images in ${options.corpus}`)
+  }
+
+  try {
+    const report = await evaluate(samples, grader, {
+      onSample: (result, index, total) => {
+        const outcome = result.error
+          ? `failed: ${result.error}`
+          : `grade ${result.prediction!.grade} (actual ${result.truth.grade}), ${Math.round(result.latencyMs!)} ms`
+        console.log(`[${index + 1}/${total}] ${result.id}: ${outcome}`)
+      }
+    })
+
+    console.log(`\n${formatReport(report)}`)
+    if (options.json) {
+      fs.writeFileSync(options.json, JSON.stringify(report, null, 2))
+      console.log(`\nWrote ${options.json}`)
+    }
+
+    if (options.maxGradeMae !== undefined && !(report.grade.mae <= options.maxGradeMae)) {
+      console.error(`\nGrade MAE ${report.grade.mae.toFixed(2)} exceeds ${options.maxGradeMae}`)
+      process.exitCode = 1
+    }
+  } finally {
+    await ocrEngine.terminate()
+    pipeline.dispose()
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,62 @@
+/**
+ * Model Digest - Grace Hopper: Print the checksum to pin for each model's artifacts
+ *
+ *   pnpm model-digest [model-id ...]
+ *
+ * Reads model.json and its weight shards for the given models (every model
+ * with artifacts by default) and prints the SHA-256 the registry verifies them
+ * against, ready to paste into the manifest in src/lib/vision/models.ts.
+ * Absolute artifact URLs are downloaded; relative ones are read from
+ * public/models, where the app serves them.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import * as tf from '@tensorflow/tfjs'
+import { checksumOf } from '../src/lib/vision/ModelRegistry'
+import { DEFAULT_MODELS } from '../src/lib/vision/models'
+
+const PUBLIC_MODELS = path.join(__dirname, '..', 'public', 'models')
+
+async function read(location: string): Promise<ArrayBuffer> {
+  if (/^https?:\/\//i.test(location)) {
+    const response = await fetch(location)
+    if (!response.ok) throw new Error(`${location}: HTTP ${response.status}`)
+    return response.arrayBuffer()
+  }
+  const file = fs.readFileSync(path.join(PUBLIC_MODELS, location))
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer
+}
+
+// The same artifacts TF.js's HTTP loader builds from model.json
+async function loadArtifacts(url: string): Promise<tf.io.ModelArtifacts> {
+  const modelJson = JSON.parse(new TextDecoder().decode(await read(url))) as tf.io.ModelJSON
+  const base = url.slice(0, url.lastIndexOf('/') + 1)
+
+  return tf.io.getModelArtifactsForJSON(modelJson, async manifest => {
+    const shards: ArrayBuffer[] = []
+    for (const group of manifest) {
+      for (const shard of group.paths) shards.push(await read(base + shard))
+    }
+    return [tf.io.getWeightSpecs(manifest), tf.io.concatenateArrayBuffers(shards)]
+  })
+}
+
+async function main(): Promise<void> {
+  const ids = process.argv.slice(2)
+  const models = DEFAULT_MODELS.filter(model => model.artifact && (ids.length === 0 || ids.includes(model.id)))
+  const unknown = ids.filter(id => !models.some(model => model.id === id))
+  if (unknown.length > 0) throw new Error(`No artifacts for: ${unknown.join(', ')}`)
+
+  for (const model of models) {
+    const checksum = await checksumOf(await loadArtifacts(model.artifact!.url))
+    const pinned = model.artifact!.checksum
+    const status = !pinned ? 'unpinned' : pinned === checksum ? 'matches pin' : `pin is ${pinned}`
+    console.log(`${model.id}@${model.version}  ${checksum}  (${status})`)
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
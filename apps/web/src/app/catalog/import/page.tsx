@@ -0,0 +1,147 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import Link from 'next/link'
+import { Upload, Loader2, Check, AlertTriangle } from 'lucide-react'
+import { ErrorBoundary } from '@/components/ErrorBoundary'
+import { useCardDatabaseService } from '@/hooks/useService'
+import type { ChecklistImportReport } from '@/lib/card-database/ChecklistImporter'
+import type { ICardDatabaseService } from '@/lib/interfaces/services'
+
+interface FileReport {
+  fileName: string
+  report?: ChecklistImportReport
+  error?: string
+}
+
+const CSV_EXAMPLE = 'set,year,manufacturer,number,player,subset,rookie,parallels\nPrizm,2018,Panini,280,Luka Doncic,,RC,Silver | Red Wave | Gold /10 | Black 1/1'
+
+function CatalogImportContent() {
+  const catalog = useCardDatabaseService() as ICardDatabaseService | undefined
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [importing, setImporting] = useState(false)
+  const [reports, setReports] = useState<FileReport[]>([])
+
+  const importFiles = async (files: File[]) => {
+    if (!catalog || files.length === 0) return
+    setImporting(true)
+    const results: FileReport[] = []
+    // One file at a time so sets shared between files are merged in order
+    for (const file of files) {
+      try {
+        const format = file.name.toLowerCase().endsWith('.json') ? 'json' : file.name.toLowerCase().endsWith('.csv') ? 'csv' : undefined
+        results.push({ fileName: file.name, report: await catalog.importChecklist(await file.text(), format) })
+      } catch (err) {
+        results.push({ fileName: file.name, error: err instanceof Error ? err.message : 'Import failed' })
+      }
+    }
+    setReports(results)
+    setImporting(false)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      {/* Header */}
+      <div className="bg-black/50 backdrop-blur-lg border-b border-white/10 p-4">
+        <div className="max-w-4xl mx-auto flex justify-between items-center">
+          <Link href="/" className="text-xl font-bold">VeriCard Scan Pro</Link>
+          <Link href="/dashboard" className="text-sm text-gray-400 hover:text-white transition">← Dashboard</Link>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto p-4">
+        <h1 className="text-2xl font-bold mb-2">Import Checklists</h1>
+        <p className="text-sm text-gray-400 mb-4">
+          Load set checklists as CSV or JSON. Each card needs set, year, manufacturer, number and player;
+          subset, rookie and parallels are optional. Cards already in the catalog are updated, not duplicated.
+          A JSON set can also list its parallels and inserts under <code>taxonomy</code>, each with a name and
+          optional kind, color, finish, printRun, odds and exclusive.
+        </p>
+        <pre className="bg-gray-800 rounded-lg p-3 text-xs text-gray-300 overflow-x-auto mb-6">{CSV_EXAMPLE}</pre>
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!catalog || importing}
+          className="bg-primary hover:bg-primary/90 disabled:opacity-50 text-white px-6 py-3 rounded-lg font-semibold flex items-center transition"
+        >
+          {importing ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Upload className="w-5 h-5 mr-2" />}
+          {importing ? 'Importing...' : 'Choose Checklist Files'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          multiple
+          className="hidden"
+          onChange={event => {
+            importFiles(Array.from(event.target.files ?? []))
+            event.target.value = ''
+          }}
+        />
+
+        <div className="mt-6 space-y-4">
+          {reports.map(({ fileName, report, error }) => (
+            <div key={fileName} className="bg-gray-800 rounded-xl p-4">
+              <h2 className="font-semibold mb-2">{fileName}</h2>
+              {error ? (
+                <p className="text-sm text-red-400 flex items-center">
+                  <AlertTriangle className="w-4 h-4 mr-2" />
+                  {error}
+                </p>
+              ) : report && (
+                <>
+                  <p className="text-sm text-gray-300 flex items-center">
+                    <Check className="w-4 h-4 mr-2 text-green-400" />
+                    {report.totalRows} rows · {report.added} added · {report.updated} updated · {report.unchanged} unchanged · {report.rejected.length} rejected
+                  </p>
+                  {report.sets.length > 0 && (
+                    <p className="text-xs text-gray-400 mt-1">{report.sets.join(', ')}</p>
+                  )}
+                  {(report.referenceImages > 0 || report.imageFailures.length > 0) && (
+                    <p className="text-xs text-gray-400 mt-1">
+                      {report.referenceImages} reference images indexed
+                      {report.imageFailures.length > 0 && ` · ${report.imageFailures.length} failed (rows ${report.imageFailures.map(failure => failure.row).join(', ')})`}
+                    </p>
+                  )}
+                  {report.taxonomies.length > 0 && (
+                    <p className="text-xs text-gray-400 mt-1">Variant taxonomy loaded for {report.taxonomies.join(', ')}</p>
+                  )}
+                  {report.rejected.length > 0 && (
+                    <table className="w-full text-xs mt-3">
+                      <thead>
+                        <tr className="text-left text-gray-400">
+                          <th className="py-1 pr-2">Row</th>
+                          <th className="py-1 pr-2">Card</th>
+                          <th className="py-1">Reason</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.rejected.map(rejected => (
+                          <tr key={rejected.row} className="border-t border-gray-700 align-top">
+                            <td className="py-1 pr-2">{rejected.row}</td>
+                            <td className="py-1 pr-2 text-gray-300">
+                              {[rejected.raw.number ? `#${rejected.raw.number}` : '', rejected.raw.player ? String(rejected.raw.player) : ''].filter(Boolean).join(' ') || '—'}
+                            </td>
+                            <td className="py-1 text-red-400">{rejected.reasons.join('; ')}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function CatalogImportPage() {
+  return (
+    <ErrorBoundary>
+      <CatalogImportContent />
+    </ErrorBoundary>
+  )
+}
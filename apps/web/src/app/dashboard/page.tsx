@@ -3,7 +3,7 @@
 import { useEffect, useState, Suspense } from 'react'
 import Link from 'next/link'
 import { useSearchParams } from 'next/navigation'
-import { Camera, TrendingUp, Shield, Clock, ChevronRight } from 'lucide-react'
+import { Camera, TrendingUp, Shield, Clock, ChevronRight, Database } from 'lucide-react'
 import { DatabaseService } from '@/services/DatabaseService'
 import { SubscriptionService } from '@/services/SubscriptionService'
 
@@ -155,7 +155,7 @@ function DashboardContent() {
         </div>
 
         {/* Quick Actions */}
-        <div className="grid md:grid-cols-3 gap-6 mt-8">
+        <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mt-8">
           <QuickAction
             title="Scan New Card"
             description="Launch the scanner to verify a new card"
@@ -174,6 +174,12 @@ function DashboardContent() {
             href="/subscription"
             icon={<Shield className="w-6 h-6" />}
           />
+          <QuickAction
+            title="Import Checklists"
+            description="Load set checklists into the offline card catalog"
+            href="/catalog/import"
+            icon={<Database className="w-6 h-6" />}
+          />
         </div>
       </div>
     </div>
@@ -5,6 +5,8 @@ import Webcam from 'react-webcam'
 import { Camera, RotateCw, Check, X, Loader2, Info, Upload, Image, TrendingUp, TrendingDown, Activity } from 'lucide-react'
 import Link from 'next/link'
 import { ScanResults } from '@/components/ScanResults'
+import { AutoCaptureIndicator, CaptureCoaching } from '@/components/CaptureCoaching'
+import { CalibrationBadge } from '@/components/Calibration'
 import { 
   useAIService, 
   useDatabaseService, 
@@ -16,8 +18,16 @@ import { CameraService } from '@/services/CameraService'
 import { SubscriptionService } from '@/services/SubscriptionService'
 import { ServiceTokens } from '@/lib/di/container'
 import { asyncHandler } from '@/lib/errors'
+import { visionWorkerClient } from '@/lib/vision/worker/VisionWorkerClient'
+import { CaptureQuality, CaptureQualityAssessor, QualityIssue } from '@/lib/vision/CaptureQuality'
+import { decodeImage } from '@/lib/vision/canvas'
+import type { CalibrationProfile } from '@/lib/vision/Calibration'
+import { calibrationStore } from '@/lib/vision/CalibrationStore'
+import { useAutoCapture } from '@/hooks/useAutoCapture'
 
-type CaptureStep = 'front' | 'back' | 'edge-top' | 'edge-bottom' | 'edge-left' | 'edge-right' | 'complete'
+type CaptureStep = 'front' | 'back' | 'edge-top' | 'edge-bottom' | 'edge-left' | 'edge-right' | 'uv' | 'complete'
+
+const captureAssessor = new CaptureQualityAssessor()
 
 export function ScannerContentRefactored() {
   const webcamRef = useRef<Webcam>(null)
@@ -36,6 +46,10 @@ export function ScannerContentRefactored() {
   const [scanMode, setScanMode] = useState<'camera' | 'upload' | null>(null)
   const [uploadedImage, setUploadedImage] = useState<string | null>(null)
   const [captureFlash, setCaptureFlash] = useState(false)
+  const [captureQuality, setCaptureQuality] = useState<Record<string, CaptureQuality>>({})
+  const [coaching, setCoaching] = useState<QualityIssue[]>([])
+  const [autoCapture, setAutoCapture] = useState(false)
+  const [calibration, setCalibration] = useState<CalibrationProfile | null>(null)
 
   // Get services from DI container
   const aiService = useAIService()
@@ -51,6 +65,7 @@ export function ScannerContentRefactored() {
     'edge-bottom': 'Bottom Edge',
     'edge-left': 'Left Edge',
     'edge-right': 'Right Edge',
+    'uv': 'UV Light',
     'complete': 'Scan Complete'
   }
 
@@ -83,39 +98,68 @@ export function ScannerContentRefactored() {
     setHasPermission(false)
   }, [logger])
 
-  const capture = useCallback(() => {
+  // Look up the profile of the camera the browser actually opened
+  const handleUserMedia = useCallback((stream: MediaStream) => {
+    setCalibration(calibrationStore.get(stream.getVideoTracks()[0]?.getSettings().deviceId))
+  }, [])
+
+  const capture = useCallback(async () => {
     if (!SubscriptionService.canScan()) {
       setError(`You've reached your free scan limit (${SubscriptionService.getScansRemaining()} remaining). Please upgrade to continue.`)
       setTimeout(() => {
         window.location.href = '/subscription'
       }, 3000)
-      return
+      return false
     }
 
     const imageSrc = webcamRef.current?.getScreenshot()
     if (imageSrc && currentStep !== 'complete') {
+      // Refuse frames that cannot be graded; edge close-ups skip the framing checks
+      // and UV captures, dark and blue on purpose, skip the gate altogether
+      const quality = currentStep === 'uv' ? undefined : captureAssessor.assess(await decodeImage(imageSrc), {
+        requireCard: currentStep === 'front' || currentStep === 'back'
+      })
+      setCoaching(quality?.issues ?? [])
+      if (quality && !quality.acceptable) return false
+
       setCaptureFlash(true)
       setTimeout(() => setCaptureFlash(false), 300)
       
       setCaptures(prev => ({ ...prev, [currentStep]: imageSrc }))
+      const qualities = quality ? { ...captureQuality, [currentStep]: quality } : captureQuality
+      setCaptureQuality(qualities)
       
       if (simpleMode) {
-        processScan({ front: imageSrc })
+        processScan({ front: imageSrc }, qualities)
       } else {
-        const steps: CaptureStep[] = ['front', 'back', 'edge-top', 'edge-bottom', 'edge-left', 'edge-right', 'complete']
+        const steps: CaptureStep[] = ['front', 'back', 'edge-top', 'edge-bottom', 'edge-left', 'edge-right', 'uv', 'complete']
         const currentIndex = steps.indexOf(currentStep)
         if (currentIndex < steps.length - 1) {
           setCurrentStep(steps[currentIndex + 1] as CaptureStep)
         }
         
         if (currentIndex === steps.length - 2) {
-          processScan({ ...captures, [currentStep]: imageSrc })
+          processScan({ ...captures, [currentStep]: imageSrc }, qualities)
         }
       }
+      return true
     }
-  }, [currentStep, captures, simpleMode])
+    return false
+  }, [currentStep, captures, captureQuality, simpleMode, scanMode, calibration])
 
-  const processScan = asyncHandler(async (allCaptures: Record<string, string>) => {
+  // Hands-free capture; each shot advances the step, so multi-angle mode walks the whole sequence
+  const autoCaptureState = useAutoCapture(
+    webcamRef,
+    autoCapture && scanMode === 'camera' && hasPermission === true && !isProcessing &&
+      currentStep !== 'complete' && currentStep !== 'uv',
+    currentStep === 'front' || currentStep === 'back',
+    capture
+  )
+
+  const processScan = asyncHandler(async (
+    allCaptures: Record<string, string>,
+    quality: Record<string, CaptureQuality> = {}
+  ) => {
     if (!aiService || !databaseService || !marketDataService) {
       setError('Services not initialized. Please refresh the page.')
       return
@@ -131,7 +175,13 @@ export function ScannerContentRefactored() {
       if (!aiService || typeof aiService.processCard !== 'function') {
         throw new Error('AI service not available')
       }
-      const result = await aiService.processCard(allCaptures)
+      // Inference runs in the vision worker so the UI stays responsive
+      // Uploaded photos come from an unknown camera, so only camera scans are corrected
+      const processed = await visionWorkerClient.processCard(allCaptures, {
+        calibration: scanMode === 'camera' ? calibration : null
+      })
+      // Gate scores are saved with the result so weak captures can be flagged later
+      const result = Object.keys(quality).length > 0 ? { ...processed, captureQuality: quality } : processed
       
       // Save scan to database
       try {
@@ -181,9 +231,17 @@ export function ScannerContentRefactored() {
     }
   })
 
+  // Not everyone has a UV light; grade with the visible-light captures alone
+  const skipUV = () => {
+    setCurrentStep('complete')
+    processScan(captures, captureQuality)
+  }
+
   const reset = () => {
     setCurrentStep('front')
     setCaptures({})
+    setCaptureQuality({})
+    setCoaching([])
     setScanResult(null)
     setError(null)
     setScanMode(null)
@@ -369,6 +427,7 @@ export function ScannerContentRefactored() {
                       height: 720,
                       facingMode: "environment"
                     }}
+                    onUserMedia={handleUserMedia}
                     onUserMediaError={handleWebcamError}
                   />
                   
@@ -376,6 +435,12 @@ export function ScannerContentRefactored() {
                   <div className="absolute inset-0 pointer-events-none">
                     {captureFlash && <div className="capture-flash" />}
                     <div className="scan-line" />
+                    <CaptureCoaching issues={coaching} />
+                    {autoCapture && <AutoCaptureIndicator state={autoCaptureState} />}
+
+                    <div className="absolute top-2 left-2">
+                      <CalibrationBadge profile={calibration} />
+                    </div>
                     
                     {/* Corner guides */}
                     <div className="absolute top-8 left-8 w-16 h-16 border-l-2 border-t-2 border-primary" />
@@ -389,7 +454,9 @@ export function ScannerContentRefactored() {
                         Position {stepLabels[currentStep]}
                       </p>
                       <p className="text-center text-sm text-gray-300 mt-1">
-                        Align card within the guides and hold steady
+                        {currentStep === 'uv'
+                          ? 'Turn off the lights and shine a 365 nm UV torch across the card'
+                          : 'Align card within the guides and hold steady'}
                       </p>
                     </div>
                   </div>
@@ -397,6 +464,15 @@ export function ScannerContentRefactored() {
               )}
             </div>
 
+            <div className="mb-4">
+              <button
+                onClick={() => setAutoCapture(!autoCapture)}
+                className="text-sm text-gray-400 hover:text-white transition"
+              >
+                {autoCapture ? 'Auto-Capture: On' : 'Auto-Capture: Off'}
+              </button>
+            </div>
+
             {/* Controls */}
             <div className="flex gap-4">
               <button
@@ -407,6 +483,16 @@ export function ScannerContentRefactored() {
                 <Camera className="w-5 h-5 mr-2" />
                 Capture {stepLabels[currentStep]}
               </button>
+
+              {currentStep === 'uv' && (
+                <button
+                  onClick={skipUV}
+                  disabled={isProcessing}
+                  className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white px-6 py-3 rounded-lg font-semibold transition"
+                >
+                  Skip UV
+                </button>
+              )}
               
               <button
                 onClick={reset}
@@ -0,0 +1,531 @@
+'use client'
+
+import { useState, useRef, useCallback, useEffect } from 'react'
+import Webcam from 'react-webcam'
+import Link from 'next/link'
+import { Camera, Loader2, RotateCw, X, Pencil, Check, Download, Layers, Upload, FolderOpen } from 'lucide-react'
+import { ErrorBoundary } from '@/components/ErrorBoundary'
+import { AutoCaptureIndicator, CaptureCoaching } from '@/components/CaptureCoaching'
+import { CalibrationBadge } from '@/components/Calibration'
+import { useFeatureFlags } from '@/hooks/useService'
+import { useAutoCapture } from '@/hooks/useAutoCapture'
+import { CameraService } from '@/services/CameraService'
+import { DatabaseService } from '@/services/DatabaseService'
+import { SubscriptionService } from '@/services/SubscriptionService'
+import { marketDataService } from '@/services/MarketDataService'
+import { visionWorkerClient } from '@/lib/vision/worker/VisionWorkerClient'
+import { CaptureQualityAssessor, QualityIssue } from '@/lib/vision/CaptureQuality'
+import { decodeImage } from '@/lib/vision/canvas'
+import type { CalibrationProfile } from '@/lib/vision/Calibration'
+import { calibrationStore } from '@/lib/vision/CalibrationStore'
+import { BulkCorrections, BulkItemStatus, BulkScanItem, BulkScanQueue, CaptureSource } from '@/lib/bulk/BulkScanQueue'
+import { batchToCsv, toBatch, toBatchCard } from '@/lib/bulk/BatchExport'
+import {
+  ImportProgress,
+  ImportedImage,
+  imagesFromFiles,
+  loadImagePairs,
+  pickImageDirectory,
+  readCaptures,
+  supportsDirectoryPicker
+} from '@/lib/bulk/FileImport'
+import type { ProcessedCard } from '@/lib/interfaces/services'
+
+const captureAssessor = new CaptureQualityAssessor()
+
+const statusStyles: Record<BulkItemStatus, string> = {
+  'queued': 'bg-gray-700 text-gray-300',
+  'processing': 'bg-blue-500/20 text-blue-300',
+  'done': 'bg-green-500/20 text-green-400',
+  'failed': 'bg-red-500/20 text-red-400',
+  'cancelled': 'bg-gray-700 text-gray-500'
+}
+
+// Grade, price and save one card; runs in the background while the next is captured
+async function processBulkCard(
+  sources: Record<string, CaptureSource>,
+  signal: AbortSignal,
+  calibration?: CalibrationProfile | null
+): Promise<ProcessedCard> {
+  // Imported files are read only now, one card at a time
+  const captures = await readCaptures(sources)
+  let result = await visionWorkerClient.processCard(captures, { signal, calibration })
+
+  if (result.cardDetails && result.estimatedValue === undefined) {
+    try {
+      const market = await marketDataService.getMarketData(result.cardDetails, result.grade)
+      result = { ...result, estimatedValue: market.averagePrice }
+    } catch (err) {
+      console.error('Failed to fetch market data:', err)
+    }
+  }
+
+  try {
+    await DatabaseService.saveScan({ captures, result, timestamp: Date.now() })
+    SubscriptionService.incrementScanCount()
+  } catch (saveError) {
+    console.error('Failed to save scan:', saveError)
+  }
+
+  return result
+}
+
+function download(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function plural(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+function BulkScanner() {
+  const webcamRef = useRef<Webcam>(null)
+  const featureFlags = useFeatureFlags()
+  const [enabled, setEnabled] = useState<boolean | null>(null)
+  const [hasPermission, setHasPermission] = useState<boolean | null>(null)
+  const [items, setItems] = useState<BulkScanItem[]>([])
+  const [coaching, setCoaching] = useState<QualityIssue[]>([])
+  const [autoCapture, setAutoCapture] = useState(true)
+  const [captureFlash, setCaptureFlash] = useState(false)
+  const [editing, setEditing] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [importing, setImporting] = useState<ImportProgress | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [calibration, setCalibration] = useState<CalibrationProfile | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const queueRef = useRef<BulkScanQueue | null>(null)
+
+  if (!queueRef.current) {
+    queueRef.current = new BulkScanQueue({ process: processBulkCard, onChange: setItems })
+  }
+  const queue = queueRef.current
+
+  useEffect(() => {
+    if (!featureFlags || typeof featureFlags.isBulkScanningEnabled !== 'function') return
+    featureFlags.isBulkScanningEnabled()
+      .then(setEnabled)
+      .catch((error: Error) => {
+        console.warn('Failed to get feature flag:', error)
+        setEnabled(false)
+      })
+  }, [featureFlags])
+
+  useEffect(() => {
+    CameraService.checkPermissions().then(setHasPermission)
+    visionWorkerClient.initialize().catch(err => {
+      console.error('Failed to load AI model:', err)
+      setError('Failed to load AI model. Please refresh the page.')
+    })
+    // Leaving the page abandons whatever has not been graded yet
+    return () => queue.cancelAll()
+  }, [queue])
+
+  const capture = useCallback(async () => {
+    // Queued cards count against the limit before they are saved
+    const pending = queue.summary()
+    if (SubscriptionService.getScansRemaining() - pending.queued - pending.processing <= 0) {
+      setError('You\'ve reached your scan limit. Please upgrade to continue.')
+      return false
+    }
+
+    const imageSrc = webcamRef.current?.getScreenshot()
+    if (!imageSrc) return false
+
+    const quality = captureAssessor.assess(await decodeImage(imageSrc))
+    setCoaching(quality.issues)
+    if (!quality.acceptable) return false
+
+    setCaptureFlash(true)
+    setTimeout(() => setCaptureFlash(false), 300)
+    queue.add({ front: imageSrc }, calibration)
+    return true
+  }, [queue, calibration])
+
+  // Pair the imported images and queue each card like a capture
+  const importImages = async (images: ImportedImage[]) => {
+    if (images.length === 0) return
+    setError(null)
+    setNotice(null)
+    setImporting({ loaded: 0, total: images.length })
+
+    try {
+      const { pairs, unmatched } = await loadImagePairs(images, setImporting)
+      const pending = queue.summary()
+      const allowed = Math.max(0, SubscriptionService.getScansRemaining() - pending.queued - pending.processing)
+      const queued = pairs.slice(0, allowed)
+      queued.forEach(({ front, back }) => {
+        queue.add(back ? { front: front.file, back: back.file } : { front: front.file })
+      })
+
+      const paired = queued.filter(pair => pair.back).length
+      const messages = [`Queued ${plural(queued.length, 'card')} from ${images.length} images (${paired} front/back pairs)`]
+      if (unmatched.length > 0) {
+        messages.push(`Skipped ${plural(unmatched.length, 'back image')} with no matching front`)
+      }
+      if (queued.length < pairs.length) {
+        messages.push(`${plural(pairs.length - queued.length, 'card')} not queued because of your scan limit`)
+      }
+      setNotice(messages.join('. '))
+    } catch (err) {
+      console.error('Import failed:', err)
+      setError('Failed to import images. Please try again.')
+    } finally {
+      setImporting(null)
+    }
+  }
+
+  const importFolder = async () => {
+    try {
+      await importImages(await pickImageDirectory())
+    } catch (err) {
+      console.error('Folder import failed:', err)
+      setError('Could not read that folder. Try selecting the files instead.')
+    }
+  }
+
+  const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files
+    if (files) importImages(imagesFromFiles(files))
+    event.target.value = ''
+  }
+
+  const autoCaptureState = useAutoCapture(webcamRef, !!enabled && autoCapture && hasPermission === true, true, capture)
+
+  const exportBatch = (format: 'json' | 'csv') => {
+    const batch = toBatch(queue.items)
+    const stamp = batch.exportedAt.slice(0, 19).replace(/[:T]/g, '-')
+    if (format === 'json') {
+      download(`vericard-batch-${stamp}.json`, JSON.stringify(batch, null, 2), 'application/json')
+    } else {
+      download(`vericard-batch-${stamp}.csv`, batchToCsv(batch), 'text/csv')
+    }
+  }
+
+  if (enabled === null) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    )
+  }
+
+  if (!enabled) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center p-4">
+        <div className="bg-gray-800 rounded-xl p-12 text-center max-w-md">
+          <Layers className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Bulk Scanning Not Available</h2>
+          <p className="text-gray-400 mb-6">Bulk scanning is not enabled for your account yet.</p>
+          <Link
+            href="/scanner"
+            className="inline-block bg-primary hover:bg-primary/90 text-white px-6 py-3 rounded-lg font-semibold transition"
+          >
+            Scan One Card
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const summary = queue.summary()
+  const totalValue = toBatch(items).totalValue
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      {/* Header */}
+      <div className="bg-black/50 backdrop-blur-lg border-b border-white/10 p-4">
+        <div className="max-w-6xl mx-auto flex justify-between items-center">
+          <Link href="/" className="text-xl font-bold">VeriCard Scan Pro</Link>
+          <div className="flex items-center gap-4 text-sm">
+            <span className="text-gray-400">
+              {summary.done}/{summary.total} graded
+              {summary.failed > 0 && <span className="text-red-400"> · {summary.failed} failed</span>}
+            </span>
+            <span className="text-primary">${totalValue.toFixed(2)}</span>
+            <Link href="/scanner" className="text-gray-400 hover:text-white transition">← Single Scan</Link>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto p-4 grid lg:grid-cols-2 gap-6">
+        {/* Camera */}
+        <div>
+          {error && (
+            <div className="mb-4 p-4 bg-red-500/20 border border-red-500 rounded-lg">
+              {error}
+            </div>
+          )}
+          {notice && (
+            <div className="mb-4 p-4 bg-blue-500/10 border border-blue-500/30 rounded-lg text-sm text-blue-300">
+              {notice}
+            </div>
+          )}
+
+          <div className="relative w-full aspect-[4/3] bg-black rounded-xl overflow-hidden mb-4">
+            {hasPermission === false ? (
+              <div className="absolute inset-0 flex items-center justify-center bg-black/80">
+                <div className="text-center">
+                  <Camera className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+                  <p className="text-lg mb-2">Camera Access Required</p>
+                  <button
+                    onClick={() => CameraService.checkPermissions().then(setHasPermission)}
+                    className="bg-primary hover:bg-primary/90 text-white px-6 py-2 rounded-lg"
+                  >
+                    Enable Camera
+                  </button>
+                </div>
+              </div>
+            ) : hasPermission === null ? (
+              <div className="absolute inset-0 flex items-center justify-center bg-black/80">
+                <Loader2 className="w-8 h-8 animate-spin" />
+              </div>
+            ) : (
+              <>
+                <Webcam
+                  ref={webcamRef}
+                  audio={false}
+                  screenshotFormat="image/jpeg"
+                  className="w-full h-full object-cover"
+                  videoConstraints={{
+                    width: 1280,
+                    height: 720,
+                    facingMode: "environment"
+                  }}
+                  onUserMedia={stream => setCalibration(calibrationStore.get(stream.getVideoTracks()[0]?.getSettings().deviceId))}
+                  onUserMediaError={() => setHasPermission(false)}
+                />
+                <div className="absolute inset-0 pointer-events-none">
+                  {captureFlash && <div className="capture-flash" />}
+                  <CaptureCoaching issues={coaching} />
+                  {autoCapture && <AutoCaptureIndicator state={autoCaptureState} />}
+                  <div className="absolute top-2 left-2">
+                    <CalibrationBadge profile={calibration} />
+                  </div>
+                  <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-6">
+                    <p className="text-center text-lg font-semibold">Card {summary.total + 1}</p>
+                    <p className="text-center text-sm text-gray-300 mt-1">
+                      Place the next card in frame; earlier cards keep grading in the background
+                    </p>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="flex gap-4">
+            <button
+              onClick={capture}
+              disabled={hasPermission !== true}
+              className="bg-primary hover:bg-primary/90 disabled:bg-gray-700 disabled:opacity-50 text-white px-8 py-3 rounded-lg font-semibold transition flex items-center"
+            >
+              <Camera className="w-5 h-5 mr-2" />
+              Capture Card
+            </button>
+            <button
+              onClick={() => setAutoCapture(!autoCapture)}
+              className="text-sm text-gray-400 hover:text-white transition"
+            >
+              {autoCapture ? 'Auto-Capture: On' : 'Auto-Capture: Off'}
+            </button>
+          </div>
+
+          {/* Import from a flatbed or scanning app */}
+          <div className="mt-6 bg-gray-800 rounded-xl p-4">
+            <h3 className="font-semibold mb-1">Import Scans</h3>
+            <p className="text-sm text-gray-400 mb-4">
+              Fronts and backs are paired by name (card12_front / card12_back, or fronts/ and backs/ folders), otherwise by how they look
+            </p>
+            {importing ? (
+              <div className="flex items-center text-sm text-blue-300">
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                Reading images {importing.loaded}/{importing.total}...
+              </div>
+            ) : (
+              <div className="flex gap-3">
+                {supportsDirectoryPicker() && (
+                  <button
+                    onClick={importFolder}
+                    className="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded-lg text-sm flex items-center"
+                  >
+                    <FolderOpen className="w-4 h-4 mr-2" /> Import Folder
+                  </button>
+                )}
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded-lg text-sm flex items-center"
+                >
+                  <Upload className="w-4 h-4 mr-2" /> Import Files
+                </button>
+              </div>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handleFiles}
+              className="hidden"
+            />
+          </div>
+        </div>
+
+        {/* Session */}
+        <div className="bg-gray-800 rounded-xl p-4 flex flex-col">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold">This Session</h2>
+            <div className="flex gap-2">
+              <button
+                onClick={() => exportBatch('csv')}
+                disabled={items.length === 0}
+                className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 px-3 py-1.5 rounded-lg text-sm flex items-center"
+              >
+                <Download className="w-4 h-4 mr-1" /> CSV
+              </button>
+              <button
+                onClick={() => exportBatch('json')}
+                disabled={items.length === 0}
+                className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 px-3 py-1.5 rounded-lg text-sm flex items-center"
+              >
+                <Download className="w-4 h-4 mr-1" /> JSON
+              </button>
+            </div>
+          </div>
+
+          {items.length === 0 ? (
+            <p className="text-gray-400 text-center py-12">Captured cards show up here as they are graded</p>
+          ) : (
+            <ul className="space-y-2 overflow-y-auto max-h-[70vh]">
+              {items.slice().reverse().map(item => (
+                <BulkItemRow
+                  key={item.id}
+                  item={item}
+                  editing={editing === item.id}
+                  onEdit={() => setEditing(item.id)}
+                  onSave={corrections => {
+                    queue.correct(item.id, corrections)
+                    setEditing(null)
+                  }}
+                  onCancelEdit={() => setEditing(null)}
+                  onRetry={() => queue.retry(item.id)}
+                  onCancel={() => queue.cancel(item.id)}
+                  onRemove={() => queue.remove(item.id)}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface BulkItemRowProps {
+  item: BulkScanItem
+  editing: boolean
+  onEdit: () => void
+  onSave: (corrections: BulkCorrections) => void
+  onCancelEdit: () => void
+  onRetry: () => void
+  onCancel: () => void
+  onRemove: () => void
+}
+
+// One card in the session list, with inline fixes for a wrong read
+function BulkItemRow({ item, editing, onEdit, onSave, onCancelEdit, onRetry, onCancel, onRemove }: BulkItemRowProps) {
+  const card = toBatchCard(item)
+  const [player, setPlayer] = useState(card.player ?? '')
+  const [year, setYear] = useState(card.year?.toString() ?? '')
+  const [grade, setGrade] = useState(card.grade?.toString() ?? '')
+  const [value, setValue] = useState(card.value?.toString() ?? '')
+
+  const save = () => {
+    const corrections: BulkCorrections = { cardDetails: { player: player.trim() } }
+    if (year) corrections.cardDetails!.year = parseInt(year, 10)
+    if (grade) corrections.grade = parseFloat(grade)
+    if (value) corrections.value = parseFloat(value)
+    onSave(corrections)
+  }
+
+  return (
+    <li className="bg-gray-900/60 rounded-lg p-3 flex gap-3 items-start">
+      <CaptureThumbnail source={item.captures.front} />
+      <div className="flex-1 min-w-0">
+        {editing ? (
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <input value={player} onChange={e => setPlayer(e.target.value)} placeholder="Player" className="col-span-2 bg-gray-800 rounded px-2 py-1" />
+            <input value={year} onChange={e => setYear(e.target.value)} placeholder="Year" inputMode="numeric" className="bg-gray-800 rounded px-2 py-1" />
+            <input value={grade} onChange={e => setGrade(e.target.value)} placeholder="Grade" inputMode="decimal" className="bg-gray-800 rounded px-2 py-1" />
+            <input value={value} onChange={e => setValue(e.target.value)} placeholder="Value ($)" inputMode="decimal" className="bg-gray-800 rounded px-2 py-1" />
+            <div className="flex gap-2">
+              <button onClick={save} className="text-green-400 hover:text-green-300" title="Save"><Check className="w-4 h-4" /></button>
+              <button onClick={onCancelEdit} className="text-gray-400 hover:text-white" title="Discard"><X className="w-4 h-4" /></button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <span className="font-semibold truncate">
+                {card.player ? `${card.year ?? ''} ${card.player}`.trim() : 'Unidentified card'}
+              </span>
+              {card.corrected && <span className="text-xs text-yellow-400">edited</span>}
+            </div>
+            <div className="text-sm text-gray-400 flex gap-3">
+              <span className={`px-2 rounded-full text-xs ${statusStyles[item.status]}`}>
+                {item.status === 'processing' && <Loader2 className="w-3 h-3 animate-spin inline mr-1" />}
+                {item.status}
+              </span>
+              {card.grade !== undefined && <span>Grade {card.grade}</span>}
+              {card.value !== undefined && <span>${card.value.toFixed(2)}</span>}
+            </div>
+            {item.error && <p className="text-xs text-red-400 mt-1">{item.error}</p>}
+          </>
+        )}
+      </div>
+      {!editing && (
+        <div className="flex gap-2 text-gray-400">
+          {item.status === 'done' && (
+            <button onClick={onEdit} className="hover:text-white" title="Fix details"><Pencil className="w-4 h-4" /></button>
+          )}
+          {(item.status === 'failed' || item.status === 'cancelled') && (
+            <button onClick={onRetry} className="hover:text-white" title="Retry"><RotateCw className="w-4 h-4" /></button>
+          )}
+          {(item.status === 'queued' || item.status === 'processing') ? (
+            <button onClick={onCancel} className="hover:text-white" title="Cancel"><X className="w-4 h-4" /></button>
+          ) : (
+            <button onClick={onRemove} className="hover:text-white" title="Remove"><X className="w-4 h-4" /></button>
+          )}
+        </div>
+      )}
+    </li>
+  )
+}
+
+// Imported files are shown through an object URL, which doesn't read them into memory
+function CaptureThumbnail({ source }: { source?: CaptureSource }) {
+  const [src, setSrc] = useState<string>()
+
+  useEffect(() => {
+    if (!source || typeof source === 'string') {
+      setSrc(source)
+      return
+    }
+    const url = URL.createObjectURL(source)
+    setSrc(url)
+    return () => URL.revokeObjectURL(url)
+  }, [source])
+
+  return src ? <img src={src} alt="" className="w-12 h-16 object-cover rounded" /> : <div className="w-12 h-16 rounded bg-gray-800" />
+}
+
+export default function BulkScannerPage() {
+  return (
+    <ErrorBoundary>
+      <BulkScanner />
+    </ErrorBoundary>
+  )
+}
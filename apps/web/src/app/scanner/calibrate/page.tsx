@@ -0,0 +1,242 @@
+'use client'
+
+import { useState, useRef, useCallback, useEffect } from 'react'
+import Webcam from 'react-webcam'
+import Link from 'next/link'
+import { Camera, Loader2, Check, Printer, Trash2 } from 'lucide-react'
+import { ErrorBoundary } from '@/components/ErrorBoundary'
+import { CalibrationTarget } from '@/components/Calibration'
+import { CameraService } from '@/services/CameraService'
+import { decodeImage } from '@/lib/vision/canvas'
+import { CalibrationProfile, measureCalibrationTarget } from '@/lib/vision/Calibration'
+import { calibrationStore } from '@/lib/vision/CalibrationStore'
+
+// The camera the browser opened for the current constraints
+interface ActiveCamera {
+  deviceId: string
+  label: string
+}
+
+function CalibrationContent() {
+  const webcamRef = useRef<Webcam>(null)
+  const [hasPermission, setHasPermission] = useState<boolean | null>(null)
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+  const [selectedDevice, setSelectedDevice] = useState<string>('')
+  const [activeCamera, setActiveCamera] = useState<ActiveCamera | null>(null)
+  const [profiles, setProfiles] = useState<CalibrationProfile[]>([])
+  const [measuring, setMeasuring] = useState(false)
+  const [result, setResult] = useState<CalibrationProfile | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setProfiles(calibrationStore.list())
+    // Labels are only filled in once camera access is granted
+    CameraService.checkPermissions().then(async granted => {
+      setHasPermission(granted)
+      if (granted) setDevices(await CameraService.getDevices())
+    })
+  }, [])
+
+  const handleUserMedia = useCallback((stream: MediaStream) => {
+    const track = stream.getVideoTracks()[0]
+    const deviceId = track?.getSettings().deviceId
+    setActiveCamera(deviceId ? { deviceId, label: track.label || 'Camera' } : null)
+  }, [])
+
+  const calibrate = async () => {
+    const imageSrc = webcamRef.current?.getScreenshot()
+    if (!imageSrc || !activeCamera) return
+
+    setMeasuring(true)
+    setError(null)
+    setResult(null)
+    try {
+      const measurement = measureCalibrationTarget(await decodeImage(imageSrc))
+      const profile: CalibrationProfile = {
+        ...measurement,
+        deviceId: activeCamera.deviceId,
+        label: activeCamera.label,
+        createdAt: Date.now()
+      }
+      calibrationStore.save(profile)
+      setProfiles(calibrationStore.list())
+      setResult(profile)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Calibration failed. Please try again.')
+    } finally {
+      setMeasuring(false)
+    }
+  }
+
+  const removeProfile = (deviceId: string) => {
+    calibrationStore.remove(deviceId)
+    setProfiles(calibrationStore.list())
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      {/* Header */}
+      <div className="bg-black/50 backdrop-blur-lg border-b border-white/10 p-4 print:hidden">
+        <div className="max-w-6xl mx-auto flex justify-between items-center">
+          <Link href="/" className="text-xl font-bold">VeriCard Scan Pro</Link>
+          <Link href="/scanner" className="text-sm text-gray-400 hover:text-white transition">← Back to Scanner</Link>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto p-4 grid lg:grid-cols-2 gap-6 print:block print:p-0">
+        {/* Printable target */}
+        <div className="bg-gray-800 rounded-xl p-6 print:bg-white print:p-0">
+          <div className="print:hidden">
+            <h1 className="text-2xl font-bold mb-2">Calibrate Your Camera</h1>
+            <p className="text-sm text-gray-400 mb-4">
+              Print the calibration card at 100% scale on white card stock, then scan it once for each camera
+              and lighting setup. Colours are corrected and sizes measured against it, and scans from a
+              calibrated camera carry more confidence.
+            </p>
+          </div>
+          <div className="flex justify-center mb-4">
+            <CalibrationTarget />
+          </div>
+          <button
+            onClick={() => window.print()}
+            className="w-full bg-gray-700 hover:bg-gray-600 py-2 rounded-lg flex items-center justify-center print:hidden"
+          >
+            <Printer className="w-4 h-4 mr-2" />
+            Print Calibration Card
+          </button>
+        </div>
+
+        {/* Camera */}
+        <div className="print:hidden">
+          {error && (
+            <div className="mb-4 p-4 bg-red-500/20 border border-red-500 rounded-lg">
+              {error}
+            </div>
+          )}
+          {result && (
+            <div className="mb-4 p-4 bg-green-500/10 border border-green-500/30 rounded-lg text-sm text-green-300">
+              <p className="flex items-center font-semibold">
+                <Check className="w-4 h-4 mr-2" />
+                {result.label} calibrated
+              </p>
+              <p className="mt-1">
+                Colour error {result.errorBefore} → {result.residualError} · {result.pxPerMm} px/mm at {result.frameWidth}×{result.frameHeight}
+              </p>
+            </div>
+          )}
+
+          {devices.length > 1 && (
+            <select
+              value={selectedDevice}
+              onChange={event => setSelectedDevice(event.target.value)}
+              className="w-full mb-4 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm"
+            >
+              <option value="">Default camera</option>
+              {devices.map((device, index) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label || `Camera ${index + 1}`}
+                </option>
+              ))}
+            </select>
+          )}
+
+          <div className="relative w-full aspect-[4/3] bg-black rounded-xl overflow-hidden mb-4">
+            {hasPermission === false ? (
+              <div className="absolute inset-0 flex items-center justify-center bg-black/80">
+                <div className="text-center">
+                  <Camera className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+                  <p className="text-lg mb-2">Camera Access Required</p>
+                  <button
+                    onClick={() => CameraService.checkPermissions().then(setHasPermission)}
+                    className="bg-primary hover:bg-primary/90 text-white px-6 py-2 rounded-lg"
+                  >
+                    Enable Camera
+                  </button>
+                </div>
+              </div>
+            ) : hasPermission === null ? (
+              <div className="absolute inset-0 flex items-center justify-center bg-black/80">
+                <Loader2 className="w-8 h-8 animate-spin" />
+              </div>
+            ) : (
+              <>
+                {/* Same resolution as the scanner so the measured scale carries over */}
+                <Webcam
+                  key={selectedDevice}
+                  ref={webcamRef}
+                  audio={false}
+                  screenshotFormat="image/jpeg"
+                  className="w-full h-full object-cover"
+                  videoConstraints={{
+                    width: 1280,
+                    height: 720,
+                    ...(selectedDevice ? { deviceId: { exact: selectedDevice } } : { facingMode: "environment" })
+                  }}
+                  onUserMedia={handleUserMedia}
+                  onUserMediaError={() => setHasPermission(false)}
+                />
+                <div className="absolute inset-0 pointer-events-none">
+                  <div className="absolute top-8 left-8 w-16 h-16 border-l-2 border-t-2 border-primary" />
+                  <div className="absolute top-8 right-8 w-16 h-16 border-r-2 border-t-2 border-primary" />
+                  <div className="absolute bottom-8 left-8 w-16 h-16 border-l-2 border-b-2 border-primary" />
+                  <div className="absolute bottom-8 right-8 w-16 h-16 border-r-2 border-b-2 border-primary" />
+                  <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-6">
+                    <p className="text-center text-lg font-semibold">Position Calibration Card</p>
+                    <p className="text-center text-sm text-gray-300 mt-1">
+                      Use the light you scan under, on a darker surface, framed like a card you would grade
+                    </p>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+
+          <button
+            onClick={calibrate}
+            disabled={!hasPermission || !activeCamera || measuring}
+            className="w-full bg-primary hover:bg-primary/90 disabled:opacity-50 text-white py-4 rounded-lg font-semibold flex items-center justify-center transition"
+          >
+            {measuring ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Camera className="w-5 h-5 mr-2" />}
+            Calibrate {activeCamera?.label ?? 'Camera'}
+          </button>
+
+          {/* Saved profiles */}
+          <div className="mt-6 bg-gray-800 rounded-xl p-4">
+            <h2 className="font-semibold mb-3">Calibrated Cameras</h2>
+            {profiles.length === 0 ? (
+              <p className="text-sm text-gray-400">No cameras calibrated yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {profiles.map(profile => (
+                  <li key={profile.deviceId} className="flex justify-between items-center text-sm">
+                    <div>
+                      <p>{profile.label}</p>
+                      <p className="text-xs text-gray-400">
+                        {new Date(profile.createdAt).toLocaleDateString()} · colour error {profile.residualError}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => removeProfile(profile.deviceId)}
+                      className="text-gray-400 hover:text-white"
+                      title="Remove calibration"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function CalibrationPage() {
+  return (
+    <ErrorBoundary>
+      <CalibrationContent />
+    </ErrorBoundary>
+  )
+}
@@ -2,17 +2,36 @@
 
 import { useState, useRef, useCallback, useEffect } from 'react'
 import Webcam from 'react-webcam'
-import { Camera, RotateCw, Check, X, Loader2, Info, Upload, Image, TrendingUp, TrendingDown, Activity } from 'lucide-react'
+import { Camera, RotateCw, Check, X, Loader2, Info, Upload, Image, TrendingUp, TrendingDown, Activity, Award, Layers } from 'lucide-react'
 import Link from 'next/link'
 import { CameraService } from '@/services/CameraService'
-import { aiService } from '@/services/AIService'
 import { DatabaseService } from '@/services/DatabaseService'
 import { SubscriptionService } from '@/services/SubscriptionService'
 import { ErrorBoundary } from '@/components/ErrorBoundary'
+import { useFeatureFlags } from '@/hooks/useService'
 import { marketDataService } from '@/services/MarketDataService'
 import { ScanResults } from '@/components/ScanResults'
+import { AutoCaptureIndicator, CaptureCoaching } from '@/components/CaptureCoaching'
+import { CalibrationBadge } from '@/components/Calibration'
+import { visionWorkerClient } from '@/lib/vision/worker/VisionWorkerClient'
+import { PIPELINE_STAGES, PipelineStage } from '@/lib/vision/VisionPipeline'
+import { ScanCancelledError } from '@/lib/errors'
+import { CaptureQuality, CaptureQualityAssessor, QualityIssue } from '@/lib/vision/CaptureQuality'
+import { decodeImage } from '@/lib/vision/canvas'
+import type { CalibrationProfile } from '@/lib/vision/Calibration'
+import { calibrationStore } from '@/lib/vision/CalibrationStore'
+import { useAutoCapture } from '@/hooks/useAutoCapture'
 
-type CaptureStep = 'front' | 'back' | 'edge-top' | 'edge-bottom' | 'edge-left' | 'edge-right' | 'complete'
+type CaptureStep = 'front' | 'back' | 'edge-top' | 'edge-bottom' | 'edge-left' | 'edge-right' | 'uv' | 'complete'
+
+const captureAssessor = new CaptureQualityAssessor()
+
+const stageLabels: Record<PipelineStage, string> = {
+  'detect': 'Finding card',
+  'ocr': 'Reading text',
+  'damage': 'Checking condition',
+  'authenticity': 'Checking authenticity'
+}
 
 function ScannerContent() {
   const webcamRef = useRef<Webcam>(null)
@@ -28,9 +47,17 @@ function ScannerContent() {
   const [simpleMode, setSimpleMode] = useState(true) // Start with simple mode
   const [scansRemaining, setScansRemaining] = useState<number>(0)
   const [modelLoading, setModelLoading] = useState(false)
-  const [scanMode, setScanMode] = useState<'camera' | 'upload' | null>(null)
+  const [scanMode, setScanMode] = useState<'camera' | 'upload' | 'slab' | null>(null)
   const [uploadedImage, setUploadedImage] = useState<string | null>(null)
   const [captureFlash, setCaptureFlash] = useState(false)
+  const [processingStage, setProcessingStage] = useState<PipelineStage | null>(null)
+  const [captureQuality, setCaptureQuality] = useState<Record<string, CaptureQuality>>({})
+  const [coaching, setCoaching] = useState<QualityIssue[]>([])
+  const [autoCapture, setAutoCapture] = useState(false)
+  const [bulkEnabled, setBulkEnabled] = useState(false)
+  const [calibration, setCalibration] = useState<CalibrationProfile | null>(null)
+  const featureFlags = useFeatureFlags()
+  const scanAbortRef = useRef<AbortController | null>(null)
 
   const stepLabels: Record<CaptureStep, string> = {
     'front': 'Card Front',
@@ -39,6 +66,7 @@ function ScannerContent() {
     'edge-bottom': 'Bottom Edge',
     'edge-left': 'Left Edge',
     'edge-right': 'Right Edge',
+    'uv': 'UV Light',
     'complete': 'Scan Complete'
   }
 
@@ -49,9 +77,9 @@ function ScannerContent() {
     SubscriptionService.checkExpiration()
     setScansRemaining(SubscriptionService.getScansRemaining())
     
-    // Preload AI model
+    // Preload AI model in the vision worker
     setModelLoading(true)
-    aiService.initialize()
+    visionWorkerClient.initialize()
       .then(() => setModelLoading(false))
       .catch(err => {
         console.error('Failed to load AI model:', err)
@@ -60,6 +88,15 @@ function ScannerContent() {
       })
   }, [])
 
+  // Bulk mode is still rolling out
+  useEffect(() => {
+    if (featureFlags && typeof featureFlags.isBulkScanningEnabled === 'function') {
+      featureFlags.isBulkScanningEnabled().then(setBulkEnabled).catch((error: Error) => {
+        console.warn('Failed to get feature flag:', error)
+      })
+    }
+  }, [featureFlags])
+
   // Handle webcam errors
   const handleWebcamError = useCallback((error: string | DOMException) => {
     console.error('Webcam error:', error)
@@ -67,30 +104,46 @@ function ScannerContent() {
     setHasPermission(false)
   }, [])
 
-  const capture = useCallback(() => {
+  // Look up the profile of the camera the browser actually opened
+  const handleUserMedia = useCallback((stream: MediaStream) => {
+    setCalibration(calibrationStore.get(stream.getVideoTracks()[0]?.getSettings().deviceId))
+  }, [])
+
+  const capture = useCallback(async () => {
     // Check scan limits before capturing
     if (!SubscriptionService.canScan()) {
       setError(`You've reached your free scan limit (${SubscriptionService.getScansRemaining()} remaining). Please upgrade to continue.`)
       setTimeout(() => {
         window.location.href = '/subscription'
       }, 3000)
-      return
+      return false
     }
 
     const imageSrc = webcamRef.current?.getScreenshot()
     if (imageSrc && currentStep !== 'complete') {
+      // Quality gate: unusable frames are refused with coaching instead of graded
+      // Edge close-ups and slabs are not card-shaped, so framing is not checked for them.
+      // UV captures are dark and blue on purpose, so they skip the gate
+      const quality = currentStep === 'uv' ? undefined : captureAssessor.assess(await decodeImage(imageSrc), {
+        requireCard: scanMode !== 'slab' && (currentStep === 'front' || currentStep === 'back')
+      })
+      setCoaching(quality?.issues ?? [])
+      if (quality && !quality.acceptable) return false
+
       // Trigger capture flash animation
       setCaptureFlash(true)
       setTimeout(() => setCaptureFlash(false), 300)
       
       setCaptures(prev => ({ ...prev, [currentStep]: imageSrc }))
+      const qualities = quality ? { ...captureQuality, [currentStep]: quality } : captureQuality
+      setCaptureQuality(qualities)
       
-      if (simpleMode) {
-        // In simple mode, process immediately after front capture
-        processScan({ front: imageSrc })
+      if (simpleMode || scanMode === 'slab') {
+        // In simple and slab mode, process immediately after front capture
+        processScan({ front: imageSrc }, scanMode === 'slab', qualities)
       } else {
         // Multi-angle mode
-        const steps: CaptureStep[] = ['front', 'back', 'edge-top', 'edge-bottom', 'edge-left', 'edge-right', 'complete']
+        const steps: CaptureStep[] = ['front', 'back', 'edge-top', 'edge-bottom', 'edge-left', 'edge-right', 'uv', 'complete']
         const currentIndex = steps.indexOf(currentStep)
         if (currentIndex < steps.length - 1) {
           setCurrentStep(steps[currentIndex + 1] as CaptureStep)
@@ -98,15 +151,33 @@ function ScannerContent() {
         
         // If all captures complete, process
         if (currentIndex === steps.length - 2) {
-          processScan({ ...captures, [currentStep]: imageSrc })
+          processScan({ ...captures, [currentStep]: imageSrc }, false, qualities)
         }
       }
+      return true
     }
-  }, [currentStep, captures, simpleMode])
+    return false
+  }, [currentStep, captures, captureQuality, simpleMode, scanMode, calibration])
 
-  const processScan = async (allCaptures: Record<string, string>) => {
+  // Hands-free capture; in multi-angle mode each shot advances the step, so it walks the whole sequence
+  const autoCaptureState = useAutoCapture(
+    webcamRef,
+    autoCapture && !!scanMode && scanMode !== 'upload' && hasPermission === true &&
+      !isProcessing && !modelLoading && currentStep !== 'complete' && currentStep !== 'uv',
+    scanMode !== 'slab' && (currentStep === 'front' || currentStep === 'back'),
+    capture
+  )
+
+  const processScan = async (
+    allCaptures: Record<string, string>,
+    slab = false,
+    quality: Record<string, CaptureQuality> = {}
+  ) => {
     setIsProcessing(true)
     setError(null)
+    setProcessingStage(null)
+    const controller = new AbortController()
+    scanAbortRef.current = controller
     
     try {
       // Grace Hopper: Initialize with error handling
@@ -118,7 +189,21 @@ function ScannerContent() {
       }
       
       // Grace Hopper: Process with fallback behavior
-      const result = await aiService.processCard(allCaptures)
+      // Inference runs in the vision worker so the UI stays responsive
+      // Slabs keep the grader's grade; raw cards go through our own grading
+      // Uploaded photos come from an unknown camera, so only camera scans are corrected
+      const options = {
+        signal: controller.signal,
+        onProgress: ({ stage, status }: { stage: PipelineStage; status: string }) => {
+          if (status === 'started') setProcessingStage(stage)
+        },
+        calibration: scanMode === 'camera' ? calibration : null
+      }
+      const processed = slab
+        ? await visionWorkerClient.processSlab(allCaptures, options)
+        : await visionWorkerClient.processCard(allCaptures, options)
+      // Gate scores are saved with the result so weak captures can be flagged later
+      const result = Object.keys(quality).length > 0 ? { ...processed, captureQuality: quality } : processed
       
       // Grace Hopper: Save with graceful failure
       try {
@@ -152,6 +237,14 @@ function ScannerContent() {
         }
       }
     } catch (err) {
+      if (err instanceof ScanCancelledError) {
+        // Back to capturing; an uploaded image stays so it can be retried
+        setCurrentStep('front')
+        setCaptures({})
+        setCaptureQuality({})
+        return
+      }
+
       // Grace Hopper: User-friendly error messages
       const errorMessage = err instanceof Error 
         ? err.message 
@@ -159,13 +252,27 @@ function ScannerContent() {
       setError(errorMessage)
       console.error('Scan processing error:', err)
     } finally {
+      scanAbortRef.current = null
+      setProcessingStage(null)
       setIsProcessing(false)
     }
   }
 
+  // Not everyone has a UV light; grade with the visible-light captures alone
+  const skipUV = () => {
+    setCurrentStep('complete')
+    processScan(captures, false, captureQuality)
+  }
+
+  const cancelScan = () => {
+    scanAbortRef.current?.abort()
+  }
+
   const reset = () => {
     setCurrentStep('front')
     setCaptures({})
+    setCaptureQuality({})
+    setCoaching([])
     setScanResult(null)
     setError(null)
     setScanMode(null)
@@ -269,7 +376,7 @@ function ScannerContent() {
         {!scanMode && !uploadedImage && !isProcessing && (
           <div className="w-full max-w-2xl">
             <h1 className="text-3xl font-bold text-center mb-8">Choose Scan Method</h1>
-            <div className="grid md:grid-cols-2 gap-6">
+            <div className="grid md:grid-cols-3 gap-6">
               <button
                 onClick={() => setScanMode('camera')}
                 className="bg-gray-800 hover:bg-gray-700 rounded-xl p-8 transition group"
@@ -294,7 +401,26 @@ function ScannerContent() {
                 <h3 className="text-xl font-semibold mb-2">Upload Photos</h3>
                 <p className="text-gray-400 text-sm">Upload existing photos of your cards</p>
               </button>
+
+              <button
+                onClick={() => setScanMode('slab')}
+                className="bg-gray-800 hover:bg-gray-700 rounded-xl p-8 transition group"
+              >
+                <Award className="w-16 h-16 text-primary mx-auto mb-4 group-hover:scale-110 transition-transform" />
+                <h3 className="text-xl font-semibold mb-2">Graded Slab</h3>
+                <p className="text-gray-400 text-sm">Read the grade and cert number from a PSA, BGS or SGC label</p>
+              </button>
             </div>
+
+            {bulkEnabled && (
+              <Link
+                href="/scanner/bulk"
+                className="mt-6 flex items-center justify-center text-sm text-gray-400 hover:text-white transition"
+              >
+                <Layers className="w-4 h-4 mr-2" />
+                Scanning a stack? Switch to bulk mode
+              </Link>
+            )}
             
             <input
               ref={fileInputRef}
@@ -307,16 +433,12 @@ function ScannerContent() {
         )}
 
         {/* Camera/Upload Interface */}
-        {scanMode === 'camera' && (
+        {(scanMode === 'camera' || scanMode === 'slab') && (
           <>
             <div className="relative w-full max-w-2xl aspect-[4/3] bg-black rounded-xl overflow-hidden mb-6">
               {isProcessing ? (
             <div className="absolute inset-0 flex items-center justify-center bg-black/80">
-              <div className="text-center">
-                <Loader2 className="w-12 h-12 animate-spin mx-auto mb-4" />
-                <p className="text-lg">Processing scan...</p>
-                <p className="text-sm text-gray-400">This may take a few seconds</p>
-              </div>
+              <ProcessingStatus stage={processingStage} onCancel={cancelScan} />
             </div>
           ) : hasPermission === false ? (
             <div className="absolute inset-0 flex items-center justify-center bg-black/80">
@@ -348,6 +470,7 @@ function ScannerContent() {
                   height: 720,
                   facingMode: "environment"
                 }}
+                onUserMedia={handleUserMedia}
                 onUserMediaError={handleWebcamError}
               />
               
@@ -358,6 +481,15 @@ function ScannerContent() {
                 
                 {/* Scan line animation */}
                 <div className="scan-line" />
+
+                {/* Coaching from the quality gate */}
+                <CaptureCoaching issues={coaching} />
+
+                {autoCapture && <AutoCaptureIndicator state={autoCaptureState} />}
+
+                <div className="absolute top-2 left-2">
+                  <CalibrationBadge profile={calibration} />
+                </div>
                 
                 {/* Corner guides */}
                 <div className="absolute top-8 left-8 w-16 h-16 border-l-2 border-t-2 border-primary" />
@@ -368,10 +500,14 @@ function ScannerContent() {
                 {/* Instructions */}
                 <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-6">
                   <p className="text-center text-lg font-semibold">
-                    Position {stepLabels[currentStep]}
+                    {scanMode === 'slab' ? 'Position Slab Front' : `Position ${stepLabels[currentStep]}`}
                   </p>
                   <p className="text-center text-sm text-gray-300 mt-1">
-                    Align card within the guides and hold steady
+                    {scanMode === 'slab'
+                      ? 'Fit the whole slab in frame with the label at the top'
+                      : currentStep === 'uv'
+                        ? 'Turn off the lights and shine a 365 nm UV torch across the card'
+                        : 'Align card within the guides and hold steady'}
                   </p>
                 </div>
               </div>
@@ -388,7 +524,7 @@ function ScannerContent() {
             )}
 
             {/* Capture Progress */}
-            {!simpleMode && (
+            {!simpleMode && scanMode !== 'slab' && (
               <div className="flex gap-2 mb-6">
                 {Object.entries(stepLabels).filter(([k]) => k !== 'complete').map(([step, label]) => (
                   <div
@@ -408,15 +544,23 @@ function ScannerContent() {
             )}
 
             {/* Mode Toggle */}
-            <div className="mb-4">
+            <div className="mb-4 flex gap-6">
+              {scanMode !== 'slab' && (
+                <button
+                  onClick={() => {
+                    setSimpleMode(!simpleMode)
+                    reset()
+                  }}
+                  className="text-sm text-gray-400 hover:text-white transition"
+                >
+                  {simpleMode ? 'Switch to Multi-Angle Mode' : 'Switch to Simple Mode'}
+                </button>
+              )}
               <button
-                onClick={() => {
-                  setSimpleMode(!simpleMode)
-                  reset()
-                }}
+                onClick={() => setAutoCapture(!autoCapture)}
                 className="text-sm text-gray-400 hover:text-white transition"
               >
-                {simpleMode ? 'Switch to Multi-Angle Mode' : 'Switch to Simple Mode'}
+                {autoCapture ? 'Auto-Capture: On' : 'Auto-Capture: Off'}
               </button>
             </div>
 
@@ -428,8 +572,18 @@ function ScannerContent() {
                 className="bg-primary hover:bg-primary/90 disabled:bg-gray-700 disabled:opacity-50 text-white px-8 py-3 rounded-lg font-semibold transition flex items-center"
               >
                 <Camera className="w-5 h-5 mr-2" />
-                Capture {stepLabels[currentStep]}
+                {scanMode === 'slab' ? 'Capture Slab' : `Capture ${stepLabels[currentStep]}`}
               </button>
+
+              {currentStep === 'uv' && (
+                <button
+                  onClick={skipUV}
+                  disabled={isProcessing}
+                  className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white px-6 py-3 rounded-lg font-semibold transition"
+                >
+                  Skip UV
+                </button>
+              )}
               
               <button
                 onClick={reset}
@@ -447,11 +601,7 @@ function ScannerContent() {
         {uploadedImage && isProcessing && (
           <div className="w-full max-w-2xl">
             <div className="relative aspect-[4/3] bg-black rounded-xl overflow-hidden flex items-center justify-center">
-              <div className="text-center">
-                <Loader2 className="w-12 h-12 animate-spin mx-auto mb-4" />
-                <p className="text-lg">Processing scan...</p>
-                <p className="text-sm text-gray-400">This may take a few seconds</p>
-              </div>
+              <ProcessingStatus stage={processingStage} onCancel={cancelScan} />
             </div>
           </div>
         )}
@@ -477,6 +627,15 @@ function ScannerContent() {
                 <Check className="w-5 h-5 mr-2" />
                 Process Card
               </button>
+
+              <button
+                onClick={() => processScan({ front: uploadedImage }, true)}
+                disabled={modelLoading}
+                className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white py-3 rounded-lg font-semibold transition flex items-center justify-center"
+              >
+                <Award className="w-5 h-5 mr-2" />
+                Read as Graded Slab
+              </button>
               
               <button
                 onClick={() => {
@@ -507,6 +666,31 @@ function ScannerContent() {
   )
 }
 
+// Stage checklist from the vision worker's progress events
+function ProcessingStatus({ stage, onCancel }: { stage: PipelineStage | null; onCancel: () => void }) {
+  const current = stage ? PIPELINE_STAGES.indexOf(stage) : -1
+
+  return (
+    <div className="text-center">
+      <Loader2 className="w-12 h-12 animate-spin mx-auto mb-4" />
+      <p className="text-lg">Processing scan...</p>
+      <ul className="text-sm mt-3 mb-4 space-y-1">
+        {PIPELINE_STAGES.map((s, i) => (
+          <li key={s} className={i < current ? 'text-green-500' : i === current ? 'text-white' : 'text-gray-500'}>
+            {i < current ? '✓ ' : ''}{stageLabels[s]}
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={onCancel}
+        className="text-sm text-gray-400 hover:text-white transition"
+      >
+        Cancel
+      </button>
+    </div>
+  )
+}
+
 // Grace Hopper: Wrap with error boundary for resilience
 export default function ScannerPage() {
   // Use refactored scanner if available, fallback to original
@@ -0,0 +1,49 @@
+'use client'
+
+import Link from 'next/link'
+import { Palette } from 'lucide-react'
+import { CALIBRATION_COLORS, CALIBRATION_TARGET, CalibrationProfile } from '@/lib/vision/Calibration'
+
+// Whether the camera in use has a calibration profile; links to the calibration page either way
+export function CalibrationBadge({ profile }: { profile: CalibrationProfile | null }) {
+  return (
+    <Link
+      href="/scanner/calibrate"
+      className={`pointer-events-auto inline-flex items-center px-3 py-1 rounded-full text-xs font-medium ${
+        profile ? 'bg-green-500/20 text-green-400' : 'bg-yellow-500/20 text-yellow-300'
+      }`}
+      title={profile ? `Calibrated ${new Date(profile.createdAt).toLocaleDateString()}` : 'Colours and sizes are less certain until this camera is calibrated'}
+    >
+      <Palette className="w-3 h-3 mr-1" />
+      {profile ? 'Calibrated' : 'Not calibrated'}
+    </Link>
+  )
+}
+
+// The calibration card at true size; print at 100% scale on white card stock
+export function CalibrationTarget() {
+  const { widthMm, heightMm, columns, rows, patchMm, gapMm } = CALIBRATION_TARGET
+  const left = (widthMm - columns * patchMm - (columns - 1) * gapMm) / 2
+  const top = (heightMm - rows * patchMm - (rows - 1) * gapMm) / 2
+
+  return (
+    <svg
+      width={`${widthMm}mm`}
+      height={`${heightMm}mm`}
+      viewBox={`0 0 ${widthMm} ${heightMm}`}
+      className="bg-white"
+    >
+      <rect x={0} y={0} width={widthMm} height={heightMm} fill="#ffffff" stroke="#d1d5db" strokeWidth={0.2} />
+      {CALIBRATION_COLORS.map(([r, g, b], index) => (
+        <rect
+          key={index}
+          x={left + (index % columns) * (patchMm + gapMm)}
+          y={top + Math.floor(index / columns) * (patchMm + gapMm)}
+          width={patchMm}
+          height={patchMm}
+          fill={`rgb(${r}, ${g}, ${b})`}
+        />
+      ))}
+    </svg>
+  )
+}
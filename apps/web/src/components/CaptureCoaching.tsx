@@ -0,0 +1,51 @@
+'use client'
+
+import type { QualityIssue } from '@/lib/vision/CaptureQuality'
+import type { AutoCaptureState } from '@/lib/vision/AutoCapture'
+
+interface CaptureCoachingProps {
+  issues: QualityIssue[]
+}
+
+// Why the last frame was refused, or what would make it better; sits over the camera view
+export function CaptureCoaching({ issues }: CaptureCoachingProps) {
+  if (issues.length === 0) return null
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 w-[90%] max-w-md space-y-2">
+      {issues.map(issue => (
+        <div
+          key={issue.check}
+          className={`px-4 py-2 rounded-lg text-sm text-center ${
+            issue.severity === 'reject' ? 'bg-red-500/90 text-white' : 'bg-yellow-500/90 text-black'
+          }`}
+        >
+          {issue.message}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+
+const autoCaptureLabels: Record<AutoCaptureState['status'], string> = {
+  'adjusting': 'Waiting for a clear view of the card',
+  'holding': 'Hold steady...',
+  'waiting-for-move': 'Captured. Turn the card for the next shot',
+  'ready': 'Capturing...'
+}
+
+// Auto-capture progress: what is holding the shot up, and how long until it fires
+export function AutoCaptureIndicator({ state }: { state: AutoCaptureState }) {
+  return (
+    <div className="absolute bottom-24 left-1/2 -translate-x-1/2 w-[70%] max-w-xs text-center">
+      <p className="text-sm mb-2">{state.hint ?? autoCaptureLabels[state.status]}</p>
+      <div className="h-1.5 bg-white/20 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-primary transition-all duration-200"
+          style={{ width: `${Math.round(state.progress * 100)}%` }}
+        />
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,12 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Check, X, TrendingUp, TrendingDown, Activity, RotateCw, Sparkles } from 'lucide-react'
+import { Check, X, TrendingUp, TrendingDown, Activity, RotateCw, Sparkles, AlertTriangle } from 'lucide-react'
 import Link from 'next/link'
+import type { CaptureQuality } from '@/lib/vision/CaptureQuality'
+import type { AuthenticityIndicator, CertVerificationStatus } from '@/lib/domain/models'
+import type { ProcessedCard } from '@/lib/interfaces/services'
+import type { CenteringReport } from '@/services/AIService'
 
 interface ScanResultsProps {
   scanResult: any
@@ -89,7 +93,9 @@ export function ScanResults({ scanResult, marketData, popReport, onReset }: Scan
         {/* Grade Reveal */}
         {showGrade && (
           <div className="text-center mb-8 grade-reveal">
-            <h2 className="text-sm text-gray-400 mb-2">AI Estimated Grade</h2>
+            <h2 className="text-sm text-gray-400 mb-2">
+              {scanResult.slab ? `${scanResult.slab.company} Grade` : 'AI Estimated Grade'}
+            </h2>
             <div className="text-8xl font-bold text-primary mb-4">
               {scanResult.grade}
               <span className="text-3xl text-gray-400">/10</span>
@@ -110,7 +116,38 @@ export function ScanResults({ scanResult, marketData, popReport, onReset }: Scan
               }`}>
                 {scanResult.confidence}% Confidence
               </p>
+              {scanResult.calibrated === false && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Uncalibrated camera: colours and sizes are less certain.{' '}
+                  <Link href="/scanner/calibrate" className="text-primary hover:underline">Calibrate</Link>
+                </p>
+              )}
             </div>
+
+            {/* How the grade was reached */}
+            {scanResult.gradeReport && (
+              <div className="max-w-md mx-auto text-sm text-gray-400">
+                <p className="font-semibold text-gray-300">
+                  {scanResult.gradeReport.label} · {scanResult.gradeReport.rubric.toUpperCase()} rubric
+                </p>
+                {scanResult.gradeReport.cappedBy && (
+                  <p className="text-yellow-500">
+                    Limited by {scanResult.gradeReport.cappedBy}
+                  </p>
+                )}
+                <ul className="mt-2 space-y-1">
+                  {scanResult.gradeReport.explanation.map((line: string, i: number) => (
+                    <li key={i}>{line}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Graded slab: label details and cert check */}
+            {scanResult.slab && <SlabDetails slab={scanResult.slab} />}
+
+            {/* Captures the quality gate let through with warnings */}
+            {scanResult.captureQuality && <CaptureQualityNotice quality={scanResult.captureQuality} />}
           </div>
         )}
 
@@ -121,23 +158,38 @@ export function ScanResults({ scanResult, marketData, popReport, onReset }: Scan
             
             <div className="grid md:grid-cols-2 gap-4 mb-4">
               <div>
-                <h3 className="text-sm text-gray-400 mb-1">Player</h3>
+                <h3 className="text-sm text-gray-400 mb-1">Player<FieldConfidence value={scanResult.cardDetails.fieldConfidence?.player} /></h3>
                 <p className="text-xl font-bold">{scanResult.cardDetails.player}</p>
               </div>
               <div>
-                <h3 className="text-sm text-gray-400 mb-1">Year</h3>
+                <h3 className="text-sm text-gray-400 mb-1">Year<FieldConfidence value={scanResult.cardDetails.fieldConfidence?.year} /></h3>
                 <p className="text-xl font-bold">{scanResult.cardDetails.year}</p>
               </div>
               <div>
-                <h3 className="text-sm text-gray-400 mb-1">Set</h3>
+                <h3 className="text-sm text-gray-400 mb-1">Set<FieldConfidence value={scanResult.cardDetails.fieldConfidence?.set} /></h3>
                 <p className="text-xl font-bold">{scanResult.cardDetails.set}</p>
               </div>
               <div>
-                <h3 className="text-sm text-gray-400 mb-1">Card Number</h3>
+                <h3 className="text-sm text-gray-400 mb-1">Card Number<FieldConfidence value={scanResult.cardDetails.fieldConfidence?.cardNumber} /></h3>
                 <p className="text-xl font-bold">{scanResult.cardDetails.cardNumber || 'Base'}</p>
               </div>
             </div>
 
+            {/* Closest reference cards by appearance */}
+            {scanResult.cardDetails.visualMatches?.length > 0 && (
+              <div className="mb-4">
+                <h3 className="text-sm text-gray-400 mb-2">Visual Matches</h3>
+                <ul className="space-y-1 text-sm">
+                  {scanResult.cardDetails.visualMatches.map((match: any) => (
+                    <li key={match.id} className="flex justify-between">
+                      <span>{match.name}</span>
+                      <span className="text-gray-400">{match.similarity}%</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Special Badges with Pop Animation */}
             <div className="flex flex-wrap gap-2">
               {scanResult.cardDetails.isRookie && (
@@ -160,6 +212,40 @@ export function ScanResults({ scanResult, marketData, popReport, onReset }: Scan
           </div>
         )}
 
+        {/* Centering - measured from the printed border */}
+        {showDetails && scanResult.centering && (
+          <div className="bg-gray-800 rounded-xl p-6 mb-6">
+            <h2 className="text-lg font-semibold mb-4">Centering</h2>
+            <div className="grid md:grid-cols-2 gap-6">
+              <CenteringView title="Front" report={scanResult.centering.front} />
+              {scanResult.centering.back && (
+                <CenteringView title="Back" report={scanResult.centering.back} />
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Surface - defect heatmap over the rectified card */}
+        {showDetails && scanResult.surfaceHeatmap && scanResult.centering && (
+          <div className="bg-gray-800 rounded-xl p-6 mb-6">
+            <h2 className="text-lg font-semibold mb-4">Surface</h2>
+            <div className="grid md:grid-cols-2 gap-6">
+              <SurfaceView
+                title="Front"
+                image={scanResult.centering.front.image}
+                heatmap={scanResult.surfaceHeatmap.front}
+              />
+              {scanResult.centering.back && scanResult.surfaceHeatmap.back && (
+                <SurfaceView
+                  title="Back"
+                  image={scanResult.centering.back.image}
+                  heatmap={scanResult.surfaceHeatmap.back}
+                />
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Damage & Authentication */}
         {showDetails && (
           <div className="grid md:grid-cols-2 gap-6 mb-6">
@@ -170,6 +256,9 @@ export function ScanResults({ scanResult, marketData, popReport, onReset }: Scan
                   <li key={i} className="flex items-center text-sm">
                     <X className="w-4 h-4 text-red-500 mr-2" />
                     {damage.type}: {damage.severity}
+                    {damage.location && (
+                      <span className="text-gray-500 ml-1">({damage.location})</span>
+                    )}
                   </li>
                 )) || (
                   <li className="flex items-center text-sm text-green-500">
@@ -178,6 +267,26 @@ export function ScanResults({ scanResult, marketData, popReport, onReset }: Scan
                   </li>
                 )}
               </ul>
+              {scanResult.subgrades && (
+                <div className="grid grid-cols-4 gap-2 mt-4 pt-4 border-t border-gray-700 text-center">
+                  <div>
+                    <p className="text-xl font-bold">{scanResult.subgrades.centering}</p>
+                    <p className="text-xs text-gray-400">Centering</p>
+                  </div>
+                  <div>
+                    <p className="text-xl font-bold">{scanResult.subgrades.corners}</p>
+                    <p className="text-xs text-gray-400">Corners</p>
+                  </div>
+                  <div>
+                    <p className="text-xl font-bold">{scanResult.subgrades.edges}</p>
+                    <p className="text-xs text-gray-400">Edges</p>
+                  </div>
+                  <div>
+                    <p className="text-xl font-bold">{scanResult.subgrades.surface}</p>
+                    <p className="text-xs text-gray-400">Surface</p>
+                  </div>
+                </div>
+              )}
             </div>
             
             <div className="bg-gray-800 rounded-xl p-6">
@@ -185,9 +294,29 @@ export function ScanResults({ scanResult, marketData, popReport, onReset }: Scan
               <div className={`text-2xl font-bold ${scanResult.authentic ? 'text-green-500' : 'text-red-500'}`}>
                 {scanResult.authentic ? '✓ Appears Authentic' : '⚠️ Authentication Warning'}
               </div>
+              {scanResult.authenticityConfidence !== undefined && (
+                <p className="text-sm text-gray-400 mt-1">Confidence: {scanResult.authenticityConfidence}%</p>
+              )}
               <p className="text-sm text-gray-400 mt-2">
-                Based on AI visual analysis
+                {scanResult.captures?.uv
+                  ? 'Based on AI visual analysis, card measurements and a UV light capture'
+                  : scanResult.authenticityIndicators?.length > 0
+                    ? 'Based on AI visual analysis and card measurements'
+                    : 'Based on AI visual analysis'}
               </p>
+              {scanResult.authenticityWarnings?.length > 0 && (
+                <ul className="mt-4 space-y-2">
+                  {scanResult.authenticityWarnings.map((warning: string, i: number) => (
+                    <li key={i} className="flex items-start text-sm text-yellow-500">
+                      <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                      {warning}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {scanResult.authenticityIndicators?.length > 0 && (
+                <AuthenticityIndicators indicators={scanResult.authenticityIndicators} />
+              )}
             </div>
           </div>
         )}
@@ -295,4 +424,163 @@ export function ScanResults({ scanResult, marketData, popReport, onReset }: Scan
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+// Rectified card with the detected outer edge and inner print border drawn on top
+function CenteringView({ title, report }: { title: string; report: CenteringReport }) {
+  const { outer, inner } = report.overlay
+
+  return (
+    <div>
+      <div className="flex justify-between items-baseline mb-2">
+        <h3 className="text-sm text-gray-400">{title}</h3>
+        <span className="text-xs text-gray-500">{report.confidence}% measurement confidence</span>
+      </div>
+      {report.image && (
+        <div className="relative aspect-[5/7] max-w-[200px] mx-auto mb-3">
+          <img src={report.image} alt={`${title} centering`} className="w-full h-full rounded" />
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox="0 0 1 1"
+            preserveAspectRatio="none"
+          >
+            <rect
+              x={outer.x} y={outer.y} width={outer.width} height={outer.height}
+              fill="none" stroke="#22c55e" strokeWidth={2} vectorEffect="non-scaling-stroke"
+            />
+            <rect
+              x={inner.x} y={inner.y} width={inner.width} height={inner.height}
+              fill="none" stroke="#eab308" strokeWidth={2} strokeDasharray="4 3" vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-2 text-center">
+        <div>
+          <p className="text-xl font-bold">{report.leftRight}/{100 - report.leftRight}</p>
+          <p className="text-xs text-gray-400">Left / Right</p>
+        </div>
+        <div>
+          <p className="text-xl font-bold">{report.topBottom}/{100 - report.topBottom}</p>
+          <p className="text-xs text-gray-400">Top / Bottom</p>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// Rectified card with the surface defect heatmap (scratches red, fading yellow) on top
+function SurfaceView({ title, image, heatmap }: { title: string; image?: string; heatmap?: string }) {
+  if (!image || !heatmap) return null
+
+  return (
+    <div>
+      <h3 className="text-sm text-gray-400 mb-2">{title}</h3>
+      <div className="relative aspect-[5/7] max-w-[200px] mx-auto">
+        <img src={image} alt={`${title} surface`} className="w-full h-full rounded" />
+        <img
+          src={heatmap}
+          alt={`${title} surface defects`}
+          className="absolute inset-0 w-full h-full rounded pointer-events-none"
+        />
+      </div>
+    </div>
+  )
+}
+
+// OCR confidence for one identified field
+function FieldConfidence({ value }: { value?: number }) {
+  if (value === undefined) return null
+
+  return (
+    <span className={`ml-2 text-xs ${value >= 70 ? 'text-green-500' : value >= 40 ? 'text-yellow-500' : 'text-red-500'}`}>
+      {value}%
+    </span>
+  )
+}
+
+// Grader, cert number and the cert lookup result for a slabbed card
+function SlabDetails({ slab }: { slab: NonNullable<ProcessedCard['slab']> }) {
+  const status: Record<CertVerificationStatus, { text: string; className: string }> = {
+    'verified': { text: 'Cert verified', className: 'text-green-500' },
+    'mismatch': { text: 'Cert grade mismatch', className: 'text-red-500' },
+    'not-found': { text: 'Cert not found', className: 'text-red-500' },
+    'unverified': { text: 'Cert not checked', className: 'text-yellow-500' }
+  }
+  const verification = status[slab.verification.status]
+
+  return (
+    <div className="max-w-md mx-auto text-sm text-gray-400">
+      {slab.gradeLabel && (
+        <p className="font-semibold text-gray-300">{slab.company} {slab.gradeLabel}</p>
+      )}
+      <p>Cert #{slab.certNumber ?? 'unreadable'}</p>
+      <p className={verification.className}>
+        {verification.text} ({slab.verification.provider})
+      </p>
+      {slab.verification.message && <p className="mt-1">{slab.verification.message}</p>}
+      {slab.subgrades && (
+        <div className="grid grid-cols-4 gap-2 mt-3 text-center">
+          {Object.entries(slab.subgrades).map(([name, value]) => (
+            <div key={name}>
+              <p className="text-lg font-bold text-white">{value}</p>
+              <p className="text-xs capitalize">{name}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Flags captures that passed the quality gate with warnings; the grade leans on them
+function CaptureQualityNotice({ quality }: { quality: Record<string, CaptureQuality> }) {
+  const weak = Object.entries(quality).filter(([, capture]) => capture.issues.length > 0)
+  if (weak.length === 0) return null
+
+  return (
+    <div className="max-w-md mx-auto mt-4 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm text-left">
+      <p className="flex items-center font-semibold text-yellow-500">
+        <AlertTriangle className="w-4 h-4 mr-2" />
+        Low-quality capture; the grade may be less reliable
+      </p>
+      <ul className="mt-2 space-y-1 text-gray-400">
+        {weak.map(([step, capture]) => (
+          <li key={step}>
+            <span className="capitalize">{step.replace('-', ' ')}</span> ({capture.overall}/100):{' '}
+            {capture.issues.map(issue => issue.message).join('; ')}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+const indicatorLabels: Record<string, string> = {
+  'modern-paper-fluorescence': 'Brightened (modern) paper',
+  'localized-fluorescence': 'Patchy fluorescence',
+  'edge-fluorescence': 'Bright cut edges',
+  'trim-aspect-ratio': 'Off-spec proportions',
+  'trim-edge-straightness': 'Uneven cut edges',
+  'trim-physical-size': 'Undersized card',
+  'print-pattern': 'Print pattern differs from genuine',
+  'font-rendering': 'Font rendering differs from genuine',
+  'logo-placement': 'Logo placement differs from genuine',
+  'color-profile': 'Colour profile differs from genuine'
+}
+
+// One line per check, whether or not it found anything
+function AuthenticityIndicators({ indicators }: { indicators: AuthenticityIndicator[] }) {
+  return (
+    <ul className="mt-4 pt-4 border-t border-gray-700 space-y-1 text-sm">
+      {indicators.map(indicator => (
+        <li key={indicator.feature} className="flex justify-between">
+          <span className="text-gray-400">{indicatorLabels[indicator.feature] ?? indicator.feature}</span>
+          <span className={indicator.detected ? 'text-yellow-500' : 'text-gray-500'}>
+            {indicator.detected ? 'Detected' : 'Not detected'} ({indicator.confidence}%)
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,95 @@
+/**
+ * React hook that watches the live camera and captures on its own
+ */
+
+import { RefObject, useEffect, useRef, useState } from 'react'
+import type Webcam from 'react-webcam'
+import { CaptureQualityAssessor } from '@/lib/vision/CaptureQuality'
+import {
+  AutoCaptureState,
+  StabilityTracker,
+  frameDifference,
+  motionThumbnail
+} from '@/lib/vision/AutoCapture'
+import type { GrayImage } from '@/lib/vision/image'
+
+// Frames are sampled this often and at this size; full resolution is taken by the capture itself
+const SAMPLE_INTERVAL_MS = 200
+const SAMPLE_SIZE = 480
+
+const idle: AutoCaptureState = { status: 'adjusting', progress: 0 }
+
+/**
+ * Hook to fire a capture once the card is steady and passes the capture quality gate
+ * @param webcamRef The live camera
+ * @param enabled Whether to watch; pass false while processing or between scans
+ * @param requireCard Whether the frame must contain a whole card (false for edges and slabs)
+ * @param onCapture Called once per steady pose; resolves false when the shot was refused.
+ *   After an accepted shot the next pose needs the scene to change first
+ * @returns The current watch state, for progress and coaching
+ */
+export function useAutoCapture(
+  webcamRef: RefObject<Webcam>,
+  enabled: boolean,
+  requireCard: boolean,
+  onCapture: () => Promise<boolean>
+): AutoCaptureState {
+  const [state, setState] = useState<AutoCaptureState>(idle)
+  const onCaptureRef = useRef(onCapture)
+  const requireCardRef = useRef(requireCard)
+  onCaptureRef.current = onCapture
+  requireCardRef.current = requireCard
+
+  useEffect(() => {
+    if (!enabled) {
+      setState(idle)
+      return
+    }
+
+    const assessor = new CaptureQualityAssessor()
+    const tracker = new StabilityTracker()
+    const canvas = document.createElement('canvas')
+    const context = canvas.getContext('2d', { willReadFrequently: true })
+    let previous: GrayImage | null = null
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let cancelled = false
+
+    const sample = async () => {
+      const video = webcamRef.current?.video
+      if (context && video && video.readyState >= 2 && video.videoWidth > 0) {
+        const scale = Math.min(1, SAMPLE_SIZE / Math.max(video.videoWidth, video.videoHeight))
+        canvas.width = Math.round(video.videoWidth * scale)
+        canvas.height = Math.round(video.videoHeight * scale)
+        context.drawImage(video, 0, 0, canvas.width, canvas.height)
+        const frame = context.getImageData(0, 0, canvas.width, canvas.height)
+
+        const thumbnail = motionThumbnail(frame)
+        const motion = frameDifference(previous, thumbnail)
+        previous = thumbnail
+        const quality = assessor.assess(frame, { requireCard: requireCardRef.current })
+        const next = tracker.update(quality, motion, performance.now())
+        setState(next)
+
+        if (next.status === 'ready') {
+          let accepted = false
+          try {
+            accepted = await onCaptureRef.current()
+          } catch (error) {
+            console.error('Auto-capture failed:', error)
+          }
+          if (accepted) tracker.captured()
+          else tracker.reset()
+        }
+      }
+      if (!cancelled) timer = setTimeout(sample, SAMPLE_INTERVAL_MS)
+    }
+
+    timer = setTimeout(sample, SAMPLE_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [enabled, webcamRef])
+
+  return state
+}
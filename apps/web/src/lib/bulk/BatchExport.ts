@@ -0,0 +1,83 @@
+/**
+ * Batch Export - Grace Hopper: One file for a whole bulk session
+ *
+ * Flattens a session into one row per card with corrections applied, as JSON
+ * for re-import or CSV for a spreadsheet. Failed and cancelled cards stay in
+ * the batch with their status so nothing from the box silently disappears.
+ */
+
+import type { BulkItemStatus, BulkScanItem } from './BulkScanQueue'
+
+export interface BatchCard {
+  id: string
+  status: BulkItemStatus
+  player?: string
+  year?: number
+  set?: string
+  cardNumber?: string
+  variant?: string
+  grade?: number
+  confidence?: number
+  value?: number
+  authentic?: boolean
+  corrected: boolean
+  error?: string
+  scannedAt: string
+}
+
+export interface ScanBatch {
+  exportedAt: string
+  count: number
+  graded: number
+  totalValue: number
+  cards: BatchCard[]
+}
+
+const CSV_COLUMNS: Array<keyof BatchCard> = [
+  'id', 'status', 'player', 'year', 'set', 'cardNumber', 'variant',
+  'grade', 'confidence', 'value', 'authentic', 'corrected', 'error', 'scannedAt'
+]
+
+export function toBatchCard(item: BulkScanItem): BatchCard {
+  const { result, corrections } = item
+  const details = { ...result?.cardDetails, ...corrections?.cardDetails }
+
+  return {
+    id: item.id,
+    status: item.status,
+    player: details.player,
+    year: details.year,
+    set: details.set,
+    cardNumber: details.cardNumber,
+    variant: details.variant,
+    grade: corrections?.grade ?? result?.grade,
+    confidence: result?.confidence,
+    value: corrections?.value ?? result?.estimatedValue,
+    authentic: result?.authentic,
+    corrected: !!corrections,
+    error: item.error,
+    scannedAt: new Date(item.addedAt).toISOString()
+  }
+}
+
+export function toBatch(items: BulkScanItem[], exportedAt = Date.now()): ScanBatch {
+  const cards = items.map(toBatchCard)
+  return {
+    exportedAt: new Date(exportedAt).toISOString(),
+    count: cards.length,
+    graded: cards.filter(card => card.status === 'done').length,
+    totalValue: cards.reduce((sum, card) => sum + (card.value ?? 0), 0),
+    cards
+  }
+}
+
+export function batchToCsv(batch: ScanBatch): string {
+  const rows = batch.cards.map(card => CSV_COLUMNS.map(column => csvField(card[column])).join(','))
+  return [CSV_COLUMNS.join(','), ...rows].join('\n')
+}
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  const text = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
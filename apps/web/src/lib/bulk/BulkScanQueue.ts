@@ -0,0 +1,213 @@
+/**
+ * Bulk Scan Queue - Grace Hopper: Capture card after card, grade them in the background
+ *
+ * Captures go in as fast as the user can turn cards over; at most
+ * `concurrency` of them are processed at once so the vision worker and market
+ * lookups are not flooded. Items move queued -> processing -> done | failed |
+ * cancelled. Failed and cancelled items can be retried, and any item can carry
+ * manual corrections, which win over the machine result in the list and the
+ * batch export. Every change hands listeners a fresh array of fresh item
+ * objects so React state can hold it directly.
+ */
+
+import type { ILogger, ProcessedCard } from '../interfaces/services'
+import type { CardDetails } from '@/services/CardIdentificationService'
+import type { CalibrationProfile } from '../vision/Calibration'
+import { NotFoundError, ScanCancelledError } from '../errors'
+
+export type BulkItemStatus = 'queued' | 'processing' | 'done' | 'failed' | 'cancelled'
+
+// A camera capture's data URL, or an imported file that is only read when its item is processed
+export type CaptureSource = string | Blob
+
+// Fixes the user made by hand; unset fields keep the machine result
+export interface BulkCorrections {
+  grade?: number
+  value?: number
+  cardDetails?: Partial<CardDetails>
+}
+
+export interface BulkScanItem {
+  id: string
+  captures: Record<string, CaptureSource>
+  // Profile of the camera that took the captures; imported files have none
+  calibration?: CalibrationProfile | null
+  status: BulkItemStatus
+  result?: ProcessedCard
+  error?: string
+  corrections?: BulkCorrections
+  attempts: number
+  addedAt: number
+  completedAt?: number
+}
+
+export interface BulkScanSummary {
+  total: number
+  queued: number
+  processing: number
+  done: number
+  failed: number
+  cancelled: number
+}
+
+export interface BulkScanQueueOptions {
+  // Grades one card; must stop with ScanCancelledError when the signal aborts
+  process(captures: Record<string, CaptureSource>, signal: AbortSignal, calibration?: CalibrationProfile | null): Promise<ProcessedCard>
+  concurrency?: number
+  onChange?(items: BulkScanItem[]): void
+  logger?: ILogger
+}
+
+const DEFAULT_CONCURRENCY = 2
+
+export class BulkScanQueue {
+  private entries: BulkScanItem[] = []
+  private running = new Map<string, AbortController>()
+  private readonly concurrency: number
+  private nextId = 0
+  private waiters: Array<() => void> = []
+
+  constructor(private options: BulkScanQueueOptions) {
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY)
+  }
+
+  get items(): BulkScanItem[] {
+    return this.entries.slice()
+  }
+
+  add(captures: Record<string, CaptureSource>, calibration?: CalibrationProfile | null): BulkScanItem {
+    const item: BulkScanItem = {
+      id: `bulk-${Date.now()}-${this.nextId++}`,
+      captures,
+      calibration,
+      status: 'queued',
+      attempts: 0,
+      addedAt: Date.now()
+    }
+    this.entries.push(item)
+    this.changed()
+    this.pump()
+    return item
+  }
+
+  retry(id: string): void {
+    const item = this.find(id)
+    if (item.status !== 'failed' && item.status !== 'cancelled') return
+    this.replace(id, { status: 'queued', error: undefined })
+    this.pump()
+  }
+
+  cancel(id: string): void {
+    const item = this.find(id)
+    if (item.status === 'processing') {
+      // The running task settles as cancelled
+      this.running.get(id)?.abort()
+    } else if (item.status === 'queued') {
+      this.replace(id, { status: 'cancelled' })
+      this.settleWaiters()
+    }
+  }
+
+  cancelAll(): void {
+    this.entries.forEach(item => this.cancel(item.id))
+  }
+
+  remove(id: string): void {
+    this.cancel(id)
+    this.entries = this.entries.filter(item => item.id !== id)
+    this.changed()
+    this.settleWaiters()
+  }
+
+  correct(id: string, corrections: BulkCorrections): void {
+    const item = this.find(id)
+    this.replace(id, {
+      corrections: {
+        ...item.corrections,
+        ...corrections,
+        cardDetails: corrections.cardDetails
+          ? { ...item.corrections?.cardDetails, ...corrections.cardDetails }
+          : item.corrections?.cardDetails
+      }
+    })
+  }
+
+  summary(): BulkScanSummary {
+    const count = (status: BulkItemStatus) => this.entries.filter(item => item.status === status).length
+    return {
+      total: this.entries.length,
+      queued: count('queued'),
+      processing: count('processing'),
+      done: count('done'),
+      failed: count('failed'),
+      cancelled: count('cancelled')
+    }
+  }
+
+  // Resolves once nothing is queued or processing
+  idle(): Promise<void> {
+    if (this.isIdle()) return Promise.resolve()
+    return new Promise(resolve => this.waiters.push(resolve))
+  }
+
+  private pump(): void {
+    while (this.running.size < this.concurrency) {
+      const next = this.entries.find(item => item.status === 'queued')
+      if (!next) break
+      this.run(next)
+    }
+    this.settleWaiters()
+  }
+
+  private async run(item: BulkScanItem): Promise<void> {
+    const controller = new AbortController()
+    this.running.set(item.id, controller)
+    this.replace(item.id, { status: 'processing', attempts: item.attempts + 1 })
+
+    try {
+      const result = await this.options.process(item.captures, controller.signal, item.calibration)
+      if (controller.signal.aborted) throw new ScanCancelledError()
+      this.replace(item.id, { status: 'done', result, completedAt: Date.now() })
+    } catch (error) {
+      if (error instanceof ScanCancelledError || controller.signal.aborted) {
+        this.replace(item.id, { status: 'cancelled' })
+      } else {
+        const message = error instanceof Error ? error.message : String(error)
+        this.options.logger?.warn('Bulk scan item failed', { id: item.id, error: message })
+        this.replace(item.id, { status: 'failed', error: message, completedAt: Date.now() })
+      }
+    } finally {
+      this.running.delete(item.id)
+      this.pump()
+    }
+  }
+
+  private find(id: string): BulkScanItem {
+    const item = this.entries.find(entry => entry.id === id)
+    if (!item) throw new NotFoundError('Bulk scan item', id)
+    return item
+  }
+
+  // Removed items stay removed even if their task is still settling
+  private replace(id: string, patch: Partial<BulkScanItem>): void {
+    const index = this.entries.findIndex(item => item.id === id)
+    if (index < 0) return
+    this.entries[index] = { ...this.entries[index], ...patch }
+    this.changed()
+  }
+
+  private changed(): void {
+    this.options.onChange?.(this.items)
+  }
+
+  private isIdle(): boolean {
+    return this.running.size === 0 && !this.entries.some(item => item.status === 'queued')
+  }
+
+  private settleWaiters(): void {
+    if (!this.isIdle()) return
+    const waiters = this.waiters
+    this.waiters = []
+    waiters.forEach(resolve => resolve())
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * File Import - Grace Hopper: Read a folder or a pile of files into scan pairs
+ *
+ * Chromium browsers get a real folder picker through the File System Access
+ * API, walked recursively so "fronts/" and "backs/" subfolders keep their
+ * names. Everywhere else a multi-file input (optionally webkitdirectory) gives
+ * the same list. Only images without a side in their name are decoded and
+ * fingerprinted, since only those need visual pairing. Pairs keep their File
+ * handles; a card's files are read when the queue gets to it, not at import.
+ */
+
+import { CardDetector } from '../vision/CardDetector'
+import { CardFingerprint, computeFingerprint, fingerprintSimilarity } from '../vision/PerceptualHash'
+import { decodeImage } from '../vision/canvas'
+import { downscale } from '../vision/image'
+import { NamedImage, PairingResult, pairImages, parseImageName } from './ImagePairing'
+import type { CaptureSource } from './BulkScanQueue'
+
+export interface ImportedImage extends NamedImage {
+  file: File
+}
+
+export interface LoadedImage extends ImportedImage {
+  fingerprint?: CardFingerprint
+}
+
+export interface ImportProgress {
+  loaded: number
+  total: number
+}
+
+// The parts of the File System Access API used here; not yet in TypeScript's DOM types
+interface DirectoryHandle {
+  kind: 'directory'
+  name: string
+  values(): AsyncIterable<DirectoryHandle | FileHandle>
+}
+
+interface FileHandle {
+  kind: 'file'
+  name: string
+  getFile(): Promise<File>
+}
+
+const IMAGE_FILE = /\.(jpe?g|png|webp|bmp|gif|heic)$/i
+const FINGERPRINT_SIZE = 640
+
+export function supportsDirectoryPicker(): boolean {
+  return typeof window !== 'undefined' && 'showDirectoryPicker' in window
+}
+
+// Resolves empty when the user closes the picker
+export async function pickImageDirectory(): Promise<ImportedImage[]> {
+  let root: DirectoryHandle
+  try {
+    root = await (window as unknown as { showDirectoryPicker(): Promise<DirectoryHandle> }).showDirectoryPicker()
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') return []
+    throw error
+  }
+
+  const images: ImportedImage[] = []
+  const walk = async (directory: DirectoryHandle, prefix: string) => {
+    for await (const entry of directory.values()) {
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name
+      if (entry.kind === 'directory') {
+        await walk(entry, path)
+      } else if (IMAGE_FILE.test(entry.name)) {
+        images.push({ name: entry.name, path, file: await entry.getFile() })
+      }
+    }
+  }
+  await walk(root, '')
+  return images
+}
+
+export function imagesFromFiles(files: FileList | File[]): ImportedImage[] {
+  return Array.from(files)
+    .filter(file => file.type.startsWith('image/') || IMAGE_FILE.test(file.name))
+    .map(file => ({ name: file.name, path: file.webkitRelativePath || undefined, file }))
+}
+
+export async function loadImagePairs(
+  images: ImportedImage[],
+  onProgress?: (progress: ImportProgress) => void
+): Promise<PairingResult<LoadedImage>> {
+  const detector = new CardDetector()
+  const loaded: LoadedImage[] = []
+
+  for (const image of images) {
+    const entry: LoadedImage = { ...image }
+    if (!parseImageName(image).side) {
+      entry.fingerprint = await fingerprint(image.file, detector)
+    }
+    loaded.push(entry)
+    onProgress?.({ loaded: loaded.length, total: images.length })
+  }
+
+  return pairImages(loaded, {
+    similarity: (a, b) => a.fingerprint && b.fingerprint ? fingerprintSimilarity(a.fingerprint, b.fingerprint) : 0
+  })
+}
+
+// Fingerprint of the rectified card, or of the whole image when no card is found
+async function fingerprint(file: File, detector: CardDetector): Promise<CardFingerprint | undefined> {
+  try {
+    const { image } = downscale(await decodeImage(file), FINGERPRINT_SIZE)
+    const boundary = detector.detect(image)
+    return computeFingerprint(boundary ? detector.rectify(image, boundary.quad, boundary.orientation) : image)
+  } catch (error) {
+    console.warn('Could not fingerprint imported image:', error)
+    return undefined
+  }
+}
+
+// Data URLs for a queued card's captures, reading any imported files now
+export async function readCaptures(captures: Record<string, CaptureSource>): Promise<Record<string, string>> {
+  const read: Record<string, string> = {}
+  for (const name of Object.keys(captures)) {
+    const source = captures[name]
+    read[name] = typeof source === 'string' ? source : await readAsDataUrl(source)
+  }
+  return read
+}
+
+function readAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file instanceof File ? file.name : 'file'}`))
+    reader.readAsDataURL(file)
+  })
+}
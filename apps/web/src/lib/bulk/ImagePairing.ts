@@ -0,0 +1,160 @@
+/**
+ * Image Pairing - Grace Hopper: Match fronts to backs in a pile of imported images
+ *
+ * Filenames first. A side is read from a suffix ("0012_front", "0012-back",
+ * "0012b", "card 7 reverse"), a prefix ("front_0012") or the folder
+ * ("fronts/0012.jpg" with "backs/0012.jpg"); what remains of the name is the
+ * card key, and one front plus one back under a key is a pair.
+ *
+ * Images with no side in their name are paired visually. Scanning apps
+ * produce one of two orders, alternating (front, back, front, back) or in
+ * halves (every front, then every back). The backs of a set are near-identical
+ * to each other while fronts differ, so the arrangement whose back group looks
+ * most alike wins. When neither stands out the images are graded on their own
+ * rather than guessed.
+ */
+
+export type CardSide = 'front' | 'back'
+
+export interface NamedImage {
+  name: string
+  // Relative path from a folder import, e.g. "box-3/fronts/0012.jpg"
+  path?: string
+}
+
+export interface ImagePair<T extends NamedImage> {
+  front: T
+  back?: T
+  pairedBy: 'filename' | 'similarity' | 'single'
+}
+
+export interface PairingResult<T extends NamedImage> {
+  pairs: ImagePair<T>[]
+  // Backs whose front never turned up
+  unmatched: T[]
+}
+
+export interface PairingOptions<T> {
+  // 0-1, where 1 is identical; without it unlabeled images stay single
+  similarity?: (a: T, b: T) => number
+  // How much more alike the back group must be than the front group
+  minContrast?: number
+}
+
+export interface ParsedName {
+  key: string
+  side: CardSide | null
+}
+
+const SIDE_WORDS: Record<string, CardSide> = {
+  front: 'front', fronts: 'front', obverse: 'front', f: 'front', a: 'front',
+  back: 'back', backs: 'back', reverse: 'back', b: 'back'
+}
+const WORD_SUFFIX = /^(.*?)[\s._-]+(front|back|obverse|reverse|f|b|a)$/i
+// "0012b": single letters only count right after a number
+const LETTER_SUFFIX = /^(.*\d)(f|b|a)$/i
+const WORD_PREFIX = /^(front|back|obverse|reverse)[\s._-]+(.+)$/i
+const SIDE_FOLDER = /^(fronts?|backs?|obverse|reverse)$/i
+
+const DEFAULT_MIN_CONTRAST = 0.05
+
+export function parseImageName(image: NamedImage): ParsedName {
+  const segments = (image.path ?? image.name).split('/').filter(Boolean)
+  const file = segments.pop() ?? image.name
+  const stem = file.replace(/\.[^.]+$/, '')
+
+  let side: CardSide | null = null
+  let key = stem
+  const folder = segments[segments.length - 1]
+  if (folder && SIDE_FOLDER.test(folder)) {
+    side = SIDE_WORDS[folder.toLowerCase()]
+    segments.pop()
+  } else {
+    const match = stem.match(WORD_SUFFIX) ?? stem.match(LETTER_SUFFIX)
+    const prefix = match ? null : stem.match(WORD_PREFIX)
+    if (match) {
+      key = match[1]
+      side = SIDE_WORDS[match[2].toLowerCase()]
+    } else if (prefix) {
+      key = prefix[2]
+      side = SIDE_WORDS[prefix[1].toLowerCase()]
+    }
+  }
+
+  return { key: [...segments, key].join('/').toLowerCase(), side }
+}
+
+export function pairImages<T extends NamedImage>(images: T[], options: PairingOptions<T> = {}): PairingResult<T> {
+  const pairs: ImagePair<T>[] = []
+  const unmatched: T[] = []
+  const unlabeled: T[] = []
+  const byKey = new Map<string, { front: T[]; back: T[] }>()
+
+  images.forEach(image => {
+    const { key, side } = parseImageName(image)
+    if (!side) {
+      unlabeled.push(image)
+      return
+    }
+    const group = byKey.get(key) ?? { front: [], back: [] }
+    group[side].push(image)
+    byKey.set(key, group)
+  })
+
+  byKey.forEach(({ front, back }) => {
+    if (front.length === 1 && back.length === 1) {
+      pairs.push({ front: front[0], back: back[0], pairedBy: 'filename' })
+      return
+    }
+    // Duplicates under one key cannot be told apart by name
+    front.forEach(image => pairs.push({ front: image, pairedBy: 'single' }))
+    unmatched.push(...back)
+  })
+
+  pairs.push(...pairBySimilarity(sortByName(unlabeled), options))
+  return { pairs, unmatched }
+}
+
+function pairBySimilarity<T extends NamedImage>(images: T[], options: PairingOptions<T>): ImagePair<T>[] {
+  const { similarity } = options
+  const minContrast = options.minContrast ?? DEFAULT_MIN_CONTRAST
+  const singles = () => images.map(front => ({ front, pairedBy: 'single' as const }))
+  if (!similarity || images.length < 4 || images.length % 2 !== 0) return singles()
+
+  const half = images.length / 2
+  const arrangements = [
+    // front, back, front, back
+    images.slice(0, half).map((_, i) => [images[2 * i], images[2 * i + 1]] as [T, T]),
+    // every front, then every back
+    images.slice(0, half).map((_, i) => [images[i], images[i + half]] as [T, T])
+  ]
+
+  const scored = arrangements.map(pairs => {
+    const first = coherence(pairs.map(pair => pair[0]), similarity)
+    const second = coherence(pairs.map(pair => pair[1]), similarity)
+    return { pairs, backIndex: second >= first ? 1 : 0, contrast: Math.abs(first - second) }
+  })
+  const best = scored[0].contrast >= scored[1].contrast ? scored[0] : scored[1]
+  if (best.contrast < minContrast) return singles()
+
+  return best.pairs.map(pair => ({
+    front: pair[1 - best.backIndex],
+    back: pair[best.backIndex],
+    pairedBy: 'similarity' as const
+  }))
+}
+
+// Mean similarity of neighbours in scan order
+function coherence<T>(group: T[], similarity: (a: T, b: T) => number): number {
+  let sum = 0
+  for (let i = 1; i < group.length; i++) {
+    sum += similarity(group[i - 1], group[i])
+  }
+  return group.length > 1 ? sum / (group.length - 1) : 0
+}
+
+function sortByName<T extends NamedImage>(images: T[]): T[] {
+  return images.slice().sort((a, b) =>
+    (a.path ?? a.name).localeCompare(b.path ?? b.name, undefined, { numeric: true })
+  )
+}
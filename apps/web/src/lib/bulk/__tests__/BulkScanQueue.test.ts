@@ -0,0 +1,89 @@
+/**
+ * Tests for the bulk scanning queue and batch export
+ */
+
+import { BulkScanQueue } from '../BulkScanQueue'
+import { batchToCsv, toBatch } from '../BatchExport'
+import type { ProcessedCard } from '../../interfaces/services'
+
+function card(grade: number, player: string): ProcessedCard {
+  return {
+    grade,
+    confidence: 0.9,
+    authentic: true,
+    estimatedValue: 25,
+    cardDetails: { player, year: 2011, set: 'Topps Update', confidence: 90 }
+  }
+}
+
+// Tasks that finish only when the test says so
+function deferredProcessor() {
+  const calls: Array<{ resolve(card: ProcessedCard): void; reject(error: Error): void }> = []
+  const process = () => new Promise<ProcessedCard>((resolve, reject) => calls.push({ resolve, reject }))
+  return { calls, process }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('BulkScanQueue', () => {
+  it('should process no more than the concurrency limit at once', async () => {
+    const { calls, process } = deferredProcessor()
+    const queue = new BulkScanQueue({ process, concurrency: 2 })
+
+    queue.add({ front: 'a' })
+    queue.add({ front: 'b' })
+    queue.add({ front: 'c' })
+    expect(queue.summary()).toMatchObject({ processing: 2, queued: 1 })
+
+    calls[0].resolve(card(9, 'Mike Trout'))
+    await flush()
+    expect(calls).toHaveLength(3)
+    expect(queue.summary()).toMatchObject({ done: 1, processing: 2, queued: 0 })
+  })
+
+  it('should retry a failed item', async () => {
+    const { calls, process } = deferredProcessor()
+    const queue = new BulkScanQueue({ process })
+    const item = queue.add({ front: 'a' })
+
+    calls[0].reject(new Error('No card found'))
+    await flush()
+    expect(queue.items[0]).toMatchObject({ status: 'failed', error: 'No card found' })
+
+    queue.retry(item.id)
+    calls[1].resolve(card(8, 'Derek Jeter'))
+    await queue.idle()
+    expect(queue.items[0]).toMatchObject({ status: 'done', attempts: 2, error: undefined })
+  })
+
+  it('should cancel a running item through its signal', async () => {
+    let signal: AbortSignal | undefined
+    const queue = new BulkScanQueue({
+      process: (_, s) => {
+        signal = s
+        return new Promise(() => {})
+      }
+    })
+    const item = queue.add({ front: 'a' })
+
+    queue.cancel(item.id)
+    expect(signal!.aborted).toBe(true)
+  })
+})
+
+describe('batch export', () => {
+  it('should apply corrections and quote CSV fields', async () => {
+    const queue = new BulkScanQueue({ process: async () => card(7, 'Ken Griffey Jr.') })
+    const item = queue.add({ front: 'a' })
+    await queue.idle()
+    queue.correct(item.id, { grade: 8, cardDetails: { set: 'Upper Deck, Star Rookie' } })
+
+    const batch = toBatch(queue.items)
+    expect(batch).toMatchObject({ count: 1, graded: 1, totalValue: 25 })
+    expect(batch.cards[0]).toMatchObject({ player: 'Ken Griffey Jr.', year: 2011, grade: 8, corrected: true })
+
+    const [header, row] = batchToCsv(batch).split('\n')
+    expect(header.startsWith('id,status,player')).toBe(true)
+    expect(row).toContain('"Upper Deck, Star Rookie"')
+  })
+})
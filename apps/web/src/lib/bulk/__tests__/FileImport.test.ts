@@ -0,0 +1,34 @@
+/**
+ * Tests for importing image files into scan pairs
+ */
+
+import { imagesFromFiles, loadImagePairs, readCaptures } from '../FileImport'
+
+const file = (name: string, content = name, type = 'image/jpeg') => new File([content], name, { type })
+
+describe('loadImagePairs', () => {
+  it('should pair named files without reading them', async () => {
+    const read = jest.spyOn(FileReader.prototype, 'readAsDataURL')
+    const front = file('card1_front.jpg')
+    const back = file('card1_back.jpg')
+
+    const progress: number[] = []
+    const { pairs } = await loadImagePairs(imagesFromFiles([back, front, file('notes.txt', 'notes', 'text/plain')]), ({ loaded }) => progress.push(loaded))
+
+    expect(pairs).toHaveLength(1)
+    expect(pairs[0].front.file).toBe(front)
+    expect(pairs[0].back?.file).toBe(back)
+    expect(progress).toEqual([1, 2])
+    expect(read).not.toHaveBeenCalled()
+    read.mockRestore()
+  })
+})
+
+describe('readCaptures', () => {
+  it('should read imported files and pass camera captures through', async () => {
+    const captures = await readCaptures({ front: 'data:image/jpeg;base64,AAAA', back: file('card1_back.jpg', 'back') })
+
+    expect(captures.front).toBe('data:image/jpeg;base64,AAAA')
+    expect(captures.back).toBe(`data:image/jpeg;base64,${btoa('back')}`)
+  })
+})
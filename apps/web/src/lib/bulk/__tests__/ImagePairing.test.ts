@@ -0,0 +1,71 @@
+/**
+ * Tests for front/back pairing of imported images
+ */
+
+import { pairImages, parseImageName } from '../ImagePairing'
+
+interface TestImage {
+  name: string
+  path?: string
+  // Stand-in for a fingerprint: images with the same look are identical
+  look?: string
+}
+
+const similarity = (a: TestImage, b: TestImage) => (a.look === b.look ? 1 : 0.4)
+
+describe('parseImageName', () => {
+  it('should read the side from a suffix, prefix or folder', () => {
+    expect(parseImageName({ name: 'Trout_2011_front.jpg' })).toEqual({ key: 'trout_2011', side: 'front' })
+    expect(parseImageName({ name: '0012b.png' })).toEqual({ key: '0012', side: 'back' })
+    expect(parseImageName({ name: 'back-0012.jpg' })).toEqual({ key: '0012', side: 'back' })
+    expect(parseImageName({ name: '0012.jpg', path: 'box/fronts/0012.jpg' })).toEqual({ key: 'box/0012', side: 'front' })
+    expect(parseImageName({ name: 'IMG_4410.jpg' })).toEqual({ key: 'img_4410', side: null })
+  })
+})
+
+describe('pairImages', () => {
+  it('should pair by filename and report backs without a front', () => {
+    const { pairs, unmatched } = pairImages<TestImage>([
+      { name: 'card1_back.jpg' },
+      { name: 'card1_front.jpg' },
+      { name: 'card2_front.jpg' },
+      { name: 'card3_back.jpg' }
+    ])
+
+    expect(pairs).toEqual([
+      { front: { name: 'card1_front.jpg' }, back: { name: 'card1_back.jpg' }, pairedBy: 'filename' },
+      { front: { name: 'card2_front.jpg' }, pairedBy: 'single' }
+    ])
+    expect(unmatched).toEqual([{ name: 'card3_back.jpg' }])
+  })
+
+  it('should pair a fronts-then-backs scan run by the look of the backs', () => {
+    const images: TestImage[] = [
+      { name: 'scan1.jpg', look: 'trout' },
+      { name: 'scan2.jpg', look: 'jeter' },
+      { name: 'scan3.jpg', look: 'griffey' },
+      { name: 'scan4.jpg', look: 'topps-back' },
+      { name: 'scan5.jpg', look: 'topps-back' },
+      { name: 'scan6.jpg', look: 'topps-back' }
+    ]
+
+    const { pairs } = pairImages(images, { similarity })
+
+    expect(pairs.map(pair => [pair.front.name, pair.back?.name])).toEqual([
+      ['scan1.jpg', 'scan4.jpg'],
+      ['scan2.jpg', 'scan5.jpg'],
+      ['scan3.jpg', 'scan6.jpg']
+    ])
+    expect(pairs[0].pairedBy).toBe('similarity')
+  })
+
+  it('should pair an alternating run and keep guesses out when nothing stands out', () => {
+    const alternating: TestImage[] = ['trout', 'back', 'jeter', 'back', 'griffey', 'back']
+      .map((look, i) => ({ name: `IMG_${i + 10}.jpg`, look }))
+    expect(pairImages(alternating, { similarity }).pairs.map(pair => pair.back?.name))
+      .toEqual(['IMG_11.jpg', 'IMG_13.jpg', 'IMG_15.jpg'])
+
+    const distinct: TestImage[] = ['a', 'b', 'c', 'd'].map(look => ({ name: `${look}.jpg`, look }))
+    expect(pairImages(distinct, { similarity }).pairs.every(pair => pair.pairedBy === 'single')).toBe(true)
+  })
+})
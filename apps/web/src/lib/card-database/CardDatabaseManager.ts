@@ -8,10 +8,19 @@ import {
   CardDatabaseEntry, 
   ValidationResult, 
   SetInfo, 
-  CardVariant 
+  CardVariant,
+  VisualMatch
 } from '../interfaces/services'
 import { Card, CardAttributes } from '../domain/models'
 import { NotFoundError, ExternalServiceError } from '../errors'
+import { CardFingerprint, computeFingerprint, fingerprintSimilarity } from '../vision/PerceptualHash'
+import type { ReferenceImageSource } from '../vision/ReferenceComparator'
+import { ChecklistFormat, ChecklistImporter, ChecklistImportReport, ChecklistStore } from './ChecklistImporter'
+import { ReferenceImageStore, ReferenceLibrary } from './ReferenceLibrary'
+import { SearchVocabulary, diffTerms, findCandidates, indexTerms, planSearch, rankCards } from './SearchIndex'
+import { playerRegistry } from './PlayerRegistry'
+import { SetTaxonomy, findBuiltInTaxonomy, resolveVariants, taxonomyId, toCardVariant } from './VariantTaxonomy'
+import { createImageData } from '../vision/image'
 
 // Card database provider interface
 export interface ICardProvider {
@@ -98,7 +107,7 @@ export class TCDBProvider implements ICardProvider {
   async validateCard(details: CardDetails): Promise<Partial<ValidationResult>> {
     const cards = await this.searchCards(`${details.player} ${details.year} ${details.set}`)
     const match = cards.find(c => 
-      c.player === details.player &&
+      playerRegistry.samePlayer(c.player, details.player) &&
       c.year === details.year &&
       c.set === details.set &&
       (!details.cardNumber || c.cardNumber === details.cardNumber)
@@ -241,13 +250,79 @@ export class BeckettProvider implements ICardProvider {
   }
 }
 
+// Stored per reference image; a card can have several (front, back, parallels)
+export interface FingerprintRecord extends CardFingerprint {
+  id: string
+  cardId: string
+  side: 'front' | 'back'
+  createdAt: number
+}
+
+// Genuine reference image, rectified, kept as raw pixels for the counterfeit comparison
+export interface ReferenceImageRecord {
+  id: string
+  cardId: string
+  side: 'front' | 'back'
+  width: number
+  height: number
+  data: Uint8ClampedArray
+  createdAt: number
+}
+
+// Set info as stored; one record per year, manufacturer and set name
+interface SetRecord extends SetInfo {
+  id: string
+}
+
+// A set's variant taxonomy as stored, under the same id as its set record
+interface TaxonomyRecord extends SetTaxonomy {
+  id: string
+}
+
+// One search term on one card, keyed [term, cardId] so a term's cards are a key range
+interface PostingRecord {
+  term: string
+  cardId: string
+}
+
+// How many cards carry a term; loaded whole as the search vocabulary
+interface TermRecord {
+  term: string
+  count: number
+}
+
+const SEARCH_RESULT_LIMIT = 50
+// Cards read and scored for one search; few queries have this many cards carrying every token
+const SEARCH_CANDIDATE_LIMIT = 2000
+// Cards read per transaction when rebuilding the search index
+const REINDEX_PAGE_SIZE = 2000
+
+// A request's result; awaiting it leaves the transaction open for the requests that follow
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Resolves once everything queued on the transaction is written
+function transactionComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
 // Local database provider for offline support
-export class LocalDatabaseProvider implements ICardProvider {
+export class LocalDatabaseProvider implements ICardProvider, ChecklistStore, ReferenceImageStore {
   name = 'local'
   private db: IDBDatabase | null = null
+  private vocabulary: SearchVocabulary | null = null
 
   async initialize(): Promise<void> {
-    const request = indexedDB.open('VeriCardDatabase', 1)
+    const request = indexedDB.open('VeriCardDatabase', 5)
+    let reindex = false
     
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result
@@ -263,44 +338,110 @@ export class LocalDatabaseProvider implements ICardProvider {
         const setStore = db.createObjectStore('sets', { keyPath: 'id' })
         setStore.createIndex('yearManufacturer', ['year', 'manufacturer'])
       }
+
+      // Version 2: perceptual hashes of reference images for visual matching
+      if (!db.objectStoreNames.contains('fingerprints')) {
+        const fingerprintStore = db.createObjectStore('fingerprints', { keyPath: 'id' })
+        fingerprintStore.createIndex('cardId', 'cardId')
+      }
+
+      // Version 3: genuine reference images for counterfeit comparison
+      if (!db.objectStoreNames.contains('references')) {
+        db.createObjectStore('references', { keyPath: 'id' })
+      }
+
+      // Version 4: inverted index for catalog search; cards already stored get indexed once open
+      if (!db.objectStoreNames.contains('postings')) {
+        db.createObjectStore('postings', { keyPath: ['term', 'cardId'] })
+        db.createObjectStore('terms', { keyPath: 'term' })
+        reindex = event.oldVersion > 0
+      }
+
+      // Version 5: per-set parallel and insert taxonomies
+      if (!db.objectStoreNames.contains('taxonomies')) {
+        db.createObjectStore('taxonomies', { keyPath: 'id' })
+      }
     }
 
-    return new Promise((resolve, reject) => {
+    await new Promise<void>((resolve, reject) => {
       request.onsuccess = () => {
         this.db = request.result
         resolve()
       }
       request.onerror = () => reject(request.error)
     })
+
+    if (reindex) await this.rebuildSearchIndex()
+    await this.learnPlayers()
   }
 
-  async searchCards(query: string): Promise<CardDatabaseEntry[]> {
-    if (!this.db) await this.initialize()
-    
+  // Teach the player registry everyone the catalog holds, reading only the player index's keys
+  private async learnPlayers(): Promise<void> {
     const transaction = this.db!.transaction(['cards'], 'readonly')
-    const store = transaction.objectStore('cards')
-    const cards: CardDatabaseEntry[] = []
-    
+    const index = transaction.objectStore('cards').index('player')
+
     return new Promise((resolve, reject) => {
-      const request = store.openCursor()
-      
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result
+      const request = index.openKeyCursor(null, 'nextunique')
+      request.onsuccess = () => {
+        const cursor = request.result
         if (cursor) {
-          const card = cursor.value as CardDatabaseEntry
-          if (this.matchesQuery(card, query)) {
-            cards.push(card)
-          }
+          playerRegistry.learn(String(cursor.key))
           cursor.continue()
         } else {
-          resolve(cards)
+          resolve()
         }
       }
-      
       request.onerror = () => reject(request.error)
     })
   }
 
+  // Candidates are the cards carrying every query token, found from the rarest one; every token then ranks them
+  async searchCards(query: string, limit = SEARCH_RESULT_LIMIT): Promise<CardDatabaseEntry[]> {
+    const vocabulary = await this.loadVocabulary()
+    const plan = planSearch(query, vocabulary)
+    if (plan.length === 0) return []
+
+    const cardIds = await findCandidates(plan, {
+      page: (terms, after, count) => this.readPostingsPage(terms, after, count),
+      within: (terms, first, last) => this.readPostingsWithin(terms, first, last)
+    }, SEARCH_CANDIDATE_LIMIT)
+    const cards = await this.getCards(cardIds)
+    return rankCards(cards, query).slice(0, limit)
+  }
+
+  // Rebuild postings and vocabulary from the cards store, a page at a time
+  async rebuildSearchIndex(): Promise<void> {
+    if (!this.db) await this.initialize()
+
+    const clear = this.db!.transaction(['postings', 'terms'], 'readwrite')
+    clear.objectStore('postings').clear()
+    clear.objectStore('terms').clear()
+    await transactionComplete(clear)
+
+    const vocabulary = new SearchVocabulary()
+    let after: string | null = null
+    for (;;) {
+      const page = await this.readCardPage(after, REINDEX_PAGE_SIZE)
+      if (page.length === 0) break
+
+      const transaction = this.db!.transaction(['postings'], 'readwrite')
+      const postings = transaction.objectStore('postings')
+      page.forEach(card => indexTerms(card).forEach(({ term }) => {
+        postings.put({ term, cardId: card.id } as PostingRecord)
+        vocabulary.add(term)
+      }))
+      await transactionComplete(transaction)
+      after = page[page.length - 1].id
+    }
+
+    const transaction = this.db!.transaction(['terms'], 'readwrite')
+    const terms = transaction.objectStore('terms')
+    vocabulary.entries().forEach(([term, count]) => terms.put({ term, count } as TermRecord))
+    await transactionComplete(transaction)
+
+    this.vocabulary = vocabulary
+  }
+
   async getCard(id: string): Promise<CardDatabaseEntry | null> {
     if (!this.db) await this.initialize()
     
@@ -319,14 +460,80 @@ export class LocalDatabaseProvider implements ICardProvider {
     
     const transaction = this.db!.transaction(['sets'], 'readonly')
     const store = transaction.objectStore('sets')
-    const index = store.index('yearManufacturer')
-    
+
+    // Keyed the way saveSetInfo writes it, so any casing of the names finds the set
+    return new Promise((resolve, reject) => {
+      const request = store.get(taxonomyId(year, manufacturer, setName))
+      request.onsuccess = () => {
+        const record = request.result as SetRecord | undefined
+        if (!record) return resolve(null)
+        const { id, ...info } = record
+        resolve(info)
+      }
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  async saveSetInfo(info: SetInfo): Promise<void> {
+    if (!this.db) await this.initialize()
+
+    const record: SetRecord = { ...info, id: taxonomyId(info.year, info.manufacturer, info.name) }
+    const transaction = this.db!.transaction(['sets'], 'readwrite')
+    const store = transaction.objectStore('sets')
+
+    return new Promise((resolve, reject) => {
+      const request = store.put(record)
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  async getTaxonomy(year: number, manufacturer: string, setName: string): Promise<SetTaxonomy | null> {
+    if (!this.db) await this.initialize()
+
+    const transaction = this.db!.transaction(['taxonomies'], 'readonly')
+    const store = transaction.objectStore('taxonomies')
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(taxonomyId(year, manufacturer, setName))
+      request.onsuccess = () => {
+        const record = request.result as TaxonomyRecord | undefined
+        if (!record) return resolve(null)
+        const { id, ...taxonomy } = record
+        resolve(taxonomy)
+      }
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  async saveTaxonomy(taxonomy: SetTaxonomy): Promise<void> {
+    if (!this.db) await this.initialize()
+
+    const record: TaxonomyRecord = { ...taxonomy, id: taxonomyId(taxonomy.year, taxonomy.manufacturer, taxonomy.set) }
+    const transaction = this.db!.transaction(['taxonomies'], 'readwrite')
+    const store = transaction.objectStore('taxonomies')
+
+    return new Promise((resolve, reject) => {
+      const request = store.put(record)
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  // Every card of one set, by the set index
+  // Matched on the normalized set key; the set index is case-sensitive and a checklist may not be
+  async getSetCards(year: number, manufacturer: string, setName: string): Promise<CardDatabaseEntry[]> {
+    if (!this.db) await this.initialize()
+
+    const transaction = this.db!.transaction(['cards'], 'readonly')
+    const store = transaction.objectStore('cards')
+    const key = taxonomyId(year, manufacturer, setName)
+
     return new Promise((resolve, reject) => {
-      const request = index.get([year, manufacturer])
+      const request = store.index('year').getAll(year)
       request.onsuccess = () => {
-        const sets = request.result as SetInfo[]
-        const match = sets?.find(s => s.name === setName)
-        resolve(match || null)
+        const cards = request.result as CardDatabaseEntry[]
+        resolve(cards.filter(card => taxonomyId(card.year, card.manufacturer, card.set) === key))
       }
       request.onerror = () => reject(request.error)
     })
@@ -344,35 +551,298 @@ export class LocalDatabaseProvider implements ICardProvider {
   }
 
   async saveCard(card: CardDatabaseEntry): Promise<void> {
+    return this.saveCards([card])
+  }
+
+  // Many cards in one transaction, search index included; resolves once all are written.
+  // Stored cards and term counts are read inside that transaction, so concurrent imports queue behind each other
+  async saveCards(cards: CardDatabaseEntry[]): Promise<void> {
+    const vocabulary = await this.loadVocabulary()
+
+    // The last copy of a card wins, as it would with plain puts
+    const incoming = new Map<string, CardDatabaseEntry>()
+    cards.forEach(card => incoming.set(card.id, card))
+
+    const transaction = this.db!.transaction(['cards', 'postings', 'terms'], 'readwrite')
+    const written = transactionComplete(transaction)
+    const cardStore = transaction.objectStore('cards')
+    const postings = transaction.objectStore('postings')
+    const termStore = transaction.objectStore('terms')
+    const deltas = new Map<string, number>()
+
+    const write = async () => {
+      const cardIds = Array.from(incoming.keys())
+      const stored = await Promise.all(cardIds.map(cardId => requestResult<CardDatabaseEntry | undefined>(cardStore.get(cardId))))
+
+      cardIds.forEach((cardId, i) => {
+        const card = incoming.get(cardId)!
+        cardStore.put(card)
+        const { added, removed } = diffTerms(stored[i], card)
+        added.forEach(term => {
+          postings.put({ term, cardId } as PostingRecord)
+          deltas.set(term, (deltas.get(term) ?? 0) + 1)
+        })
+        removed.forEach(term => {
+          postings.delete([term, cardId])
+          deltas.set(term, (deltas.get(term) ?? 0) - 1)
+        })
+      })
+
+      const terms = Array.from(deltas.keys())
+      const records = await Promise.all(terms.map(term => requestResult<TermRecord | undefined>(termStore.get(term))))
+      terms.forEach((term, i) => {
+        const count = (records[i]?.count ?? 0) + deltas.get(term)!
+        if (count > 0) termStore.put({ term, count } as TermRecord)
+        else termStore.delete(term)
+      })
+    }
+
+    await Promise.all([write(), written])
+    deltas.forEach((delta, term) => vocabulary.add(term, delta))
+    incoming.forEach(card => playerRegistry.learn(card.player))
+  }
+
+  // Remove a card and its postings; unknown ids are a no-op
+  async deleteCard(id: string): Promise<void> {
+    const vocabulary = await this.loadVocabulary()
+
+    const transaction = this.db!.transaction(['cards', 'postings', 'terms'], 'readwrite')
+    const written = transactionComplete(transaction)
+    const cardStore = transaction.objectStore('cards')
+    const postings = transaction.objectStore('postings')
+    const termStore = transaction.objectStore('terms')
+    let terms: string[] = []
+
+    const remove = async () => {
+      const card = await requestResult<CardDatabaseEntry | undefined>(cardStore.get(id))
+      if (!card) return
+
+      terms = Array.from(new Set(indexTerms(card).map(({ term }) => term)))
+      cardStore.delete(id)
+      const records = await Promise.all(terms.map(term => requestResult<TermRecord | undefined>(termStore.get(term))))
+      terms.forEach((term, i) => {
+        postings.delete([term, id])
+        const count = (records[i]?.count ?? 0) - 1
+        if (count > 0) termStore.put({ term, count } as TermRecord)
+        else termStore.delete(term)
+      })
+    }
+
+    await Promise.all([remove(), written])
+    terms.forEach(term => vocabulary.add(term, -1))
+  }
+
+  // Up to count cards in id order after the given id, so callers can walk the catalog without loading it
+  async getCardPage(after: string | null, count: number): Promise<CardDatabaseEntry[]> {
     if (!this.db) await this.initialize()
-    
-    const transaction = this.db!.transaction(['cards'], 'readwrite')
+    return this.readCardPage(after, count)
+  }
+
+  async saveFingerprint(cardId: string, fingerprint: CardFingerprint, side: 'front' | 'back' = 'front'): Promise<void> {
+    if (!this.db) await this.initialize()
+
+    const record: FingerprintRecord = {
+      ...fingerprint,
+      id: `${cardId}:${side}:${fingerprint.hash}`,
+      cardId,
+      side,
+      createdAt: Date.now()
+    }
+
+    const transaction = this.db!.transaction(['fingerprints'], 'readwrite')
+    const store = transaction.objectStore('fingerprints')
+
+    return new Promise((resolve, reject) => {
+      const request = store.put(record)
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  // The image and its fingerprint are written together, so every reference can be matched visually
+  async saveReferenceImage(cardId: string, image: ImageData, side: 'front' | 'back' = 'front'): Promise<void> {
+    if (!this.db) await this.initialize()
+
+    const fingerprint = computeFingerprint(image)
+    const fingerprintRecord: FingerprintRecord = {
+      ...fingerprint,
+      id: `${cardId}:${side}:${fingerprint.hash}`,
+      cardId,
+      side,
+      createdAt: Date.now()
+    }
+    const record: ReferenceImageRecord = {
+      id: `${cardId}:${side}`,
+      cardId,
+      side,
+      width: image.width,
+      height: image.height,
+      data: image.data,
+      createdAt: Date.now()
+    }
+
+    const transaction = this.db!.transaction(['references', 'fingerprints'], 'readwrite')
+    transaction.objectStore('references').put(record)
+    transaction.objectStore('fingerprints').put(fingerprintRecord)
+    await transactionComplete(transaction)
+  }
+
+  async getReferenceImage(cardId: string, side: 'front' | 'back' = 'front'): Promise<ImageData | null> {
+    if (!this.db) await this.initialize()
+
+    const transaction = this.db!.transaction(['references'], 'readonly')
+    const store = transaction.objectStore('references')
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(`${cardId}:${side}`)
+      request.onsuccess = () => {
+        const record = request.result as ReferenceImageRecord | undefined
+        resolve(record ? createImageData(record.width, record.height, record.data) : null)
+      }
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  // Linear scan is fine at catalog sizes we keep offline (thousands of fingerprints)
+  async findVisualMatches(fingerprint: CardFingerprint, limit = 5): Promise<VisualMatch[]> {
+    if (!this.db) await this.initialize()
+
+    const transaction = this.db!.transaction(['fingerprints'], 'readonly')
+    const store = transaction.objectStore('fingerprints')
+    const bestByCard = new Map<string, number>()
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.openCursor()
+
+      request.onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest).result
+        if (cursor) {
+          const record = cursor.value as FingerprintRecord
+          const similarity = fingerprintSimilarity(fingerprint, record)
+          if (similarity > (bestByCard.get(record.cardId) ?? -1)) {
+            bestByCard.set(record.cardId, similarity)
+          }
+          cursor.continue()
+        } else {
+          resolve()
+        }
+      }
+
+      request.onerror = () => reject(request.error)
+    })
+
+    const ranked = Array.from(bestByCard.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+
+    const matches: VisualMatch[] = []
+    for (const [cardId, similarity] of ranked) {
+      const card = await this.getCard(cardId)
+      if (card) matches.push({ card, similarity })
+    }
+    return matches
+  }
+
+  // The vocabulary is read once and then kept in step with every write
+  private async loadVocabulary(): Promise<SearchVocabulary> {
+    if (!this.db) await this.initialize()
+    if (this.vocabulary) return this.vocabulary
+
+    const transaction = this.db!.transaction(['terms'], 'readonly')
+    const store = transaction.objectStore('terms')
+
+    const records = await new Promise<TermRecord[]>((resolve, reject) => {
+      const request = store.getAll()
+      request.onsuccess = () => resolve(request.result as TermRecord[])
+      request.onerror = () => reject(request.error)
+    })
+
+    // A search and a save may both have started the read; every write updates the first copy kept
+    if (!this.vocabulary) {
+      this.vocabulary = new SearchVocabulary()
+      records.forEach(record => this.vocabulary!.add(record.term, record.count))
+    }
+    return this.vocabulary
+  }
+
+  // Up to count card ids after the given one carrying any of the terms, in id order
+  private async readPostingsPage(terms: string[], after: string | null, count: number): Promise<string[]> {
+    const cardIds = await this.readPostingKeys(terms, term => after === null
+      ? IDBKeyRange.bound([term], [term, '\uffff'])
+      : IDBKeyRange.bound([term, after], [term, '\uffff'], true), count)
+    // Each term gave its first count ids, so the first count of them all are complete
+    return Array.from(cardIds).sort().slice(0, count)
+  }
+
+  // Card ids from first to last, inclusive, carrying any of the terms
+  private readPostingsWithin(terms: string[], first: string, last: string): Promise<Set<string>> {
+    return this.readPostingKeys(terms, term => IDBKeyRange.bound([term, first], [term, last]))
+  }
+
+  private async readPostingKeys(terms: string[], range: (term: string) => IDBKeyRange, count?: number): Promise<Set<string>> {
+    const transaction = this.db!.transaction(['postings'], 'readonly')
+    const store = transaction.objectStore('postings')
+    const cardIds = new Set<string>()
+
+    await Promise.all(terms.map(term => new Promise<void>((resolve, reject) => {
+      const request = store.getAllKeys(range(term), count)
+      request.onsuccess = () => {
+        (request.result as IDBValidKey[]).forEach(key => cardIds.add((key as string[])[1]))
+        resolve()
+      }
+      request.onerror = () => reject(request.error)
+    })))
+
+    return cardIds
+  }
+
+  // Cards by id in one transaction; ids not in the store are skipped
+  private async getCards(ids: string[]): Promise<CardDatabaseEntry[]> {
+    if (!this.db) await this.initialize()
+    if (ids.length === 0) return []
+
+    const transaction = this.db!.transaction(['cards'], 'readonly')
     const store = transaction.objectStore('cards')
-    await store.put(card)
+
+    const cards = await Promise.all(ids.map(id => new Promise<CardDatabaseEntry | undefined>((resolve, reject) => {
+      const request = store.get(id)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })))
+    return cards.filter((card): card is CardDatabaseEntry => !!card)
   }
 
-  private matchesQuery(card: CardDatabaseEntry, query: string): boolean {
-    const lowerQuery = query.toLowerCase()
-    return (
-      card.player.toLowerCase().includes(lowerQuery) ||
-      card.set.toLowerCase().includes(lowerQuery) ||
-      card.manufacturer.toLowerCase().includes(lowerQuery) ||
-      card.year.toString().includes(lowerQuery) ||
-      (card.cardNumber ? card.cardNumber.includes(lowerQuery) : false)
-    )
+  // Cards in key order after the given id
+  private async readCardPage(after: string | null, count: number): Promise<CardDatabaseEntry[]> {
+    const transaction = this.db!.transaction(['cards'], 'readonly')
+    const store = transaction.objectStore('cards')
+
+    return new Promise((resolve, reject) => {
+      const request = store.getAll(after === null ? undefined : IDBKeyRange.lowerBound(after, true), count)
+      request.onsuccess = () => resolve(request.result as CardDatabaseEntry[])
+      request.onerror = () => reject(request.error)
+    })
   }
 }
 
+export interface CardDatabaseManagerOptions {
+  // offlineMode flag: when the browser has no connection, only the local provider is queried
+  offlineMode?: boolean
+}
+
 // Main Card Database Manager
-export class CardDatabaseManager implements ICardDatabaseService {
+export class CardDatabaseManager implements ICardDatabaseService, ReferenceImageSource {
   private providers: ICardProvider[] = []
   private localProvider: LocalDatabaseProvider
+  private references: ReferenceLibrary
 
   constructor(
     private logger?: ILogger,
-    private cache?: ICacheManager
+    private cache?: ICacheManager,
+    private options: CardDatabaseManagerOptions = {}
   ) {
     this.localProvider = new LocalDatabaseProvider()
+    this.references = new ReferenceLibrary(this.localProvider)
     this.initializeProviders()
   }
 
@@ -393,6 +863,11 @@ export class CardDatabaseManager implements ICardDatabaseService {
     })
   }
 
+  // The offline catalog, shared with the card repository so both see one search index
+  get localDatabase(): LocalDatabaseProvider {
+    return this.localProvider
+  }
+
   async lookupCard(details: Partial<CardDetails>): Promise<CardDatabaseEntry | null> {
     const query = [details.player, details.year, details.set, details.cardNumber]
       .filter(Boolean)
@@ -407,7 +882,7 @@ export class CardDatabaseManager implements ICardDatabaseService {
     }
 
     // Search across all providers
-    for (const provider of this.providers) {
+    for (const provider of this.activeProviders()) {
       try {
         const cards = await provider.searchCards(query)
         const match = this.findBestMatch(cards, details)
@@ -445,7 +920,7 @@ export class CardDatabaseManager implements ICardDatabaseService {
     const seen = new Set<string>()
 
     // Search all providers in parallel
-    const promises = this.providers.map(provider =>
+    const promises = this.activeProviders().map(provider =>
       provider.searchCards(query)
         .catch(err => {
           this.logger?.warn(`Provider ${provider.name} search failed`, { error: err })
@@ -457,7 +932,7 @@ export class CardDatabaseManager implements ICardDatabaseService {
     
     for (const providerResults of results) {
       for (const card of providerResults) {
-        const key = `${card.player}-${card.year}-${card.set}-${card.cardNumber}`
+        const key = `${playerRegistry.canonicalId(card.player)}-${card.year}-${card.set}-${card.cardNumber}`
         if (!seen.has(key)) {
           seen.add(key)
           allResults.push(card)
@@ -465,8 +940,8 @@ export class CardDatabaseManager implements ICardDatabaseService {
       }
     }
 
-    // Sort by relevance
-    const sortedResults = this.sortByRelevance(allResults, query)
+    // Rank everything on one scale, whichever provider it came from
+    const sortedResults = rankCards(allResults, query)
     
     if (this.cache) {
       await this.cache.set(cacheKey, sortedResults, 60 * 60 * 1000) // 1 hour
@@ -529,22 +1004,68 @@ export class CardDatabaseManager implements ICardDatabaseService {
     }
   }
 
+  // Visual matching only ever touches IndexedDB, so it works offline
+  async findVisualMatches(card: ImageData, limit = 5): Promise<VisualMatch[]> {
+    return this.references.findVisualMatches(card, limit)
+  }
+
+  // Add a reference image (rectified card) to the offline catalog
+  // The pixels are kept too, as the genuine copy counterfeit checks compare against
+  async indexReferenceImage(entry: CardDatabaseEntry, card: ImageData, side: 'front' | 'back' = 'front'): Promise<void> {
+    await this.localProvider.saveCard(entry)
+    await this.localProvider.saveReferenceImage(entry.id, card, side)
+  }
+
+  async getReferenceImage(cardId: string, side: 'front' | 'back' = 'front'): Promise<ImageData | null> {
+    return this.localProvider.getReferenceImage(cardId, side)
+  }
+
+  // Bulk-load a set checklist (CSV or JSON) into the offline catalog
+  async importChecklist(source: string, format?: ChecklistFormat): Promise<ChecklistImportReport> {
+    const report = await new ChecklistImporter(this.localProvider, this.references).import(source, format)
+    this.logger?.info('Checklist imported', {
+      sets: report.sets,
+      taxonomies: report.taxonomies,
+      added: report.added,
+      updated: report.updated,
+      rejected: report.rejected.length,
+      referenceImages: report.referenceImages,
+      imageFailures: report.imageFailures.length
+    })
+    return report
+  }
+
+  // Reference for a scanned front, by its closest visual match
+  async findReference(card: ImageData): Promise<ImageData | null> {
+    return this.references.findReference(card)
+  }
+
+  // Imported taxonomy first, then the built-in one; null when the set has neither
+  async getTaxonomy(year: number, manufacturer: string, setName: string): Promise<SetTaxonomy | null> {
+    try {
+      const stored = await this.localProvider.getTaxonomy(year, manufacturer, setName)
+      if (stored) return stored
+    } catch (error) {
+      this.logger?.warn('Stored taxonomy unavailable', { error })
+    }
+    return findBuiltInTaxonomy(year, manufacturer, setName)
+  }
+
+  async saveTaxonomy(taxonomy: SetTaxonomy): Promise<void> {
+    await this.localProvider.saveTaxonomy(taxonomy)
+  }
+
   async getVariants(baseCard: CardDetails): Promise<CardVariant[]> {
     const card = await this.lookupCard(baseCard)
     if (!card) return []
 
-    const variants: CardVariant[] = []
-    
-    for (const variantName of card.variants) {
-      variants.push({
-        name: variantName,
-        rarity: this.determineRarity(variantName),
-        estimatedPrintRun: this.estimatePrintRun(variantName),
-        distinguishingFeatures: this.getDistinguishingFeatures(variantName)
-      })
-    }
+    const taxonomy = await this.getTaxonomy(card.year, card.manufacturer, card.set)
+    return resolveVariants(card, taxonomy).map(toCardVariant)
+  }
 
-    return variants
+  private activeProviders(): ICardProvider[] {
+    const disconnected = typeof navigator !== 'undefined' && navigator.onLine === false
+    return this.options.offlineMode && disconnected ? [this.localProvider] : this.providers
   }
 
   private findBestMatch(cards: CardDatabaseEntry[], target: Partial<CardDetails>): CardDatabaseEntry | null {
@@ -554,7 +1075,7 @@ export class CardDatabaseManager implements ICardDatabaseService {
     const scored = cards.map(card => {
       let score = 0
       
-      if (target.player && card.player === target.player) score += 10
+      if (target.player && playerRegistry.samePlayer(card.player, target.player)) score += 10
       if (target.year && card.year === target.year) score += 10
       if (target.set && card.set === target.set) score += 10
       if (target.cardNumber && card.cardNumber === target.cardNumber) score += 5
@@ -571,61 +1092,4 @@ export class CardDatabaseManager implements ICardDatabaseService {
     scored.sort((a, b) => b.score - a.score)
     return scored[0].score > 10 ? scored[0].card : null
   }
-
-  private sortByRelevance(cards: CardDatabaseEntry[], query: string): CardDatabaseEntry[] {
-    const lowerQuery = query.toLowerCase()
-    
-    return cards.sort((a, b) => {
-      // Exact matches first
-      const aExact = a.player.toLowerCase() === lowerQuery
-      const bExact = b.player.toLowerCase() === lowerQuery
-      if (aExact && !bExact) return -1
-      if (!aExact && bExact) return 1
-      
-      // Then rookies and special cards
-      const aSpecial = a.attributes.isRookie || a.attributes.isAutograph
-      const bSpecial = b.attributes.isRookie || b.attributes.isAutograph
-      if (aSpecial && !bSpecial) return -1
-      if (!aSpecial && bSpecial) return 1
-      
-      // Then by year (newer first)
-      return b.year - a.year
-    })
-  }
-
-  private determineRarity(variantName: string): string {
-    const lower = variantName.toLowerCase()
-    
-    if (lower.includes('1/1') || lower.includes('superfractor')) return 'legendary'
-    if (lower.includes('/10') || lower.includes('/25')) return 'mythic'
-    if (lower.includes('/50') || lower.includes('/99')) return 'rare'
-    if (lower.includes('refractor') || lower.includes('/199')) return 'uncommon'
-    
-    return 'common'
-  }
-
-  private estimatePrintRun(variantName: string): number | undefined {
-    const match = variantName.match(/\/(\d+)/)
-    if (match) return parseInt(match[1])
-    
-    if (variantName.includes('1/1')) return 1
-    if (variantName.toLowerCase().includes('base')) return undefined // Unknown high print run
-    
-    return undefined
-  }
-
-  private getDistinguishingFeatures(variantName: string): string[] {
-    const features: string[] = []
-    const lower = variantName.toLowerCase()
-    
-    if (lower.includes('refractor')) features.push('Refractor coating')
-    if (lower.includes('gold')) features.push('Gold coloring')
-    if (lower.includes('black')) features.push('Black coloring')
-    if (lower.includes('auto')) features.push('Autographed')
-    if (lower.includes('patch')) features.push('Game-worn patch')
-    if (lower.includes('prizm')) features.push('Prizm technology')
-    if (lower.includes('chrome')) features.push('Chrome finish')
-    
-    return features
-  }
 }
\ No newline at end of file
@@ -0,0 +1,488 @@
+/**
+ * Checklist Importer - Rich Klein: Load set checklists into the local catalog
+ *
+ * Takes a checklist as CSV (one card per row, with a header) or JSON (an
+ * array of rows, or sets with their cards nested under `cards`). Each row
+ * needs set, year, manufacturer, number and player; subset, rookie flag and
+ * parallels are optional. Parallels are written the way checklists print
+ * them: "Silver | Gold /10 | Black 1/1" in CSV, or an array of names or
+ * { name, printRun } objects in JSON.
+ *
+ * Rows that fail validation are rejected with reasons and the rest still go
+ * in. A card already in the catalog (same set and number) is updated with
+ * any new parallels rather than duplicated; the same number for a different
+ * player is a conflict and rejected. Every set touched gets a SetInfo record
+ * counting its cards and subsets.
+ *
+ * A JSON set may also carry its variant taxonomy under `taxonomy` (see
+ * VariantTaxonomy); it replaces whatever taxonomy the set had.
+ *
+ * A row may link a picture of the card under `image`. With an image indexer
+ * (ReferenceLibrary in the app) each picture is fetched and added to the
+ * visual index as the card's genuine reference; a picture that fails to load
+ * is reported and the card is still imported.
+ */
+
+import type { CardDatabaseEntry, SetInfo } from '../interfaces/services'
+import { ValidationError } from '../errors'
+import { playerRegistry } from './PlayerRegistry'
+import { SetTaxonomy, formatParallel, parseParallel, parseTaxonomy, taxonomyId } from './VariantTaxonomy'
+
+export type ChecklistFormat = 'csv' | 'json'
+
+export interface ChecklistParallel {
+  name: string
+  // Serial-numbered run; missing for unnumbered parallels
+  printRun?: number
+}
+
+// One validated checklist line
+export interface ChecklistRow {
+  set: string
+  year: number
+  manufacturer: string
+  number: string
+  player: string
+  subset?: string
+  rookie: boolean
+  parallels: ChecklistParallel[]
+  // URL of a picture of the card front
+  image?: string
+}
+
+export interface RejectedRow {
+  // 1-based position among the data rows (the CSV header is not counted)
+  row: number
+  reasons: string[]
+  raw: Record<string, unknown>
+}
+
+export interface ChecklistImportReport {
+  format: ChecklistFormat
+  totalRows: number
+  added: number
+  // Already in the catalog; new parallels were merged in
+  updated: number
+  // Already in the catalog with nothing new, or repeated in the file
+  unchanged: number
+  rejected: RejectedRow[]
+  // "2018 Panini Prizm" for every set touched
+  sets: string[]
+  // Sets whose variant taxonomy was loaded
+  taxonomies: string[]
+  // Card pictures added to the visual index, and the ones that could not be loaded
+  referenceImages: number
+  imageFailures: ImageFailure[]
+}
+
+export interface ImageFailure {
+  row: number
+  url: string
+  reason: string
+}
+
+// Where imported cards and sets are kept; LocalDatabaseProvider in the app
+export interface ChecklistStore {
+  // Set lookups ignore the case of the year, manufacturer and set names
+  getSetCards(year: number, manufacturer: string, setName: string): Promise<CardDatabaseEntry[]>
+  getSetInfo(year: number, manufacturer: string, setName: string): Promise<SetInfo | null>
+  saveCards(cards: CardDatabaseEntry[]): Promise<void>
+  saveSetInfo(info: SetInfo): Promise<void>
+  saveTaxonomy(taxonomy: SetTaxonomy): Promise<void>
+}
+
+// Loads a card picture into the visual index; ReferenceLibrary in the app
+export interface ReferenceImageIndexer {
+  indexImage(card: CardDatabaseEntry, url: string): Promise<void>
+}
+
+// Header names seen in the wild, normalised to row fields
+const COLUMN_ALIASES: Record<string, keyof RawRow> = {
+  'set': 'set',
+  'set name': 'set',
+  'year': 'year',
+  'season': 'year',
+  'manufacturer': 'manufacturer',
+  'brand': 'manufacturer',
+  'number': 'number',
+  'card number': 'number',
+  'card #': 'number',
+  '#': 'number',
+  'no': 'number',
+  'player': 'player',
+  'name': 'player',
+  'subset': 'subset',
+  'insert': 'subset',
+  'rookie': 'rookie',
+  'rc': 'rookie',
+  'parallels': 'parallels',
+  'variants': 'parallels',
+  'image': 'image',
+  'image url': 'image',
+  'front image': 'image'
+}
+
+const REQUIRED_FIELDS: Array<keyof RawRow> = ['set', 'year', 'manufacturer', 'number', 'player']
+const FIRST_CARD_YEAR = 1860
+const PARALLEL_SEPARATOR = /[|;]/
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'rc', 'x']
+
+interface RawRow {
+  set?: unknown
+  year?: unknown
+  manufacturer?: unknown
+  number?: unknown
+  player?: unknown
+  subset?: unknown
+  rookie?: unknown
+  parallels?: unknown
+  image?: unknown
+  releaseDate?: unknown
+}
+
+export class ChecklistImporter {
+  constructor(private store: ChecklistStore, private images?: ReferenceImageIndexer) {}
+
+  async import(source: string, format: ChecklistFormat = detectFormat(source)): Promise<ChecklistImportReport> {
+    const { rows: rawRows, taxonomies } = format === 'json' ? readJson(source) : { rows: readCsv(source), taxonomies: [] }
+    const rejected: RejectedRow[] = []
+    const valid: Array<{ index: number; row: ChecklistRow; raw: RawRow }> = []
+
+    rawRows.forEach((raw, index) => {
+      const result = validateRow(raw)
+      if (result.row) valid.push({ index, row: result.row, raw })
+      else rejected.push({ row: index + 1, reasons: result.reasons, raw: raw as Record<string, unknown> })
+    })
+
+    const report: ChecklistImportReport = {
+      format,
+      totalRows: rawRows.length,
+      added: 0,
+      updated: 0,
+      unchanged: 0,
+      rejected,
+      sets: [],
+      taxonomies: [],
+      referenceImages: 0,
+      imageFailures: []
+    }
+    // Rows with a picture and the card they ended up as
+    const pictured: Array<{ row: number; url: string; card: CardDatabaseEntry }> = []
+
+    // One pass per set so existing cards are read once and written together
+    const bySet = new Map<string, typeof valid>()
+    valid.forEach(entry => {
+      const key = setKey(entry.row)
+      bySet.set(key, [...(bySet.get(key) ?? []), entry])
+    })
+
+    for (const entries of Array.from(bySet.values())) {
+      const { year, manufacturer, set } = entries[0].row
+      const existing = await this.store.getSetCards(year, manufacturer, set)
+      const catalog = new Map(existing.map(card => [normalizeNumber(card.cardNumber ?? ''), card]))
+      const changed = new Map<string, CardDatabaseEntry>()
+
+      entries.forEach(({ index, row, raw }) => {
+        const number = normalizeNumber(row.number)
+        const current = changed.get(number) ?? catalog.get(number)
+
+        if (current && !playerRegistry.samePlayer(current.player, row.player)) {
+          rejected.push({
+            row: index + 1,
+            reasons: [`Card #${row.number} is already ${current.player} in ${setLabel(row)}`],
+            raw: raw as Record<string, unknown>
+          })
+          return
+        }
+
+        if (!current) {
+          const entry = toEntry(row)
+          changed.set(number, entry)
+          if (row.image) pictured.push({ row: index + 1, url: row.image, card: entry })
+          report.added++
+          return
+        }
+        if (row.image) pictured.push({ row: index + 1, url: row.image, card: current })
+
+        const merged = mergeParallels(current, row)
+        if (merged) {
+          // A card added earlier in this file counts once, as added
+          if (!changed.has(number)) report.updated++
+          changed.set(number, merged)
+        } else {
+          report.unchanged++
+        }
+      })
+
+      if (changed.size > 0) await this.store.saveCards(Array.from(changed.values()))
+
+      changed.forEach((card, number) => catalog.set(number, card))
+      const releaseDate = entries.map(entry => parseDate(entry.raw.releaseDate)).find(Boolean)
+      await this.store.saveSetInfo(
+        toSetInfo(entries[0].row, Array.from(catalog.values()), await this.store.getSetInfo(year, manufacturer, set), releaseDate)
+      )
+      report.sets.push(setLabel(entries[0].row))
+    }
+
+    // Cards are saved first so a picture always has its card
+    if (this.images) {
+      for (const { row, url, card } of pictured) {
+        try {
+          await this.images.indexImage(card, url)
+          report.referenceImages++
+        } catch (error) {
+          report.imageFailures.push({ row, url, reason: error instanceof Error ? error.message : String(error) })
+        }
+      }
+    }
+
+    for (const taxonomy of taxonomies) {
+      await this.store.saveTaxonomy(taxonomy)
+      report.taxonomies.push(`${taxonomy.year} ${taxonomy.manufacturer} ${taxonomy.set}`)
+    }
+
+    rejected.sort((a, b) => a.row - b.row)
+    return report
+  }
+}
+
+export function detectFormat(source: string): ChecklistFormat {
+  const first = source.trimStart()[0]
+  return first === '[' || first === '{' ? 'json' : 'csv'
+}
+
+// Stable catalog id, so re-importing a checklist finds the same cards
+export function checklistCardId(row: Pick<ChecklistRow, 'year' | 'manufacturer' | 'set' | 'number'>): string {
+  return [row.year, row.manufacturer, row.set, normalizeNumber(row.number)]
+    .map(part => String(part).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''))
+    .join(':')
+}
+
+function validateRow(raw: RawRow): { row?: ChecklistRow; reasons: string[] } {
+  const reasons: string[] = []
+  REQUIRED_FIELDS.forEach(field => {
+    if (text(raw[field]) === '') reasons.push(`Missing ${field}`)
+  })
+
+  const year = Number(text(raw.year))
+  const latestYear = new Date().getFullYear() + 1
+  if (text(raw.year) !== '' && (!Number.isInteger(year) || year < FIRST_CARD_YEAR || year > latestYear)) {
+    reasons.push(`Year "${text(raw.year)}" is not between ${FIRST_CARD_YEAR} and ${latestYear}`)
+  }
+
+  const parallels: ChecklistParallel[] = []
+  const parallelSource = Array.isArray(raw.parallels)
+    ? raw.parallels
+    : text(raw.parallels).split(PARALLEL_SEPARATOR)
+  parallelSource.forEach(item => {
+    const parallel = typeof item === 'object' && item !== null
+      ? { name: text((item as ChecklistParallel).name), printRun: (item as ChecklistParallel).printRun }
+      : parseParallel(text(item))
+    if (!parallel || !parallel.name) return
+    if (parallel.printRun !== undefined && (!Number.isInteger(Number(parallel.printRun)) || Number(parallel.printRun) < 1)) {
+      reasons.push(`Parallel "${parallel.name}" has an invalid print run`)
+      return
+    }
+    const printRun = parallel.printRun !== undefined ? Number(parallel.printRun) : undefined
+    if (!parallels.some(p => p.name.toLowerCase() === parallel.name.toLowerCase())) {
+      parallels.push(printRun !== undefined ? { name: parallel.name, printRun } : { name: parallel.name })
+    }
+  })
+
+  if (reasons.length > 0) return { reasons }
+  return {
+    reasons,
+    row: {
+      set: text(raw.set),
+      year,
+      manufacturer: text(raw.manufacturer),
+      number: text(raw.number).replace(/^#/, ''),
+      player: text(raw.player),
+      subset: text(raw.subset) || undefined,
+      rookie: TRUE_VALUES.includes(text(raw.rookie).toLowerCase()),
+      parallels,
+      image: text(raw.image) || undefined
+    }
+  }
+}
+
+function toEntry(row: ChecklistRow): CardDatabaseEntry {
+  return {
+    id: checklistCardId(row),
+    player: row.player,
+    year: row.year,
+    manufacturer: row.manufacturer,
+    set: row.set,
+    subset: row.subset,
+    cardNumber: row.number,
+    attributes: {
+      isRookie: row.rookie,
+      isAutograph: false,
+      isPatch: false,
+      isSerialNumbered: false
+    },
+    variants: ['Base', ...row.parallels.map(formatParallel)],
+    metadata: {
+      source: 'checklist',
+      parallels: row.parallels,
+      importedAt: Date.now()
+    }
+  }
+}
+
+// New parallels added to an existing card; null when there is nothing new
+function mergeParallels(card: CardDatabaseEntry, row: ChecklistRow): CardDatabaseEntry | null {
+  const known: ChecklistParallel[] = card.metadata?.parallels
+    ?? card.variants.filter(variant => variant !== 'Base').map(variant => parseParallel(variant)!).filter(Boolean)
+  const additions = row.parallels.filter(parallel =>
+    !known.some(existing => existing.name.toLowerCase() === parallel.name.toLowerCase())
+  )
+  const gainsRookie = row.rookie && !card.attributes.isRookie
+  const gainsSubset = !!row.subset && !card.subset
+  if (additions.length === 0 && !gainsRookie && !gainsSubset) return null
+
+  const parallels = [...known, ...additions]
+  return {
+    ...card,
+    subset: card.subset ?? row.subset,
+    attributes: { ...card.attributes, isRookie: card.attributes.isRookie || row.rookie },
+    variants: [...card.variants, ...additions.map(formatParallel)],
+    metadata: { ...card.metadata, parallels, importedAt: Date.now() }
+  }
+}
+
+function toSetInfo(row: ChecklistRow, cards: CardDatabaseEntry[], existing: SetInfo | null, releaseDate?: Date): SetInfo {
+  const subsets = Array.from(new Set([
+    ...(existing?.subsets ?? []),
+    ...cards.map(card => card.subset).filter((subset): subset is string => !!subset)
+  ]))
+  return {
+    ...existing,
+    name: row.set,
+    year: row.year,
+    manufacturer: row.manufacturer,
+    totalCards: cards.length,
+    subsets,
+    releaseDate: releaseDate ?? existing?.releaseDate ?? new Date(row.year, 0, 1),
+    description: existing?.description ?? ''
+  }
+}
+
+function readJson(source: string): { rows: RawRow[]; taxonomies: SetTaxonomy[] } {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(source)
+  } catch (error) {
+    throw new ValidationError(`Checklist is not valid JSON: ${(error as Error).message}`, 'source')
+  }
+
+  const items = Array.isArray(parsed) ? parsed : [parsed]
+  const taxonomies: SetTaxonomy[] = []
+  // Sets carry their own fields down to the cards nested under them
+  const rows = items.reduce<RawRow[]>((rows, item) => {
+    if (item && typeof item === 'object' && Array.isArray((item as { cards?: unknown }).cards)) {
+      // A set's "name" is the set name, not a player
+      const { cards, name, taxonomy, ...fields } = item as { cards: Array<Record<string, unknown>>; name?: unknown; taxonomy?: unknown }
+      const defaults = readFields(fields)
+      if (defaults.set === undefined) defaults.set = name
+      if (taxonomy !== undefined) {
+        taxonomies.push(parseTaxonomy(Number(text(defaults.year)), text(defaults.manufacturer), text(defaults.set), taxonomy))
+      }
+      return rows.concat(cards.map(card => ({ ...defaults, ...readFields(card) })))
+    }
+    return rows.concat(readFields((item ?? {}) as Record<string, unknown>))
+  }, [])
+  return { rows, taxonomies }
+}
+
+// Map loose JSON keys ("Card Number", "cardNumber") onto row fields
+function readFields(item: Record<string, unknown>): RawRow {
+  const row: RawRow = {}
+  Object.keys(item).forEach(key => {
+    const spaced = key.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase().trim()
+    const field = COLUMN_ALIASES[spaced] ?? (spaced === 'release date' ? 'releaseDate' : undefined)
+    if (field) row[field] = item[key]
+  })
+  return row
+}
+
+function readCsv(source: string): RawRow[] {
+  const records = parseCsv(source).filter(record => record.some(cell => cell.trim() !== ''))
+  if (records.length === 0) return []
+
+  const header = records[0].map(cell => cell.trim().toLowerCase())
+  const fields = header.map(name => COLUMN_ALIASES[name] ?? (name === 'release date' ? 'releaseDate' : undefined))
+  if (!fields.includes('player') || !fields.includes('number')) {
+    throw new ValidationError('Checklist CSV needs a header row with at least player and number columns', 'source')
+  }
+
+  return records.slice(1).map(record => {
+    const row: RawRow = {}
+    fields.forEach((field, column) => {
+      if (field) row[field] = record[column] ?? ''
+    })
+    return row
+  })
+}
+
+// RFC 4180: quoted cells may hold commas, doubled quotes and line breaks
+function parseCsv(source: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      record.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      record.push(cell)
+      records.push(record)
+      record = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== '' || record.length > 0) {
+    record.push(cell)
+    records.push(record)
+  }
+  return records
+}
+
+function text(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value).trim()
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (!text(value)) return undefined
+  const date = new Date(text(value))
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+function normalizeNumber(number: string): string {
+  return number.trim().replace(/^#/, '').toUpperCase()
+}
+
+function setKey(row: ChecklistRow): string {
+  return taxonomyId(row.year, row.manufacturer, row.set)
+}
+
+function setLabel(row: ChecklistRow): string {
+  return `${row.year} ${row.manufacturer} ${row.set}`
+}
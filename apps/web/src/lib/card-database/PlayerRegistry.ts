@@ -0,0 +1,378 @@
+/**
+ * Player Registry - Rich Klein: One player, however the name is written
+ *
+ * Card backs, OCR and collectors write the same player many ways: "Ken
+ * Griffey Jr", "Griffey Jr., Ken", "K. Griffey", "The Kid". Each player is an
+ * entity with a canonical id and display name plus the aliases and nicknames
+ * they go by. Names are compared folded: accents dropped, "Last, First"
+ * turned around, punctuation removed and generational suffixes (Jr., Sr.,
+ * II-V) set aside, so "Ken Griffey Jr" and "Ken Griffey Jr." agree.
+ *
+ * Resolution tries the full name or an alias, then a nickname, the name
+ * without its suffix, an initial for the first name, the surname with its
+ * suffix ("Griffey Jr"), and finally a single typo. A form that fits more than
+ * one player ("Ken Griffey" or "K. Griffey" for father or son) resolves to
+ * neither rather than guessing, and a bare surname never resolves: the
+ * registry cannot know every Rodriguez. Names that resolve to nobody still get
+ * a tidy display form and a stable id.
+ *
+ * The built-in players are the ones OCR sees most; the local catalog teaches
+ * the registry every other player it holds (see learn), so a father and son
+ * both in the catalog are told apart.
+ */
+
+import { editDistance } from './SearchIndex'
+
+export interface PlayerEntity {
+  // Stable slug, e.g. ken-griffey-jr
+  id: string
+  // Canonical display name, as printed on most of the player's cards
+  name: string
+  // Other full names: legal names, spellings without accents, old transliterations
+  aliases: string[]
+  nicknames: string[]
+  sport?: string
+}
+
+// How a name reached its player, best first
+export type PlayerMatchKind = 'name' | 'nickname' | 'suffix' | 'initial' | 'surname' | 'typo'
+
+export interface PlayerMatch {
+  player: PlayerEntity
+  kind: PlayerMatchKind
+  // 0-1; 1 for the canonical name or an alias
+  confidence: number
+}
+
+export interface ParsedPlayerName {
+  // Folded first and middle names, e.g. ['ken'] or ['k']
+  given: string[]
+  family: string
+  // Folded generational suffix: jr, sr, ii, iii, iv or v
+  suffix?: string
+}
+
+const MATCH_CONFIDENCE: Record<PlayerMatchKind, number> = {
+  name: 1,
+  nickname: 0.95,
+  suffix: 0.9,
+  initial: 0.8,
+  typo: 0.75,
+  surname: 0.7
+}
+
+const SUFFIX_DISPLAY: Record<string, string> = {
+  jr: 'Jr.',
+  sr: 'Sr.',
+  ii: 'II',
+  iii: 'III',
+  iv: 'IV',
+  v: 'V'
+}
+
+// Folded names shorter than this are not matched with a typo
+const MIN_TYPO_LENGTH = 8
+
+// Players the catalog and OCR see most; register() and learn() add more
+const PLAYERS: PlayerEntity[] = [
+  {
+    id: 'ken-griffey-jr',
+    name: 'Ken Griffey Jr.',
+    aliases: ['George Kenneth Griffey Jr.'],
+    nicknames: ['The Kid', 'Junior'],
+    sport: 'baseball'
+  },
+  {
+    id: 'ken-griffey-sr',
+    name: 'Ken Griffey Sr.',
+    aliases: ['George Kenneth Griffey Sr.'],
+    nicknames: [],
+    sport: 'baseball'
+  },
+  {
+    id: 'michael-jordan',
+    name: 'Michael Jordan',
+    aliases: ['Michael Jeffrey Jordan'],
+    nicknames: ['MJ', 'Air Jordan', 'His Airness'],
+    sport: 'basketball'
+  },
+  {
+    id: 'mike-trout',
+    name: 'Mike Trout',
+    aliases: ['Michael Trout', 'Michael Nelson Trout'],
+    nicknames: ['The Millville Meteor'],
+    sport: 'baseball'
+  },
+  {
+    id: 'julio-rodriguez',
+    name: 'Julio Rodríguez',
+    aliases: [],
+    nicknames: ['J-Rod'],
+    sport: 'baseball'
+  },
+  {
+    id: 'connor-bedard',
+    name: 'Connor Bedard',
+    aliases: [],
+    nicknames: [],
+    sport: 'hockey'
+  },
+  {
+    id: 'bishop-sankey',
+    name: 'Bishop Sankey',
+    aliases: [],
+    nicknames: [],
+    sport: 'football'
+  },
+  {
+    id: 'luka-doncic',
+    name: 'Luka Dončić',
+    aliases: [],
+    nicknames: ['Luka Magic', 'Wonder Boy'],
+    sport: 'basketball'
+  },
+  {
+    id: 'lebron-james',
+    name: 'LeBron James',
+    aliases: ['LeBron Raymone James'],
+    nicknames: ['King James'],
+    sport: 'basketball'
+  },
+  {
+    id: 'giannis-antetokounmpo',
+    name: 'Giannis Antetokounmpo',
+    aliases: ['Giannis Adetokunbo'],
+    nicknames: ['Greek Freak'],
+    sport: 'basketball'
+  },
+  {
+    id: 'shohei-ohtani',
+    name: 'Shohei Ohtani',
+    aliases: ['Shohei Otani'],
+    nicknames: ['Shotime'],
+    sport: 'baseball'
+  },
+  {
+    id: 'ronald-acuna-jr',
+    name: 'Ronald Acuña Jr.',
+    aliases: ['Ronald Jose Acuna Jr.'],
+    nicknames: [],
+    sport: 'baseball'
+  },
+  {
+    id: 'vladimir-guerrero',
+    name: 'Vladimir Guerrero',
+    aliases: ['Vladimir Guerrero Sr.'],
+    nicknames: ['Vlad the Impaler'],
+    sport: 'baseball'
+  },
+  {
+    id: 'vladimir-guerrero-jr',
+    name: 'Vladimir Guerrero Jr.',
+    aliases: ['Vlad Guerrero Jr.'],
+    nicknames: ['Vladdy'],
+    sport: 'baseball'
+  }
+]
+
+// Lowercase words without accents or punctuation: "O'Neal-Smith, Jr." gives "oneal smith jr"
+export function foldName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’.]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+// "Griffey Jr., Ken" and "Ken Griffey, Jr." both read as "Ken Griffey Jr."
+function reorder(name: string): string {
+  const comma = name.indexOf(',')
+  if (comma < 0) return name
+  const before = name.slice(0, comma).trim()
+  const after = name.slice(comma + 1).trim()
+  if (!after) return before
+  return isSuffix(foldName(after)) ? `${before} ${after}` : `${after} ${before}`
+}
+
+export function parsePlayerName(name: string): ParsedPlayerName | null {
+  const tokens = foldName(reorder(name)).split(' ').filter(Boolean)
+  if (tokens.length === 0) return null
+
+  const suffix = tokens.length > 1 && isSuffix(tokens[tokens.length - 1]) ? tokens.pop() : undefined
+  const family = tokens.pop()!
+  return { given: tokens, family, suffix }
+}
+
+// Display form for a name the registry does not know: "griffey jr, ken" gives "ken griffey Jr."
+export function formatPlayerName(name: string): string {
+  const words = reorder(name).split(/\s+/).filter(Boolean)
+  const last = words.length > 1 ? foldName(words[words.length - 1]) : ''
+  if (isSuffix(last)) words[words.length - 1] = SUFFIX_DISPLAY[last]
+  return words.join(' ')
+}
+
+// Slug id for a name, e.g. ken-griffey-jr
+export function playerSlug(name: string): string {
+  const parsed = parsePlayerName(name)
+  return parsed ? nameKey(parsed).replace(/ /g, '-') : ''
+}
+
+function isSuffix(token: string): boolean {
+  return Object.prototype.hasOwnProperty.call(SUFFIX_DISPLAY, token)
+}
+
+function nameKey(parsed: ParsedPlayerName, withSuffix = true): string {
+  return [...parsed.given, parsed.family, ...(withSuffix && parsed.suffix ? [parsed.suffix] : [])].join(' ')
+}
+
+export class PlayerRegistry {
+  private players = new Map<string, PlayerEntity>()
+  // Name and alias forms of each player, parsed
+  private forms = new Map<string, ParsedPlayerName[]>()
+  // Folded key to player ids
+  private byName = new Map<string, Set<string>>()
+  private byBareName = new Map<string, Set<string>>()
+  private byNickname = new Map<string, Set<string>>()
+  private byFamily = new Map<string, Set<string>>()
+
+  constructor(players: PlayerEntity[] = PLAYERS) {
+    players.forEach(player => this.register(player))
+  }
+
+  get size(): number {
+    return this.players.size
+  }
+
+  get(id: string): PlayerEntity | undefined {
+    return this.players.get(id)
+  }
+
+  // Add a player, or extend one already registered under the same id
+  register(player: PlayerEntity): void {
+    const existing = this.players.get(player.id)
+    const merged: PlayerEntity = existing
+      ? {
+          ...existing,
+          aliases: Array.from(new Set([...existing.aliases, ...player.aliases])),
+          nicknames: Array.from(new Set([...existing.nicknames, ...player.nicknames]))
+        }
+      : player
+    this.players.set(merged.id, merged)
+
+    const forms = [merged.name, ...merged.aliases]
+      .map(parsePlayerName)
+      .filter((parsed): parsed is ParsedPlayerName => parsed !== null)
+    this.forms.set(merged.id, forms)
+    forms.forEach(parsed => {
+      addTo(this.byName, nameKey(parsed), merged.id)
+      addTo(this.byBareName, nameKey(parsed, false), merged.id)
+      addTo(this.byFamily, parsed.family, merged.id)
+    })
+    merged.nicknames.forEach(nickname => addTo(this.byNickname, foldName(nickname), merged.id))
+  }
+
+  // Add a player the catalog names, unless the name already resolves to someone.
+  // A catalog writing "Bobby Witt" beside a known Bobby Witt Jr. means the father
+  learn(name: string, sport?: string): PlayerEntity | null {
+    const known = this.resolve(name)
+    if (known && known.kind !== 'suffix') return known.player
+    const id = playerSlug(name)
+    if (!id) return null
+    this.register({ id, name: formatPlayerName(name), aliases: [], nicknames: [], sport })
+    return this.players.get(id) ?? null
+  }
+
+  // The one player a name stands for, or null when it fits none or several
+  resolve(name: string): PlayerMatch | null {
+    const parsed = parsePlayerName(name)
+    if (!parsed) return null
+
+    const key = nameKey(parsed)
+    const byName = this.unique(this.byName.get(key))
+    if (byName) return this.match(byName, 'name')
+
+    const byNickname = this.unique(this.byNickname.get(foldName(name)))
+    if (byNickname) return this.match(byNickname, 'nickname')
+
+    // "Ken Griffey" for Ken Griffey Jr., only while no other Ken Griffey (Sr. or none) is known
+    if (!parsed.suffix) {
+      const bySuffix = this.unique(this.byBareName.get(key))
+      if (bySuffix) return this.match(bySuffix, 'suffix')
+    }
+
+    // "K. Griffey" or "Griffey Jr"; a surname needs at least an initial or a suffix
+    const family = this.byFamily.get(parsed.family)
+    const initial = parsed.given[0]
+    if (family && parsed.given.length <= 1 && (initial ?? '').length <= 1 && (initial || parsed.suffix)) {
+      const candidates = new Set(Array.from(family).filter(id =>
+        this.forms.get(id)!.some(form =>
+          form.family === parsed.family &&
+          (!parsed.suffix || form.suffix === parsed.suffix) &&
+          (!initial || (form.given[0] ?? '').startsWith(initial))
+        )
+      ))
+      const byPart = this.unique(candidates)
+      if (byPart) return this.match(byPart, initial ? 'initial' : 'surname')
+    }
+
+    // One slip of OCR or the keyboard in a longer name
+    if (key.length >= MIN_TYPO_LENGTH) {
+      const allowed = key.length > 16 ? 2 : 1
+      const candidates = new Set<string>()
+      this.byName.forEach((ids, candidate) => {
+        if (editDistance(key, candidate, allowed) <= allowed) ids.forEach(id => candidates.add(id))
+      })
+      const byTypo = this.unique(candidates)
+      if (byTypo) return this.match(byTypo, 'typo')
+    }
+
+    return null
+  }
+
+  // Canonical display name, or the name tidied when no player matches
+  canonicalName(name: string): string {
+    return this.resolve(name)?.player.name ?? formatPlayerName(name)
+  }
+
+  // Registered id, or a slug of the name when no player matches
+  canonicalId(name: string): string {
+    return this.resolve(name)?.player.id ?? playerSlug(name)
+  }
+
+  samePlayer(a: string, b: string): boolean {
+    const id = this.canonicalId(a)
+    return id !== '' && id === this.canonicalId(b)
+  }
+
+  // Players whose name, alias or nickname contains the query, resolved match first
+  search(query: string): PlayerEntity[] {
+    const folded = foldName(query)
+    if (!folded) return []
+
+    const resolved = this.resolve(query)?.player
+    const found = Array.from(this.players.values()).filter(player =>
+      player !== resolved &&
+      [player.name, ...player.aliases, ...player.nicknames].some(form => foldName(form).includes(folded))
+    )
+    return resolved ? [resolved, ...found] : found
+  }
+
+  private unique(ids: Set<string> | undefined): PlayerEntity | null {
+    if (!ids || ids.size !== 1) return null
+    return this.players.get(Array.from(ids)[0]) ?? null
+  }
+
+  private match(player: PlayerEntity, kind: PlayerMatchKind): PlayerMatch {
+    return { player, kind, confidence: MATCH_CONFIDENCE[kind] }
+  }
+}
+
+function addTo(index: Map<string, Set<string>>, key: string, id: string): void {
+  const ids = index.get(key) ?? new Set<string>()
+  ids.add(id)
+  index.set(key, ids)
+}
+
+export const playerRegistry = new PlayerRegistry()
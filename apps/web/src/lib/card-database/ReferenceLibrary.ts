@@ -0,0 +1,55 @@
+/**
+ * Reference Library - Rich Klein: The genuine copies scans are checked against
+ *
+ * A reference is a rectified picture of a catalog card, stored with its
+ * perceptual fingerprint so a scan can find it by appearance. Pictures come
+ * from checklist imports (an image URL per row) and are cropped to the card
+ * the same way a scan is, so both sides of a counterfeit comparison were
+ * rectified alike. A scan's reference is the card it visually matches; below
+ * the match threshold there is none, rather than a lookalike.
+ */
+
+import type { CardDatabaseEntry, VisualMatch } from '../interfaces/services'
+import type { ReferenceImageSource } from '../vision/ReferenceComparator'
+import { CardDetector } from '../vision/CardDetector'
+import { decodeImage } from '../vision/canvas'
+import { CardFingerprint, computeFingerprint } from '../vision/PerceptualHash'
+import type { ReferenceImageIndexer } from './ChecklistImporter'
+
+// Where references and their fingerprints are kept; LocalDatabaseProvider in the app
+export interface ReferenceImageStore {
+  saveReferenceImage(cardId: string, image: ImageData, side?: 'front' | 'back'): Promise<void>
+  getReferenceImage(cardId: string, side?: 'front' | 'back'): Promise<ImageData | null>
+  findVisualMatches(fingerprint: CardFingerprint, limit?: number): Promise<VisualMatch[]>
+}
+
+// A visual match this close is taken to be the same card when picking a reference
+const REFERENCE_MATCH_SIMILARITY = 0.85
+
+export class ReferenceLibrary implements ReferenceImageIndexer, ReferenceImageSource {
+  private detector = new CardDetector()
+
+  constructor(
+    private store: ReferenceImageStore,
+    private load: (url: string) => Promise<ImageData> = decodeImage
+  ) {}
+
+  // A checklist's picture of a catalog card; photos are cropped to the card like a scan
+  async indexImage(card: CardDatabaseEntry, url: string): Promise<void> {
+    const image = await this.load(url)
+    const boundary = this.detector.detect(image) ?? this.detector.fullFrame(image)
+    if (!boundary) throw new Error('No card found in the picture')
+    await this.store.saveReferenceImage(card.id, this.detector.rectify(image, boundary.quad, boundary.orientation), 'front')
+  }
+
+  async findVisualMatches(card: ImageData, limit = 5): Promise<VisualMatch[]> {
+    return this.store.findVisualMatches(computeFingerprint(card), limit)
+  }
+
+  // Reference for a scanned front, by its closest visual match
+  async findReference(card: ImageData): Promise<ImageData | null> {
+    const [match] = await this.findVisualMatches(card, 1)
+    if (!match || match.similarity < REFERENCE_MATCH_SIMILARITY) return null
+    return this.store.getReferenceImage(match.card.id, 'front')
+  }
+}
@@ -0,0 +1,335 @@
+/**
+ * Search Index - Rich Klein: Find the card a collector means, not just what they typed
+ *
+ * An inverted index over the catalog. Each card is broken into terms from its
+ * player, set, manufacturer, year, card number, subset and variants, and the
+ * index keeps one posting per (term, card) plus a vocabulary counting how many
+ * cards carry each term. A query is tokenised the same way and every token is
+ * expanded against the vocabulary: the exact term, terms it is a prefix of,
+ * and terms within a small edit distance. "2018 prizm luka silv" and
+ * "2018 przm luka silver" both find the Luka Doncic Silver Prizm.
+ *
+ * Lookups start from the query token with the fewest postings and walk its
+ * cards in id order, keeping those the other tokens' postings also hold, so a
+ * search only reads the cards that could match its rarest word however large
+ * the catalog grows. Those candidates are then scored on every token, weighted
+ * by the field the token matched in.
+ */
+
+import type { CardDatabaseEntry } from '../interfaces/services'
+
+export type SearchField = 'player' | 'set' | 'manufacturer' | 'year' | 'number' | 'subset' | 'variant'
+
+// How much a token matching in each field counts towards a card's score
+export const FIELD_BOOSTS: Record<SearchField, number> = {
+  player: 3,
+  set: 2,
+  year: 2,
+  number: 1.5,
+  subset: 1,
+  variant: 1,
+  manufacturer: 1
+}
+
+export interface IndexedTerm {
+  term: string
+  // The highest-boosted field the term appears in
+  field: SearchField
+}
+
+// A vocabulary term a query token may stand for
+export interface TermExpansion {
+  term: string
+  // 1 for the exact term, less for prefixes and typos
+  similarity: number
+}
+
+export interface QueryToken {
+  token: string
+  expansions: TermExpansion[]
+  // Cards carrying any of the expansions; an upper bound, as one card may carry several
+  postings: number
+}
+
+export interface CardSearchResult {
+  card: CardDatabaseEntry
+  score: number
+  // Query tokens found on the card
+  matched: number
+}
+
+// Postings in card id order, however they are stored
+export interface PostingsSource {
+  // Up to count card ids after the given one carrying any of the terms
+  page(terms: string[], after: string | null, count: number): Promise<string[]>
+  // Card ids from first to last, inclusive, carrying any of the terms
+  within(terms: string[], first: string, last: string): Promise<Set<string>>
+}
+
+// Shorter tokens are too ambiguous to expand as prefixes ("s" is half the vocabulary)
+const MIN_PREFIX_LENGTH = 2
+// A prefix scores this much, plus up to PREFIX_COVERAGE as it covers more of the term
+const PREFIX_SIMILARITY = 0.6
+const PREFIX_COVERAGE = 0.3
+// Lost per edit when a token matches a term with typos
+const TYPO_PENALTY = 0.25
+// Expansions kept per token, best first
+const MAX_EXPANSIONS = 64
+// Rarest-token postings intersected at a time
+const CANDIDATE_PAGE_SIZE = 500
+
+// Lowercased words with accents dropped, so "Dončić #280" gives doncic, 280
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+// Every distinct term of a card, each under the best field it appears in
+export function indexTerms(card: CardDatabaseEntry): IndexedTerm[] {
+  const fields = new Map<string, SearchField>()
+  const add = (field: SearchField, text: string | number | undefined) => {
+    if (text === undefined || text === '') return
+    const tokens = tokenize(String(text))
+    // "BDC-150" is also searched as bdc150
+    if (field === 'number' && tokens.length > 1) tokens.push(tokens.join(''))
+    tokens.forEach(term => {
+      const current = fields.get(term)
+      if (!current || FIELD_BOOSTS[field] > FIELD_BOOSTS[current]) fields.set(term, field)
+    })
+  }
+
+  add('player', card.player)
+  add('set', card.set)
+  add('manufacturer', card.manufacturer)
+  add('year', card.year)
+  add('number', card.cardNumber)
+  add('subset', card.subset)
+  card.variants.forEach(variant => add('variant', variant))
+
+  return Array.from(fields.entries()).map(([term, field]) => ({ term, field }))
+}
+
+// Terms to add to and remove from the index when a card changes
+export function diffTerms(before: CardDatabaseEntry | undefined, after: CardDatabaseEntry): { added: string[]; removed: string[] } {
+  const previous = new Set(before ? indexTerms(before).map(t => t.term) : [])
+  const next = new Set(indexTerms(after).map(t => t.term))
+  return {
+    added: Array.from(next).filter(term => !previous.has(term)),
+    removed: Array.from(previous).filter(term => !next.has(term))
+  }
+}
+
+// Typos tolerated in a token: none in numbers or short words
+export function maxTypos(token: string): number {
+  if (/^\d+$/.test(token) || token.length <= 3) return 0
+  return token.length <= 7 ? 1 : 2
+}
+
+// Optimal string alignment distance (a swap of neighbours is one edit); max + 1 once it exceeds max
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let previous2: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1)
+      }
+      current.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+    previous2 = previous
+    previous = current
+  }
+  return Math.min(previous[b.length], max + 1)
+}
+
+// How well a query token stands for an indexed term, 0 when it does not
+export function termSimilarity(token: string, term: string): number {
+  if (token === term) return 1
+
+  const numeric = /^\d+$/.test(token)
+  if (!numeric && token.length >= MIN_PREFIX_LENGTH && term.startsWith(token)) {
+    return PREFIX_SIMILARITY + PREFIX_COVERAGE * token.length / term.length
+  }
+
+  const allowed = maxTypos(token)
+  if (allowed === 0) return 0
+  const distance = editDistance(token, term, allowed)
+  return distance <= allowed ? 1 - TYPO_PENALTY * distance : 0
+}
+
+// Distinct indexed terms and how many cards carry each
+export class SearchVocabulary {
+  private counts = new Map<string, number>()
+  // Rebuilt lazily after changes: sorted terms for prefix ranges, terms by length for typos
+  private sorted: string[] | null = null
+  private byLength: string[][] | null = null
+
+  get size(): number {
+    return this.counts.size
+  }
+
+  count(term: string): number {
+    return this.counts.get(term) ?? 0
+  }
+
+  // Adjust a term's card count; the term is dropped once no card carries it
+  add(term: string, delta = 1): void {
+    const count = this.count(term) + delta
+    if (count > 0) this.counts.set(term, count)
+    else this.counts.delete(term)
+    this.sorted = null
+    this.byLength = null
+  }
+
+  entries(): Array<[string, number]> {
+    return Array.from(this.counts.entries())
+  }
+
+  // Terms a query token may stand for, best first
+  expand(token: string): TermExpansion[] {
+    const found = new Map<string, number>()
+    const consider = (term: string) => {
+      const similarity = termSimilarity(token, term)
+      if (similarity > (found.get(term) ?? 0)) found.set(term, similarity)
+    }
+
+    if (this.counts.has(token)) found.set(token, 1)
+
+    if (!/^\d+$/.test(token) && token.length >= MIN_PREFIX_LENGTH) {
+      const sorted = this.sortedTerms()
+      for (let i = lowerBound(sorted, token); i < sorted.length && sorted[i].startsWith(token); i++) {
+        consider(sorted[i])
+      }
+    }
+
+    const allowed = maxTypos(token)
+    if (allowed > 0) {
+      const byLength = this.termsByLength()
+      for (let length = token.length - allowed; length <= token.length + allowed; length++) {
+        (byLength[length] ?? []).forEach(consider)
+      }
+    }
+
+    return Array.from(found.entries())
+      .map(([term, similarity]) => ({ term, similarity }))
+      .sort((a, b) => b.similarity - a.similarity || this.count(b.term) - this.count(a.term))
+      .slice(0, MAX_EXPANSIONS)
+  }
+
+  private sortedTerms(): string[] {
+    if (!this.sorted) this.sorted = Array.from(this.counts.keys()).sort()
+    return this.sorted
+  }
+
+  private termsByLength(): string[][] {
+    if (!this.byLength) {
+      const byLength: string[][] = []
+      this.counts.forEach((_, term) => {
+        (byLength[term.length] = byLength[term.length] ?? []).push(term)
+      })
+      this.byLength = byLength
+    }
+    return this.byLength
+  }
+}
+
+// Query tokens that match anything, rarest first; the first one drives the lookup
+export function planSearch(query: string, vocabulary: SearchVocabulary): QueryToken[] {
+  return Array.from(new Set(tokenize(query)))
+    .map(token => {
+      const expansions = vocabulary.expand(token)
+      const postings = expansions.reduce((sum, expansion) => sum + vocabulary.count(expansion.term), 0)
+      return { token, expansions, postings }
+    })
+    .filter(token => token.expansions.length > 0)
+    .sort((a, b) => a.postings - b.postings)
+}
+
+/**
+ * Up to limit cards carrying every planned token. The rarest token's postings
+ * are walked a page at a time, and each page keeps only the ids every other
+ * token's postings hold between its first and last id. When fewer than limit
+ * cards carry every token, cards that carry the rarest one fill the rest so a
+ * word no card shares still leaves the near misses to rank.
+ */
+export async function findCandidates(plan: QueryToken[], postings: PostingsSource, limit: number): Promise<string[]> {
+  const [driver, ...others] = plan
+  if (!driver) return []
+  const termsOf = (token: QueryToken) => token.expansions.map(expansion => expansion.term)
+
+  const matched: string[] = []
+  const nearMisses: string[] = []
+  let after: string | null = null
+  while (matched.length < limit) {
+    const page = await postings.page(termsOf(driver), after, CANDIDATE_PAGE_SIZE)
+    if (page.length === 0) break
+
+    let kept = page
+    for (const token of others) {
+      if (kept.length === 0) break
+      const carrying = await postings.within(termsOf(token), kept[0], kept[kept.length - 1])
+      kept = kept.filter(id => carrying.has(id))
+    }
+
+    const keep = new Set(kept)
+    page.forEach(id => {
+      if (keep.has(id)) matched.push(id)
+      else if (nearMisses.length < limit) nearMisses.push(id)
+    })
+    if (page.length < CANDIDATE_PAGE_SIZE) break
+    after = page[page.length - 1]
+  }
+
+  return matched.concat(nearMisses).slice(0, limit)
+}
+
+// Each query token counts its best match on the card, weighted by field
+export function scoreCard(card: CardDatabaseEntry, tokens: string[]): CardSearchResult {
+  const terms = indexTerms(card)
+  let score = 0
+  let matched = 0
+
+  tokens.forEach(token => {
+    let best = 0
+    terms.forEach(({ term, field }) => {
+      best = Math.max(best, termSimilarity(token, term) * FIELD_BOOSTS[field])
+    })
+    if (best > 0) matched++
+    score += best
+  })
+
+  return { card, score, matched }
+}
+
+// Most query tokens matched first, then best score, then newest
+export function rankCards(cards: CardDatabaseEntry[], query: string): CardDatabaseEntry[] {
+  const tokens = Array.from(new Set(tokenize(query)))
+  return cards
+    .map(card => scoreCard(card, tokens))
+    .sort((a, b) => b.matched - a.matched || b.score - a.score || b.card.year - a.card.year)
+    .map(result => result.card)
+}
+
+// First index whose term is not below the token
+function lowerBound(sorted: string[], token: string): number {
+  let low = 0
+  let high = sorted.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (sorted[mid] < token) low = mid + 1
+    else high = mid
+  }
+  return low
+}
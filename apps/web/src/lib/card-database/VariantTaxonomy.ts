@@ -0,0 +1,352 @@
+/**
+ * Variant Taxonomy - Rich Klein: Know the parallel, know the card
+ *
+ * A set's parallels and inserts as structured data: colour, finish, print run
+ * and pack odds for each, defined once per set and kept with the catalog.
+ * A 2018 Prizm Silver and a Red Wave are both unnumbered shiny Doncic rookies
+ * and sell for very different money; the taxonomy is what tells them apart,
+ * instead of guessing from words in a variant's name.
+ *
+ * A card's variants are the ones its checklist lists plus the set's parallels
+ * that run across the whole base set (or its subset). Rarity, distinguishing
+ * features and the domain CardAttributes all come from the resolved spec.
+ */
+
+import type { CardDatabaseEntry, CardVariant } from '../interfaces/services'
+import { CardAttributes } from '../domain/models'
+import { ValidationError } from '../errors'
+import type { ChecklistParallel } from './ChecklistImporter'
+
+export type VariantKind = 'base' | 'parallel' | 'insert'
+
+export type ParallelFinish =
+  | 'paper'
+  | 'foil'
+  | 'canvas'
+  | 'chrome'
+  | 'refractor'
+  | 'prizm'
+  | 'wave'
+  | 'mojo'
+  | 'shimmer'
+  | 'cracked-ice'
+  | 'xfractor'
+  | 'atomic'
+  | 'superfractor'
+
+export type VariantRarity = 'common' | 'uncommon' | 'rare' | 'mythic' | 'legendary'
+
+export interface VariantSpec {
+  name: string
+  kind: VariantKind
+  // Other names checklists use, e.g. "Silver Prizm" for Silver
+  aliases?: string[]
+  color?: string
+  finish?: ParallelFinish
+  // Serial-numbered run; missing for unnumbered parallels
+  printRun?: number
+  // Pack odds as printed, e.g. "1:24 hobby"
+  odds?: string
+  // Only packed in hobby boxes or retail blasters
+  exclusive?: 'hobby' | 'retail'
+  autograph?: boolean
+  patch?: boolean
+  // Only found on this subset or insert; missing means across the base set
+  subset?: string
+  // Set-specific tells a grader would point to
+  features?: string[]
+}
+
+export interface SetTaxonomy {
+  year: number
+  manufacturer: string
+  set: string
+  variants: VariantSpec[]
+}
+
+const FINISHES: ParallelFinish[] = [
+  'paper', 'foil', 'canvas', 'chrome', 'refractor', 'prizm', 'wave', 'mojo',
+  'shimmer', 'cracked-ice', 'xfractor', 'atomic', 'superfractor'
+]
+
+// Refractive chromium finishes; CardAttributes.isRefractor
+const REFRACTIVE_FINISHES: ParallelFinish[] = [
+  'refractor', 'prizm', 'wave', 'mojo', 'shimmer', 'cracked-ice', 'xfractor', 'atomic', 'superfractor'
+]
+
+const FINISH_FEATURES: Record<ParallelFinish, string> = {
+  paper: 'Paper stock',
+  foil: 'Foil board',
+  canvas: 'Canvas texture',
+  chrome: 'Chrome finish',
+  refractor: 'Refractor coating',
+  prizm: 'Prizm technology',
+  wave: 'Wave pattern in the refractive layer',
+  mojo: 'Mojo swirl pattern',
+  shimmer: 'Shimmer pattern',
+  'cracked-ice': 'Cracked ice pattern',
+  xfractor: 'X-Fractor grid pattern',
+  atomic: 'Atomic refractor pattern',
+  superfractor: 'Gold swirl Superfractor pattern'
+}
+
+const BASE: VariantSpec = { name: 'Base', kind: 'base' }
+
+// "Gold /10", "Gold #/10"; one-of-ones are written "Black 1/1"
+const PRINT_RUN = /\s*#?\/\s*(\d+)$/
+const ONE_OF_ONE = /(^|\s)1\/1$/
+
+// Sets collectors bring in most; imported taxonomies take precedence
+export const BUILT_IN_TAXONOMIES: SetTaxonomy[] = [
+  {
+    year: 2018,
+    manufacturer: 'Panini',
+    set: 'Prizm',
+    variants: [
+      { name: 'Base', kind: 'base', finish: 'chrome' },
+      { name: 'Silver', kind: 'parallel', aliases: ['Silver Prizm'], color: 'silver', finish: 'prizm', features: ['Rainbow shine across the whole card'] },
+      { name: 'Red White & Blue', kind: 'parallel', aliases: ['Red White Blue'], color: 'red white & blue', finish: 'prizm', exclusive: 'retail', features: ['Red, white and blue pattern'] },
+      { name: 'Red Wave', kind: 'parallel', color: 'red', finish: 'wave', exclusive: 'retail' },
+      { name: 'Green', kind: 'parallel', color: 'green', finish: 'prizm', exclusive: 'retail' },
+      { name: 'Blue', kind: 'parallel', color: 'blue', finish: 'prizm', printRun: 199 },
+      { name: 'Red', kind: 'parallel', color: 'red', finish: 'prizm', printRun: 299 },
+      { name: 'Orange', kind: 'parallel', color: 'orange', finish: 'prizm', printRun: 49 },
+      { name: 'Mojo', kind: 'parallel', color: 'blue', finish: 'mojo', printRun: 25 },
+      { name: 'Gold', kind: 'parallel', color: 'gold', finish: 'prizm', printRun: 10 },
+      { name: 'Black', kind: 'parallel', color: 'black', finish: 'prizm', printRun: 1 },
+      { name: 'Emergent', kind: 'insert', finish: 'chrome' },
+      { name: 'Rookie Signatures', kind: 'insert', finish: 'chrome', autograph: true }
+    ]
+  },
+  {
+    year: 2023,
+    manufacturer: 'Topps',
+    set: 'Topps Chrome',
+    variants: [
+      { name: 'Base', kind: 'base', finish: 'chrome' },
+      { name: 'Refractor', kind: 'parallel', finish: 'refractor' },
+      { name: 'Prism Refractor', kind: 'parallel', finish: 'refractor', features: ['Prismatic shards'] },
+      { name: 'X-Fractor', kind: 'parallel', aliases: ['Xfractor'], finish: 'xfractor' },
+      { name: 'Blue Refractor', kind: 'parallel', color: 'blue', finish: 'refractor', printRun: 150 },
+      { name: 'Green Refractor', kind: 'parallel', color: 'green', finish: 'refractor', printRun: 99 },
+      { name: 'Gold Refractor', kind: 'parallel', color: 'gold', finish: 'refractor', printRun: 50 },
+      { name: 'Orange Refractor', kind: 'parallel', color: 'orange', finish: 'refractor', printRun: 25 },
+      { name: 'Red Refractor', kind: 'parallel', color: 'red', finish: 'refractor', printRun: 5 },
+      { name: 'Superfractor', kind: 'parallel', color: 'gold', finish: 'superfractor', printRun: 1 }
+    ]
+  },
+  {
+    year: 2022,
+    manufacturer: 'Topps',
+    set: 'Topps Series 1',
+    variants: [
+      { name: 'Base', kind: 'base', finish: 'paper' },
+      { name: 'Rainbow Foil', kind: 'parallel', finish: 'foil' },
+      { name: 'Gold', kind: 'parallel', color: 'gold', finish: 'paper', printRun: 2022 },
+      { name: 'Black', kind: 'parallel', color: 'black', finish: 'paper', printRun: 70 },
+      { name: 'Platinum Anniversary', kind: 'parallel', color: 'platinum', finish: 'foil', printRun: 1 }
+    ]
+  }
+]
+
+// Same key as the set's record: year, manufacturer and set name, lowercased
+export function taxonomyId(year: number, manufacturer: string, set: string): string {
+  return `${year}:${manufacturer}:${set}`.toLowerCase()
+}
+
+export function findBuiltInTaxonomy(year: number, manufacturer: string, set: string): SetTaxonomy | null {
+  const id = taxonomyId(year, manufacturer, set)
+  return BUILT_IN_TAXONOMIES.find(taxonomy => taxonomyId(taxonomy.year, taxonomy.manufacturer, taxonomy.set) === id) ?? null
+}
+
+// A set's spec for a variant name as a checklist writes it ("Gold /10", "silver prizm")
+export function findVariant(taxonomy: SetTaxonomy | null, name: string): VariantSpec | null {
+  if (!taxonomy) return null
+  const key = variantKey(name)
+  return taxonomy.variants.find(spec => [spec.name, ...(spec.aliases ?? [])].some(alias => variantKey(alias) === key)) ?? null
+}
+
+// A parallel named in text read off the card, e.g. the "REFRACTOR" Topps prints on the back.
+// Only names that spell out their finish count: a colour alone would match "Red Sox". Longest wins
+export function findPrintedVariant(taxonomy: SetTaxonomy | null, text: string): VariantSpec | null {
+  if (!taxonomy) return null
+  const folded = ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `
+  let best: VariantSpec | null = null
+  let bestLength = 0
+  taxonomy.variants
+    .filter(spec => spec.kind === 'parallel' && spec.finish)
+    .forEach(spec => [spec.name, ...(spec.aliases ?? [])].forEach(alias => {
+      const key = variantKey(alias)
+      if (key.replace(/ /g, '').includes(spec.finish!.replace(/-/g, '')) && folded.includes(` ${key} `) && key.length > bestLength) {
+        best = spec
+        bestLength = key.length
+      }
+    }))
+  return best
+}
+
+// Every variant of a catalog card: its own checklist parallels, then the set's that apply to it
+export function resolveVariants(card: CardDatabaseEntry, taxonomy: SetTaxonomy | null): VariantSpec[] {
+  const checklist: ChecklistParallel[] = card.metadata?.parallels ?? []
+  const resolved: VariantSpec[] = []
+  const add = (spec: VariantSpec) => {
+    if (!resolved.some(existing => variantKey(existing.name) === variantKey(spec.name))) resolved.push(spec)
+  }
+
+  add(findVariant(taxonomy, 'Base') ?? BASE)
+  card.variants.forEach(name => {
+    const listed = parseParallel(name) ?? { name }
+    const numbered = checklist.find(parallel => variantKey(parallel.name) === variantKey(listed.name))
+    const printRun = numbered?.printRun ?? listed.printRun
+    const spec = findVariant(taxonomy, name)
+    // The checklist's print run wins: it was printed for this card
+    add(spec
+      ? { ...spec, printRun: printRun ?? spec.printRun }
+      : { name: listed.name, kind: 'parallel', printRun })
+  })
+  taxonomy?.variants
+    .filter(spec => spec.kind === 'parallel' && (!spec.subset || spec.subset.toLowerCase() === card.subset?.toLowerCase()))
+    .forEach(add)
+
+  return resolved
+}
+
+// A parallel as checklists print it
+export function parseParallel(text: string): ChecklistParallel | null {
+  const trimmed = text.trim()
+  if (!trimmed) return null
+  if (ONE_OF_ONE.test(trimmed)) {
+    return { name: trimmed.replace(ONE_OF_ONE, '').trim() || trimmed, printRun: 1 }
+  }
+  const match = trimmed.match(PRINT_RUN)
+  if (match) {
+    return { name: trimmed.slice(0, match.index).trim(), printRun: parseInt(match[1], 10) }
+  }
+  return { name: trimmed }
+}
+
+export function formatParallel(parallel: ChecklistParallel): string {
+  if (parallel.printRun === 1) return `${parallel.name} 1/1`
+  return parallel.printRun ? `${parallel.name} /${parallel.printRun}` : parallel.name
+}
+
+export function variantRarity(spec: VariantSpec): VariantRarity {
+  if (spec.printRun !== undefined) {
+    if (spec.printRun === 1) return 'legendary'
+    if (spec.printRun <= 25) return 'mythic'
+    if (spec.printRun <= 99) return 'rare'
+    return 'uncommon'
+  }
+  const packs = oddsPacks(spec.odds)
+  if (packs !== undefined) {
+    if (packs >= 100) return 'rare'
+    return packs >= 10 ? 'uncommon' : 'common'
+  }
+  if (spec.autograph || spec.patch) return 'rare'
+  return spec.kind === 'base' ? 'common' : 'uncommon'
+}
+
+export function variantFeatures(spec: VariantSpec): string[] {
+  const features: string[] = []
+  if (spec.finish && spec.finish !== 'paper') features.push(FINISH_FEATURES[spec.finish])
+  if (spec.color) features.push(`${spec.color.charAt(0).toUpperCase()}${spec.color.slice(1)} coloring`)
+  if (spec.printRun === 1) features.push('One of one')
+  else if (spec.printRun !== undefined) features.push(`Serial numbered to /${spec.printRun}`)
+  if (spec.autograph) features.push('Autographed')
+  if (spec.patch) features.push('Game-worn patch')
+  if (spec.odds) features.push(`Inserted ${spec.odds}`)
+  if (spec.exclusive) features.push(`${spec.exclusive === 'hobby' ? 'Hobby' : 'Retail'} exclusive`)
+  return [...features, ...(spec.features ?? [])]
+}
+
+export function toCardVariant(spec: VariantSpec): CardVariant {
+  return {
+    name: spec.name,
+    kind: spec.kind,
+    rarity: variantRarity(spec),
+    estimatedPrintRun: spec.printRun,
+    distinguishingFeatures: variantFeatures(spec),
+    color: spec.color,
+    finish: spec.finish,
+    odds: spec.odds,
+    exclusive: spec.exclusive,
+    isAutograph: spec.autograph,
+    isPatch: spec.patch
+  }
+}
+
+// What the card itself showed; the variant adds what its parallel implies
+export interface AttributeSource {
+  isRookie?: boolean
+  isAutograph?: boolean
+  isPatch?: boolean
+  variant?: string
+  variantDetails?: CardVariant
+  serial?: { number: number; printRun: number }
+}
+
+export function deriveAttributes(source: AttributeSource): CardAttributes {
+  const variant = source.variantDetails
+  const isParallel = variant ? variant.kind === 'parallel' : source.variant !== undefined && variantKey(source.variant) !== 'base'
+  return new CardAttributes(
+    source.isRookie ?? false,
+    (source.isAutograph || variant?.isAutograph) ?? false,
+    (source.isPatch || variant?.isPatch) ?? false,
+    !!variant?.finish && REFRACTIVE_FINISHES.includes(variant.finish as ParallelFinish),
+    isParallel,
+    source.serial?.number,
+    source.serial?.printRun ?? variant?.estimatedPrintRun
+  )
+}
+
+// A set's taxonomy from imported JSON: a list of variant specs
+export function parseTaxonomy(year: number, manufacturer: string, set: string, raw: unknown): SetTaxonomy {
+  if (!Array.isArray(raw)) {
+    throw new ValidationError(`Variant taxonomy for ${year} ${manufacturer} ${set} must be a list`, 'taxonomy')
+  }
+  return { year, manufacturer, set, variants: raw.map((item, index) => parseSpec(item, `${year} ${manufacturer} ${set} variant ${index + 1}`)) }
+}
+
+function parseSpec(raw: unknown, label: string): VariantSpec {
+  const item = (raw ?? {}) as Record<string, unknown>
+  const name = typeof item.name === 'string' ? item.name.trim() : ''
+  if (!name) throw new ValidationError(`${label} has no name`, 'taxonomy')
+
+  const kind = item.kind ?? 'parallel'
+  if (kind !== 'base' && kind !== 'parallel' && kind !== 'insert') {
+    throw new ValidationError(`${label} (${name}) has unknown kind "${kind}"`, 'taxonomy')
+  }
+  if (item.finish !== undefined && !FINISHES.includes(item.finish as ParallelFinish)) {
+    throw new ValidationError(`${label} (${name}) has unknown finish "${item.finish}"`, 'taxonomy')
+  }
+  const printRun = item.printRun === undefined ? undefined : Number(item.printRun)
+  if (printRun !== undefined && (!Number.isInteger(printRun) || printRun < 1)) {
+    throw new ValidationError(`${label} (${name}) has invalid print run "${item.printRun}"`, 'taxonomy')
+  }
+
+  const strings = (value: unknown) => Array.isArray(value) ? value.map(String) : undefined
+  return {
+    name,
+    kind,
+    aliases: strings(item.aliases),
+    color: typeof item.color === 'string' ? item.color : undefined,
+    finish: item.finish as ParallelFinish | undefined,
+    printRun,
+    odds: typeof item.odds === 'string' ? item.odds : undefined,
+    exclusive: item.exclusive === 'hobby' || item.exclusive === 'retail' ? item.exclusive : undefined,
+    autograph: item.autograph === true || undefined,
+    patch: item.patch === true || undefined,
+    subset: typeof item.subset === 'string' ? item.subset : undefined,
+    features: strings(item.features)
+  }
+}
+
+// "1:24 hobby" is one in 24 packs
+function oddsPacks(odds?: string): number | undefined {
+  const match = odds?.match(/1\s*:\s*([\d,]+)/)
+  return match ? parseInt(match[1].replace(/,/g, ''), 10) : undefined
+}
+
+function variantKey(name: string): string {
+  return (parseParallel(name)?.name ?? name).toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
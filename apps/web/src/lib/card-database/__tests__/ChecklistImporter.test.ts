@@ -0,0 +1,155 @@
+/**
+ * Tests for importing set checklists into the catalog
+ */
+
+import { ChecklistImporter, ChecklistStore, ReferenceImageIndexer } from '../ChecklistImporter'
+import { SetTaxonomy, parseParallel, taxonomyId } from '../VariantTaxonomy'
+import type { CardDatabaseEntry, SetInfo } from '../../interfaces/services'
+
+// In-memory stand-in for the IndexedDB provider, matching sets by their normalized key like it does
+class MemoryStore implements ChecklistStore {
+  cards = new Map<string, CardDatabaseEntry>()
+  sets = new Map<string, SetInfo>()
+  taxonomies = new Map<string, SetTaxonomy>()
+
+  async getSetCards(year: number, manufacturer: string, setName: string) {
+    const key = taxonomyId(year, manufacturer, setName)
+    return Array.from(this.cards.values()).filter(card => taxonomyId(card.year, card.manufacturer, card.set) === key)
+  }
+
+  async getSetInfo(year: number, manufacturer: string, setName: string) {
+    return this.sets.get(taxonomyId(year, manufacturer, setName)) ?? null
+  }
+
+  async saveCards(cards: CardDatabaseEntry[]) {
+    cards.forEach(card => this.cards.set(card.id, card))
+  }
+
+  async saveSetInfo(info: SetInfo) {
+    this.sets.set(taxonomyId(info.year, info.manufacturer, info.name), info)
+  }
+
+  async saveTaxonomy(taxonomy: SetTaxonomy) {
+    this.taxonomies.set(`${taxonomy.year}:${taxonomy.manufacturer}:${taxonomy.set}`, taxonomy)
+  }
+}
+
+// Records what would be added to the visual index
+class MemoryIndexer implements ReferenceImageIndexer {
+  indexed: Array<{ cardId: string; url: string }> = []
+
+  async indexImage(card: CardDatabaseEntry, url: string) {
+    if (url.includes('missing')) throw new Error('404 Not Found')
+    this.indexed.push({ cardId: card.id, url })
+  }
+}
+
+const CSV = [
+  'Set,Year,Manufacturer,Card #,Player,Subset,RC,Parallels',
+  'Prizm,2018,Panini,280,Luka Doncic,,RC,"Silver | Red Wave | Gold /10 | Black 1/1"',
+  'Prizm,2018,Panini,78,"Doncic, Luka",,,',
+  'Prizm,2018,Panini,1,LeBron James,,,Silver',
+  'Prizm,20x8,Panini,2,Kevin Durant,,,',
+  'Prizm,2018,Panini,,Stephen Curry,,,',
+  'Prizm,2018,Panini,3,Trae Young,Emergent,RC,Gold /0'
+].join('\n')
+
+describe('ChecklistImporter', () => {
+  it('should import valid rows and report rejected ones', async () => {
+    const store = new MemoryStore()
+    const report = await new ChecklistImporter(store).import(CSV)
+
+    expect(report.format).toBe('csv')
+    expect(report.totalRows).toBe(6)
+    expect(report.added).toBe(3)
+    expect(report.rejected.map(rejected => rejected.row)).toEqual([4, 5, 6])
+    expect(report.rejected[0].reasons[0]).toMatch(/Year "20x8"/)
+    expect(report.rejected[1].reasons).toEqual(['Missing number'])
+    expect(report.rejected[2].reasons[0]).toMatch(/invalid print run/)
+
+    const luka = store.cards.get('2018:panini:prizm:280')!
+    expect(luka.attributes.isRookie).toBe(true)
+    expect(luka.variants).toEqual(['Base', 'Silver', 'Red Wave', 'Gold /10', 'Black 1/1'])
+    expect(luka.metadata.parallels).toContainEqual({ name: 'Gold', printRun: 10 })
+    expect(store.cards.get('2018:panini:prizm:78')!.player).toBe('Doncic, Luka')
+
+    const set = await store.getSetInfo(2018, 'Panini', 'Prizm')
+    expect(set?.totalCards).toBe(3)
+    expect(report.sets).toEqual(['2018 Panini Prizm'])
+  })
+
+  it('should merge into existing cards instead of duplicating them', async () => {
+    const store = new MemoryStore()
+    const importer = new ChecklistImporter(store)
+    await importer.import(CSV)
+
+    const report = await importer.import(JSON.stringify({
+      name: 'Prizm',
+      year: 2018,
+      manufacturer: 'Panini',
+      releaseDate: '2018-12-05',
+      cards: [
+        { number: '280', player: 'Luka Doncic', parallels: ['Silver', { name: 'Green', printRun: 5 }] },
+        { number: '1', player: 'LeBron James', parallels: ['Silver'] },
+        { cardNumber: '78', player: 'Trae Young' }
+      ]
+    }))
+
+    expect(report.format).toBe('json')
+    expect(report.added).toBe(0)
+    expect(report.updated).toBe(1)
+    expect(report.unchanged).toBe(1)
+    expect(report.rejected[0].reasons[0]).toMatch(/already Doncic, Luka/)
+    expect(store.cards.size).toBe(3)
+    expect(store.cards.get('2018:panini:prizm:280')!.variants).toContain('Green /5')
+
+    const set = await store.getSetInfo(2018, 'Panini', 'Prizm')
+    expect(set?.releaseDate.getFullYear()).toBe(2018)
+    expect(set?.releaseDate.getMonth()).toBe(11)
+  })
+
+  it('should merge a re-import that writes the set in another case', async () => {
+    const store = new MemoryStore()
+    const importer = new ChecklistImporter(store)
+    await importer.import(CSV)
+
+    const report = await importer.import([
+      'Set,Year,Manufacturer,Card #,Player,Parallels',
+      'PRIZM,2018,PANINI,280,Luka Doncic,Green /5'
+    ].join('\n'))
+
+    expect(report.added).toBe(0)
+    expect(report.updated).toBe(1)
+    const luka = store.cards.get('2018:panini:prizm:280')!
+    expect(luka.set).toBe('Prizm')
+    expect(luka.variants).toEqual(['Base', 'Silver', 'Red Wave', 'Gold /10', 'Black 1/1', 'Green /5'])
+    expect((await store.getSetInfo(2018, 'Panini', 'Prizm'))?.totalCards).toBe(3)
+  })
+
+  it('should index the pictures a checklist links and report the ones that fail', async () => {
+    const store = new MemoryStore()
+    const indexer = new MemoryIndexer()
+    const importer = new ChecklistImporter(store, indexer)
+    await importer.import(CSV)
+
+    const report = await importer.import([
+      'Set,Year,Manufacturer,Card #,Player,Image URL',
+      'Prizm,2018,Panini,280,Luka Doncic,https://example.com/280.jpg',
+      'Prizm,2018,Panini,79,Jaren Jackson Jr.,https://example.com/missing.jpg',
+      'Prizm,2018,Panini,80,Marvin Bagley III,'
+    ].join('\n'))
+
+    expect(indexer.indexed).toEqual([{ cardId: '2018:panini:prizm:280', url: 'https://example.com/280.jpg' }])
+    expect(report.referenceImages).toBe(1)
+    expect(report.imageFailures).toEqual([{ row: 2, url: 'https://example.com/missing.jpg', reason: '404 Not Found' }])
+    // A card whose picture failed is still in the catalog
+    expect(store.cards.has('2018:panini:prizm:79')).toBe(true)
+    expect(report.added).toBe(2)
+  })
+
+  it('should read print runs the way checklists write them', () => {
+    expect(parseParallel('Gold /10')).toEqual({ name: 'Gold', printRun: 10 })
+    expect(parseParallel('Gold Vinyl 1/1')).toEqual({ name: 'Gold Vinyl', printRun: 1 })
+    expect(parseParallel('Red Wave')).toEqual({ name: 'Red Wave' })
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * Tests for player name resolution
+ */
+
+import { PlayerRegistry, formatPlayerName, parsePlayerName } from '../PlayerRegistry'
+
+describe('PlayerRegistry', () => {
+  const registry = new PlayerRegistry()
+
+  it('should resolve the ways a name gets written to one player', () => {
+    const forms = ['Ken Griffey Jr', 'Griffey Jr., Ken', 'KEN GRIFFEY JR.', 'K. Griffey Jr', 'The Kid', 'Griffey Jr']
+    forms.forEach(form => expect(registry.resolve(form)?.player.id).toBe('ken-griffey-jr'))
+
+    expect(registry.resolve('Ken Griffey Jr.')).toMatchObject({ kind: 'name', confidence: 1 })
+    expect(registry.resolve('K. Griffey Jr')?.kind).toBe('initial')
+    expect(registry.resolve('Ronald Acuna')).toMatchObject({ kind: 'suffix', player: { id: 'ronald-acuna-jr' } })
+    expect(registry.resolve('Luka Doncic')?.player.name).toBe('Luka Dončić')
+    expect(registry.resolve('Giannis Antetokoumpo')?.kind).toBe('typo')
+  })
+
+  it('should not guess between players sharing a name', () => {
+    expect(registry.resolve('Vladimir Guerrero')?.player.id).toBe('vladimir-guerrero')
+    expect(registry.resolve('Guerrero Jr., Vladimir')?.player.id).toBe('vladimir-guerrero-jr')
+    expect(registry.resolve('V. Guerrero')).toBeNull()
+    expect(registry.samePlayer('Vladimir Guerrero', 'Vladimir Guerrero Jr.')).toBe(false)
+
+    // Father and son are both Ken Griffey
+    expect(registry.resolve('Griffey Sr., Ken')?.player.id).toBe('ken-griffey-sr')
+    expect(registry.resolve('Ken Griffey')).toBeNull()
+    expect(registry.resolve('K. Griffey')).toBeNull()
+    expect(registry.samePlayer('Ken Griffey Sr.', 'Ken Griffey Jr.')).toBe(false)
+  })
+
+  it('should not resolve a bare surname', () => {
+    expect(registry.resolve('Griffey')).toBeNull()
+    expect(registry.resolve('Rodriguez')).toBeNull()
+    expect(registry.resolve('Trout')).toBeNull()
+  })
+
+  it('should learn the players a catalog names', () => {
+    const learning = new PlayerRegistry()
+    const size = learning.size
+
+    expect(learning.learn('Doncic, Luka')?.id).toBe('luka-doncic')
+    expect(learning.learn('Witt Jr., Bobby')).toMatchObject({ id: 'bobby-witt-jr', name: 'Bobby Witt Jr.' })
+    expect(learning.resolve('Bobby Witt')?.player.id).toBe('bobby-witt-jr')
+    // A checklist naming the father apart from the son
+    expect(learning.learn('Bobby Witt', 'baseball')).toMatchObject({ id: 'bobby-witt', sport: 'baseball' })
+    expect(learning.resolve('Bobby Witt')?.player.id).toBe('bobby-witt')
+    expect(learning.samePlayer('Bobby Witt', 'Bobby Witt Jr.')).toBe(false)
+    expect(learning.size).toBe(size + 2)
+  })
+
+  it('should tidy names it does not know', () => {
+    expect(parsePlayerName('Tatis Jr., Fernando')).toEqual({ given: ['fernando'], family: 'tatis', suffix: 'jr' })
+    expect(formatPlayerName('Tatis Jr, Fernando')).toBe('Fernando Tatis Jr.')
+    expect(registry.canonicalId('Fernando Tatis Jr')).toBe('fernando-tatis-jr')
+    expect(registry.samePlayer('Tatis Jr., Fernando', 'Fernando Tatis Jr.')).toBe(true)
+  })
+
+  it('should find players by nickname and alias', () => {
+    expect(registry.search('greek').map(player => player.id)).toEqual(['giannis-antetokounmpo'])
+    expect(registry.search('Michael').map(player => player.id)).toEqual(expect.arrayContaining(['michael-jordan', 'mike-trout']))
+  })
+})
@@ -0,0 +1,159 @@
+/**
+ * Tests for reference images, from checklist import to the counterfeit check
+ */
+
+import { ChecklistImporter, ChecklistStore } from '../ChecklistImporter'
+import { ReferenceImageStore, ReferenceLibrary } from '../ReferenceLibrary'
+import type { SetTaxonomy } from '../VariantTaxonomy'
+import { ReferenceComparator } from '../../vision/ReferenceComparator'
+import { CardFingerprint, computeFingerprint, fingerprintSimilarity } from '../../vision/PerceptualHash'
+import { createImageData } from '../../vision/image'
+import type { CardDatabaseEntry, SetInfo, VisualMatch } from '../../interfaces/services'
+
+// In-memory stand-in for the IndexedDB provider
+class MemoryStore implements ChecklistStore, ReferenceImageStore {
+  cards = new Map<string, CardDatabaseEntry>()
+  references = new Map<string, { image: ImageData; fingerprint: CardFingerprint }>()
+
+  async getSetCards(year: number, manufacturer: string, setName: string) {
+    return Array.from(this.cards.values()).filter(card =>
+      card.year === year && card.manufacturer === manufacturer && card.set === setName
+    )
+  }
+
+  async getSetInfo() {
+    return null
+  }
+
+  async saveCards(cards: CardDatabaseEntry[]) {
+    cards.forEach(card => this.cards.set(card.id, card))
+  }
+
+  async saveSetInfo(_info: SetInfo) {}
+
+  async saveTaxonomy(_taxonomy: SetTaxonomy) {}
+
+  async saveReferenceImage(cardId: string, image: ImageData) {
+    this.references.set(cardId, { image, fingerprint: computeFingerprint(image) })
+  }
+
+  async getReferenceImage(cardId: string) {
+    return this.references.get(cardId)?.image ?? null
+  }
+
+  async findVisualMatches(fingerprint: CardFingerprint, limit = 5): Promise<VisualMatch[]> {
+    return Array.from(this.references.entries())
+      .map(([cardId, reference]) => ({ card: this.cards.get(cardId)!, similarity: fingerprintSimilarity(fingerprint, reference.fingerprint) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit)
+  }
+}
+
+type Rgb = [number, number, number]
+
+const WIDTH = 500
+const HEIGHT = 700
+
+// Rectified card: halftone photo, team band, logo and text on a light border
+function drawCard({ flatPrint = false, offset = 0, exposure = 1, band = [200, 30, 40] as Rgb } = {}): ImageData {
+  const image = createImageData(WIDTH, HEIGHT)
+  for (let py = 0; py < HEIGHT; py++) {
+    for (let px = 0; px < WIDTH; px++) {
+      const x = px + offset
+      const y = py + offset
+      let color: Rgb = [235, 232, 225]
+      if (x >= 40 && x < 460 && y >= 120 && y < 520) {
+        const level = flatPrint ? 128 : (x % 4 < 2) && (y % 4 < 2) ? 70 : 150
+        const shade = 0.7 + 0.3 * Math.sin(x / 40) * Math.cos(y / 55)
+        color = [level * shade, level * 0.9 * shade, level * 1.1 * shade]
+      }
+      if (y >= 540 && y < 580 && x >= 20 && x < 480) color = band
+      if (x >= 60 && x < 150 && y >= 30 && y < 90) color = [20, 20, 60]
+      // Name and stats: rows of short strokes
+      if (y >= 600 && y < 680 && x >= 40 && x < 460 && (y - 600) % 16 < 8 && (x + Math.floor((y - 600) / 16) * 7) % 14 < 9) {
+        color = [15, 15, 15]
+      }
+      const p = (py * WIDTH + px) * 4
+      image.data[p] = color[0] * exposure
+      image.data[p + 1] = color[1] * exposure
+      image.data[p + 2] = color[2] * exposure
+      image.data[p + 3] = 255
+    }
+  }
+  return image
+}
+
+// The checklist's picture: the card photographed on a dark table
+function photograph(card: ImageData): ImageData {
+  const margin = 60
+  const photo = createImageData(card.width + margin * 2, card.height + margin * 2)
+  for (let y = 0; y < photo.height; y++) {
+    for (let x = 0; x < photo.width; x++) {
+      const p = (y * photo.width + x) * 4
+      const inside = x >= margin && x < margin + card.width && y >= margin && y < margin + card.height
+      const q = ((y - margin) * card.width + (x - margin)) * 4
+      photo.data[p] = inside ? card.data[q] : 30
+      photo.data[p + 1] = inside ? card.data[q + 1] : 32
+      photo.data[p + 2] = inside ? card.data[q + 2] : 35
+      photo.data[p + 3] = 255
+    }
+  }
+  return photo
+}
+
+const CSV = [
+  'Set,Year,Manufacturer,Card #,Player,Image URL',
+  'Prizm,2018,Panini,280,Luka Doncic,https://example.com/280.jpg'
+].join('\n')
+
+describe('ReferenceLibrary', () => {
+  const comparator = new ReferenceComparator()
+
+  async function importWithPicture() {
+    const store = new MemoryStore()
+    const pictures: Record<string, ImageData> = { 'https://example.com/280.jpg': photograph(drawCard()) }
+    const library = new ReferenceLibrary(store, async url => pictures[url])
+    const report = await new ChecklistImporter(store, library).import(CSV)
+    return { store, library, report }
+  }
+
+  it('should store an imported picture cropped to the card', async () => {
+    const { store, report } = await importWithPicture()
+    const reference = store.references.get('2018:panini:prizm:280')!.image
+
+    expect(report.referenceImages).toBe(1)
+    expect([reference.width, reference.height]).toEqual([WIDTH, HEIGHT])
+    // Border, not the table, at the corner
+    expect(reference.data[(10 * WIDTH + 10) * 4]).toBeGreaterThan(200)
+  })
+
+  it('should give a scan its imported reference and catch a reprint against it', async () => {
+    const { library } = await importWithPicture()
+
+    const genuine = drawCard({ offset: 3, exposure: 0.92 })
+    const reference = await library.findReference(genuine)
+    expect(reference).not.toBeNull()
+    const result = comparator.compare(genuine, reference)
+    expect(result.hasReference).toBe(true)
+    expect(result.suspicious).toBe(false)
+
+    const reprint = drawCard({ flatPrint: true })
+    const caught = comparator.compare(reprint, await library.findReference(reprint))
+    expect(caught.hasReference).toBe(true)
+    expect(caught.suspicious).toBe(true)
+  })
+
+  it('should have no reference for a card it has no picture of', async () => {
+    const { library } = await importWithPicture()
+    const other = createImageData(WIDTH, HEIGHT)
+    for (let i = 0; i < other.data.length; i += 4) {
+      const y = Math.floor(i / 4 / WIDTH)
+      other.data[i] = y < HEIGHT / 2 ? 20 : 240
+      other.data[i + 1] = 120
+      other.data[i + 2] = y < HEIGHT / 2 ? 240 : 20
+      other.data[i + 3] = 255
+    }
+
+    expect(await library.findReference(other)).toBeNull()
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * Tests for the catalog search index
+ */
+
+import { PostingsSource, SearchVocabulary, diffTerms, editDistance, findCandidates, indexTerms, planSearch, rankCards } from '../SearchIndex'
+import type { CardDatabaseEntry } from '../../interfaces/services'
+
+function card(id: string, player: string, year: number, set: string, cardNumber: string, variants: string[] = ['Base']): CardDatabaseEntry {
+  return {
+    id,
+    player,
+    year,
+    manufacturer: 'Panini',
+    set,
+    cardNumber,
+    attributes: { isRookie: false, isAutograph: false, isPatch: false, isSerialNumbered: false },
+    variants,
+    metadata: {}
+  }
+}
+
+const CATALOG = [
+  card('luka-prizm', 'Luka Dončić', 2018, 'Prizm', '280', ['Base', 'Silver', 'Gold /10']),
+  card('luka-optic', 'Luka Doncic', 2018, 'Donruss Optic', '177', ['Base', 'Holo']),
+  card('luka-prizm-19', 'Luka Doncic', 2019, 'Prizm', '79', ['Base', 'Silver']),
+  card('lukas-prizm', 'Lukas Nmecha', 2018, 'Prizm', '12'),
+  card('trae-prizm', 'Trae Young', 2018, 'Prizm', '78', ['Base', 'Silver'])
+]
+
+function vocabularyOf(cards: CardDatabaseEntry[]): SearchVocabulary {
+  const vocabulary = new SearchVocabulary()
+  cards.forEach(entry => indexTerms(entry).forEach(({ term }) => vocabulary.add(term)))
+  return vocabulary
+}
+
+// Postings kept in memory, in card id order as IndexedDB keeps them
+function postingsOf(cards: CardDatabaseEntry[]): PostingsSource {
+  const byTerm = new Map<string, string[]>()
+  cards.forEach(entry => indexTerms(entry).forEach(({ term }) => {
+    byTerm.set(term, byTerm.get(term) ?? [])
+    byTerm.get(term)!.push(entry.id)
+  }))
+  const idsOf = (terms: string[]) => Array.from(new Set(terms.flatMap(term => byTerm.get(term) ?? []))).sort()
+
+  return {
+    async page(terms, after, count) {
+      return idsOf(terms).filter(id => after === null || id > after).slice(0, count)
+    },
+    async within(terms, first, last) {
+      return new Set(idsOf(terms).filter(id => id >= first && id <= last))
+    }
+  }
+}
+
+// 2500 Doncic cards and 2600 Prizm cards, sharing only the 100 from card-2400
+const cardId = (n: number) => `card-${String(n).padStart(4, '0')}`
+const LARGE_CATALOG = Array.from({ length: 5000 }, (_, n) =>
+  card(cardId(n), n < 2500 ? 'Luka Doncic' : 'Trae Young', 2018, n >= 2400 ? 'Prizm' : 'Donruss Optic', String(n))
+)
+
+describe('SearchIndex', () => {
+  it('should index every field once under its best boost', () => {
+    const terms = indexTerms(card('x', 'Prizm Man', 2020, 'Prizm', 'BDC-150', ['Base', 'Gold /10']))
+    expect(terms).toContainEqual({ term: 'prizm', field: 'player' })
+    expect(terms).toContainEqual({ term: 'bdc150', field: 'number' })
+    expect(terms).toContainEqual({ term: '10', field: 'variant' })
+    expect(terms.filter(t => t.term === 'prizm')).toHaveLength(1)
+  })
+
+  it('should expand tokens to exact terms, prefixes and typos', () => {
+    const vocabulary = vocabularyOf(CATALOG)
+    expect(vocabulary.expand('luka')[0]).toEqual({ term: 'luka', similarity: 1 })
+    expect(vocabulary.expand('luka').map(e => e.term)).toContain('lukas')
+    expect(vocabulary.expand('przm').map(e => e.term)).toEqual(['prizm'])
+    expect(vocabulary.expand('dnocic').map(e => e.term)).toEqual(['doncic'])
+    // Numbers are never fuzzy
+    expect(vocabulary.expand('281')).toEqual([])
+    expect(editDistance('silver', 'sliver', 1)).toBe(1)
+  })
+
+  it('should drive the lookup from the rarest token', () => {
+    const plan = planSearch('2018 prizm luka silver zzzz', vocabularyOf(CATALOG))
+    expect(plan[0].token).toBe('silver')
+    expect(plan.map(token => token.token)).not.toContain('zzzz')
+    expect(plan).toHaveLength(4)
+  })
+
+  it('should rank the card matching every token first', () => {
+    const ranked = rankCards(CATALOG, '2018 prizm luka silver').map(entry => entry.id)
+    expect(ranked[0]).toBe('luka-prizm')
+    // Three of four tokens, ahead of the Optic which misses prizm and silver
+    expect(ranked.slice(1, 4)).toEqual(expect.arrayContaining(['lukas-prizm', 'luka-prizm-19', 'trae-prizm']))
+    expect(ranked[4]).toBe('luka-optic')
+    expect(rankCards(CATALOG, '2018 przm dončic silvr')[0].id).toBe('luka-prizm')
+  })
+
+  it('should only touch the terms that changed', () => {
+    const before = CATALOG[4]
+    const after = { ...before, variants: ['Base', 'Silver', 'Green /5'] }
+    expect(diffTerms(before, after)).toEqual({ added: ['green', '5'], removed: [] })
+    expect(diffTerms(undefined, before).added).toContain('trae')
+  })
+
+  it('should find the cards carrying every token beyond the candidate limit', async () => {
+    const plan = planSearch('doncic prizm', vocabularyOf(LARGE_CATALOG))
+    expect(plan[0].postings).toBeGreaterThan(2000)
+
+    const candidates = await findCandidates(plan, postingsOf(LARGE_CATALOG), 2000)
+    expect(candidates).toHaveLength(2000)
+    expect(candidates.slice(0, 100)).toEqual(Array.from({ length: 100 }, (_, n) => cardId(2400 + n)))
+  })
+
+  it('should fall back to the rarest token\'s cards when none carry every token', async () => {
+    const candidates = await findCandidates(planSearch('optic trae', vocabularyOf(LARGE_CATALOG)), postingsOf(LARGE_CATALOG), 2000)
+    expect(candidates).toHaveLength(2000)
+    expect(candidates[0]).toBe(cardId(0))
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * Tests for per-set parallel and insert taxonomies
+ */
+
+import {
+  deriveAttributes,
+  findBuiltInTaxonomy,
+  findPrintedVariant,
+  parseTaxonomy,
+  resolveVariants,
+  toCardVariant
+} from '../VariantTaxonomy'
+import type { CardDatabaseEntry } from '../../interfaces/services'
+
+const LUKA: CardDatabaseEntry = {
+  id: '2018:panini:prizm:280',
+  player: 'Luka Doncic',
+  year: 2018,
+  manufacturer: 'Panini',
+  set: 'Prizm',
+  cardNumber: '280',
+  attributes: { isRookie: true, isAutograph: false, isPatch: false, isSerialNumbered: false },
+  variants: ['Base', 'Silver Prizm', 'Gold /10', 'Lucky Envelopes /88'],
+  metadata: { parallels: [{ name: 'Silver Prizm' }, { name: 'Gold', printRun: 10 }, { name: 'Lucky Envelopes', printRun: 88 }] }
+}
+
+describe('VariantTaxonomy', () => {
+  const prizm = findBuiltInTaxonomy(2018, 'panini', 'PRIZM')
+
+  it('should resolve a card\'s variants against its set', () => {
+    const variants = resolveVariants(LUKA, prizm).map(toCardVariant)
+    const byName = (name: string) => variants.find(variant => variant.name === name)!
+
+    expect(variants[0]).toMatchObject({ name: 'Base', kind: 'base', rarity: 'common' })
+    expect(byName('Silver')).toMatchObject({ finish: 'prizm', color: 'silver', estimatedPrintRun: undefined })
+    expect(byName('Gold')).toMatchObject({ estimatedPrintRun: 10, rarity: 'mythic' })
+    // Listed on the card but not in the taxonomy: kept with the checklist's print run
+    expect(byName('Lucky Envelopes')).toMatchObject({ kind: 'parallel', estimatedPrintRun: 88, rarity: 'rare' })
+    // Set-wide parallels the checklist did not list
+    expect(byName('Black')).toMatchObject({ estimatedPrintRun: 1, rarity: 'legendary' })
+    expect(variants.some(variant => variant.name === 'Emergent')).toBe(false)
+  })
+
+  it('should tell Silver from Red Wave', () => {
+    const variants = resolveVariants(LUKA, prizm).map(toCardVariant)
+    const silver = variants.find(variant => variant.name === 'Silver')!
+    const redWave = variants.find(variant => variant.name === 'Red Wave')!
+
+    expect(redWave).toMatchObject({ color: 'red', finish: 'wave', exclusive: 'retail' })
+    expect(redWave.distinguishingFeatures).toEqual(expect.arrayContaining(['Wave pattern in the refractive layer', 'Retail exclusive']))
+    expect(silver.distinguishingFeatures).not.toContain('Retail exclusive')
+  })
+
+  it('should derive card attributes from the variant', () => {
+    const gold = resolveVariants(LUKA, prizm).map(toCardVariant).find(variant => variant.name === 'Gold')!
+    const attributes = deriveAttributes({ isRookie: true, variant: 'Gold', variantDetails: gold, serial: { number: 7, printRun: 10 } })
+
+    expect(attributes.isRefractor).toBe(true)
+    expect(attributes.isParallel).toBe(true)
+    expect(attributes.printRun).toBe(10)
+    expect(attributes.rarity).toBe('legendary')
+    expect(deriveAttributes({ variant: 'Base' }).isParallel).toBe(false)
+  })
+
+  it('should read a finish the card prints, but not a colour', () => {
+    const chrome = findBuiltInTaxonomy(2023, 'Topps', 'Topps Chrome')
+
+    expect(findPrintedVariant(chrome, '© 2023 The Topps Company REFRACTOR')?.name).toBe('Refractor')
+    expect(findPrintedVariant(chrome, 'GOLD REFRACTOR 2023')?.name).toBe('Gold Refractor')
+    expect(findPrintedVariant(chrome, 'Boston Red Sox')).toBeNull()
+    expect(findPrintedVariant(prizm, 'Dallas Mavericks Silver')).toBeNull()
+  })
+
+  it('should validate imported taxonomies', () => {
+    const taxonomy = parseTaxonomy(2019, 'Panini', 'Prizm', [
+      { name: 'Silver', finish: 'prizm' },
+      { name: 'Fast Break', kind: 'insert', odds: '1:12 hobby' }
+    ])
+    expect(taxonomy.variants.map(spec => spec.kind)).toEqual(['parallel', 'insert'])
+    expect(toCardVariant(taxonomy.variants[1]).rarity).toBe('uncommon')
+
+    expect(() => parseTaxonomy(2019, 'Panini', 'Prizm', [{ name: 'Silver', finish: 'glitter' }])).toThrow(/unknown finish "glitter"/)
+    expect(() => parseTaxonomy(2019, 'Panini', 'Prizm', [{ name: 'Gold', printRun: 0 }])).toThrow(/invalid print run/)
+  })
+})
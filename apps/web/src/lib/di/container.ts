@@ -94,6 +94,7 @@ export const ServiceTokens = {
   MarketDataService: Symbol('MarketDataService'),
   CardDatabaseService: Symbol('CardDatabaseService'),
   SubscriptionService: Symbol('SubscriptionService'),
+  CertLookupProvider: Symbol('CertLookupProvider'),
   
   // Repositories
   ScanRepository: Symbol('ScanRepository'),
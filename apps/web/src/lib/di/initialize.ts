@@ -8,6 +8,7 @@ import { FeatureFlagService } from '../features/FeatureFlags'
 import { VisionPipeline } from '../vision/VisionPipeline'
 import { MarketDataAggregator } from '../market/MarketDataAggregator'
 import { CardDatabaseManager } from '../card-database/CardDatabaseManager'
+import { createCertLookupProvider, CertLookupProvider } from '../grading/CertLookup'
 
 // Import existing services to wrap
 import { aiService } from '@/services/AIService'
@@ -21,6 +22,7 @@ import { SubscriptionService } from '@/services/SubscriptionService'
 // Import repositories
 import { ScanRepository } from '../repositories/ScanRepository'
 import { TransactionRepository } from '../repositories/TransactionRepository'
+import { CardRepository } from '../repositories/CardRepository'
 
 // Cache manager implementation
 class SimpleCacheManager {
@@ -130,7 +132,14 @@ export async function initializeContainer(): Promise<void> {
   const config = await container.resolve(ServiceTokens.ConfigService)
 
   // Domain services with dependencies
-  container.registerSingleton(ServiceTokens.AIService, () => aiService)
+  // Undefined until a grader-backed provider is plugged in; see CertLookup.ts
+  container.registerSingleton(ServiceTokens.CertLookupProvider, () => createCertLookupProvider())
+
+  container.registerSingleton(ServiceTokens.AIService, async () => {
+    const certLookup = await container.resolve<CertLookupProvider | undefined>(ServiceTokens.CertLookupProvider)
+    if (certLookup) aiService.setCertLookupProvider(certLookup)
+    return aiService
+  })
 
   container.registerSingleton(ServiceTokens.CameraService, () => CameraService)
   
@@ -148,7 +157,8 @@ export async function initializeContainer(): Promise<void> {
   })
 
   container.registerSingleton(ServiceTokens.CardDatabaseService, async () => {
-    return new CardDatabaseManager(logger as any, cache as any)
+    const offlineMode = await (config as any).isOfflineModeEnabled()
+    return new CardDatabaseManager(logger as any, cache as any, { offlineMode })
   })
 
   container.registerSingleton(ServiceTokens.SubscriptionService, () => SubscriptionService)
@@ -156,6 +166,11 @@ export async function initializeContainer(): Promise<void> {
   // Repositories
   container.registerSingleton(ServiceTokens.ScanRepository, () => new ScanRepository())
   container.registerSingleton(ServiceTokens.TransactionRepository, () => new TransactionRepository())
+  container.registerSingleton(ServiceTokens.CardRepository, async () => {
+    // Built on the manager's local catalog so both keep one search index in memory
+    const cardDatabase = await container.resolve<CardDatabaseManager>(ServiceTokens.CardDatabaseService)
+    return new CardRepository(cardDatabase.localDatabase)
+  })
 
   ;(logger as any).info('DI container initialized', {
     services: Object.keys(ServiceTokens).length
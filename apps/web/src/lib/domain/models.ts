@@ -2,11 +2,17 @@
  * Domain Models - Rich Klein & Grace Hopper: Clean, validated domain entities
  */
 
+import { playerRegistry } from '../card-database/PlayerRegistry'
+
 // Rich Klein: Card entity with comprehensive metadata
 export class Card {
+  // Canonical name and id from the player registry, whichever way the name was written
+  public readonly player: string
+  public readonly playerId: string
+
   constructor(
     public readonly id: string,
-    public readonly player: string,
+    player: string,
     public readonly year: number,
     public readonly manufacturer: string,
     public readonly set: string,
@@ -16,6 +22,8 @@ export class Card {
     public readonly attributes: CardAttributes = new CardAttributes(),
     public readonly metadata: Record<string, any> = {}
   ) {
+    this.player = playerRegistry.canonicalName(player)
+    this.playerId = playerRegistry.canonicalId(player)
     this.validate()
   }
 
@@ -40,7 +48,7 @@ export class Card {
   }
 
   get uniqueId(): string {
-    return `${this.year}-${this.manufacturer}-${this.set}-${this.cardNumber || 'base'}-${this.player}`.toLowerCase().replace(/\s+/g, '-')
+    return `${this.year}-${this.manufacturer}-${this.set}-${this.cardNumber || 'base'}-${this.playerId}`.toLowerCase().replace(/\s+/g, '-')
   }
 
   isHighValue(): boolean {
@@ -71,6 +79,14 @@ export class CardAttributes {
   }
 }
 
+// Model that contributed to a scan; enough to reproduce its grade after an upgrade
+export interface ModelVersion {
+  id: string
+  version: string
+  // SHA-256 of the weights, for models with downloaded artifacts
+  checksum?: string
+}
+
 // Fei-Fei Li: Scan result with confidence scoring
 export class ScanResult {
   constructor(
@@ -82,7 +98,8 @@ export class ScanResult {
     public readonly authenticity: AuthenticityResult,
     public readonly confidence: ConfidenceScore,
     public readonly images: ScanImages,
-    public readonly processingTime: number
+    public readonly processingTime: number,
+    public readonly modelVersions: ModelVersion[] = []
   ) {}
 
   get isHighConfidence(): boolean {
@@ -221,7 +238,9 @@ export class ConfidenceScore {
     public readonly cardIdentification: number,
     public readonly gradeAccuracy: number,
     public readonly damageDetection: number,
-    public readonly authenticityCheck: number
+    public readonly authenticityCheck: number,
+    // Captured with a calibrated camera; the scores above already account for it
+    public readonly calibrated: boolean = false
   ) {}
 
   get lowest(): number {
@@ -241,7 +260,9 @@ export class ScanImages {
     public readonly topEdge?: string,
     public readonly bottomEdge?: string,
     public readonly leftEdge?: string,
-    public readonly rightEdge?: string
+    public readonly rightEdge?: string,
+    // Taken under a UV light for the blacklight checks
+    public readonly uv?: string
   ) {}
 
   get all(): string[] {
@@ -358,6 +379,29 @@ export class Collection {
   }
 }
 
+export type GradingCompany = 'PSA' | 'BGS' | 'SGC'
+
+export type CertVerificationStatus = 'verified' | 'mismatch' | 'not-found' | 'unverified'
+
+// Grade assigned by a third-party grader, as read from the slab label
+export class ExternalGrade {
+  constructor(
+    public readonly company: GradingCompany,
+    public readonly numeric: number,
+    public readonly certNumber: string,
+    public readonly verification: CertVerificationStatus = 'unverified',
+    public readonly label?: string
+  ) {}
+
+  get isVerified(): boolean {
+    return this.verification === 'verified'
+  }
+
+  toString(): string {
+    return `${this.company} ${this.numeric} #${this.certNumber}`
+  }
+}
+
 export class CollectionCard {
   constructor(
     public readonly card: Card,
@@ -365,8 +409,14 @@ export class CollectionCard {
     public readonly purchasePrice?: number,
     public readonly purchaseDate?: Date,
     public readonly notes?: string,
-    public readonly images?: ScanImages
+    public readonly images?: ScanImages,
+    // Set for slabbed cards; grade then mirrors the label instead of our own grading
+    public readonly externalGrade?: ExternalGrade
   ) {}
+
+  get isExternallyGraded(): boolean {
+    return this.externalGrade !== undefined
+  }
 }
 
 export class CollectionValue {
@@ -86,6 +86,12 @@ export class ScanProcessingError extends VeriCardError {
   }
 }
 
+export class ScanCancelledError extends VeriCardError {
+  constructor(step?: string) {
+    super('Scan cancelled', 'SCAN_CANCELLED', 499, { step })
+  }
+}
+
 export class SubscriptionError extends VeriCardError {
   constructor(message: string, requiredPlan?: string) {
     super(message, 'SUBSCRIPTION_ERROR', 402, { requiredPlan })
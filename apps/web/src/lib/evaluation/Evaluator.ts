@@ -0,0 +1,290 @@
+/**
+ * Evaluator - Grace Hopper: Score the grading pipeline against a labeled corpus
+ *
+ * Samples are loaded one at a time so a large corpus never sits in memory.
+ * CardGrader is the seam: PipelineGrader runs the real VisionPipeline and
+ * GradingEngine, tests pass a fake. Nothing here touches the file system;
+ * scripts/evaluate.ts reads the corpus under Node.
+ */
+
+import { CenteringScore } from '../domain/models'
+import { playerRegistry } from '../card-database/PlayerRegistry'
+import { GradingEngine, SubgradeName } from '../grading/GradingEngine'
+import { CardDetector } from '../vision/CardDetector'
+import { CardFingerprint, computeFingerprint, fingerprintSimilarity } from '../vision/PerceptualHash'
+import type { PipelineResult, VisionPipeline } from '../vision/VisionPipeline'
+import {
+  ConfusionMatrix,
+  LatencySummary,
+  confusionMatrix,
+  meanAbsoluteError,
+  summarizeLatency,
+  topKAccuracy
+} from './metrics'
+
+export const SUBGRADES: SubgradeName[] = ['centering', 'corners', 'edges', 'surface']
+
+export interface CardIdentity {
+  player: string
+  year?: number
+  set?: string
+  cardNumber?: string
+}
+
+// Ground truth for one card, usually from its official slab
+export interface GroundTruth {
+  grade: number
+  subgrades?: Partial<Record<SubgradeName, number>>
+  identity?: CardIdentity
+}
+
+export interface EvaluationSample {
+  id: string
+  truth: GroundTruth
+  load(): Promise<ImageData>
+}
+
+export interface GradePrediction {
+  grade: number
+  subgrades: Record<SubgradeName, number>
+  // Best guess first
+  candidates: CardIdentity[]
+}
+
+export interface CardGrader {
+  grade(image: ImageData): Promise<GradePrediction>
+}
+
+export interface SampleResult {
+  id: string
+  truth: GroundTruth
+  prediction?: GradePrediction
+  // Position of the correct identity among the candidates, null when absent
+  identityRank?: number | null
+  latencyMs?: number
+  error?: string
+}
+
+export interface MetricSummary {
+  count: number
+  mae: number
+  confusion: ConfusionMatrix
+}
+
+export interface EvaluationReport {
+  samples: number
+  failures: number
+  grade: MetricSummary
+  subgrades: Record<SubgradeName, MetricSummary>
+  identification: { count: number; top1: number; top5: number }
+  latency: LatencySummary
+  results: SampleResult[]
+}
+
+export interface EvaluateOptions {
+  onSample?: (result: SampleResult, index: number, total: number) => void
+}
+
+export async function evaluate(
+  samples: EvaluationSample[],
+  grader: CardGrader,
+  options: EvaluateOptions = {}
+): Promise<EvaluationReport> {
+  const results: SampleResult[] = []
+
+  for (let i = 0; i < samples.length; i++) {
+    const { id, truth } = samples[i]
+    let result: SampleResult
+    try {
+      const image = await samples[i].load()
+      const start = performance.now()
+      const prediction = await grader.grade(image)
+      const latencyMs = performance.now() - start
+      const identityRank = truth.identity
+        ? rankOf(prediction.candidates, truth.identity)
+        : undefined
+      result = { id, truth, prediction, identityRank, latencyMs }
+    } catch (error) {
+      // One unreadable image should not sink the whole run
+      result = { id, truth, error: error instanceof Error ? error.message : String(error) }
+    }
+    results.push(result)
+    options.onSample?.(result, i, samples.length)
+  }
+
+  return summarize(results)
+}
+
+export function summarize(results: SampleResult[]): EvaluationReport {
+  const graded = results.filter(result => result.prediction)
+  const summary = (pairs: Array<{ predicted: number; actual: number }>): MetricSummary => ({
+    count: pairs.length,
+    mae: meanAbsoluteError(pairs),
+    confusion: confusionMatrix(pairs)
+  })
+
+  const subgrades = {} as Record<SubgradeName, MetricSummary>
+  SUBGRADES.forEach(name => {
+    subgrades[name] = summary(
+      graded
+        .filter(result => result.truth.subgrades?.[name] !== undefined)
+        .map(result => ({ predicted: result.prediction!.subgrades[name], actual: result.truth.subgrades![name]! }))
+    )
+  })
+
+  const ranks = graded
+    .filter(result => result.identityRank !== undefined)
+    .map(result => result.identityRank as number | null)
+
+  return {
+    samples: results.length,
+    failures: results.length - graded.length,
+    grade: summary(graded.map(result => ({ predicted: result.prediction!.grade, actual: result.truth.grade }))),
+    subgrades,
+    identification: { count: ranks.length, top1: topKAccuracy(ranks, 1), top5: topKAccuracy(ranks, 5) },
+    latency: summarizeLatency(graded.map(result => result.latencyMs!)),
+    results
+  }
+}
+
+export function rankOf(candidates: CardIdentity[], truth: CardIdentity): number | null {
+  const index = candidates.findIndex(candidate => sameCard(candidate, truth))
+  return index === -1 ? null : index
+}
+
+// Player must match (any name the registry resolves to them); year, set and number only count when both sides have them
+export function sameCard(candidate: CardIdentity, truth: CardIdentity): boolean {
+  const text = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+  const number = (value: string) => text(value).replace(/^0+/, '')
+
+  if (!candidate.player || !playerRegistry.samePlayer(candidate.player, truth.player)) return false
+  if (candidate.year !== undefined && truth.year !== undefined && candidate.year !== truth.year) return false
+  if (candidate.cardNumber && truth.cardNumber && number(candidate.cardNumber) !== number(truth.cardNumber)) {
+    return false
+  }
+  if (candidate.set && truth.set) {
+    const [a, b] = [text(candidate.set), text(truth.set)]
+    if (!a.includes(b) && !b.includes(a)) return false
+  }
+  return true
+}
+
+export interface ReferenceCard {
+  identity: CardIdentity
+  fingerprint: CardFingerprint
+}
+
+/**
+ * Grades the way a scan does: VisionPipeline for detection, OCR and condition,
+ * then the GradingEngine rubric. Identification candidates are the OCR reading
+ * followed by the closest reference cards by appearance.
+ */
+export class PipelineGrader implements CardGrader {
+  private references: ReferenceCard[] = []
+  private detector = new CardDetector()
+
+  constructor(
+    private pipeline: VisionPipeline,
+    private engine: GradingEngine = new GradingEngine(),
+    private rubric: string = 'psa'
+  ) {}
+
+  // Reference photos go through the same detection and rectification as scans
+  addReference(identity: CardIdentity, image: ImageData): void {
+    const boundary = this.detector.detect(image)
+    const card = boundary ? this.detector.rectify(image, boundary.quad, boundary.orientation) : image
+    this.references.push({ identity, fingerprint: computeFingerprint(card) })
+  }
+
+  async grade(image: ImageData): Promise<GradePrediction> {
+    const result = await this.pipeline.process(image)
+    const damage = result.damageAssessment
+    if (!damage) {
+      throw new Error('Pipeline returned no condition assessment')
+    }
+
+    const report = this.engine.grade(
+      {
+        centering: new CenteringScore(damage.centering.leftRight, damage.centering.topBottom),
+        corners: damage.subgrades.corners,
+        edges: damage.subgrades.edges,
+        surface: damage.subgrades.surface
+      },
+      this.rubric
+    )
+
+    return {
+      grade: report.numeric,
+      subgrades: {
+        centering: report.centeringGrade,
+        corners: report.grade.corners,
+        edges: report.grade.edges,
+        surface: report.grade.surface
+      },
+      candidates: this.candidates(result, result.rectifiedImage ?? image)
+    }
+  }
+
+  private candidates(result: PipelineResult, card: ImageData): CardIdentity[] {
+    const text = result.textExtraction
+    const read: CardIdentity[] = text?.playerName
+      ? [{
+          player: text.playerName,
+          year: text.year ? parseInt(text.year, 10) : undefined,
+          set: text.setName,
+          cardNumber: text.cardNumber
+        }]
+      : []
+
+    if (this.references.length === 0) return read
+
+    const fingerprint = computeFingerprint(card)
+    const visual = this.references
+      .map(reference => ({ identity: reference.identity, similarity: fingerprintSimilarity(fingerprint, reference.fingerprint) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .map(match => match.identity)
+
+    return [...read, ...visual.filter(identity => !read.some(candidate => sameCard(candidate, identity)))]
+  }
+}
+
+export function formatReport(report: EvaluationReport): string {
+  const fixed = (value: number, digits = 2) => (Number.isNaN(value) ? 'n/a' : value.toFixed(digits))
+  const percent = (value: number) => (Number.isNaN(value) ? 'n/a' : `${(value * 100).toFixed(1)}%`)
+  const lines: string[] = []
+
+  lines.push(`Samples: ${report.samples} (${report.failures} failed)`)
+  lines.push('')
+  lines.push('Mean absolute error')
+  lines.push(`  grade       ${fixed(report.grade.mae)}  (n=${report.grade.count})`)
+  SUBGRADES.forEach(name => {
+    const { mae, count } = report.subgrades[name]
+    lines.push(`  ${name.padEnd(11)} ${fixed(mae)}  (n=${count})`)
+  })
+
+  lines.push('')
+  lines.push(...formatConfusion('Grade confusion (rows actual, columns predicted)', report.grade.confusion))
+  SUBGRADES.filter(name => report.subgrades[name].count > 0).forEach(name => {
+    lines.push('')
+    lines.push(...formatConfusion(`${name[0].toUpperCase()}${name.slice(1)} confusion`, report.subgrades[name].confusion))
+  })
+
+  const { identification, latency } = report
+  lines.push('')
+  lines.push(`Identification (n=${identification.count}): top-1 ${percent(identification.top1)}, top-5 ${percent(identification.top5)}`)
+  lines.push(
+    `Latency ms (n=${latency.count}): mean ${fixed(latency.mean, 0)}, p50 ${fixed(latency.p50, 0)}, ` +
+    `p90 ${fixed(latency.p90, 0)}, p95 ${fixed(latency.p95, 0)}, p99 ${fixed(latency.p99, 0)}, max ${fixed(latency.max, 0)}`
+  )
+
+  return lines.join('\n')
+}
+
+function formatConfusion(title: string, matrix: ConfusionMatrix): string[] {
+  const cell = (value: string | number) => String(value).padStart(4)
+  return [
+    title,
+    `      ${matrix.labels.map(cell).join('')}`,
+    ...matrix.counts.map((row, i) => `  ${cell(matrix.labels[i])}${row.map(cell).join('')}`)
+  ]
+}
@@ -0,0 +1,86 @@
+/**
+ * Tests for corpus evaluation metrics
+ */
+
+import { CardGrader, EvaluationSample, GradePrediction, evaluate, sameCard } from '../Evaluator'
+import { confusionMatrix, percentile } from '../metrics'
+import { createImageData } from '../../vision/image'
+
+function sample(id: string, grade: number, player?: string): EvaluationSample {
+  return {
+    id,
+    truth: {
+      grade,
+      subgrades: { corners: grade },
+      identity: player ? { player } : undefined
+    },
+    load: async () => createImageData(4, 4)
+  }
+}
+
+function prediction(grade: number, players: string[] = []): GradePrediction {
+  return {
+    grade,
+    subgrades: { centering: 10, corners: grade - 1, edges: grade, surface: grade },
+    candidates: players.map(player => ({ player }))
+  }
+}
+
+describe('evaluate', () => {
+  it('should report grade error, identification accuracy and failures', async () => {
+    const predictions = [
+      prediction(9, ['Mike Trout']),
+      prediction(6, ['Derek Jeter', 'Ken Griffey Jr.']),
+      prediction(8, ['Shohei Ohtani'])
+    ]
+    let call = 0
+    const grader: CardGrader = {
+      grade: async () => {
+        const next = predictions[call++]
+        if (!next) throw new Error('blurry')
+        return next
+      }
+    }
+
+    const report = await evaluate(
+      [
+        sample('trout', 10, 'Mike Trout'),
+        sample('griffey', 7, 'Ken Griffey Jr'),
+        sample('raw', 8),
+        sample('unreadable', 5, 'Babe Ruth')
+      ],
+      grader
+    )
+
+    expect(report.samples).toBe(4)
+    expect(report.failures).toBe(1)
+    expect(report.grade.mae).toBeCloseTo(2 / 3)
+    expect(report.subgrades.corners.mae).toBeCloseTo(5 / 3)
+    expect(report.subgrades.edges.count).toBe(0)
+    expect(report.identification).toEqual({ count: 2, top1: 0.5, top5: 1 })
+    expect(report.latency.count).toBe(3)
+  })
+})
+
+describe('sameCard', () => {
+  it('should ignore case and punctuation but not a different year', () => {
+    expect(sameCard({ player: 'KEN GRIFFEY JR.', cardNumber: '#001' }, { player: 'Ken Griffey Jr', cardNumber: '1' })).toBe(true)
+    expect(sameCard({ player: 'Mike Trout', year: 2012 }, { player: 'Mike Trout', year: 2011 })).toBe(false)
+  })
+})
+
+describe('metrics', () => {
+  it('should bin half grades with their whole grade', () => {
+    const matrix = confusionMatrix([{ predicted: 8.5, actual: 9 }, { predicted: 10, actual: 10 }])
+
+    expect(matrix.counts[8][7]).toBe(1)
+    expect(matrix.counts[9][9]).toBe(1)
+  })
+
+  it('should use nearest-rank percentiles', () => {
+    const values = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100]
+
+    expect(percentile(values, 50)).toBe(50)
+    expect(percentile(values, 95)).toBe(100)
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * Evaluation Metrics - Grace Hopper: Numbers that say whether grades are right
+ *
+ * Plain functions over predicted/actual pairs, so the same code scores a full
+ * corpus run and a single regression test.
+ */
+
+export interface ConfusionMatrix {
+  // Row and column labels, ascending; rows are the actual grade
+  labels: number[]
+  // counts[actual][predicted]
+  counts: number[][]
+}
+
+export interface LatencySummary {
+  count: number
+  mean: number
+  p50: number
+  p90: number
+  p95: number
+  p99: number
+  max: number
+}
+
+// Grades binned to whole points, 1 through 10; a PSA 8.5 lands with the 8s
+export const GRADE_BINS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
+
+export function meanAbsoluteError(pairs: Array<{ predicted: number; actual: number }>): number {
+  if (pairs.length === 0) return NaN
+  return pairs.reduce((sum, { predicted, actual }) => sum + Math.abs(predicted - actual), 0) / pairs.length
+}
+
+export function confusionMatrix(
+  pairs: Array<{ predicted: number; actual: number }>,
+  labels: number[] = GRADE_BINS
+): ConfusionMatrix {
+  const counts = labels.map(() => labels.map(() => 0))
+  const bin = (grade: number) => {
+    const index = labels.findIndex((label, i) => grade < (labels[i + 1] ?? Infinity) && grade >= label)
+    return index === -1 ? 0 : index
+  }
+
+  pairs.forEach(({ predicted, actual }) => {
+    counts[bin(actual)][bin(predicted)]++
+  })
+
+  return { labels, counts }
+}
+
+// Share of samples whose correct answer is among the first k candidates
+export function topKAccuracy(ranks: Array<number | null>, k: number): number {
+  if (ranks.length === 0) return NaN
+  return ranks.filter(rank => rank !== null && rank < k).length / ranks.length
+}
+
+// Nearest-rank percentile, p in 0-100
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return NaN
+  const sorted = [...values].sort((a, b) => a - b)
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]
+}
+
+export function summarizeLatency(values: number[]): LatencySummary {
+  return {
+    count: values.length,
+    mean: values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : NaN,
+    p50: percentile(values, 50),
+    p90: percentile(values, 90),
+    p95: percentile(values, 95),
+    p99: percentile(values, 99),
+    max: values.length > 0 ? Math.max(...values) : NaN
+  }
+}
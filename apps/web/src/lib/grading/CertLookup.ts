@@ -0,0 +1,103 @@
+/**
+ * Cert Lookup - Rich Klein: Check slab cert numbers against the grader's records
+ *
+ * Providers are pluggable: the graders' public cert pages need API keys and a
+ * server, so none is wired in yet and slabs are recorded as unverified.
+ * LocalCertLookupProvider is an in-memory registry that tests and offline
+ * installs seed with known certs. A provider that is down never blocks a scan;
+ * the slab is recorded as unverified instead.
+ */
+
+import type { CertVerificationStatus, GradingCompany } from '../domain/models'
+
+export interface CertRecord {
+  company: GradingCompany
+  certNumber: string
+  grade: number
+  // As printed by the grader, e.g. "GEM MT 10"
+  gradeLabel?: string
+  player?: string
+  year?: number
+  set?: string
+  cardNumber?: string
+}
+
+export interface CertLookupProvider {
+  readonly name: string
+  // null when the grader has no such cert
+  lookup(company: GradingCompany, certNumber: string): Promise<CertRecord | null>
+}
+
+export interface CertVerification {
+  status: CertVerificationStatus
+  provider: string
+  record?: CertRecord
+  message?: string
+}
+
+export class LocalCertLookupProvider implements CertLookupProvider {
+  readonly name = 'local'
+  private records = new Map<string, CertRecord>()
+
+  constructor(records: CertRecord[] = []) {
+    records.forEach(record => this.add(record))
+  }
+
+  add(record: CertRecord): void {
+    this.records.set(this.key(record.company, record.certNumber), record)
+  }
+
+  async lookup(company: GradingCompany, certNumber: string): Promise<CertRecord | null> {
+    return this.records.get(this.key(company, certNumber)) ?? null
+  }
+
+  private key(company: GradingCompany, certNumber: string): string {
+    // Leading zeros are printed on some labels and dropped on others
+    return `${company}:${certNumber.replace(/^0+/, '')}`
+  }
+}
+
+/**
+ * The provider the app uses, on the main thread and in the vision worker alike.
+ * Plug a grader-backed provider in here.
+ */
+export function createCertLookupProvider(): CertLookupProvider | undefined {
+  return undefined
+}
+
+export async function verifyCert(
+  provider: CertLookupProvider,
+  company: GradingCompany,
+  certNumber: string,
+  grade: number
+): Promise<CertVerification> {
+  let record: CertRecord | null
+  try {
+    record = await provider.lookup(company, certNumber)
+  } catch (error) {
+    return {
+      status: 'unverified',
+      provider: provider.name,
+      message: `Cert lookup unavailable: ${error instanceof Error ? error.message : String(error)}`
+    }
+  }
+
+  if (!record) {
+    return {
+      status: 'not-found',
+      provider: provider.name,
+      message: `${company} has no record of cert #${certNumber}`
+    }
+  }
+
+  if (record.grade !== grade) {
+    return {
+      status: 'mismatch',
+      provider: provider.name,
+      record,
+      message: `Label reads ${company} ${grade} but cert #${certNumber} is registered as ${company} ${record.grade}`
+    }
+  }
+
+  return { status: 'verified', provider: provider.name, record }
+}
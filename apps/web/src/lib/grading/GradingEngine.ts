@@ -0,0 +1,77 @@
+/**
+ * Grading Engine - Rich Klein: Deterministic final grades from measured subgrades
+ *
+ * The engine owns no grading rules itself; each rubric (see rubrics.ts) turns the
+ * four subgrades into a numeric grade and says which subgrade, if any, held the
+ * grade down. New rubrics are added with register().
+ */
+
+import { CenteringScore, Grade } from '../domain/models'
+import { NotFoundError } from '../errors'
+import { psaRubric, bgsRubric } from './rubrics'
+
+export type SubgradeName = 'centering' | 'corners' | 'edges' | 'surface'
+
+export interface GradingInput {
+  // Front centering; the back is optional and only used for centering limits
+  centering: CenteringScore
+  backCentering?: CenteringScore
+  // 1-10, half-point steps
+  corners: number
+  edges: number
+  surface: number
+}
+
+export interface RubricResult {
+  numeric: number
+  // Centering expressed on the 1-10 scale under this rubric's tolerances
+  centeringGrade: number
+  // Set when one subgrade kept the grade below what the others would allow
+  cappedBy?: SubgradeName
+  explanation: string[]
+}
+
+export interface GradingRubric {
+  id: string
+  name: string
+  grade(input: GradingInput): RubricResult
+}
+
+export interface GradeReport extends RubricResult {
+  rubric: string
+  grade: Grade
+}
+
+export class GradingEngine {
+  private rubrics = new Map<string, GradingRubric>()
+
+  constructor(
+    rubrics: GradingRubric[] = [psaRubric, bgsRubric],
+    private readonly defaultRubric: string = 'psa'
+  ) {
+    rubrics.forEach(rubric => this.register(rubric))
+  }
+
+  register(rubric: GradingRubric): void {
+    this.rubrics.set(rubric.id, rubric)
+  }
+
+  getRubrics(): GradingRubric[] {
+    return Array.from(this.rubrics.values())
+  }
+
+  grade(input: GradingInput, rubricId: string = this.defaultRubric): GradeReport {
+    const rubric = this.rubrics.get(rubricId)
+    if (!rubric) {
+      throw new NotFoundError('Grading rubric', rubricId)
+    }
+
+    const result = rubric.grade(input)
+
+    return {
+      ...result,
+      rubric: rubric.id,
+      grade: new Grade(result.numeric, input.centering, input.corners, input.edges, input.surface)
+    }
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Slab Reader - Rich Klein: Grader, grade and cert number from a slab label
+ *
+ * A graded slab is taller and narrower than the card it holds (about 3.3" x 5.3"
+ * for PSA, 3.6" x 5.6" for BGS), with the grader's label in a band across the
+ * top. We find the slab with the card detector, OCR the label band, and cut out
+ * the card window below it so the card can still be identified.
+ */
+
+import { CardDetector, CardBoundary, RECTIFIED_WIDTH, RECTIFIED_HEIGHT } from '../vision/CardDetector'
+import { cropImageData } from '../vision/image'
+import type { Quad } from '../vision/geometry'
+import type { ExtractedText } from '../vision/VisionPipeline'
+import type { OcrEngine } from '../vision/TextRecognizer'
+import type { GradingCompany } from '../domain/models'
+import type { SubgradeName } from './GradingEngine'
+
+// Short/long side ratio; a raw card is 0.714
+export const SLAB_ASPECT_MIN = 0.58
+export const SLAB_ASPECT_MAX = 0.68
+export const RECTIFIED_SLAB_WIDTH = 500
+export const RECTIFIED_SLAB_HEIGHT = 800
+
+// Fractions of the rectified slab
+const LABEL_BAND = { top: 0.02, height: 0.2 }
+const CARD_WINDOW = { left: 0.07, top: 0.25, width: 0.86, height: 0.71 }
+
+// Cert number lengths each grader issues
+const CERT_DIGITS: Record<GradingCompany, { min: number; max: number }> = {
+  PSA: { min: 8, max: 9 },
+  BGS: { min: 7, max: 10 },
+  SGC: { min: 7, max: 10 }
+}
+
+const COMPANY_PATTERNS: Array<[GradingCompany, RegExp]> = [
+  ['PSA', /\bPSA\b/i],
+  ['BGS', /\bBGS\b|\bBECKETT\b/i],
+  ['SGC', /\bSGC\b/i]
+]
+
+const GRADE_WORDS = 'GEM\\s?(?:MT|MINT)|PRISTINE|MINT|NM-MT|NM|EX-MT|EX|VG-EX|VG|GOOD|FAIR|PR|POOR'
+const GRADE_NUMBER = '(10|[1-9](?:\\.5)?)(?![\\d.])'
+// "GEM MT 10", "MINT+ 9.5", then "10 PRISTINE", then a line that is only the grade
+const WORD_THEN_GRADE = new RegExp(`\\b(${GRADE_WORDS})(\\+?)\\s*${GRADE_NUMBER}`, 'i')
+const GRADE_THEN_WORD = new RegExp(`(?:^|\\s)${GRADE_NUMBER}\\s+(${GRADE_WORDS})\\b`, 'i')
+const BARE_GRADE = /^(10|[1-9](?:\.5)?)$/
+const SUBGRADE = /\b(centering|corners|edges|surface)\s*:?\s*(10|[1-9](?:\.5)?)(?![\d.])/gi
+const PREFIXED_CERT = /\bcert(?:ification)?\.?\s*(?:#|no\.?|number)?\s*:?\s*(\d[\d -]{5,12}\d)/i
+const BARE_CERT = /(?:^|[^\d])(\d{7,10})(?!\d)/
+
+export interface SlabLabel {
+  company: GradingCompany
+  // Missing for "AUTHENTIC" labels and when OCR lost the grade
+  grade?: number
+  gradeLabel?: string
+  certNumber?: string
+  // BGS prints subgrades on the label
+  subgrades?: Partial<Record<SubgradeName, number>>
+  // 0-1, across company, grade and cert
+  confidence: number
+}
+
+export interface DetectedSlab {
+  boundary: CardBoundary
+  // Upright slab, label at the top
+  slab: ImageData
+  label: ImageData
+  // The card inside, rectified like a raw capture
+  card: ImageData
+}
+
+export interface SlabReading {
+  slab: DetectedSlab
+  label: SlabLabel
+}
+
+export function isSlabAspect(aspectRatio: number): boolean {
+  return aspectRatio >= SLAB_ASPECT_MIN && aspectRatio <= SLAB_ASPECT_MAX
+}
+
+export function parseSlabLabel(lines: ExtractedText[]): SlabLabel | null {
+  let company: { value: GradingCompany; confidence: number } | null = null
+  for (const line of lines) {
+    const found = COMPANY_PATTERNS.find(([, pattern]) => pattern.test(line.text))
+    if (found && (!company || line.confidence > company.confidence)) {
+      company = { value: found[0], confidence: line.confidence }
+    }
+  }
+  if (!company) return null
+
+  const grade = findGrade(lines)
+  const cert = findCertNumber(lines, company.value)
+  const subgrades = findSubgrades(lines)
+
+  return {
+    company: company.value,
+    grade: grade?.value,
+    gradeLabel: grade?.label,
+    certNumber: cert?.value,
+    subgrades: Object.keys(subgrades).length > 0 ? subgrades : undefined,
+    confidence: (company.confidence + (grade?.confidence ?? 0) + (cert?.confidence ?? 0)) / 3
+  }
+}
+
+export class SlabReader {
+  constructor(
+    private ocrEngine: OcrEngine,
+    private detector: CardDetector = new CardDetector()
+  ) {}
+
+  /**
+   * Find a slab in the frame. Returns null for raw cards and anything else
+   * without slab proportions.
+   */
+  detect(image: ImageData): DetectedSlab | null {
+    const boundary = this.detector.detect(image)
+    if (!boundary || !isSlabAspect(boundary.aspectRatio)) return null
+    return this.cut(image, boundary, boundary.quad)
+  }
+
+  async read(image: ImageData): Promise<SlabReading | null> {
+    const slab = this.detect(image)
+    if (!slab) return null
+
+    const label = parseSlabLabel(await this.ocrEngine.recognize(slab.label))
+    if (label) return { slab, label }
+
+    // Held upside down: the label is at the bottom
+    const [a, b, c, d] = slab.boundary.quad
+    const flipped = this.cut(image, slab.boundary, [c, d, a, b])
+    const flippedLabel = parseSlabLabel(await this.ocrEngine.recognize(flipped.label))
+    return flippedLabel ? { slab: flipped, label: flippedLabel } : null
+  }
+
+  private cut(image: ImageData, boundary: CardBoundary, quad: Quad): DetectedSlab {
+    const slab = this.detector.rectify(image, quad, boundary.orientation, RECTIFIED_SLAB_WIDTH, RECTIFIED_SLAB_HEIGHT)
+    const label = cropImageData(
+      slab,
+      0,
+      LABEL_BAND.top * slab.height,
+      slab.width,
+      LABEL_BAND.height * slab.height
+    )
+    const window = cropImageData(
+      slab,
+      CARD_WINDOW.left * slab.width,
+      CARD_WINDOW.top * slab.height,
+      CARD_WINDOW.width * slab.width,
+      CARD_WINDOW.height * slab.height
+    )
+
+    // The card sits loose in its well; find its real edges when we can
+    const inner = this.detector.detect(window)
+    const card = this.detector.rectify(
+      window,
+      inner && inner.confidence >= 0.6 ? inner.quad : fullQuad(window),
+      'vertical',
+      RECTIFIED_WIDTH,
+      RECTIFIED_HEIGHT
+    )
+
+    return { boundary: { ...boundary, quad }, slab, label, card }
+  }
+}
+
+function findGrade(lines: ExtractedText[]): { value: number; label: string; confidence: number } | null {
+  let best: { value: number; label: string; confidence: number } | null = null
+
+  for (const line of lines) {
+    const text = line.text.trim()
+    // BGS subgrade lines carry numbers that are not the overall grade
+    if (/centering|corners|edges|surface/i.test(text)) continue
+
+    let found: { value: number; label: string; confidence: number } | null = null
+    const wordFirst = text.match(WORD_THEN_GRADE)
+    const numberFirst = text.match(GRADE_THEN_WORD)
+    if (wordFirst) {
+      found = {
+        value: parseFloat(wordFirst[3]),
+        label: `${wordFirst[1].toUpperCase()}${wordFirst[2]} ${wordFirst[3]}`,
+        confidence: line.confidence * 0.95
+      }
+    } else if (numberFirst) {
+      found = {
+        value: parseFloat(numberFirst[1]),
+        label: `${numberFirst[2].toUpperCase()} ${numberFirst[1]}`,
+        confidence: line.confidence * 0.95
+      }
+    } else if (BARE_GRADE.test(text)) {
+      found = { value: parseFloat(text), label: text, confidence: line.confidence * 0.6 }
+    }
+
+    if (found && (!best || found.confidence > best.confidence)) best = found
+  }
+
+  return best
+}
+
+function findCertNumber(lines: ExtractedText[], company: GradingCompany): { value: string; confidence: number } | null {
+  const { min, max } = CERT_DIGITS[company]
+  let best: { value: string; confidence: number } | null = null
+
+  for (const line of lines) {
+    const prefixed = line.text.match(PREFIXED_CERT)
+    const bare = line.text.match(BARE_CERT)
+    const digits = prefixed ? prefixed[1].replace(/[ -]/g, '') : bare?.[1]
+    if (!digits || digits.length < min || digits.length > max) continue
+
+    const confidence = line.confidence * (prefixed ? 0.95 : 0.7)
+    if (!best || confidence > best.confidence) best = { value: digits, confidence }
+  }
+
+  return best
+}
+
+function findSubgrades(lines: ExtractedText[]): Partial<Record<SubgradeName, number>> {
+  const subgrades: Partial<Record<SubgradeName, number>> = {}
+  for (const line of lines) {
+    SUBGRADE.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = SUBGRADE.exec(line.text)) !== null) {
+      subgrades[match[1].toLowerCase() as SubgradeName] = parseFloat(match[2])
+    }
+  }
+  return subgrades
+}
+
+function fullQuad(image: ImageData): Quad {
+  const right = image.width - 1
+  const bottom = image.height - 1
+  return [{ x: 0, y: 0 }, { x: right, y: 0 }, { x: right, y: bottom }, { x: 0, y: bottom }]
+}
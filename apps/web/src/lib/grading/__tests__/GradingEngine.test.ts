@@ -0,0 +1,89 @@
+/**
+ * Tests for the grading engine and its PSA/BGS rubrics
+ */
+
+import { GradingEngine, GradingInput } from '../GradingEngine'
+import { CenteringScore } from '../../domain/models'
+
+function input(overrides: Partial<GradingInput> = {}): GradingInput {
+  return {
+    centering: new CenteringScore(52, 49),
+    corners: 10,
+    edges: 10,
+    surface: 10,
+    ...overrides
+  }
+}
+
+describe('GradingEngine', () => {
+  const engine = new GradingEngine()
+
+  describe('PSA rubric', () => {
+    it('should grade a flawless card a 10', () => {
+      const report = engine.grade(input())
+
+      expect(report.numeric).toBe(10)
+      expect(report.rubric).toBe('psa')
+      expect(report.cappedBy).toBeUndefined()
+      expect(report.grade.label).toBe('Gem Mint')
+    })
+
+    it('should be capped by the weakest attribute', () => {
+      const report = engine.grade(input({ corners: 9.5, edges: 7.5, surface: 9 }))
+
+      expect(report.numeric).toBe(7.5)
+      expect(report.cappedBy).toBe('edges')
+    })
+
+    it('should limit the grade by off-centre fronts and backs', () => {
+      expect(engine.grade(input({ centering: new CenteringScore(62, 50) })).numeric).toBe(8)
+      expect(engine.grade(input({ backCentering: new CenteringScore(80, 50) })).numeric).toBe(9)
+
+      const report = engine.grade(input({ centering: new CenteringScore(72, 50) }))
+      expect(report.numeric).toBe(6)
+      expect(report.cappedBy).toBe('centering')
+    })
+
+    it('should round a 9.5 down because PSA has no 9.5', () => {
+      expect(engine.grade(input({ surface: 9.5 })).numeric).toBe(9)
+    })
+  })
+
+  describe('BGS rubric', () => {
+    it('should average the subgrades to the nearest half point', () => {
+      const report = engine.grade(input({ corners: 9, edges: 9.5, surface: 9 }), 'bgs')
+
+      // 52/48 misses 50/50 for a 10 but fits 55/45: (9.5 + 9 + 9.5 + 9) / 4 = 9.25 -> 9.5
+      expect(report.centeringGrade).toBe(9.5)
+      expect(report.numeric).toBe(9.5)
+      expect(report.cappedBy).toBeUndefined()
+    })
+
+    it('should not exceed the lowest subgrade by more than a point', () => {
+      const report = engine.grade(input({ surface: 6 }), 'bgs')
+
+      // Average (9.5 + 10 + 10 + 6) / 4 = 8.875 -> 9, capped at 6 + 1
+      expect(report.numeric).toBe(7)
+      expect(report.cappedBy).toBe('surface')
+      expect(report.explanation.join(' ')).toContain('Surface at 6 caps the grade at 7')
+    })
+  })
+
+  it('should accept custom rubrics', () => {
+    engine.register({
+      id: 'lowest',
+      name: 'Lowest subgrade',
+      grade: ({ corners, edges, surface }) => ({
+        numeric: Math.min(corners, edges, surface),
+        centeringGrade: 10,
+        explanation: []
+      })
+    })
+
+    expect(engine.grade(input({ edges: 4 }), 'lowest').numeric).toBe(4)
+  })
+
+  it('should reject unknown rubrics', () => {
+    expect(() => engine.grade(input(), 'sgc')).toThrow('Grading rubric not found')
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Tests for reading slab labels and checking cert numbers
+ */
+
+import { parseSlabLabel, isSlabAspect } from '../SlabReader'
+import { LocalCertLookupProvider, verifyCert } from '../CertLookup'
+import type { ExtractedText } from '../../vision/VisionPipeline'
+
+function line(text: string, confidence = 0.9): ExtractedText {
+  return { text, boundingBox: [0, 0, 200, 20], confidence }
+}
+
+describe('parseSlabLabel', () => {
+  it('should read a PSA label', () => {
+    const label = parseSlabLabel([
+      line('2018 TOPPS UPDATE #US1'),
+      line('SHOHEI OHTANI GEM MT 10'),
+      line('PSA'),
+      line('48291736')
+    ])
+
+    expect(label).toMatchObject({ company: 'PSA', grade: 10, gradeLabel: 'GEM MT 10', certNumber: '48291736' })
+  })
+
+  it('should read BGS subgrades without mistaking them for the grade', () => {
+    const label = parseSlabLabel([
+      line('BECKETT GRADING SERVICES'),
+      line('9.5 GEM MINT'),
+      line('Centering 10 Corners 9.5'),
+      line('Edges 9.5 Surface 9'),
+      line('Cert # 0012345678')
+    ])
+
+    expect(label!.company).toBe('BGS')
+    expect(label!.grade).toBe(9.5)
+    expect(label!.certNumber).toBe('0012345678')
+    expect(label!.subgrades).toEqual({ centering: 10, corners: 9.5, edges: 9.5, surface: 9 })
+  })
+
+  it('should leave out cert numbers the grader never issues', () => {
+    const label = parseSlabLabel([line('SGC'), line('MINT+ 9.5'), line('123456')])
+
+    expect(label!.grade).toBe(9.5)
+    expect(label!.certNumber).toBeUndefined()
+  })
+
+  it('should return null without a grader name', () => {
+    expect(parseSlabLabel([line('Mike Trout'), line('10')])).toBeNull()
+  })
+
+  it('should tell slabs from raw cards by shape', () => {
+    expect(isSlabAspect(3.3 / 5.3)).toBe(true)
+    expect(isSlabAspect(2.5 / 3.5)).toBe(false)
+  })
+})
+
+describe('verifyCert', () => {
+  const provider = new LocalCertLookupProvider([{ company: 'PSA', certNumber: '48291736', grade: 10 }])
+
+  it('should verify a cert whose grade matches the label', async () => {
+    const result = await verifyCert(provider, 'PSA', '48291736', 10)
+
+    expect(result.status).toBe('verified')
+    expect(result.provider).toBe('local')
+  })
+
+  it('should flag a label whose grade differs from the registry', async () => {
+    const result = await verifyCert(provider, 'PSA', '48291736', 9)
+
+    expect(result.status).toBe('mismatch')
+    expect(result.message).toContain('registered as PSA 10')
+  })
+
+  it('should report unknown certs', async () => {
+    expect((await verifyCert(provider, 'SGC', '48291736', 10)).status).toBe('not-found')
+  })
+
+  it('should not fail the scan when the provider is down', async () => {
+    const offline = {
+      name: 'offline',
+      lookup: () => Promise.reject(new Error('network error'))
+    }
+
+    const result = await verifyCert(offline, 'PSA', '48291736', 10)
+
+    expect(result.status).toBe('unverified')
+    expect(result.message).toContain('network error')
+  })
+})
@@ -0,0 +1,169 @@
+/**
+ * Grading Rubrics - Rich Klein: PSA-style and BGS-style rules for the GradingEngine
+ *
+ * PSA-style: the weakest attribute decides. The grade is the lowest of corners,
+ * edges, surface and the centering limit. PSA issues half grades from 1.5 to 8.5
+ * but no 9.5.
+ *
+ * BGS-style: the four subgrades are averaged with fixed weights and rounded to
+ * the nearest half point. The result may not be more than one point above the
+ * lowest subgrade, and a 9.5 or better needs every subgrade at 9 or better.
+ *
+ * Centering limits use the worse axis (left/right or top/bottom) as the larger
+ * share, e.g. 60 for a 60/40 card.
+ */
+
+import { CenteringScore } from '../domain/models'
+import type { GradingInput, GradingRubric, RubricResult, SubgradeName } from './GradingEngine'
+
+interface CenteringLimit {
+  grade: number
+  front: number
+  back: number
+}
+
+// Highest grade first; a card earns the first row it satisfies
+const PSA_CENTERING: CenteringLimit[] = [
+  { grade: 10, front: 55, back: 75 },
+  { grade: 9, front: 60, back: 90 },
+  { grade: 8, front: 65, back: 90 },
+  { grade: 7, front: 70, back: 90 },
+  { grade: 6, front: 80, back: 90 },
+  { grade: 5, front: 85, back: 90 },
+  { grade: 3, front: 90, back: 90 },
+  { grade: 1, front: 100, back: 100 }
+]
+
+const BGS_CENTERING: CenteringLimit[] = [
+  { grade: 10, front: 50, back: 60 },
+  { grade: 9.5, front: 55, back: 60 },
+  { grade: 9, front: 55, back: 70 },
+  { grade: 8.5, front: 60, back: 80 },
+  { grade: 8, front: 60, back: 80 },
+  { grade: 7.5, front: 65, back: 90 },
+  { grade: 7, front: 70, back: 90 },
+  { grade: 6.5, front: 70, back: 95 },
+  { grade: 6, front: 75, back: 95 },
+  { grade: 5, front: 80, back: 100 },
+  { grade: 4, front: 85, back: 100 },
+  { grade: 3, front: 90, back: 100 },
+  { grade: 2, front: 95, back: 100 },
+  { grade: 1, front: 100, back: 100 }
+]
+
+const BGS_WEIGHTS: Record<SubgradeName, number> = {
+  centering: 0.25,
+  corners: 0.25,
+  edges: 0.25,
+  surface: 0.25
+}
+
+const LABELS: Record<SubgradeName, string> = {
+  centering: 'Centering',
+  corners: 'Corners',
+  edges: 'Edges',
+  surface: 'Surface'
+}
+
+export const psaRubric: GradingRubric = {
+  id: 'psa',
+  name: 'PSA-style (lowest attribute)',
+  grade(input: GradingInput): RubricResult {
+    const centeringGrade = centeringLimit(PSA_CENTERING, input.centering, input.backCentering)
+    const subgrades = subgradesOf(input, centeringGrade)
+    const [lowest] = ranked(subgrades)
+    const numeric = toPsaScale(subgrades[lowest])
+
+    const explanation = [
+      `Centering ${describeCentering(input)} allows up to ${centeringGrade}`,
+      `Lowest attribute is ${LABELS[lowest].toLowerCase()} at ${subgrades[lowest]}`
+    ]
+    if (subgrades[lowest] === 9.5) {
+      explanation.push('PSA does not issue 9.5; rounded down to 9')
+    }
+
+    return {
+      numeric,
+      centeringGrade,
+      cappedBy: numeric < 10 ? lowest : undefined,
+      explanation
+    }
+  }
+}
+
+export const bgsRubric: GradingRubric = {
+  id: 'bgs',
+  name: 'BGS-style (weighted subgrades)',
+  grade(input: GradingInput): RubricResult {
+    const centeringGrade = centeringLimit(BGS_CENTERING, input.centering, input.backCentering)
+    const subgrades = subgradesOf(input, centeringGrade)
+    const [lowest] = ranked(subgrades)
+
+    const weighted = (Object.keys(subgrades) as SubgradeName[])
+      .reduce((sum, name) => sum + subgrades[name] * BGS_WEIGHTS[name], 0)
+    const average = toHalfPoint(weighted)
+
+    let ceiling = subgrades[lowest] + 1
+    if (subgrades[lowest] < 9) ceiling = Math.min(ceiling, 9)
+    const numeric = Math.max(1, Math.min(average, ceiling))
+
+    const explanation = [
+      `Centering ${describeCentering(input)} earns a ${centeringGrade} subgrade`,
+      `Weighted average of subgrades is ${weighted.toFixed(2)}, rounded to ${average}`
+    ]
+    if (numeric < average) {
+      explanation.push(`${LABELS[lowest]} at ${subgrades[lowest]} caps the grade at ${numeric}`)
+    }
+
+    return {
+      numeric,
+      centeringGrade,
+      cappedBy: numeric < average ? lowest : undefined,
+      explanation
+    }
+  }
+}
+
+function centeringLimit(table: CenteringLimit[], front: CenteringScore, back?: CenteringScore): number {
+  const frontShare = worstShare(front)
+  const backShare = back ? worstShare(back) : 50
+  const row = table.find(limit => frontShare <= limit.front && backShare <= limit.back)
+  return row ? row.grade : 1
+}
+
+function worstShare(score: CenteringScore): number {
+  return Math.max(score.leftRight, 100 - score.leftRight, score.topBottom, 100 - score.topBottom)
+}
+
+function describeCentering(input: GradingInput): string {
+  const front = worstShare(input.centering)
+  const text = `${front}/${100 - front} front`
+  if (!input.backCentering) return text
+
+  const back = worstShare(input.backCentering)
+  return `${text}, ${back}/${100 - back} back`
+}
+
+function subgradesOf(input: GradingInput, centeringGrade: number): Record<SubgradeName, number> {
+  return {
+    centering: centeringGrade,
+    corners: input.corners,
+    edges: input.edges,
+    surface: input.surface
+  }
+}
+
+// Lowest first; ties keep the centering, corners, edges, surface order
+function ranked(subgrades: Record<SubgradeName, number>): SubgradeName[] {
+  return (Object.keys(subgrades) as SubgradeName[]).sort((a, b) => subgrades[a] - subgrades[b])
+}
+
+function toHalfPoint(value: number): number {
+  return Math.max(1, Math.min(10, Math.round(value * 2) / 2))
+}
+
+function toPsaScale(value: number): number {
+  if (value >= 10) return 10
+  if (value >= 9) return 9
+  return Math.max(1, Math.floor(value * 2) / 2)
+}
@@ -34,7 +34,7 @@ export interface IScanRepository extends IRepository<ScanResult, string> {
 export interface ICardRepository extends IRepository<Card, string> {
   findByPlayer(player: string): Promise<Card[]>
   findBySet(year: number, manufacturer: string, set: string): Promise<Card[]>
-  findByAttributes(attributes: Partial<CardAttributes>): Promise<Card[]>
+  findByAttributes(attributes: Partial<CardAttributes>, limit?: number): Promise<Card[]>
   search(query: string, limit?: number): Promise<Card[]>
   validateCard(card: Partial<Card>): Promise<{ isValid: boolean; issues: string[] }>
   getSimilarCards(card: Card, limit?: number): Promise<Card[]>
@@ -2,22 +2,33 @@
  * Service Interfaces - Grace Hopper: Clean contracts for all services
  */
 
-import { CardDetails } from '@/services/CardIdentificationService'
-import { ScanResult, DamageAnalysis } from '@/services/AIService'
+import { CardDetails, RectifiedFaces } from '@/services/CardIdentificationService'
+import { ScanResult, DamageAnalysis, CenteringReport } from '@/services/AIService'
 import { MarketData, PopulationReport } from '@/services/MarketDataService'
+import type { SlabReading } from '../grading/SlabReader'
+import type { PipelineRunOptions } from '../vision/VisionPipeline'
+import type { CertVerification } from '../grading/CertLookup'
+import type { AuthenticityIndicator, CollectionCard, GradingCompany, ModelVersion } from '../domain/models'
+import type { CaptureQuality } from '../vision/CaptureQuality'
+import type { SetTaxonomy } from '../card-database/VariantTaxonomy'
+import type { ChecklistFormat, ChecklistImportReport } from '../card-database/ChecklistImporter'
 
 // Core AI Service Interface
 export interface IAIService {
   initialize(): Promise<void>
   analyzeCard(imageData: ImageData): Promise<ScanResult>
-  processCard(captures: Record<string, string>): Promise<ProcessedCard>
+  processCard(captures: Record<string, string>, options?: PipelineRunOptions): Promise<ProcessedCard>
+  processSlab(captures: Record<string, string>, options?: PipelineRunOptions): Promise<ProcessedCard>
   processWithCloudFallback(imageData: ImageData, cardValue: number): Promise<ScanResult>
   dispose(): void
 }
 
 // Card Identification Interface
 export interface ICardIdentificationService {
-  identifyCard(images: Record<string, string>): Promise<CardDetails>
+  identifyCard(images: Record<string, string>, rectified?: RectifiedFaces): Promise<CardDetails>
+  readSlab(image: ImageData): Promise<SlabReading | null>
+  getSetInfo(card: CardDetails): Promise<SetInfo | null>
+  getReferenceImage(card: CardDetails): Promise<ImageData | null>
   formatCardName(card: CardDetails): string
   getCardIndicators(card: CardDetails): string[]
   estimateBaseValue(card: CardDetails): number
@@ -50,6 +61,13 @@ export interface ICardDatabaseService {
   validateCard(details: CardDetails): Promise<ValidationResult>
   getSetInfo(year: number, manufacturer: string, setName: string): Promise<SetInfo>
   getVariants(baseCard: CardDetails): Promise<CardVariant[]>
+  // The set's parallels and inserts, imported or built in; null when the set has none
+  getTaxonomy(year: number, manufacturer: string, setName: string): Promise<SetTaxonomy | null>
+  findVisualMatches(card: ImageData, limit?: number): Promise<VisualMatch[]>
+  // Genuine copy of a catalog card, rectified; null when none is stored
+  getReferenceImage(cardId: string, side?: 'front' | 'back'): Promise<ImageData | null>
+  // Merge a CSV or JSON set checklist into the catalog
+  importChecklist(source: string, format?: ChecklistFormat): Promise<ChecklistImportReport>
 }
 
 // Camera Service Interface
@@ -110,10 +128,56 @@ export interface IConfigService {
 export interface ProcessedCard {
   grade: number
   confidence: number
+  // Captured with a calibrated camera; confidence is reduced when false
+  calibrated?: boolean
   damages?: Array<{type: string; severity: string; location: string}>
   authentic: boolean
+  // 0-100; low when there was no genuine reference to compare against
+  authenticityConfidence?: number
+  authenticityWarnings?: string[]
+  // Findings behind the verdict: UV capture, trim measurements and the reference comparison
+  authenticityIndicators?: AuthenticityIndicator[]
   estimatedValue?: number
   cardDetails?: CardDetails
+  centering?: {
+    front: CenteringReport
+    back?: CenteringReport
+  }
+  // Transparent PNG data URLs, same aspect as the rectified card images
+  surfaceHeatmap?: {
+    front?: string
+    back?: string
+  }
+  gradeReport?: {
+    rubric: string
+    label: string
+    // Subgrade that held the grade down, if any
+    cappedBy?: 'centering' | 'corners' | 'edges' | 'surface'
+    explanation: string[]
+  }
+  subgrades?: {
+    centering: number
+    corners: number
+    edges: number
+    surface: number
+  }
+  // Slabbed cards: grade, cert and subgrades come from the grader's label
+  slab?: {
+    company: GradingCompany
+    grade: number
+    gradeLabel?: string
+    certNumber?: string
+    subgrades?: Partial<Record<'centering' | 'corners' | 'edges' | 'surface', number>>
+    verification: CertVerification
+    // Rectified slab as a data URL
+    image?: string
+  }
+  // Set when the card is recorded as externally graded
+  collectionCard?: CollectionCard
+  // Models that produced this result
+  modelVersions?: ModelVersion[]
+  // Capture gate scores per step, for camera scans
+  captureQuality?: Record<string, CaptureQuality>
   captures?: Record<string, string>
 }
 
@@ -153,6 +217,12 @@ export interface CardDatabaseEntry {
   metadata: Record<string, any>
 }
 
+// Reference card that looks like the scanned one; similarity is 0-1
+export interface VisualMatch {
+  card: CardDatabaseEntry
+  similarity: number
+}
+
 export interface ValidationResult {
   isValid: boolean
   confidence: number
@@ -168,6 +238,16 @@ export interface SetInfo {
   subsets: string[]
   releaseDate: Date
   description: string
+  // Printed card size; missing means the standard 2.5" x 3.5"
+  cardSize?: CardSizeSpec
+}
+
+// Manufacturer cut size in millimetres, portrait
+export interface CardSizeSpec {
+  widthMm: number
+  heightMm: number
+  // Cutting variation still counted as factory
+  toleranceMm?: number
 }
 
 export interface CardVariant {
@@ -175,6 +255,15 @@ export interface CardVariant {
   rarity: string
   estimatedPrintRun?: number
   distinguishingFeatures: string[]
+  // From the set's variant taxonomy, when it has one
+  kind?: 'base' | 'parallel' | 'insert'
+  color?: string
+  finish?: string
+  // Pack odds as printed, e.g. "1:24 hobby"
+  odds?: string
+  exclusive?: 'hobby' | 'retail'
+  isAutograph?: boolean
+  isPatch?: boolean
 }
 
 export interface PricePoint {
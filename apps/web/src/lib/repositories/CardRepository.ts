@@ -0,0 +1,331 @@
+/**
+ * Card Repository Implementation - Rich Klein: The local catalog as domain cards
+ *
+ * Catalog entries are one record per checklist card with its parallels listed
+ * on it; the domain Card is one physical variant. The base card keeps the
+ * entry's id and each parallel gets "<entry id>#<variant slug>", so every
+ * Card this repository hands out can be found again by id. Variants resolve
+ * through the set's taxonomy, the stored one first and then the built-in.
+ *
+ * Similar cards are the other parallels of the same card and the same player
+ * in other sets, taken in turn so a long parallel list does not crowd out
+ * the player's other cards.
+ *
+ * The catalog can hold a few hundred thousand entries, so nothing here loads
+ * it whole: listings and attribute queries walk it a page at a time and stop
+ * at a limit.
+ */
+
+import { ICardRepository } from '../interfaces/repositories'
+import { Card, CardAttributes } from '../domain/models'
+import type { CardDatabaseEntry } from '../interfaces/services'
+import { playerRegistry } from '../card-database/PlayerRegistry'
+import {
+  SetTaxonomy,
+  VariantSpec,
+  deriveAttributes,
+  findBuiltInTaxonomy,
+  formatParallel,
+  parseParallel,
+  resolveVariants,
+  taxonomyId,
+  toCardVariant
+} from '../card-database/VariantTaxonomy'
+import type { ChecklistParallel } from '../card-database/ChecklistImporter'
+
+// The parts of LocalDatabaseProvider the repository reads and writes
+export interface CardCatalog {
+  getCard(id: string): Promise<CardDatabaseEntry | null>
+  // Up to count entries in id order after the given id
+  getCardPage(after: string | null, count: number): Promise<CardDatabaseEntry[]>
+  getSetCards(year: number, manufacturer: string, setName: string): Promise<CardDatabaseEntry[]>
+  searchCards(query: string, limit?: number): Promise<CardDatabaseEntry[]>
+  saveCards(cards: CardDatabaseEntry[]): Promise<void>
+  deleteCard(id: string): Promise<void>
+  getTaxonomy(year: number, manufacturer: string, setName: string): Promise<SetTaxonomy | null>
+}
+
+const VARIANT_SEPARATOR = '#'
+const SEARCH_LIMIT = 50
+const SIMILAR_LIMIT = 10
+// Search results read when gathering one player's cards
+const PLAYER_CARD_LIMIT = 2000
+// Cards returned by a listing or attribute query unless the caller asks for more
+const RESULT_LIMIT = 500
+const PAGE_SIZE = 500
+
+export function variantCardId(entryId: string, variant: string): string {
+  return `${entryId}${VARIANT_SEPARATOR}${variantSlug(variant)}`
+}
+
+// Catalog entry id and variant slug of a Card id; no slug for a base card
+export function parseCardId(id: string): { entryId: string; variant?: string } {
+  const separator = id.indexOf(VARIANT_SEPARATOR)
+  if (separator < 0) return { entryId: id }
+  return { entryId: id.slice(0, separator), variant: id.slice(separator + 1) || undefined }
+}
+
+function variantSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+}
+
+// One variant of a catalog entry as a domain card; the base card when no spec is given
+export function toDomainCard(entry: CardDatabaseEntry, spec?: VariantSpec): Card {
+  const isBase = !spec || spec.kind === 'base'
+  // A serial-numbered base set prints its run on the entry, not in the taxonomy
+  const resolved: VariantSpec = isBase
+    ? { ...(spec ?? { name: 'Base', kind: 'base' }), printRun: spec?.printRun ?? entry.attributes.printRun }
+    : spec!
+
+  return new Card(
+    isBase ? entry.id : variantCardId(entry.id, resolved.name),
+    entry.player,
+    entry.year,
+    entry.manufacturer,
+    entry.set,
+    entry.cardNumber,
+    entry.subset,
+    isBase ? undefined : resolved.name,
+    deriveAttributes({
+      isRookie: entry.attributes.isRookie,
+      isAutograph: entry.attributes.isAutograph,
+      isPatch: entry.attributes.isPatch,
+      variant: isBase ? undefined : resolved.name,
+      variantDetails: toCardVariant(resolved)
+    }),
+    entry.metadata
+  )
+}
+
+// A domain card folded into its catalog entry: the base card writes the entry, a parallel is listed on it
+export function toCatalogEntry(card: Card, existing: CardDatabaseEntry | null): CardDatabaseEntry {
+  const { entryId } = parseCardId(card.id)
+  const isBase = !card.variant || card.variant.toLowerCase() === 'base'
+  const entry: CardDatabaseEntry = existing && !isBase
+    ? existing
+    : {
+        id: entryId,
+        player: card.player,
+        year: card.year,
+        manufacturer: card.manufacturer,
+        set: card.set,
+        subset: card.subset,
+        cardNumber: card.cardNumber,
+        attributes: {
+          isRookie: card.attributes.isRookie,
+          isAutograph: card.attributes.isAutograph,
+          isPatch: card.attributes.isPatch,
+          isSerialNumbered: isBase && card.attributes.printRun !== undefined,
+          printRun: isBase ? card.attributes.printRun : undefined
+        },
+        variants: existing?.variants ?? ['Base'],
+        metadata: { ...existing?.metadata, ...card.metadata }
+      }
+  if (isBase) return entry
+
+  const parallel: ChecklistParallel = { name: card.variant!, printRun: card.attributes.printRun }
+  const listed = entry.variants.some(name => variantSlug(parseParallel(name)?.name ?? name) === variantSlug(parallel.name))
+  if (listed) return entry
+
+  const parallels: ChecklistParallel[] | undefined = entry.metadata?.parallels
+  return {
+    ...entry,
+    variants: [...entry.variants, formatParallel(parallel)],
+    metadata: parallels ? { ...entry.metadata, parallels: [...parallels, parallel] } : entry.metadata
+  }
+}
+
+// Alternate between the lists until limit is reached
+function interleave<T>(lists: T[][], limit: number): T[] {
+  const merged: T[] = []
+  for (let i = 0; merged.length < limit && lists.some(list => i < list.length); i++) {
+    lists.forEach(list => {
+      if (i < list.length && merged.length < limit) merged.push(list[i])
+    })
+  }
+  return merged
+}
+
+function matchesAttributes(attributes: CardAttributes, wanted: Partial<CardAttributes>): boolean {
+  return (Object.keys(wanted) as Array<keyof CardAttributes>).every(key =>
+    wanted[key] === undefined || attributes[key] === wanted[key]
+  )
+}
+
+export class CardRepository implements ICardRepository {
+  constructor(private catalog: CardCatalog) {}
+
+  async findById(id: string): Promise<Card | null> {
+    const { entryId, variant } = parseCardId(id)
+    const entry = await this.catalog.getCard(entryId)
+    if (!entry) return null
+    if (!variant) return toDomainCard(entry)
+
+    const specs = await this.variantsOf(entry)
+    const spec = specs.find(candidate => variantSlug(candidate.name) === variant)
+    return spec ? toDomainCard(entry, spec) : null
+  }
+
+  // The first base cards in id order; findPage continues from the last one.
+  // A card's parallels are reached through getSimilarCards
+  async findAll(limit = RESULT_LIMIT): Promise<Card[]> {
+    return (await this.findPage(null, limit)).cards
+  }
+
+  // Base cards after the given card id; next is null once the catalog is exhausted
+  async findPage(after: string | null, limit = RESULT_LIMIT): Promise<{ cards: Card[]; next: string | null }> {
+    const entries = await this.catalog.getCardPage(after === null ? null : parseCardId(after).entryId, limit)
+    return {
+      cards: entries.map(entry => toDomainCard(entry)),
+      next: entries.length === limit ? entries[entries.length - 1].id : null
+    }
+  }
+
+  async save(entity: Card): Promise<Card> {
+    const existing = await this.catalog.getCard(parseCardId(entity.id).entryId)
+    await this.catalog.saveCards([toCatalogEntry(entity, existing)])
+    return entity
+  }
+
+  // Deleting a parallel takes it off its card's list; deleting the base card removes the entry
+  async delete(id: string): Promise<void> {
+    const { entryId, variant } = parseCardId(id)
+    if (!variant) return this.catalog.deleteCard(entryId)
+
+    const entry = await this.catalog.getCard(entryId)
+    if (!entry) return
+    const keep = (name: string) => variantSlug(parseParallel(name)?.name ?? name) !== variant
+    const parallels: ChecklistParallel[] | undefined = entry.metadata?.parallels
+    await this.catalog.saveCards([{
+      ...entry,
+      variants: entry.variants.filter(keep),
+      metadata: parallels ? { ...entry.metadata, parallels: parallels.filter(parallel => keep(parallel.name)) } : entry.metadata
+    }])
+  }
+
+  async exists(id: string): Promise<boolean> {
+    return (await this.findById(id)) !== null
+  }
+
+  // Every card of the player, under any name or alias the catalog has them as, newest first
+  async findByPlayer(player: string): Promise<Card[]> {
+    const entity = playerRegistry.resolve(player)?.player
+    const names = entity ? [entity.name, ...entity.aliases] : [player]
+    const playerId = playerRegistry.canonicalId(player)
+
+    const found = new Map<string, CardDatabaseEntry>()
+    for (const name of names) {
+      const entries = await this.catalog.searchCards(name, PLAYER_CARD_LIMIT)
+      entries
+        .filter(entry => playerRegistry.canonicalId(entry.player) === playerId)
+        .forEach(entry => found.set(entry.id, entry))
+    }
+
+    return Array.from(found.values())
+      .sort((a, b) => b.year - a.year || a.set.localeCompare(b.set))
+      .map(entry => toDomainCard(entry))
+  }
+
+  async findBySet(year: number, manufacturer: string, set: string): Promise<Card[]> {
+    const entries = await this.catalog.getSetCards(year, manufacturer, set)
+    return entries
+      .sort((a, b) => (a.cardNumber ?? '').localeCompare(b.cardNumber ?? '', undefined, { numeric: true }))
+      .map(entry => toDomainCard(entry))
+  }
+
+  // Parallel-level attributes (isParallel, isRefractor, printRun) match against each card's variants,
+  // resolved through the set's taxonomy; the catalog is read a page at a time until limit cards match
+  async findByAttributes(attributes: Partial<CardAttributes>, limit = RESULT_LIMIT): Promise<Card[]> {
+    const taxonomies = new Map<string, Promise<SetTaxonomy | null>>()
+    const found: Card[] = []
+    let after: string | null = null
+
+    while (found.length < limit) {
+      const page = await this.catalog.getCardPage(after, PAGE_SIZE)
+      for (const entry of page) {
+        const specs = await this.variantsOf(entry, taxonomies)
+        specs
+          .map(spec => toDomainCard(entry, spec))
+          .filter(card => matchesAttributes(card.attributes, attributes))
+          .forEach(card => found.push(card))
+      }
+      if (page.length < PAGE_SIZE) break
+      after = page[page.length - 1].id
+    }
+    return found.slice(0, limit)
+  }
+
+  async search(query: string, limit = SEARCH_LIMIT): Promise<Card[]> {
+    const entries = await this.catalog.searchCards(query, limit)
+    return entries.map(entry => toDomainCard(entry))
+  }
+
+  async validateCard(card: Partial<Card>): Promise<{ isValid: boolean; issues: string[] }> {
+    const issues: string[] = []
+    if (!card.player?.trim()) issues.push('Player name is required')
+    if (card.year === undefined || card.year < 1900 || card.year > new Date().getFullYear() + 1) issues.push('Invalid card year')
+    if (!card.manufacturer || !card.set) issues.push('Manufacturer and set are required')
+    if (issues.length > 0) return { isValid: false, issues }
+
+    const setCards = await this.catalog.getSetCards(card.year!, card.manufacturer!, card.set!)
+    // A set the catalog has no checklist for can't be checked further
+    if (setCards.length === 0) return { isValid: true, issues }
+
+    const setLabel = `${card.year} ${card.manufacturer} ${card.set}`
+    const entry = card.cardNumber
+      ? setCards.find(candidate => candidate.cardNumber?.toLowerCase() === card.cardNumber!.toLowerCase())
+      : setCards.find(candidate => playerRegistry.samePlayer(candidate.player, card.player!))
+
+    if (!entry) {
+      issues.push(card.cardNumber
+        ? `Card #${card.cardNumber} is not in the ${setLabel} checklist`
+        : `${card.player} has no card in the ${setLabel} checklist`)
+    } else {
+      if (!playerRegistry.samePlayer(entry.player, card.player!)) {
+        issues.push(`Card #${entry.cardNumber} in ${setLabel} is ${playerRegistry.canonicalName(entry.player)}, not ${card.player}`)
+      }
+      if (card.variant && card.variant.toLowerCase() !== 'base') {
+        const specs = await this.variantsOf(entry)
+        if (!specs.some(spec => variantSlug(spec.name) === variantSlug(parseParallel(card.variant!)?.name ?? card.variant!))) {
+          issues.push(`${card.variant} is not a known parallel of ${setLabel} #${entry.cardNumber}`)
+        }
+      }
+    }
+
+    return { isValid: issues.length === 0, issues }
+  }
+
+  // Other parallels of this card and the player's cards from other sets, in turn
+  async getSimilarCards(card: Card, limit = SIMILAR_LIMIT): Promise<Card[]> {
+    const entry = await this.catalog.getCard(parseCardId(card.id).entryId)
+    const parallels = entry
+      ? (await this.variantsOf(entry))
+          .map(spec => toDomainCard(entry, spec))
+          .filter(candidate => candidate.id !== card.id)
+      : []
+
+    const sameSet = (candidate: Card) =>
+      candidate.year === card.year &&
+      candidate.manufacturer.toLowerCase() === card.manufacturer.toLowerCase() &&
+      candidate.set.toLowerCase() === card.set.toLowerCase()
+    // Nearest years first: a rookie's closest comparables are the other rookie-year sets
+    const otherSets = (await this.findByPlayer(card.player))
+      .filter(candidate => !sameSet(candidate))
+      .sort((a, b) => Math.abs(a.year - card.year) - Math.abs(b.year - card.year))
+
+    return interleave([parallels, otherSets], limit)
+  }
+
+  // Stored taxonomy first, then the built-in one; a walk over many cards shares one lookup per set
+  private async variantsOf(
+    entry: CardDatabaseEntry,
+    taxonomies = new Map<string, Promise<SetTaxonomy | null>>()
+  ): Promise<VariantSpec[]> {
+    const id = taxonomyId(entry.year, entry.manufacturer, entry.set)
+    if (!taxonomies.has(id)) {
+      taxonomies.set(id, this.catalog.getTaxonomy(entry.year, entry.manufacturer, entry.set)
+        .then(stored => stored ?? findBuiltInTaxonomy(entry.year, entry.manufacturer, entry.set)))
+    }
+    return resolveVariants(entry, await taxonomies.get(id)!)
+  }
+}
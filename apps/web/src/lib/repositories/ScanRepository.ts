@@ -14,8 +14,10 @@ import {
   ScanImages,
   CardAttributes,
   CenteringScore,
-  Damage
+  Damage,
+  ModelVersion
 } from '../domain/models'
+import { playerRegistry } from '../card-database/PlayerRegistry'
 
 interface ScanRecord {
   id: string
@@ -28,6 +30,8 @@ interface ScanRecord {
   confidenceData: any
   images: any
   processingTime: number
+  // Missing on scans saved before model versions were recorded
+  modelVersions?: ModelVersion[]
 }
 
 export class ScanRepository implements IScanRepository {
@@ -86,7 +90,7 @@ export class ScanRepository implements IScanRepository {
       .filter(scan => {
         const scanCard = scan.cardData
         return scanCard && 
-               scanCard.player === card.player &&
+               playerRegistry.canonicalId(scanCard.player) === card.playerId &&
                scanCard.year === card.year &&
                scanCard.set === card.set &&
                scanCard.cardNumber === card.cardNumber
@@ -175,7 +179,8 @@ export class ScanRepository implements IScanRepository {
       record.confidenceData.cardIdentification,
       record.confidenceData.gradeAccuracy,
       record.confidenceData.damageDetection,
-      record.confidenceData.authenticityCheck
+      record.confidenceData.authenticityCheck,
+      record.confidenceData.calibrated ?? false
     )
 
     const images = new ScanImages(
@@ -184,7 +189,8 @@ export class ScanRepository implements IScanRepository {
       record.images.topEdge,
       record.images.bottomEdge,
       record.images.leftEdge,
-      record.images.rightEdge
+      record.images.rightEdge,
+      record.images.uv
     )
 
     return new ScanResult(
@@ -196,7 +202,8 @@ export class ScanRepository implements IScanRepository {
       authenticity,
       confidence,
       images,
-      record.processingTime
+      record.processingTime,
+      record.modelVersions ?? []
     )
   }
 
@@ -255,7 +262,8 @@ export class ScanRepository implements IScanRepository {
         cardIdentification: entity.confidence.cardIdentification,
         gradeAccuracy: entity.confidence.gradeAccuracy,
         damageDetection: entity.confidence.damageDetection,
-        authenticityCheck: entity.confidence.authenticityCheck
+        authenticityCheck: entity.confidence.authenticityCheck,
+        calibrated: entity.confidence.calibrated
       },
       images: {
         front: entity.images.front,
@@ -263,9 +271,11 @@ export class ScanRepository implements IScanRepository {
         topEdge: entity.images.topEdge,
         bottomEdge: entity.images.bottomEdge,
         leftEdge: entity.images.leftEdge,
-        rightEdge: entity.images.rightEdge
+        rightEdge: entity.images.rightEdge,
+        uv: entity.images.uv
       },
-      processingTime: entity.processingTime
+      processingTime: entity.processingTime,
+      modelVersions: entity.modelVersions
     }
   }
 
@@ -0,0 +1,149 @@
+/**
+ * Tests for the catalog-backed card repository
+ */
+
+import { CardCatalog, CardRepository } from '../CardRepository'
+import { Card } from '../../domain/models'
+import { rankCards } from '../../card-database/SearchIndex'
+import type { SetTaxonomy } from '../../card-database/VariantTaxonomy'
+import type { CardDatabaseEntry } from '../../interfaces/services'
+
+// In-memory stand-in for the IndexedDB provider
+class MemoryCatalog implements CardCatalog {
+  cards = new Map<string, CardDatabaseEntry>()
+
+  async getCard(id: string) {
+    return this.cards.get(id) ?? null
+  }
+
+  async getCardPage(after: string | null, count: number) {
+    return Array.from(this.cards.values())
+      .filter(card => after === null || card.id > after)
+      .sort((a, b) => (a.id < b.id ? -1 : 1))
+      .slice(0, count)
+  }
+
+  async getSetCards(year: number, manufacturer: string, setName: string) {
+    return Array.from(this.cards.values()).filter(card =>
+      card.year === year && card.manufacturer === manufacturer && card.set === setName
+    )
+  }
+
+  async searchCards(query: string, limit = 50) {
+    return rankCards(Array.from(this.cards.values()), query).slice(0, limit)
+  }
+
+  async saveCards(cards: CardDatabaseEntry[]) {
+    cards.forEach(card => this.cards.set(card.id, card))
+  }
+
+  async deleteCard(id: string) {
+    this.cards.delete(id)
+  }
+
+  async getTaxonomy(): Promise<SetTaxonomy | null> {
+    return null
+  }
+}
+
+function entry(id: string, player: string, year: number, set: string, cardNumber: string, variants: string[] = ['Base']): CardDatabaseEntry {
+  return {
+    id,
+    player,
+    year,
+    manufacturer: 'Panini',
+    set,
+    cardNumber,
+    attributes: { isRookie: year === 2018, isAutograph: false, isPatch: false, isSerialNumbered: false },
+    variants,
+    metadata: {}
+  }
+}
+
+function catalog(): MemoryCatalog {
+  const memory = new MemoryCatalog()
+  memory.saveCards([
+    entry('2018:panini:prizm:280', 'Luka Doncic', 2018, 'Prizm', '280', ['Base', 'Silver', 'Gold /10']),
+    entry('2018:panini:donruss-optic:177', 'Doncic, Luka', 2018, 'Donruss Optic', '177', ['Base', 'Holo']),
+    entry('2020:panini:prizm:1', 'Luka Dončić', 2020, 'Prizm', '1'),
+    entry('2018:panini:prizm:78', 'Trae Young', 2018, 'Prizm', '78', ['Base', 'Silver'])
+  ])
+  return memory
+}
+
+describe('CardRepository', () => {
+  it('should map entries and their parallels to domain cards that round-trip by id', async () => {
+    const repository = new CardRepository(catalog())
+    const base = await repository.findById('2018:panini:prizm:280')
+    const gold = await repository.findById('2018:panini:prizm:280#gold')
+
+    expect(base).toMatchObject({ player: 'Luka Dončić', variant: undefined })
+    expect(base!.attributes.isRookie).toBe(true)
+    expect(gold).toMatchObject({ id: '2018:panini:prizm:280#gold', variant: 'Gold' })
+    expect(gold!.attributes).toMatchObject({ isParallel: true, isRefractor: true, printRun: 10 })
+    expect(await repository.exists('2018:panini:prizm:280#emergent')).toBe(false)
+  })
+
+  it('should find a player\'s cards however the catalog wrote the name', async () => {
+    const repository = new CardRepository(catalog())
+    const cards = await repository.findByPlayer('Luka Magic')
+    expect(cards.map(card => card.id)).toEqual([
+      '2020:panini:prizm:1',
+      '2018:panini:donruss-optic:177',
+      '2018:panini:prizm:280'
+    ])
+  })
+
+  it('should suggest other parallels and the player\'s other sets in turn', async () => {
+    const repository = new CardRepository(catalog())
+    const silver = (await repository.findById('2018:panini:prizm:280#silver'))!
+    const similar = (await repository.getSimilarCards(silver, 4)).map(card => card.id)
+
+    // Parallels and other sets alternate; the 2018 Optic is nearest in year
+    expect(similar).toEqual([
+      '2018:panini:prizm:280',
+      '2018:panini:donruss-optic:177',
+      '2018:panini:prizm:280#gold',
+      '2020:panini:prizm:1'
+    ])
+    expect(similar).not.toContain('2018:panini:prizm:78')
+  })
+
+  it('should find parallels by finish and print run through the set\'s taxonomy', async () => {
+    const repository = new CardRepository(catalog())
+
+    const golds = await repository.findByAttributes({ isRefractor: true, printRun: 10 })
+    expect(golds.map(card => card.id)).toEqual(['2018:panini:prizm:280#gold', '2018:panini:prizm:78#gold'])
+
+    const refractors = await repository.findByAttributes({ isRefractor: true })
+    expect(refractors.length).toBeGreaterThan(2)
+    expect(refractors.every(card => card.set === 'Prizm' && card.year === 2018)).toBe(true)
+    expect(await repository.findByAttributes({ isRefractor: true }, 3)).toHaveLength(3)
+  })
+
+  it('should list base cards a page at a time', async () => {
+    const repository = new CardRepository(catalog())
+
+    const first = await repository.findPage(null, 2)
+    expect(first.cards.map(card => card.id)).toEqual(['2018:panini:donruss-optic:177', '2018:panini:prizm:280'])
+    const second = await repository.findPage(first.next, 2)
+    expect(second.cards.map(card => card.id)).toEqual(['2018:panini:prizm:78', '2020:panini:prizm:1'])
+    expect((await repository.findPage(second.next, 2))).toEqual({ cards: [], next: null })
+    expect(await repository.findAll(3)).toHaveLength(3)
+  })
+
+  it('should list a saved parallel on its card and validate against the checklist', async () => {
+    const memory = catalog()
+    const repository = new CardRepository(memory)
+    const orange = new Card('2018:panini:prizm:78#orange', 'Trae Young', 2018, 'Panini', 'Prizm', '78', undefined, 'Orange')
+
+    await repository.save(orange)
+    expect(memory.cards.get('2018:panini:prizm:78')!.variants).toEqual(['Base', 'Silver', 'Orange'])
+    await repository.delete('2018:panini:prizm:78#silver')
+    expect(memory.cards.get('2018:panini:prizm:78')!.variants).toEqual(['Base', 'Orange'])
+
+    expect(await repository.validateCard(orange)).toEqual({ isValid: true, issues: [] })
+    const wrong = await repository.validateCard({ player: 'Trae Young', year: 2018, manufacturer: 'Panini', set: 'Prizm', cardNumber: '280' })
+    expect(wrong.issues).toEqual(['Card #280 in 2018 Panini Prizm is Luka Dončić, not Trae Young'])
+  })
+})
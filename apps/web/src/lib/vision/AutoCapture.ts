@@ -0,0 +1,99 @@
+/**
+ * Auto Capture - Fei-Fei Li: Fire the shutter once the card has settled
+ *
+ * The scanner samples the live video a few times a second and feeds each
+ * frame's quality and motion to a StabilityTracker. The tracker fires once the
+ * frame has passed the same quality gate as the manual shutter, shows no glare
+ * at all, and barely changed for a hold window. Glare is held off even as a
+ * warning: the manual shutter may take it, but an unattended shot should not
+ * bake a hotspot into the grade. After a shot it
+ * waits for the scene to move (the card being flipped or turned) before arming
+ * again, so one pose is never captured twice.
+ */
+
+import type { CaptureQuality } from './CaptureQuality'
+import { GrayImage, downscale, toGrayscale } from './image'
+
+export type AutoCaptureStatus = 'adjusting' | 'holding' | 'waiting-for-move' | 'ready'
+
+export interface AutoCaptureState {
+  status: AutoCaptureStatus
+  // 0-1 through the hold window
+  progress: number
+  // What to change while adjusting: the rejection, or the glare to tilt away
+  hint?: string
+}
+
+export interface StabilityOptions {
+  // How long the frame must stay still and clean
+  holdMs?: number
+  // Mean per-pixel change (0-1) below which the frame counts as still
+  stillBelow?: number
+  // Change that counts as the user moving on to the next pose
+  movedAbove?: number
+}
+
+const THUMBNAIL_SIZE = 64
+
+export class StabilityTracker {
+  private readonly holdMs: number
+  private readonly stillBelow: number
+  private readonly movedAbove: number
+  private holdStart: number | null = null
+  private awaitingMove = false
+
+  constructor(options: StabilityOptions = {}) {
+    this.holdMs = options.holdMs ?? 700
+    this.stillBelow = options.stillBelow ?? 0.02
+    this.movedAbove = options.movedAbove ?? 0.08
+  }
+
+  update(quality: CaptureQuality, motion: number, timestamp: number): AutoCaptureState {
+    if (this.awaitingMove) {
+      if (motion < this.movedAbove) return { status: 'waiting-for-move', progress: 0 }
+      this.awaitingMove = false
+    }
+
+    const problem = quality.issues.find(issue => issue.severity === 'reject' || issue.check === 'glare')
+    if (!quality.acceptable || problem) {
+      this.holdStart = null
+      return { status: 'adjusting', progress: 0, hint: problem?.message }
+    }
+
+    if (motion >= this.stillBelow) {
+      this.holdStart = null
+      return { status: 'holding', progress: 0 }
+    }
+
+    this.holdStart = this.holdStart ?? timestamp
+    const progress = this.holdMs > 0 ? Math.min(1, (timestamp - this.holdStart) / this.holdMs) : 1
+    return { status: progress >= 1 ? 'ready' : 'holding', progress }
+  }
+
+  // Call after each shot; the next one needs the scene to change first
+  captured(): void {
+    this.holdStart = null
+    this.awaitingMove = true
+  }
+
+  reset(): void {
+    this.holdStart = null
+    this.awaitingMove = false
+  }
+}
+
+// Small grayscale copy of a frame for motion checks
+export function motionThumbnail(frame: ImageData): GrayImage {
+  return toGrayscale(downscale(frame, THUMBNAIL_SIZE).image)
+}
+
+// Mean absolute change between two thumbnails, 0-1; 1 when they cannot be compared
+export function frameDifference(a: GrayImage | null, b: GrayImage): number {
+  if (!a || a.width !== b.width || a.height !== b.height) return 1
+
+  let sum = 0
+  for (let i = 0; i < a.data.length; i++) {
+    sum += Math.abs(a.data[i] - b.data[i])
+  }
+  return sum / (a.data.length * 255)
+}
@@ -0,0 +1,220 @@
+/**
+ * Calibration - Fei-Fei Li: Correct colour and scale for one camera and light
+ *
+ * The user prints the calibration card (standard card size, white stock, a
+ * 4 x 6 grid of known colour patches) and scans it once per camera and
+ * lighting setup. From that scan:
+ * - colour: each patch's captured RGB is paired with its printed value and an
+ *   affine 3x4 matrix is fitted by least squares, so later captures can be
+ *   mapped back to the colours the card was printed in
+ * - scale: the card outline gives pixels per millimetre at the distance the
+ *   scanner guide frames a card
+ * The residual error after correction says how well the fit holds; a scan
+ * that fits badly (glare, uneven light, wrong card) is rejected.
+ */
+
+import { ValidationError } from '../errors'
+import { CardDetector } from './CardDetector'
+import { distance, solveLinearSystem, Quad } from './geometry'
+import { createImageData } from './image'
+
+type Rgb = [number, number, number]
+
+// Patch layout in millimetres; the grid is centred so a card upside down only reverses the order
+export const CALIBRATION_TARGET = {
+  widthMm: 63.5,
+  heightMm: 88.9,
+  columns: 4,
+  rows: 6,
+  patchMm: 11,
+  gapMm: 2
+}
+
+// sRGB values of the printed patches, row by row: the classic colour checker chart, turned portrait
+export const CALIBRATION_COLORS: Rgb[] = [
+  [115, 82, 68], [194, 150, 130], [98, 122, 157], [87, 108, 67],
+  [133, 128, 177], [103, 189, 170], [214, 126, 44], [80, 91, 166],
+  [193, 90, 99], [94, 60, 108], [157, 188, 64], [224, 163, 46],
+  [56, 61, 150], [70, 148, 73], [175, 54, 60], [231, 199, 31],
+  [187, 86, 149], [8, 133, 161], [243, 243, 242], [200, 200, 200],
+  [160, 160, 160], [122, 122, 121], [85, 85, 85], [52, 52, 52]
+]
+
+// Result of scanning the calibration card
+export interface CalibrationMeasurement {
+  // Row-major 3x4 affine matrix from captured RGB to printed RGB
+  colorMatrix: number[]
+  // Mean RGB distance from the printed patches (0-441), before and after correction
+  errorBefore: number
+  residualError: number
+  // Card-plane scale in the captured frame
+  pxPerMm: number
+  frameWidth: number
+  frameHeight: number
+}
+
+// Stored per camera; deviceId comes from CameraService.getDevices
+export interface CalibrationProfile extends CalibrationMeasurement {
+  deviceId: string
+  // Camera name as the browser reports it
+  label: string
+  createdAt: number
+}
+
+// Confidence multiplier for a capture from a camera that was never calibrated
+export const UNCALIBRATED_CONFIDENCE = 0.85
+// Residual error a good print under even light reaches
+const GOOD_RESIDUAL = 8
+const MAX_RESIDUAL = 25
+// Patch brightness must follow the chart this closely for the scan to be the calibration card
+const MIN_CORRELATION = 0.9
+// Share of each patch sampled, away from its printed edges
+const PATCH_SAMPLE = 0.6
+
+/**
+ * Find the calibration card in a camera frame and fit its colour and scale
+ * correction. Throws a ValidationError the user can act on when the card is
+ * missing or the fit is too poor to trust.
+ */
+export function measureCalibrationTarget(frame: ImageData, detector: CardDetector = new CardDetector()): CalibrationMeasurement {
+  const boundary = detector.detect(frame)
+  if (!boundary) {
+    throw new ValidationError('Calibration card not found. Place the whole card on a darker surface inside the guide')
+  }
+
+  const rectified = detector.rectify(frame, boundary.quad, boundary.orientation)
+  const captured = samplePatches(rectified)
+  // Printed upright or upside down: keep whichever order follows the chart
+  const upright = correlation(captured.map(luminance), CALIBRATION_COLORS.map(luminance))
+  const flipped = correlation(captured.slice().reverse().map(luminance), CALIBRATION_COLORS.map(luminance))
+  if (Math.max(upright, flipped) < MIN_CORRELATION) {
+    throw new ValidationError('This does not look like the calibration card. Print it at 100% scale and scan it face up')
+  }
+  const patches = flipped > upright ? captured.reverse() : captured
+
+  const colorMatrix = fitColorMatrix(patches, CALIBRATION_COLORS)
+  const errorBefore = meanError(patches, CALIBRATION_COLORS)
+  const residualError = meanError(patches.map(rgb => transform(colorMatrix, rgb)), CALIBRATION_COLORS)
+  if (residualError > MAX_RESIDUAL) {
+    throw new ValidationError('Colours could not be matched reliably. Check for glare or uneven light across the card and try again')
+  }
+
+  return {
+    colorMatrix: colorMatrix.map(value => Math.round(value * 100000) / 100000),
+    errorBefore: Math.round(errorBefore * 10) / 10,
+    residualError: Math.round(residualError * 10) / 10,
+    pxPerMm: Math.round(scaleOf(boundary.quad) * 1000) / 1000,
+    frameWidth: frame.width,
+    frameHeight: frame.height
+  }
+}
+
+// Map every pixel through the profile's colour matrix; alpha is kept
+export function applyColorCorrection(image: ImageData, profile: Pick<CalibrationProfile, 'colorMatrix'>): ImageData {
+  const m = profile.colorMatrix
+  const source = image.data
+  const out = new Uint8ClampedArray(source.length)
+  for (let p = 0; p < source.length; p += 4) {
+    const r = source[p]
+    const g = source[p + 1]
+    const b = source[p + 2]
+    out[p] = m[0] * r + m[1] * g + m[2] * b + m[3]
+    out[p + 1] = m[4] * r + m[5] * g + m[6] * b + m[7]
+    out[p + 2] = m[8] * r + m[9] * g + m[10] * b + m[11]
+    out[p + 3] = source[p + 3]
+  }
+  return createImageData(image.width, image.height, out)
+}
+
+/**
+ * Multiplier on measurement confidence: full for a well-fitted profile, a
+ * little less for a loose fit, and UNCALIBRATED_CONFIDENCE without one
+ */
+export function calibrationConfidence(profile?: Pick<CalibrationProfile, 'residualError'> | null): number {
+  if (!profile) return UNCALIBRATED_CONFIDENCE
+  const looseness = Math.min(1, Math.max(0, (profile.residualError - GOOD_RESIDUAL) / (MAX_RESIDUAL - GOOD_RESIDUAL)))
+  return 1 - 0.1 * looseness
+}
+
+// Mean RGB of the middle of each patch, in chart order
+function samplePatches(card: ImageData): Rgb[] {
+  const { columns, rows, patchMm, gapMm, widthMm, heightMm } = CALIBRATION_TARGET
+  const pxPerMm = card.width / widthMm
+  const left = (widthMm - columns * patchMm - (columns - 1) * gapMm) / 2
+  const top = (heightMm - rows * patchMm - (rows - 1) * gapMm) / 2
+  const inset = patchMm * (1 - PATCH_SAMPLE) / 2
+  const patches: Rgb[] = []
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x0 = Math.round((left + column * (patchMm + gapMm) + inset) * pxPerMm)
+      const y0 = Math.round((top + row * (patchMm + gapMm) + inset) * pxPerMm)
+      const size = Math.round(patchMm * PATCH_SAMPLE * pxPerMm)
+      const sum = [0, 0, 0]
+      for (let y = y0; y < y0 + size; y++) {
+        for (let x = x0; x < x0 + size; x++) {
+          const p = (y * card.width + x) * 4
+          sum[0] += card.data[p]
+          sum[1] += card.data[p + 1]
+          sum[2] += card.data[p + 2]
+        }
+      }
+      const count = size * size
+      patches.push([sum[0] / count, sum[1] / count, sum[2] / count])
+    }
+  }
+  return patches
+}
+
+// Least squares per output channel over [r, g, b, 1]
+function fitColorMatrix(captured: Rgb[], printed: Rgb[]): number[] {
+  const rows = captured.map(([r, g, b]) => [r, g, b, 1])
+  const normal = [0, 1, 2, 3].map(i => [0, 1, 2, 3].map(j => rows.reduce((sum, row) => sum + row[i] * row[j], 0)))
+  const matrix: number[] = []
+  for (let channel = 0; channel < 3; channel++) {
+    const target = [0, 1, 2, 3].map(i => rows.reduce((sum, row, n) => sum + row[i] * printed[n][channel], 0))
+    matrix.push(...solveLinearSystem(normal, target))
+  }
+  return matrix
+}
+
+function transform(m: number[], [r, g, b]: Rgb): Rgb {
+  return [
+    m[0] * r + m[1] * g + m[2] * b + m[3],
+    m[4] * r + m[5] * g + m[6] * b + m[7],
+    m[8] * r + m[9] * g + m[10] * b + m[11]
+  ]
+}
+
+function meanError(measured: Rgb[], expected: Rgb[]): number {
+  return measured.reduce((sum, rgb, i) =>
+    sum + Math.hypot(rgb[0] - expected[i][0], rgb[1] - expected[i][1], rgb[2] - expected[i][2]), 0
+  ) / measured.length
+}
+
+function luminance([r, g, b]: Rgb): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b
+}
+
+function correlation(a: number[], b: number[]): number {
+  const meanA = a.reduce((sum, v) => sum + v, 0) / a.length
+  const meanB = b.reduce((sum, v) => sum + v, 0) / b.length
+  let covariance = 0
+  let varianceA = 0
+  let varianceB = 0
+  a.forEach((value, i) => {
+    covariance += (value - meanA) * (b[i] - meanB)
+    varianceA += (value - meanA) ** 2
+    varianceB += (b[i] - meanB) ** 2
+  })
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0
+}
+
+// Pixels per millimetre from both side pairs of the card outline
+function scaleOf(quad: Quad): number {
+  const horizontal = (distance(quad[0], quad[1]) + distance(quad[3], quad[2])) / 2
+  const vertical = (distance(quad[1], quad[2]) + distance(quad[0], quad[3])) / 2
+  const short = Math.min(horizontal, vertical)
+  const long = Math.max(horizontal, vertical)
+  return (short / CALIBRATION_TARGET.widthMm + long / CALIBRATION_TARGET.heightMm) / 2
+}
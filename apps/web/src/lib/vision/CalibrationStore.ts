@@ -0,0 +1,53 @@
+/**
+ * Calibration Store - Grace Hopper: One calibration profile per camera
+ *
+ * Profiles live in localStorage keyed by the camera's deviceId, so each
+ * camera on a device keeps its own colour and scale correction.
+ */
+
+import type { CalibrationProfile } from './Calibration'
+
+export class CalibrationStore {
+  private readonly storageKey = 'vericard_calibration_profiles'
+
+  list(): CalibrationProfile[] {
+    return Object.values(this.read()).sort((a, b) => b.createdAt - a.createdAt)
+  }
+
+  get(deviceId: string | undefined): CalibrationProfile | null {
+    if (!deviceId) return null
+    return this.read()[deviceId] ?? null
+  }
+
+  save(profile: CalibrationProfile): void {
+    const profiles = this.read()
+    profiles[profile.deviceId] = profile
+    this.write(profiles)
+  }
+
+  remove(deviceId: string): void {
+    const profiles = this.read()
+    delete profiles[deviceId]
+    this.write(profiles)
+  }
+
+  private read(): Record<string, CalibrationProfile> {
+    if (typeof window === 'undefined') return {}
+
+    const stored = localStorage.getItem(this.storageKey)
+    if (!stored) return {}
+
+    try {
+      return JSON.parse(stored)
+    } catch {
+      return {}
+    }
+  }
+
+  private write(profiles: Record<string, CalibrationProfile>): void {
+    if (typeof window === 'undefined') return
+    localStorage.setItem(this.storageKey, JSON.stringify(profiles))
+  }
+}
+
+export const calibrationStore = new CalibrationStore()
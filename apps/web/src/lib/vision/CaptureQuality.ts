@@ -0,0 +1,345 @@
+/**
+ * Capture Quality - Fei-Fei Li: Decide whether a frame is good enough to grade
+ *
+ * Five checks, each scored 0-100 where higher is better:
+ * - sharpness: spread of the Laplacian over the card; blur flattens it
+ * - glare: share of blown-out, colourless, flat pixels brighter than the
+ *   card's own border, so a white border is not taken for glare; located on a
+ *   3x3 grid so the coaching can say where to tilt
+ * - exposure: mean brightness of the card
+ * - fill: how much of the frame the card covers, and whether it is cut off
+ * - skew: in-plane rotation and keystone from shooting at an angle
+ * A check that fails badly rejects the frame; a milder one only warns. Every
+ * issue carries a coaching message for the scanner to show.
+ */
+
+import { CardDetector } from './CardDetector'
+import { Quad, distance, polygonArea, quadBoundingBox } from './geometry'
+import { downscale, toGrayscale } from './image'
+
+export type QualityCheck = 'card' | 'sharpness' | 'glare' | 'exposure' | 'fill' | 'skew'
+
+export interface QualityIssue {
+  check: QualityCheck
+  severity: 'warning' | 'reject'
+  message: string
+}
+
+export interface CaptureQualityScores {
+  sharpness: number
+  glare: number
+  exposure: number
+  fill: number
+  skew: number
+}
+
+export interface CaptureQuality {
+  scores: CaptureQualityScores
+  overall: number
+  // False when any issue is a rejection
+  acceptable: boolean
+  issues: QualityIssue[]
+  // Grid cells with glare, e.g. 'top-right', 'center'
+  glareRegions: string[]
+  cardFound: boolean
+}
+
+export interface AssessOptions {
+  // Slabs are not card-shaped; only sharpness, glare and exposure apply to them
+  requireCard?: boolean
+}
+
+const WORKING_SIZE = 640
+// Laplacian standard deviation of a crisp card at the working size
+const SHARP_LAPLACIAN_STD = 18
+const SHARPNESS_INSET = 0.1
+// A pixel is glare when every channel is at least this bright, and brighter than the border by the margin
+const GLARE_LEVEL = 240
+const GLARE_MARGIN = 8
+// The margin is capped so blown-out highlights still count on a near-white border
+const GLARE_CEILING = 254
+// Outer share of the card whose median brightness is taken as the border level
+const BORDER_BAND = 0.06
+// Share of the card under glare that scores zero
+const MAX_GLARE_FRACTION = 0.08
+// Share of one grid cell under glare before that cell is named in coaching
+const GLARE_CELL_FRACTION = 0.03
+const EXPOSURE_RANGE = { low: 80, high: 200, black: 20, white: 250 }
+const FILL_RANGE = { min: 0.12, good: 0.35, max: 0.9 }
+// Corners this close to the frame border (fraction of the short side) mean the card is cut off
+const BORDER_MARGIN = 0.01
+const MAX_ROTATION_DEGREES = 25
+const MAX_KEYSTONE = 0.3
+const REJECT_BELOW = 40
+const WARN_BELOW = 70
+
+const ROWS = ['top', '', 'bottom']
+const COLUMNS = ['left', '', 'right']
+
+export class CaptureQualityAssessor {
+  private detector = new CardDetector()
+
+  assess(image: ImageData, options: AssessOptions = {}): CaptureQuality {
+    const requireCard = options.requireCard ?? true
+    const { image: small } = downscale(image, WORKING_SIZE)
+    const boundary = requireCard ? this.detector.detect(small) : null
+    const quad = boundary?.quad
+    const region = quad ? toRegion(quadBoundingBox(quad), small) : { x: 0, y: 0, width: small.width, height: small.height }
+
+    // Inset so the card's own outline does not pass for sharp detail
+    const sharpness = measureSharpness(small, inset(region, SHARPNESS_INSET))
+    const glare = measureGlare(small, region)
+    const exposure = measureExposure(small, region)
+    const framing = quad ? measureFraming(quad, small) : null
+
+    const scores: CaptureQualityScores = {
+      sharpness: sharpness.score,
+      glare: glare.score,
+      exposure: exposure.score,
+      fill: framing?.fillScore ?? (requireCard ? 0 : 100),
+      skew: framing?.skewScore ?? (requireCard ? 0 : 100)
+    }
+
+    const issues: QualityIssue[] = []
+    const flag = (check: QualityCheck, score: number, message: string) => {
+      if (score < REJECT_BELOW) issues.push({ check, severity: 'reject', message })
+      else if (score < WARN_BELOW) issues.push({ check, severity: 'warning', message })
+    }
+
+    if (requireCard && !framing) {
+      issues.push({
+        check: 'card',
+        severity: 'reject',
+        message: 'No card found. Place the card inside the guides on a plain, contrasting background'
+      })
+    }
+    if (framing?.cutOff) {
+      issues.push({ check: 'fill', severity: 'reject', message: 'Part of the card is out of frame. Move back so all four edges show' })
+    } else if (framing) {
+      flag('fill', scores.fill, framing.fill > FILL_RANGE.max
+        ? 'Move back a little so there is space around the card'
+        : 'Move closer so the card fills more of the frame')
+    }
+    if (framing) {
+      flag('skew', scores.skew, framing.keystone / MAX_KEYSTONE > framing.rotation / MAX_ROTATION_DEGREES
+        ? 'Hold the camera directly above the card, not at an angle'
+        : 'Straighten the card so its edges line up with the guides')
+    }
+    flag('sharpness', scores.sharpness, 'Image is blurry. Hold steady and let the camera focus')
+    flag('glare', scores.glare, glare.regions.length > 0
+      ? `Tilt the card slightly to remove glare at ${joinRegions(glare.regions)}`
+      : 'Tilt the card slightly to remove glare')
+    flag('exposure', scores.exposure, exposure.mean < EXPOSURE_RANGE.low
+      ? 'Too dark. Add light or move somewhere brighter'
+      : 'Too bright. Move away from direct light')
+
+    const values = Object.values(scores)
+    return {
+      scores,
+      overall: Math.round(values.reduce((sum, value) => sum + value, 0) / values.length),
+      acceptable: !issues.some(issue => issue.severity === 'reject'),
+      issues,
+      glareRegions: glare.regions,
+      cardFound: !!framing
+    }
+  }
+}
+
+/**
+ * Share of the card under glare and the grid cells it is in, measured over
+ * the whole frame when no card is found. CameraService uses this for its
+ * quick check.
+ */
+export function measureFrameGlare(image: ImageData): { fraction: number; regions: string[] } {
+  const { image: small } = downscale(image, WORKING_SIZE)
+  const quad = new CardDetector().detect(small)?.quad
+  const region = quad ? toRegion(quadBoundingBox(quad), small) : { x: 0, y: 0, width: small.width, height: small.height }
+  const { fraction, regions } = measureGlare(small, region)
+  return { fraction, regions }
+}
+
+interface Region {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+function toRegion([x, y, width, height]: [number, number, number, number], image: ImageData): Region {
+  const x0 = Math.max(0, Math.floor(x))
+  const y0 = Math.max(0, Math.floor(y))
+  return {
+    x: x0,
+    y: y0,
+    width: Math.max(1, Math.min(image.width - x0, Math.round(width))),
+    height: Math.max(1, Math.min(image.height - y0, Math.round(height)))
+  }
+}
+
+function inset(region: Region, fraction: number): Region {
+  const dx = Math.round(region.width * fraction)
+  const dy = Math.round(region.height * fraction)
+  return { x: region.x + dx, y: region.y + dy, width: region.width - 2 * dx, height: region.height - 2 * dy }
+}
+
+function measureSharpness(image: ImageData, region: Region): { score: number } {
+  const gray = toGrayscale(image)
+  const { width, data } = gray
+  let sum = 0
+  let sumSquares = 0
+  let count = 0
+
+  for (let y = Math.max(1, region.y); y < Math.min(gray.height - 1, region.y + region.height); y++) {
+    for (let x = Math.max(1, region.x); x < Math.min(width - 1, region.x + region.width); x++) {
+      const i = y * width + x
+      const laplacian = data[i - 1] + data[i + 1] + data[i - width] + data[i + width] - 4 * data[i]
+      sum += laplacian
+      sumSquares += laplacian * laplacian
+      count++
+    }
+  }
+
+  if (count === 0) return { score: 0 }
+  const mean = sum / count
+  const std = Math.sqrt(Math.max(0, sumSquares / count - mean * mean))
+  return { score: Math.round(100 * Math.min(1, std / SHARP_LAPLACIAN_STD)) }
+}
+
+function measureGlare(image: ImageData, region: Region): { score: number; regions: string[]; fraction: number } {
+  const cells = new Array<number>(9).fill(0)
+  const cellSizes = new Array<number>(9).fill(0)
+  let glare = 0
+
+  const threshold = Math.min(GLARE_CEILING, Math.max(GLARE_LEVEL, borderLevel(image, region) + GLARE_MARGIN))
+  const bright = (x: number, y: number) =>
+    x >= region.x && x < region.x + region.width && y >= region.y && y < region.y + region.height &&
+    whiteness(image, x, y) >= threshold
+
+  for (let y = region.y; y < region.y + region.height; y++) {
+    const row = Math.min(2, Math.floor(((y - region.y) * 3) / region.height))
+    for (let x = region.x; x < region.x + region.width; x++) {
+      const column = Math.min(2, Math.floor(((x - region.x) * 3) / region.width))
+      const cell = row * 3 + column
+      cellSizes[cell]++
+      // Glare is a flat patch; a bright pixel with a darker neighbour is print detail or noise
+      if (bright(x, y) && bright(x - 1, y) && bright(x + 1, y) && bright(x, y - 1) && bright(x, y + 1)) {
+        cells[cell]++
+        glare++
+      }
+    }
+  }
+
+  const regions = cells
+    .map((count, cell) => ({ cell, fraction: cellSizes[cell] > 0 ? count / cellSizes[cell] : 0 }))
+    .filter(({ fraction }) => fraction >= GLARE_CELL_FRACTION)
+    .sort((a, b) => b.fraction - a.fraction)
+    .map(({ cell }) => regionName(cell))
+
+  const fraction = glare / Math.max(1, region.width * region.height)
+  return { score: Math.round(100 * (1 - Math.min(1, fraction / MAX_GLARE_FRACTION))), regions, fraction }
+}
+
+// Lowest channel: high only where a pixel is both bright and colourless
+function whiteness(image: ImageData, x: number, y: number): number {
+  const p = (y * image.width + x) * 4
+  return Math.min(image.data[p], image.data[p + 1], image.data[p + 2])
+}
+
+// Median whiteness of the region's outer band, where a card's border is
+function borderLevel(image: ImageData, region: Region): number {
+  const histogram = new Array<number>(256).fill(0)
+  const bandX = Math.max(1, Math.round(region.width * BORDER_BAND))
+  const bandY = Math.max(1, Math.round(region.height * BORDER_BAND))
+  let count = 0
+
+  for (let y = region.y; y < region.y + region.height; y++) {
+    const inBandRow = y < region.y + bandY || y >= region.y + region.height - bandY
+    for (let x = region.x; x < region.x + region.width; x++) {
+      if (!inBandRow && x >= region.x + bandX && x < region.x + region.width - bandX) continue
+      histogram[whiteness(image, x, y)]++
+      count++
+    }
+  }
+
+  let seen = 0
+  for (let level = 0; level < 256; level++) {
+    seen += histogram[level]
+    if (seen * 2 >= count) return level
+  }
+  return 0
+}
+
+function measureExposure(image: ImageData, region: Region): { score: number; mean: number } {
+  let sum = 0
+  for (let y = region.y; y < region.y + region.height; y++) {
+    for (let x = region.x; x < region.x + region.width; x++) {
+      const p = (y * image.width + x) * 4
+      sum += 0.299 * image.data[p] + 0.587 * image.data[p + 1] + 0.114 * image.data[p + 2]
+    }
+  }
+
+  const mean = sum / Math.max(1, region.width * region.height)
+  const { low, high, black, white } = EXPOSURE_RANGE
+  const score = mean < low
+    ? Math.max(0, (mean - black) / (low - black))
+    : mean > high
+      ? Math.max(0, (white - mean) / (white - high))
+      : 1
+  return { score: Math.round(100 * score), mean }
+}
+
+function measureFraming(quad: Quad, image: ImageData): {
+  fill: number
+  fillScore: number
+  cutOff: boolean
+  rotation: number
+  keystone: number
+  skewScore: number
+} {
+  const fill = polygonArea(quad) / (image.width * image.height)
+  const margin = BORDER_MARGIN * Math.min(image.width, image.height)
+  const cutOff = quad.some(p =>
+    p.x <= margin || p.y <= margin || p.x >= image.width - 1 - margin || p.y >= image.height - 1 - margin
+  )
+  const { min, good, max } = FILL_RANGE
+  let fillScore = 100
+  if (cutOff) fillScore = 0
+  // Too small rejects; between min and good only warns
+  else if (fill < min) fillScore = REJECT_BELOW * (fill / min)
+  else if (fill < good) fillScore = REJECT_BELOW + (100 - REJECT_BELOW) * ((fill - min) / (good - min))
+  // Very close still grades, but edges may be clipped by the rectifier
+  else if (fill > max) fillScore = WARN_BELOW - 1
+
+  // Rotation: how far each side leans from the nearest axis
+  const rotation = Math.max(...quad.map((p, i) => {
+    const next = quad[(i + 1) % 4]
+    const degrees = Math.abs((Math.atan2(next.y - p.y, next.x - p.x) * 180) / Math.PI) % 90
+    return Math.min(degrees, 90 - degrees)
+  }))
+  // Keystone: opposite sides of different length
+  const [top, right, bottom, left] = quad.map((p, i) => distance(p, quad[(i + 1) % 4]))
+  const keystone = Math.max(
+    Math.abs(top - bottom) / Math.max(top, bottom),
+    Math.abs(left - right) / Math.max(left, right)
+  )
+  const skew = Math.max(rotation / MAX_ROTATION_DEGREES, keystone / MAX_KEYSTONE)
+
+  return {
+    fill,
+    fillScore: Math.round(fillScore),
+    cutOff,
+    rotation,
+    keystone,
+    skewScore: Math.round(100 * (1 - Math.min(1, skew)))
+  }
+}
+
+function regionName(cell: number): string {
+  const name = [ROWS[Math.floor(cell / 3)], COLUMNS[cell % 3]].filter(Boolean).join('-')
+  return name || 'center'
+}
+
+function joinRegions(regions: string[]): string {
+  const named = regions.slice(0, 2)
+  return named.length === 2 ? `${named[0]} and ${named[1]}` : named[0]
+}
@@ -0,0 +1,339 @@
+/**
+ * Card Detector - Fei-Fei Li: Find the card's four corners and rectify it
+ *
+ * Classical pipeline, no model download required:
+ * 1. Downscale and separate the card from the background (colour distance + Otsu)
+ * 2. Keep the largest connected blob and approximate its hull with a quadrilateral
+ * 3. Refine each side against full-resolution gradients and intersect the fitted lines
+ * 4. Warp the quadrilateral onto an upright 2.5" x 3.5" canvas
+ */
+
+import { downscale, toGrayscale, otsuThreshold, GrayImage } from './image'
+import {
+  Point,
+  Quad,
+  orderQuad,
+  distance,
+  polygonArea,
+  convexHull,
+  simplifyPolygon,
+  fitLine,
+  intersectLines,
+  warpPerspective,
+  Line
+} from './geometry'
+
+// Standard trading card: 2.5in x 3.5in
+export const CARD_ASPECT_RATIO = 2.5 / 3.5
+export const RECTIFIED_WIDTH = 500
+export const RECTIFIED_HEIGHT = 700
+
+export interface CardBoundary {
+  quad: Quad
+  orientation: 'horizontal' | 'vertical'
+  confidence: number
+  // Measured short/long side ratio of the detected quad
+  aspectRatio: number
+}
+
+export interface CardDetectorOptions {
+  workingSize?: number
+  minAreaRatio?: number
+  refineRadius?: number
+}
+
+export class CardDetector {
+  private readonly workingSize: number
+  private readonly minAreaRatio: number
+  private readonly refineRadius: number
+
+  constructor(options: CardDetectorOptions = {}) {
+    this.workingSize = options.workingSize ?? 256
+    this.minAreaRatio = options.minAreaRatio ?? 0.08
+    this.refineRadius = options.refineRadius ?? 6
+  }
+
+  /**
+   * Locate the card in a frame. Returns null when nothing card-like is found.
+   */
+  detect(image: ImageData): CardBoundary | null {
+    if (image.width < 32 || image.height < 32 || image.data.length < image.width * image.height * 4) {
+      return null
+    }
+
+    const { image: small, scale } = downscale(image, this.workingSize)
+    const mask = this.segmentForeground(small)
+    const blob = this.largestComponent(mask, small.width, small.height)
+
+    if (blob.length < small.width * small.height * this.minAreaRatio) {
+      return null
+    }
+
+    const coarse = this.approximateQuad(blob)
+    if (!coarse) return null
+
+    const scaled = coarse.map(p => ({ x: p.x / scale, y: p.y / scale })) as Quad
+    const quad = this.refineQuad(toGrayscale(image), scaled, Math.max(this.refineRadius, 2 / scale))
+
+    const top = distance(quad[0], quad[1])
+    const right = distance(quad[1], quad[2])
+    const bottom = distance(quad[2], quad[3])
+    const left = distance(quad[3], quad[0])
+    const horizontalSides = (top + bottom) / 2
+    const verticalSides = (left + right) / 2
+    const orientation = horizontalSides > verticalSides ? 'horizontal' : 'vertical'
+    const aspectRatio = Math.min(horizontalSides, verticalSides) / Math.max(horizontalSides, verticalSides)
+
+    // Confidence: how rectangular the blob is and how close it is to card proportions
+    const fill = Math.min(1, blob.length / polygonArea(coarse))
+    const aspectMatch = Math.max(0, 1 - Math.abs(aspectRatio - CARD_ASPECT_RATIO) / CARD_ASPECT_RATIO)
+    const parallelism = 1 - Math.min(1, (Math.abs(top - bottom) / Math.max(top, bottom) + Math.abs(left - right) / Math.max(left, right)) / 2)
+    const confidence = Math.max(0, Math.min(1, 0.4 * fill + 0.4 * aspectMatch + 0.2 * parallelism))
+
+    return { quad, orientation, confidence, aspectRatio }
+  }
+
+  /**
+   * Treat the whole frame as the card when it already has card proportions
+   * (flatbed scans and pre-cropped uploads have no background to separate).
+   */
+  fullFrame(image: ImageData, tolerance: number = 0.08): CardBoundary | null {
+    const short = Math.min(image.width, image.height)
+    const long = Math.max(image.width, image.height)
+    if (short < 32) return null
+
+    const aspectRatio = short / long
+    if (Math.abs(aspectRatio - CARD_ASPECT_RATIO) / CARD_ASPECT_RATIO > tolerance) return null
+
+    const right = image.width - 1
+    const bottom = image.height - 1
+    return {
+      quad: [{ x: 0, y: 0 }, { x: right, y: 0 }, { x: right, y: bottom }, { x: 0, y: bottom }],
+      orientation: image.width > image.height ? 'horizontal' : 'vertical',
+      confidence: 0.5,
+      aspectRatio
+    }
+  }
+
+  /**
+   * Warp the detected card onto an upright portrait image.
+   * Landscape cards are rotated a quarter turn clockwise.
+   */
+  rectify(
+    image: ImageData,
+    quad: Quad,
+    orientation: CardBoundary['orientation'] = 'vertical',
+    width: number = RECTIFIED_WIDTH,
+    height: number = RECTIFIED_HEIGHT
+  ): ImageData {
+    const corners: Quad = orientation === 'horizontal'
+      ? [quad[3], quad[0], quad[1], quad[2]]
+      : quad
+
+    return warpPerspective(image, corners, width, height)
+  }
+
+  // Pixels whose colour differs from the frame border are treated as card
+  private segmentForeground(image: ImageData): Uint8Array {
+    const { width, height, data } = image
+    const border = Math.max(1, Math.round(Math.min(width, height) * 0.03))
+    const samples: number[][] = [[], [], []]
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (x >= border && x < width - border && y >= border && y < height - border) continue
+        const p = (y * width + x) * 4
+        samples[0].push(data[p])
+        samples[1].push(data[p + 1])
+        samples[2].push(data[p + 2])
+      }
+    }
+
+    const background = samples.map(channel => median(channel))
+    const distances = new Float32Array(width * height)
+    for (let i = 0, p = 0; i < distances.length; i++, p += 4) {
+      distances[i] = Math.hypot(
+        data[p] - background[0],
+        data[p + 1] - background[1],
+        data[p + 2] - background[2]
+      )
+    }
+
+    const threshold = Math.max(otsuThreshold(distances), 18)
+    const mask = new Uint8Array(width * height)
+    for (let i = 0; i < mask.length; i++) {
+      mask[i] = distances[i] > threshold ? 1 : 0
+    }
+
+    return this.closeMask(mask, width, height)
+  }
+
+  // Morphological closing (dilate then erode) to fill holes left by print that matches the background
+  private closeMask(mask: Uint8Array, width: number, height: number): Uint8Array {
+    const pass = (input: Uint8Array, keep: 0 | 1): Uint8Array => {
+      const out = new Uint8Array(input.length)
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          let value = input[y * width + x]
+          for (let dy = -1; dy <= 1 && value !== keep; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+              const nx = x + dx
+              const ny = y + dy
+              if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue
+              if (input[ny * width + nx] === keep) {
+                value = keep
+                break
+              }
+            }
+          }
+          out[y * width + x] = value
+        }
+      }
+      return out
+    }
+
+    return pass(pass(mask, 1), 0)
+  }
+
+  private largestComponent(mask: Uint8Array, width: number, height: number): Point[] {
+    const visited = new Uint8Array(mask.length)
+    const stack: number[] = []
+    let best: Point[] = []
+
+    for (let start = 0; start < mask.length; start++) {
+      if (!mask[start] || visited[start]) continue
+
+      const component: Point[] = []
+      visited[start] = 1
+      stack.push(start)
+
+      while (stack.length > 0) {
+        const index = stack.pop() as number
+        const x = index % width
+        const y = (index - x) / width
+        component.push({ x, y })
+
+        const neighbours = [
+          x > 0 ? index - 1 : -1,
+          x < width - 1 ? index + 1 : -1,
+          y > 0 ? index - width : -1,
+          y < height - 1 ? index + width : -1
+        ]
+        for (const n of neighbours) {
+          if (n >= 0 && mask[n] && !visited[n]) {
+            visited[n] = 1
+            stack.push(n)
+          }
+        }
+      }
+
+      if (component.length > best.length) best = component
+    }
+
+    return best
+  }
+
+  private approximateQuad(blob: Point[]): Quad | null {
+    // Pixel centres -> pixel corners so the hull covers the full blob extent
+    const extremes: Point[] = []
+    const rows = new Map<number, { min: number; max: number }>()
+    for (const p of blob) {
+      const row = rows.get(p.y)
+      if (!row) {
+        rows.set(p.y, { min: p.x, max: p.x })
+      } else {
+        row.min = Math.min(row.min, p.x)
+        row.max = Math.max(row.max, p.x)
+      }
+    }
+    rows.forEach((row, y) => {
+      extremes.push({ x: row.min, y }, { x: row.max + 1, y }, { x: row.min, y: y + 1 }, { x: row.max + 1, y: y + 1 })
+    })
+
+    const hull = convexHull(extremes)
+    if (hull.length < 4) return null
+
+    const perimeter = hull.reduce((sum, p, i) => sum + distance(p, hull[(i + 1) % hull.length]), 0)
+
+    for (let factor = 0.01; factor <= 0.1; factor += 0.005) {
+      const approx = simplifyPolygon(hull, perimeter * factor)
+      if (approx.length === 4) return orderQuad(approx)
+      if (approx.length < 4) break
+    }
+
+    // Fall back to the extreme points along both diagonals
+    const bySum = [...hull].sort((a, b) => a.x + a.y - (b.x + b.y))
+    const byDiff = [...hull].sort((a, b) => a.x - a.y - (b.x - b.y))
+    return orderQuad([bySum[0], byDiff[byDiff.length - 1], bySum[bySum.length - 1], byDiff[0]])
+  }
+
+  /**
+   * Snap each side onto the strongest nearby luminance edge at full resolution,
+   * then rebuild the corners from the fitted lines.
+   */
+  private refineQuad(gray: GrayImage, quad: Quad, radius: number): Quad {
+    const lines: Line[] = []
+
+    for (let side = 0; side < 4; side++) {
+      const a = quad[side]
+      const b = quad[(side + 1) % 4]
+      const length = distance(a, b)
+      if (length < 4) return quad
+
+      const tx = (b.x - a.x) / length
+      const ty = (b.y - a.y) / length
+      const nx = -ty
+      const ny = tx
+      const points: Point[] = []
+      const samples = Math.min(60, Math.floor(length / 4))
+
+      // Skip the ends of each side where rounded corners bend away from the line
+      for (let s = 1; s < samples; s++) {
+        const t = 0.1 + 0.8 * (s / samples)
+        const px = a.x + (b.x - a.x) * t
+        const py = a.y + (b.y - a.y) * t
+        let bestOffset = 0
+        let bestGradient = 0
+
+        for (let d = -radius; d <= radius; d += 0.5) {
+          const before = grayAt(gray, px + nx * (d - 1), py + ny * (d - 1))
+          const after = grayAt(gray, px + nx * (d + 1), py + ny * (d + 1))
+          const gradient = Math.abs(after - before)
+          if (gradient > bestGradient) {
+            bestGradient = gradient
+            bestOffset = d
+          }
+        }
+
+        if (bestGradient > 8) {
+          points.push({ x: px + nx * bestOffset, y: py + ny * bestOffset })
+        }
+      }
+
+      const line = points.length >= samples / 3 ? fitLine(points) : null
+      lines.push(line ?? fitLine([a, b]) as Line)
+    }
+
+    const refined: Point[] = []
+    for (let corner = 0; corner < 4; corner++) {
+      const point = intersectLines(lines[(corner + 3) % 4], lines[corner])
+      // Reject refinements that moved a corner implausibly far
+      if (!point || distance(point, quad[corner]) > radius * 3) return quad
+      refined.push(point)
+    }
+
+    return refined as Quad
+  }
+}
+
+function grayAt(gray: GrayImage, x: number, y: number): number {
+  const cx = Math.min(gray.width - 1, Math.max(0, Math.round(x)))
+  const cy = Math.min(gray.height - 1, Math.max(0, Math.round(y)))
+  return gray.data[cy * gray.width + cx]
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
@@ -0,0 +1,134 @@
+/**
+ * Card Text Parser - Rich Klein: Card fields from raw OCR lines
+ *
+ * Each field records how much we trust it (0-1): the OCR confidence of the line
+ * it came from, scaled by how specific the pattern was. A year in a copyright
+ * line is near-certain; a bare four-digit number on the back is often a stat
+ * line. The player name is the largest name-shaped line on the front.
+ */
+
+import type { ExtractedText, TextExtractionResult } from './VisionPipeline'
+
+export type CardTextField = 'playerName' | 'year' | 'cardNumber' | 'setName' | 'manufacturer'
+
+export const MANUFACTURERS = ['Topps', 'Panini', 'Upper Deck', 'Fleer', 'Donruss', 'Bowman', 'Leaf']
+
+// Words that appear in name-shaped lines but are never part of a player name
+const NON_NAME_WORDS = new Set([
+  'rookie', 'card', 'cards', 'autograph', 'auto', 'patch', 'relic', 'refractor', 'chrome',
+  'series', 'edition', 'limited', 'authentic', 'certified', 'official', 'licensed', 'prizm',
+  'select', 'optic', 'update', 'baseball', 'football', 'basketball', 'hockey', 'soccer'
+])
+
+const COPYRIGHT_YEAR = /(?:©|\(c\)|copyright)\s*((?:19|20)\d{2})/i
+const ANY_YEAR = /\b((?:19|20)\d{2})\b/
+const PREFIXED_NUMBER = /(?:#|\bNo\.?\s?)\s*([A-Z]{0,5}-?[A-Z]{0,4}\d{1,4}[A-Z]?|[A-Z]{2,5}-[A-Z]{1,4})\b/i
+const CODE_NUMBER = /\b([A-Z]{2,5}-[A-Z0-9]{1,4})\b/
+const BARE_NUMBER = /^\d{1,4}[A-Z]?$/
+const NAME_LINE = /^[A-Za-z][A-Za-z'.-]+(?: [A-Za-z][A-Za-z'.-]+){1,2}$/
+
+interface Candidate {
+  value: string
+  confidence: number
+}
+
+export function parseCardText(front: ExtractedText[], back: ExtractedText[] = []): TextExtractionResult {
+  const result: TextExtractionResult = { texts: [...front, ...back], fieldConfidence: {} }
+  const all = [...front, ...back]
+
+  const fields: Record<CardTextField, Candidate | null> = {
+    year: best([
+      ...all.map(line => match(line, COPYRIGHT_YEAR, 0.95)),
+      ...front.map(line => match(line, ANY_YEAR, 0.6)),
+      ...back.map(line => match(line, ANY_YEAR, 0.4))
+    ].filter(candidate => candidate && isPlausibleYear(candidate.value))),
+    cardNumber: best([
+      ...all.map(line => match(line, PREFIXED_NUMBER, 0.9)),
+      ...back.map(line => match(line, CODE_NUMBER, 0.6)),
+      ...all.map(line => isBareCardNumber(line.text) ? { value: line.text.trim(), confidence: line.confidence * 0.5 } : null)
+    ]),
+    manufacturer: best(all.map(line => {
+      const manufacturer = findManufacturer(line.text)
+      return manufacturer ? { value: manufacturer, confidence: line.confidence * 0.9 } : null
+    })),
+    setName: best(all.map(line => setNameFrom(line))),
+    playerName: findPlayerName(front, 0.8) ?? findPlayerName(back, 0.5)
+  }
+
+  for (const field of Object.keys(fields) as CardTextField[]) {
+    const candidate = fields[field]
+    if (!candidate) continue
+    result[field] = candidate.value
+    result.fieldConfidence![field] = candidate.confidence
+  }
+
+  return result
+}
+
+export function findManufacturer(text: string): string | undefined {
+  const lower = text.toLowerCase()
+  return MANUFACTURERS.find(mfg => lower.includes(mfg.toLowerCase()))
+}
+
+function match(line: ExtractedText, pattern: RegExp, weight: number): Candidate | null {
+  const found = line.text.match(pattern)
+  return found ? { value: found[1], confidence: line.confidence * weight } : null
+}
+
+function best(candidates: Array<Candidate | null>): Candidate | null {
+  return candidates.reduce<Candidate | null>(
+    (top, candidate) => (candidate && (!top || candidate.confidence > top.confidence) ? candidate : top),
+    null
+  )
+}
+
+function isPlausibleYear(value: string): boolean {
+  const year = parseInt(value, 10)
+  return year >= 1900 && year <= new Date().getFullYear() + 1
+}
+
+function isBareCardNumber(text: string): boolean {
+  const trimmed = text.trim()
+  return BARE_NUMBER.test(trimmed) && !ANY_YEAR.test(trimmed)
+}
+
+// "2023 Topps Chrome" -> "Topps Chrome"; copyright and legal lines are skipped
+function setNameFrom(line: ExtractedText): Candidate | null {
+  if (COPYRIGHT_YEAR.test(line.text) || /company|inc\b|llc|®|™/i.test(line.text)) return null
+  if (!findManufacturer(line.text)) return null
+
+  const name = line.text
+    .replace(ANY_YEAR, '')
+    .replace(PREFIXED_NUMBER, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+  const words = name.split(' ')
+  // A manufacturer on its own is not a set; long lines are card-back prose
+  if (words.length < 2 || words.length > 5) return null
+
+  return { value: name, confidence: line.confidence * 0.7 }
+}
+
+function findPlayerName(lines: ExtractedText[], weight: number): Candidate | null {
+  let top: { line: ExtractedText; score: number } | null = null
+
+  for (const line of lines) {
+    const text = line.text.trim()
+    if (!NAME_LINE.test(text) || findManufacturer(text)) continue
+    if (text.split(' ').some(word => NON_NAME_WORDS.has(word.toLowerCase()))) continue
+
+    // Names are printed larger than anything else that looks like a name
+    const score = line.boundingBox[3] * line.confidence
+    if (!top || score > top.score) top = { line, score }
+  }
+
+  if (!top) return null
+  return { value: toTitleCase(top.line.text.trim()), confidence: top.line.confidence * weight }
+}
+
+function toTitleCase(text: string): string {
+  if (text !== text.toUpperCase()) return text
+  return text
+    .toLowerCase()
+    .replace(/(^|[\s'.-])([a-z])/g, (_, separator: string, letter: string) => separator + letter.toUpperCase())
+}
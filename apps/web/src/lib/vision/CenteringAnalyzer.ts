@@ -0,0 +1,185 @@
+/**
+ * Centering Analyzer - Fei-Fei Li: Measured centering from the printed border
+ *
+ * Works on the rectified card (see CardDetector). For each side we walk inward
+ * along many scanlines until the colour leaves the border colour, then take the
+ * median border width. Ratios follow grading-company convention: 55/45 means
+ * the left (or top) border is 55% of the combined border width.
+ */
+
+import { CenteringScore } from '../domain/models'
+
+export interface BorderWidths {
+  left: number
+  right: number
+  top: number
+  bottom: number
+}
+
+// Rectangles normalised to the card image (0-1), so they can be drawn at any size
+export interface NormalizedRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface CenteringOverlay {
+  outer: NormalizedRect
+  inner: NormalizedRect
+}
+
+export interface CenteringMeasurement {
+  score: CenteringScore
+  // Unrounded ratios (left share and top share, 0-100)
+  leftRight: number
+  topBottom: number
+  borders: BorderWidths
+  overlay: CenteringOverlay
+  // 0-1; low when a border could not be found (full-bleed designs, glare)
+  confidence: number
+}
+
+export interface CenteringAnalysis {
+  front: CenteringMeasurement
+  back?: CenteringMeasurement
+}
+
+export interface CenteringAnalyzerOptions {
+  scanlines?: number
+  maxBorderFraction?: number
+  colorThreshold?: number
+}
+
+interface SideResult {
+  width: number
+  found: number
+  spread: number
+}
+
+export class CenteringAnalyzer {
+  private readonly scanlines: number
+  private readonly maxBorderFraction: number
+  private readonly colorThreshold: number
+
+  constructor(options: CenteringAnalyzerOptions = {}) {
+    this.scanlines = options.scanlines ?? 41
+    this.maxBorderFraction = options.maxBorderFraction ?? 0.25
+    this.colorThreshold = options.colorThreshold ?? 40
+  }
+
+  analyze(front: ImageData, back?: ImageData): CenteringAnalysis {
+    return {
+      front: this.measure(front),
+      back: back ? this.measure(back) : undefined
+    }
+  }
+
+  measure(card: ImageData): CenteringMeasurement {
+    const { width, height } = card
+    const left = this.measureSide(card, 'left')
+    const right = this.measureSide(card, 'right')
+    const top = this.measureSide(card, 'top')
+    const bottom = this.measureSide(card, 'bottom')
+
+    const leftRight = ratio(left.width, right.width)
+    const topBottom = ratio(top.width, bottom.width)
+
+    const sideConfidence = (side: SideResult) => side.found * Math.max(0, 1 - side.spread)
+    const confidence = Math.min(
+      sideConfidence(left),
+      sideConfidence(right),
+      sideConfidence(top),
+      sideConfidence(bottom)
+    )
+
+    const borders = { left: left.width, right: right.width, top: top.width, bottom: bottom.width }
+
+    return {
+      score: new CenteringScore(Math.round(leftRight), Math.round(topBottom)),
+      leftRight,
+      topBottom,
+      borders,
+      overlay: {
+        outer: { x: 0, y: 0, width: 1, height: 1 },
+        inner: {
+          x: borders.left / width,
+          y: borders.top / height,
+          width: Math.max(0, width - borders.left - borders.right) / width,
+          height: Math.max(0, height - borders.top - borders.bottom) / height
+        }
+      },
+      confidence
+    }
+  }
+
+  private measureSide(card: ImageData, side: keyof BorderWidths): SideResult {
+    const horizontal = side === 'left' || side === 'right'
+    // Depth runs from the outer edge inward; position runs along the edge
+    const depthSize = horizontal ? card.width : card.height
+    const alongSize = horizontal ? card.height : card.width
+    const skip = Math.max(1, Math.round(depthSize * 0.01))
+    const reference = Math.max(3, Math.round(depthSize * 0.015))
+    const maxDepth = Math.round(depthSize * this.maxBorderFraction)
+
+    const pixelAt = (depth: number, along: number): number => {
+      const d = side === 'right' || side === 'bottom' ? depthSize - 1 - depth : depth
+      const x = horizontal ? d : along
+      const y = horizontal ? along : d
+      return (y * card.width + x) * 4
+    }
+
+    const widths: number[] = []
+
+    for (let s = 0; s < this.scanlines; s++) {
+      // Middle 70% of the edge, away from rounded corners
+      const along = Math.round(alongSize * (0.15 + 0.7 * (s / (this.scanlines - 1))))
+
+      const border = [0, 0, 0]
+      for (let d = skip; d < skip + reference; d++) {
+        const p = pixelAt(d, along)
+        border[0] += card.data[p] / reference
+        border[1] += card.data[p + 1] / reference
+        border[2] += card.data[p + 2] / reference
+      }
+
+      let run = 0
+      for (let d = skip + reference; d < maxDepth; d++) {
+        const p = pixelAt(d, along)
+        const diff = Math.hypot(
+          card.data[p] - border[0],
+          card.data[p + 1] - border[1],
+          card.data[p + 2] - border[2]
+        )
+
+        run = diff > this.colorThreshold ? run + 1 : 0
+        // Require a few consecutive pixels so print noise doesn't end the border early
+        if (run === 3) {
+          widths.push(d - 2)
+          break
+        }
+      }
+    }
+
+    if (widths.length === 0) {
+      return { width: 0, found: 0, spread: 1 }
+    }
+
+    const sorted = [...widths].sort((a, b) => a - b)
+    const median = sorted[Math.floor(sorted.length / 2)]
+    const deviations = sorted.map(w => Math.abs(w - median)).sort((a, b) => a - b)
+    const mad = deviations[Math.floor(deviations.length / 2)]
+
+    return {
+      width: median,
+      found: widths.length / this.scanlines,
+      spread: median > 0 ? Math.min(1, mad / median) : 1
+    }
+  }
+}
+
+function ratio(first: number, second: number): number {
+  const total = first + second
+  if (total === 0) return 50
+  return (first / total) * 100
+}
@@ -0,0 +1,36 @@
+/**
+ * Model Artifact Store - Fei-Fei Li: Downloaded model weights kept in IndexedDB
+ *
+ * One row per model version, so a version bump downloads fresh weights instead
+ * of reusing the old ones.
+ */
+
+import Dexie from 'dexie'
+import type { CachedArtifacts, ModelArtifactCache } from './ModelRegistry'
+
+export class IndexedDBModelArtifactCache implements ModelArtifactCache {
+  private db: Dexie
+  private artifacts: Dexie.Table<CachedArtifacts, [string, string]>
+
+  constructor() {
+    this.db = new Dexie('VeriCardModels')
+
+    this.db.version(1).stores({
+      artifacts: '[id+version], id, cachedAt'
+    })
+
+    this.artifacts = this.db.table('artifacts')
+  }
+
+  async get(id: string, version: string): Promise<CachedArtifacts | null> {
+    return (await this.artifacts.get([id, version])) ?? null
+  }
+
+  async put(entry: CachedArtifacts): Promise<void> {
+    await this.artifacts.put(entry)
+  }
+
+  async delete(id: string, version: string): Promise<void> {
+    await this.artifacts.delete([id, version])
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Model Registry - Fei-Fei Li: Versioned models with cached, verified artifacts
+ *
+ * Every model the app runs is registered with its id, version, type and input
+ * shape. Models with downloaded weights also name where to fetch them and the
+ * SHA-256 their model.json and weights must hash to; nothing unpinned is ever
+ * loaded. Artifacts are fetched once, kept in the artifact cache (IndexedDB in
+ * the browser), and re-hashed on every load so a corrupt or swapped download
+ * is never used.
+ *
+ * TF.js loaders reach the registry through the registry:// URL scheme, e.g.
+ * tf.loadGraphModel(registry.modelUrl('card-detection')).
+ */
+
+import * as tf from '@tensorflow/tfjs'
+import type { ILogger } from '../interfaces/services'
+import type { ModelVersion } from '../domain/models'
+import { ModelLoadError, NotFoundError } from '../errors'
+
+export type ModelType = 'detection' | 'classification' | 'ocr' | 'damage' | 'authenticity'
+
+export interface ModelManifest {
+  id: string
+  version: string
+  type: ModelType
+  // Expected input, -1 for any size, e.g. [-1, -1, 3] for an RGB image
+  inputShape: number[]
+  // Only for models with downloaded weights; classical models are versioned in code
+  artifact?: {
+    // model.json: an absolute URL, or a path under the registry's base URL
+    url: string
+    format: 'graph' | 'layers'
+    // Hex SHA-256 of model.json's contents and the weight data (see checksumOf);
+    // print it with `pnpm model-digest <id>`. An artifact without one is refused.
+    checksum?: string
+  }
+}
+
+export interface CachedArtifacts {
+  id: string
+  version: string
+  checksum: string
+  artifacts: tf.io.ModelArtifacts
+  cachedAt: number
+}
+
+export interface ModelArtifactCache {
+  get(id: string, version: string): Promise<CachedArtifacts | null>
+  put(entry: CachedArtifacts): Promise<void>
+  delete(id: string, version: string): Promise<void>
+}
+
+export interface ModelRegistryOptions {
+  // Where relative artifact URLs live, e.g. '/models' for public/models
+  baseUrl?: string
+  cache?: ModelArtifactCache
+  logger?: ILogger
+  // Defaults to TF.js's HTTP loader
+  fetchArtifacts?: (url: string) => Promise<tf.io.ModelArtifacts>
+}
+
+export const REGISTRY_SCHEME = 'registry://'
+
+export class ModelRegistry {
+  private manifests = new Map<string, ModelManifest>()
+  // Checksums of the artifacts actually loaded this session
+  private loadedChecksums = new Map<string, string>()
+  private readonly baseUrl: string
+  private readonly cache?: ModelArtifactCache
+  private readonly logger?: ILogger
+  private readonly fetchArtifacts: (url: string) => Promise<tf.io.ModelArtifacts>
+  private routerRegistered = false
+
+  constructor(manifests: ModelManifest[] = [], options: ModelRegistryOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? '/models').replace(/\/$/, '')
+    this.cache = options.cache
+    this.logger = options.logger
+    this.fetchArtifacts = options.fetchArtifacts ?? (url => tf.io.http(url).load!())
+    manifests.forEach(manifest => this.register(manifest))
+  }
+
+  register(manifest: ModelManifest): void {
+    this.manifests.set(manifest.id, manifest)
+  }
+
+  get(id: string): ModelManifest {
+    const manifest = this.manifests.get(id)
+    if (!manifest) throw new NotFoundError('Model', id)
+    return manifest
+  }
+
+  list(): ModelManifest[] {
+    return Array.from(this.manifests.values())
+  }
+
+  // What to store with a scan so its grade can be reproduced
+  versions(ids: string[]): ModelVersion[] {
+    return ids.map(id => {
+      const { version, artifact } = this.get(id)
+      const checksum = this.loadedChecksums.get(id) ?? artifact?.checksum
+      return checksum ? { id, version, checksum } : { id, version }
+    })
+  }
+
+  // URL any TF.js loader accepts; resolves to verified, cached artifacts
+  modelUrl(id: string): string {
+    this.get(id)
+    this.registerRouter()
+    return `${REGISTRY_SCHEME}${id}`
+  }
+
+  async loadArtifacts(id: string): Promise<tf.io.ModelArtifacts> {
+    const manifest = this.get(id)
+    if (!manifest.artifact) {
+      throw new ModelLoadError(id, 'Model has no downloadable artifacts')
+    }
+
+    const expected = manifest.artifact.checksum
+    if (!expected) {
+      throw new ModelLoadError(id, 'No pinned checksum; pin the output of `pnpm model-digest` in the manifest')
+    }
+
+    const cached = await this.readCache(manifest, expected)
+    if (cached) return cached
+
+    const url = this.resolveUrl(manifest.artifact.url)
+    let artifacts: tf.io.ModelArtifacts
+    try {
+      artifacts = await this.fetchArtifacts(url)
+    } catch (error) {
+      throw new ModelLoadError(id, `Download from ${url} failed: ${(error as Error).message}`)
+    }
+
+    const checksum = await checksumOf(artifacts)
+    if (checksum !== expected) {
+      throw new ModelLoadError(id, `Checksum mismatch: expected ${expected}, got ${checksum}`)
+    }
+
+    this.loadedChecksums.set(id, checksum)
+    await this.cache?.put({
+      id,
+      version: manifest.version,
+      checksum,
+      artifacts: { ...artifacts, weightData: joinWeights(artifacts.weightData) },
+      cachedAt: Date.now()
+    })
+    return artifacts
+  }
+
+  private async readCache(manifest: ModelManifest, expected: string): Promise<tf.io.ModelArtifacts | null> {
+    if (!this.cache) return null
+
+    let entry: CachedArtifacts | null
+    try {
+      entry = await this.cache.get(manifest.id, manifest.version)
+    } catch (error) {
+      // An unreadable cache only costs a download
+      this.logger?.warn('Model cache unavailable', { id: manifest.id, error: (error as Error).message })
+      return null
+    }
+    if (!entry) return null
+
+    const checksum = await checksumOf(entry.artifacts)
+    if (checksum !== expected) {
+      this.logger?.warn('Cached model failed integrity check; downloading again', {
+        id: manifest.id,
+        version: manifest.version
+      })
+      await this.cache.delete(manifest.id, manifest.version)
+      return null
+    }
+
+    this.loadedChecksums.set(manifest.id, checksum)
+    return entry.artifacts
+  }
+
+  private resolveUrl(url: string): string {
+    return /^[a-z]+:\/\//i.test(url) || url.startsWith('/') ? url : `${this.baseUrl}/${url}`
+  }
+
+  private registerRouter(): void {
+    if (this.routerRegistered) return
+    this.routerRegistered = true
+
+    // Routers return null for URLs they do not handle, which IORouter's type leaves out
+    const router = (url: string | string[]): tf.io.IOHandler | null => {
+      if (typeof url !== 'string' || !url.startsWith(REGISTRY_SCHEME)) return null
+      const id = url.slice(REGISTRY_SCHEME.length)
+      // Another registry may own this id
+      if (!this.manifests.has(id)) return null
+      return { load: () => this.loadArtifacts(id) }
+    }
+    tf.io.registerLoadRouter(router as Parameters<typeof tf.io.registerLoadRouter>[0])
+  }
+}
+
+/**
+ * SHA-256 over model.json's contents (topology, weight specs, format and
+ * metadata, as canonical JSON) followed by the weight data (all shards, in
+ * manifest order), so neither the graph nor the weights can be swapped alone.
+ */
+export async function checksumOf(artifacts: tf.io.ModelArtifacts): Promise<string> {
+  const { weightData, ...modelJson } = artifacts
+  const json = new TextEncoder().encode(canonicalJson(modelJson))
+  const weights = new Uint8Array(joinWeights(weightData))
+  const bytes = new Uint8Array(json.length + weights.length)
+  bytes.set(json)
+  bytes.set(weights, json.length)
+
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// JSON with object keys sorted, so the digest doesn't depend on how the file was written or cached
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    const keys = Object.keys(record).filter(key => record[key] !== undefined && typeof record[key] !== 'function').sort()
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+function joinWeights(weightData?: tf.io.WeightData): ArrayBuffer {
+  if (!weightData) return new ArrayBuffer(0)
+  return Array.isArray(weightData) ? tf.io.CompositeArrayBuffer.join(weightData) : weightData
+}
@@ -0,0 +1,138 @@
+/**
+ * Perceptual Hash - Fei-Fei Li: Compact visual fingerprints for card matching
+ *
+ * Two parts, both computed on the rectified card:
+ * - a 64-bit DCT hash of the 32x32 grayscale image (layout and artwork), which
+ *   survives rescaling, JPEG and mild lighting changes
+ * - a 4x4 grid of mean colours, which separates cards that share a set design
+ *   but differ in team colours or parallel finish
+ * Fingerprints are plain JSON so they can live in IndexedDB.
+ */
+
+import { sampleBilinear } from './image'
+
+export interface CardFingerprint {
+  // 16 hex characters
+  hash: string
+  // 4x4 grid, row-major, RGB triples (48 values, 0-255)
+  colors: number[]
+}
+
+const HASH_SIZE = 32
+const LOW_FREQUENCIES = 8
+const COLOR_GRID = 4
+
+// Share of similarity that comes from the DCT hash; the rest is colour
+const HASH_WEIGHT = 0.75
+
+export function computeFingerprint(card: ImageData): CardFingerprint {
+  return { hash: dctHash(card), colors: colorGrid(card) }
+}
+
+// 0-1, where 1 is identical
+export function fingerprintSimilarity(a: CardFingerprint, b: CardFingerprint): number {
+  const hashSimilarity = 1 - hammingDistance(a.hash, b.hash) / 64
+
+  let colorDistance = 0
+  for (let i = 0; i < a.colors.length; i++) {
+    colorDistance += Math.abs(a.colors[i] - (b.colors[i] ?? 0))
+  }
+  const colorSimilarity = 1 - colorDistance / (a.colors.length * 255)
+
+  return HASH_WEIGHT * hashSimilarity + (1 - HASH_WEIGHT) * colorSimilarity
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i] ?? '0', 16)
+    while (bits) {
+      distance += bits & 1
+      bits >>= 1
+    }
+  }
+  return distance
+}
+
+function dctHash(card: ImageData): string {
+  // Area-average down to 32x32 grayscale
+  const pixels = new Float64Array(HASH_SIZE * HASH_SIZE)
+  const cellWidth = card.width / HASH_SIZE
+  const cellHeight = card.height / HASH_SIZE
+  const steps = 3
+  const sample = [0, 0, 0, 0]
+
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let x = 0; x < HASH_SIZE; x++) {
+      let sum = 0
+      for (let sy = 0; sy < steps; sy++) {
+        for (let sx = 0; sx < steps; sx++) {
+          sampleBilinear(card, (x + (sx + 0.5) / steps) * cellWidth, (y + (sy + 0.5) / steps) * cellHeight, sample)
+          sum += 0.299 * sample[0] + 0.587 * sample[1] + 0.114 * sample[2]
+        }
+      }
+      pixels[y * HASH_SIZE + x] = sum / (steps * steps)
+    }
+  }
+
+  // Only the low-frequency 8x8 corner of the 2-D DCT is needed
+  const cosines: number[][] = []
+  for (let u = 0; u < LOW_FREQUENCIES; u++) {
+    cosines.push([])
+    for (let x = 0; x < HASH_SIZE; x++) {
+      cosines[u].push(Math.cos(((2 * x + 1) * u * Math.PI) / (2 * HASH_SIZE)))
+    }
+  }
+
+  const coefficients: number[] = []
+  for (let v = 0; v < LOW_FREQUENCIES; v++) {
+    for (let u = 0; u < LOW_FREQUENCIES; u++) {
+      let sum = 0
+      for (let y = 0; y < HASH_SIZE; y++) {
+        for (let x = 0; x < HASH_SIZE; x++) {
+          sum += pixels[y * HASH_SIZE + x] * cosines[u][x] * cosines[v][y]
+        }
+      }
+      coefficients.push(sum)
+    }
+  }
+
+  // The DC term is overall brightness; leave it out of the median
+  const median = [...coefficients.slice(1)].sort((a, b) => a - b)[Math.floor((coefficients.length - 1) / 2)]
+
+  let hex = ''
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0
+    for (let bit = 0; bit < 4; bit++) {
+      if (coefficients[i + bit] > median) nibble |= 1 << (3 - bit)
+    }
+    hex += nibble.toString(16)
+  }
+  return hex
+}
+
+function colorGrid(card: ImageData): number[] {
+  const colors: number[] = []
+  const cellWidth = card.width / COLOR_GRID
+  const cellHeight = card.height / COLOR_GRID
+
+  for (let gy = 0; gy < COLOR_GRID; gy++) {
+    for (let gx = 0; gx < COLOR_GRID; gx++) {
+      const totals = [0, 0, 0]
+      let count = 0
+      // Every other pixel is plenty for a mean
+      for (let y = Math.floor(gy * cellHeight); y < Math.floor((gy + 1) * cellHeight); y += 2) {
+        for (let x = Math.floor(gx * cellWidth); x < Math.floor((gx + 1) * cellWidth); x += 2) {
+          const p = (y * card.width + x) * 4
+          totals[0] += card.data[p]
+          totals[1] += card.data[p + 1]
+          totals[2] += card.data[p + 2]
+          count++
+        }
+      }
+      colors.push(...totals.map(total => Math.round(total / Math.max(1, count))))
+    }
+  }
+
+  return colors
+}
@@ -0,0 +1,461 @@
+/**
+ * Reference Comparator - Fei-Fei Li: Check a scan against a known genuine copy
+ *
+ * Both images are rectified cards. The scan is first slid over the reference
+ * to undo small rectification offsets, then compared four ways:
+ * - print pattern: offset printing leaves a fine halftone texture; inkjet,
+ *   laser and re-scanned reprints carry much more or much less of it
+ * - font rendering: text and line art should have the same strokes, equally
+ *   crisp, where the genuine card has them
+ * - logo placement: each detailed region should sit where it does on the
+ *   genuine card; a counterfeit rebuilt from parts drifts
+ * - colour profile: ink colours per region, after removing the lighting tint.
+ *   Removing the tint cannot undo a camera's own colour response, so the
+ *   finding counts for less unless the scan was colour-corrected by a
+ *   calibration profile
+ * Each comparison becomes an AuthenticityIndicator. Without a reference there
+ * is nothing to compare, and the result says so with a low confidence rather
+ * than passing the card.
+ */
+
+import type { AuthenticityIndicator } from '../domain/models'
+import { warpPerspective, Quad } from './geometry'
+import { boxBlur, createImageData, downscale, sobelMagnitude, toGrayscale, GrayImage } from './image'
+import { UNCALIBRATED_CONFIDENCE } from './Calibration'
+
+export type ReferenceFeature = 'print-pattern' | 'font-rendering' | 'logo-placement' | 'color-profile'
+
+export interface ReferenceComparison {
+  hasReference: boolean
+  // Correlation of the aligned scan and reference, 0-1
+  alignment: number
+  // Similarity per comparison, 0-1, where 1 matches the reference
+  scores: Partial<Record<ReferenceFeature, number>>
+  indicators: AuthenticityIndicator[]
+  warnings: string[]
+  // 0-1 confidence that the card matches its reference
+  confidence: number
+  // Any confident mismatch
+  suspicious: boolean
+}
+
+export interface CompareOptions {
+  // The scan was colour-corrected with the camera's calibration profile
+  calibrated?: boolean
+}
+
+// Looks up the genuine reference for a scanned (rectified) card
+export interface ReferenceImageSource {
+  findReference(card: ImageData): Promise<ImageData | null>
+}
+
+// Alignment, placement and colour run at this size; print and font at up to twice it
+const LAYOUT_WIDTH = 250
+const LAYOUT_HEIGHT = 350
+const DETAIL_SCALE = 2
+const MAX_SHIFT = 8
+// Below this correlation the reference is likely another card or variant
+const MIN_ALIGNMENT = 0.45
+const MISSING_REFERENCE_CONFIDENCE = 0.4
+const MISALIGNED_CONFIDENCE = 0.3
+// Halftone energy ratio either way before the print counts as different
+const PRINT_RATIO = 1.8
+const FONT_EDGE_SHARE = 0.04
+const FONT_AGREEMENT = 0.5
+const FONT_SHARPNESS = 0.65
+const GRID_COLUMNS = 5
+const GRID_ROWS = 7
+const PLACEMENT_TILES = 8
+const PLACEMENT_MIN_DETAIL = 12
+const PLACEMENT_SHIFT = 6
+const PLACEMENT_LIMIT = 3
+// Finer than the placement grid so one band of ink fills its cells
+const COLOR_COLUMNS = 10
+const COLOR_ROWS = 14
+const COLOR_LIMIT = 0.03
+const COLOR_CELL_LIMIT = 0.06
+const SUSPICIOUS_CONFIDENCE = 60
+// Standard card width, for reporting placement offsets
+const CARD_WIDTH_MM = 63.5
+
+const ROWS = ['top', '', 'bottom']
+const COLUMNS = ['left', '', 'right']
+
+export class ReferenceComparator {
+  compare(scan: ImageData, reference: ImageData | null, options: CompareOptions = {}): ReferenceComparison {
+    if (!reference) {
+      return {
+        hasReference: false,
+        alignment: 0,
+        scores: {},
+        indicators: [],
+        warnings: ['No genuine reference image for this card, so print, font, logo and colour checks were skipped'],
+        confidence: MISSING_REFERENCE_CONFIDENCE,
+        suspicious: false
+      }
+    }
+
+    const layoutScan = resize(scan, LAYOUT_WIDTH, LAYOUT_HEIGHT)
+    const layoutReference = resize(reference, LAYOUT_WIDTH, LAYOUT_HEIGHT)
+    const { dx, dy, correlation } = align(toGrayscale(layoutScan), toGrayscale(layoutReference))
+    const alignment = Math.max(0, Math.round(correlation * 100) / 100)
+
+    if (correlation < MIN_ALIGNMENT) {
+      return {
+        hasReference: true,
+        alignment,
+        scores: {},
+        indicators: [],
+        warnings: [`The scan does not line up with the genuine reference (${Math.round(alignment * 100)}% match). It may be a different card or variant, or a counterfeit`],
+        confidence: MISALIGNED_CONFIDENCE,
+        suspicious: false
+      }
+    }
+
+    const detailWidth = Math.min(LAYOUT_WIDTH * DETAIL_SCALE, scan.width, reference.width)
+    const detailScale = detailWidth / LAYOUT_WIDTH
+    const detailHeight = Math.round(LAYOUT_HEIGHT * detailScale)
+    const detailScan = shift(toGrayscale(resize(scan, detailWidth, detailHeight)), dx * detailScale, dy * detailScale)
+    const detailReference = toGrayscale(resize(reference, detailWidth, detailHeight))
+    const alignedLayout = shiftImage(layoutScan, dx, dy)
+
+    const indicators: AuthenticityIndicator[] = []
+    const warnings: string[] = []
+    const scores: Partial<Record<ReferenceFeature, number>> = {}
+
+    const print = comparePrint(detailScan, detailReference)
+    scores['print-pattern'] = print.score
+    indicators.push({ feature: 'print-pattern', detected: print.mismatch, confidence: print.confidence })
+    if (print.mismatch) {
+      const texture = print.ratio < 1 ? 'smoother' : 'noisier'
+      warnings.push(`Print texture is ${texture} than the genuine card's halftone (${Math.round(print.ratio * 100)}% of its fine detail). Possible reprint`)
+    }
+
+    const font = compareFont(detailScan, detailReference)
+    scores['font-rendering'] = font.score
+    indicators.push({ feature: 'font-rendering', detected: font.mismatch, confidence: font.confidence })
+    if (font.mismatch) {
+      warnings.push(`Text and line art differ from the genuine card (${Math.round(font.agreement * 100)}% stroke match, ${Math.round(font.sharpness * 100)}% as sharp). Possible counterfeit`)
+    }
+
+    const placement = comparePlacement(toGrayscale(alignedLayout), toGrayscale(layoutReference))
+    scores['logo-placement'] = placement.score
+    indicators.push({ feature: 'logo-placement', detected: placement.regions.length > 0, confidence: placement.confidence })
+    if (placement.regions.length > 0) {
+      const offsetMm = Math.round(placement.worst * CARD_WIDTH_MM / LAYOUT_WIDTH * 10) / 10
+      warnings.push(`Design elements at ${joinRegions(placement.regions)} sit up to ${offsetMm} mm from where the genuine card prints them. Possible counterfeit`)
+    }
+
+    const color = compareColor(alignedLayout, layoutReference)
+    scores['color-profile'] = color.score
+    const colorWeight = options.calibrated ? 1 : UNCALIBRATED_CONFIDENCE
+    indicators.push({ feature: 'color-profile', detected: color.mismatch, confidence: Math.round(color.confidence * colorWeight) })
+    if (color.mismatch) {
+      warnings.push(`Ink colours at ${joinRegions(color.regions)} do not match the genuine card. Possible counterfeit`)
+    }
+
+    const confidence = indicators.reduce(
+      (sum, indicator) => sum + (indicator.detected ? 100 - indicator.confidence : indicator.confidence),
+      0
+    ) / indicators.length / 100
+
+    return {
+      hasReference: true,
+      alignment,
+      scores,
+      indicators,
+      warnings,
+      confidence: Math.round(confidence * 100) / 100,
+      suspicious: indicators.some(indicator => indicator.detected && indicator.confidence >= SUSPICIOUS_CONFIDENCE)
+    }
+  }
+}
+
+function resize(image: ImageData, width: number, height: number): ImageData {
+  if (image.width === width && image.height === height) return image
+  // Box-filter first so the bilinear warp does not alias when shrinking
+  const { image: reduced } = downscale(image, Math.max(width, height) * 1.5)
+  const frame: Quad = [
+    { x: 0, y: 0 },
+    { x: reduced.width - 1, y: 0 },
+    { x: reduced.width - 1, y: reduced.height - 1 },
+    { x: 0, y: reduced.height - 1 }
+  ]
+  return warpPerspective(reduced, frame, width, height)
+}
+
+// Translation of the scan that best matches the reference, by normalized cross-correlation
+function align(scan: GrayImage, reference: GrayImage): { dx: number; dy: number; correlation: number } {
+  let best = { dx: 0, dy: 0, correlation: -1 }
+  for (let dy = -MAX_SHIFT; dy <= MAX_SHIFT; dy++) {
+    for (let dx = -MAX_SHIFT; dx <= MAX_SHIFT; dx++) {
+      const correlation = correlate(scan, reference, dx, dy, MAX_SHIFT, MAX_SHIFT, scan.width - MAX_SHIFT, scan.height - MAX_SHIFT, 2)
+      if (correlation > best.correlation) best = { dx, dy, correlation }
+    }
+  }
+  return best
+}
+
+// NCC of scan(x + dx, y + dy) against reference(x, y) over a window
+function correlate(
+  scan: GrayImage,
+  reference: GrayImage,
+  dx: number,
+  dy: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  step = 1
+): number {
+  let n = 0, sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0
+  for (let y = y0; y < y1; y += step) {
+    const sy = y + dy
+    if (sy < 0 || sy >= scan.height) continue
+    for (let x = x0; x < x1; x += step) {
+      const sx = x + dx
+      if (sx < 0 || sx >= scan.width) continue
+      const a = scan.data[sy * scan.width + sx]
+      const b = reference.data[y * reference.width + x]
+      n++
+      sumA += a
+      sumB += b
+      sumAA += a * a
+      sumBB += b * b
+      sumAB += a * b
+    }
+  }
+  if (n === 0) return 0
+  const covariance = sumAB - (sumA * sumB) / n
+  const variance = Math.sqrt((sumAA - (sumA * sumA) / n) * (sumBB - (sumB * sumB) / n))
+  return variance > 1e-6 ? covariance / variance : 0
+}
+
+function shift(gray: GrayImage, dx: number, dy: number): GrayImage {
+  const { width, height } = gray
+  const data = new Float32Array(width * height)
+  const ox = Math.round(dx)
+  const oy = Math.round(dy)
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(height - 1, Math.max(0, y + oy))
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(width - 1, Math.max(0, x + ox))
+      data[y * width + x] = gray.data[sy * width + sx]
+    }
+  }
+  return { width, height, data }
+}
+
+function shiftImage(image: ImageData, dx: number, dy: number): ImageData {
+  const { width, height } = image
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(height - 1, Math.max(0, y + dy))
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(width - 1, Math.max(0, x + dx))
+      data.set(image.data.subarray((sy * width + sx) * 4, (sy * width + sx) * 4 + 4), (y * width + x) * 4)
+    }
+  }
+  return createImageData(width, height, data)
+}
+
+// Fine detail left after a 3x3 blur, over the reference's mid-tones where halftone dots live
+function comparePrint(scan: GrayImage, reference: GrayImage) {
+  const blurredScan = boxBlur(scan, 1)
+  const blurredReference = boxBlur(reference, 1)
+  let scanEnergy = 0
+  let referenceEnergy = 0
+  for (let i = 0; i < reference.data.length; i++) {
+    if (blurredReference[i] < 50 || blurredReference[i] > 205) continue
+    scanEnergy += Math.abs(scan.data[i] - blurredScan[i])
+    referenceEnergy += Math.abs(reference.data[i] - blurredReference[i])
+  }
+  const ratio = referenceEnergy > 0 ? scanEnergy / referenceEnergy : 1
+  const difference = Math.abs(Math.log(Math.max(ratio, 1e-3)))
+  const limit = Math.log(PRINT_RATIO)
+  return {
+    ratio: Math.round(ratio * 100) / 100,
+    score: Math.round(Math.exp(-difference) * 100) / 100,
+    mismatch: difference >= limit,
+    confidence: certainty(difference, limit)
+  }
+}
+
+// Stroke positions and crispness where the reference has its strongest edges
+function compareFont(scan: GrayImage, reference: GrayImage) {
+  const scanGradient = sobelMagnitude(scan)
+  const referenceGradient = sobelMagnitude(reference)
+  const cutoff = quantile(referenceGradient, 1 - FONT_EDGE_SHARE)
+  // Slightly widened so a one-pixel offset still counts as the same stroke
+  const mask = boxBlur({ width: reference.width, height: reference.height, data: referenceGradient.map(g => g >= cutoff && g > 0 ? 1 : 0) }, 1)
+  const softScan = boxBlur({ width: scan.width, height: scan.height, data: scanGradient }, 1)
+  const softReference = boxBlur({ width: reference.width, height: reference.height, data: referenceGradient }, 1)
+
+  let n = 0, sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i] <= 0) continue
+    const a = softScan[i]
+    const b = softReference[i]
+    n++
+    sumA += a
+    sumB += b
+    sumAA += a * a
+    sumBB += b * b
+    sumAB += a * b
+  }
+  const variance = Math.sqrt((sumAA - (sumA * sumA) / Math.max(n, 1)) * (sumBB - (sumB * sumB) / Math.max(n, 1)))
+  const agreement = n > 0 && variance > 1e-6 ? Math.max(0, (sumAB - (sumA * sumB) / n) / variance) : 0
+  // Edge strength relative to overall contrast, so exposure differences cancel
+  const sharpness = n > 0 && sumB > 0
+    ? Math.min(1.5, (sumA / standardDeviation(scan.data)) / (sumB / standardDeviation(reference.data)))
+    : 1
+
+  const mismatch = agreement < FONT_AGREEMENT || sharpness < FONT_SHARPNESS
+  const margin = Math.min(agreement / FONT_AGREEMENT, sharpness / FONT_SHARPNESS)
+  return {
+    agreement,
+    sharpness,
+    score: Math.round(Math.min(1, agreement, sharpness) * 100) / 100,
+    mismatch,
+    confidence: certainty(margin, 1)
+  }
+}
+
+// Local offsets of the most detailed grid cells after global alignment
+function comparePlacement(scan: GrayImage, reference: GrayImage) {
+  const cellWidth = Math.floor(reference.width / GRID_COLUMNS)
+  const cellHeight = Math.floor(reference.height / GRID_ROWS)
+  const cells: Array<{ cell: number; detail: number }> = []
+  for (let cell = 0; cell < GRID_COLUMNS * GRID_ROWS; cell++) {
+    const x0 = (cell % GRID_COLUMNS) * cellWidth
+    const y0 = Math.floor(cell / GRID_COLUMNS) * cellHeight
+    const values: number[] = []
+    for (let y = y0; y < y0 + cellHeight; y += 2) {
+      for (let x = x0; x < x0 + cellWidth; x += 2) values.push(reference.data[y * reference.width + x])
+    }
+    cells.push({ cell, detail: standardDeviation(values) })
+  }
+
+  const detailed = cells
+    .filter(({ detail }) => detail >= PLACEMENT_MIN_DETAIL)
+    .sort((a, b) => b.detail - a.detail)
+    .slice(0, PLACEMENT_TILES)
+
+  const regions: string[] = []
+  let worst = 0
+  detailed.forEach(({ cell }) => {
+    const x0 = (cell % GRID_COLUMNS) * cellWidth
+    const y0 = Math.floor(cell / GRID_COLUMNS) * cellHeight
+    const window = [x0, y0, x0 + cellWidth, y0 + cellHeight] as const
+    const inPlace = correlate(scan, reference, 0, 0, ...window)
+    let best = { offset: 0, correlation: inPlace }
+    for (let dy = -PLACEMENT_SHIFT; dy <= PLACEMENT_SHIFT; dy++) {
+      for (let dx = -PLACEMENT_SHIFT; dx <= PLACEMENT_SHIFT; dx++) {
+        const correlation = correlate(scan, reference, dx, dy, ...window)
+        if (correlation > best.correlation) best = { offset: Math.hypot(dx, dy), correlation }
+      }
+    }
+    // The element is there, just somewhere else
+    if (best.offset >= PLACEMENT_LIMIT && best.correlation >= 0.6 && best.correlation - inPlace >= 0.1) {
+      worst = Math.max(worst, best.offset)
+      const name = regionOf(cell, GRID_COLUMNS, GRID_ROWS)
+      if (!regions.includes(name)) regions.push(name)
+    }
+  })
+
+  return {
+    regions,
+    worst,
+    score: Math.round(Math.max(0, 1 - worst / (PLACEMENT_SHIFT * 1.5)) * 100) / 100,
+    confidence: detailed.length === 0 ? 0 : certainty(Math.max(worst, 0.5), PLACEMENT_LIMIT)
+  }
+}
+
+// Per-cell chromaticity after dividing out each image's mean colour (the lighting tint)
+function compareColor(scan: ImageData, reference: ImageData) {
+  const scanCells = chromaticityGrid(scan)
+  const referenceCells = chromaticityGrid(reference)
+  const differences = scanCells.map(([r, g], i) =>
+    Math.abs(r - referenceCells[i][0]) + Math.abs(g - referenceCells[i][1])
+  )
+  const mean = differences.reduce((sum, d) => sum + d, 0) / differences.length
+  // A whole-card shift, or one ink off in a region; one odd cell alone may be glare
+  const secondWorst = differences.slice().sort((a, b) => b - a)[1] ?? 0
+  const severity = Math.max(mean / COLOR_LIMIT, secondWorst / COLOR_CELL_LIMIT)
+  const regions: string[] = []
+  differences.forEach((difference, cell) => {
+    if (difference < COLOR_CELL_LIMIT) return
+    const name = regionOf(cell, COLOR_COLUMNS, COLOR_ROWS)
+    if (!regions.includes(name)) regions.push(name)
+  })
+  return {
+    mismatch: severity >= 1,
+    regions: regions.length > 0 ? regions : ['the whole card'],
+    score: Math.round(Math.max(0, 1 - severity / 2) * 100) / 100,
+    confidence: certainty(severity, 1)
+  }
+}
+
+function chromaticityGrid(image: ImageData): Array<[number, number]> {
+  const { width, height, data } = image
+  const mean = [0, 0, 0]
+  for (let p = 0; p < data.length; p += 4) {
+    mean[0] += data[p]
+    mean[1] += data[p + 1]
+    mean[2] += data[p + 2]
+  }
+  const pixels = data.length / 4
+  const balance = mean.map(total => Math.max(1, total / pixels))
+
+  const cellWidth = Math.floor(width / COLOR_COLUMNS)
+  const cellHeight = Math.floor(height / COLOR_ROWS)
+  const cells: Array<[number, number]> = []
+  for (let cell = 0; cell < COLOR_COLUMNS * COLOR_ROWS; cell++) {
+    const x0 = (cell % COLOR_COLUMNS) * cellWidth
+    const y0 = Math.floor(cell / COLOR_COLUMNS) * cellHeight
+    const sum = [0, 0, 0]
+    for (let y = y0; y < y0 + cellHeight; y++) {
+      for (let x = x0; x < x0 + cellWidth; x++) {
+        const p = (y * width + x) * 4
+        for (let c = 0; c < 3; c++) sum[c] += data[p + c] / balance[c]
+      }
+    }
+    const total = Math.max(1e-6, sum[0] + sum[1] + sum[2])
+    cells.push([sum[0] / total, sum[1] / total])
+  }
+  return cells
+}
+
+// Grid cell named on a 3x3 layout
+function regionOf(cell: number, columns: number, rows: number): string {
+  const row = Math.min(2, Math.floor((Math.floor(cell / columns) * 3) / rows))
+  const column = Math.min(2, Math.floor(((cell % columns) * 3) / columns))
+  return [ROWS[row], COLUMNS[column]].filter(Boolean).join('-') || 'center'
+}
+
+function quantile(values: Float32Array, q: number): number {
+  const sorted = Float32Array.from(values).sort()
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * q))]
+}
+
+function standardDeviation(values: ArrayLike<number>): number {
+  let sum = 0
+  let sumSquares = 0
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i]
+    sumSquares += values[i] * values[i]
+  }
+  const mean = sum / Math.max(1, values.length)
+  return Math.max(1e-6, Math.sqrt(Math.max(0, sumSquares / Math.max(1, values.length) - mean * mean)))
+}
+
+// 50 at the threshold, rising to 100 as the value moves well clear of it either way
+function certainty(value: number, threshold: number): number {
+  const distanceFromThreshold = Math.min(1, Math.abs(value - threshold) / threshold)
+  return Math.round(50 + 50 * distanceFromThreshold)
+}
+
+function joinRegions(regions: string[]): string {
+  if (regions.length <= 1) return regions[0] ?? ''
+  return `${regions.slice(0, -1).join(', ')} and ${regions[regions.length - 1]}`
+}
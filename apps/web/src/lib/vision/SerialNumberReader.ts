@@ -0,0 +1,269 @@
+/**
+ * Serial Number Reader - Rich Klein: Stamped and foil serial numbers ("23/99")
+ *
+ * The regular OCR pass usually catches ink-stamped serials. Foil stamps reflect
+ * light and come out as faint or inverted text, so when the regular pass finds
+ * nothing we look for what a stamp looks like in the pixels: a short row of
+ * same-height marks with a slash among them, somewhere the regular pass read
+ * no text. Only those rows get a local-contrast OCR pass, in the polarity the
+ * marks were found in, so a card without a stamp costs no extra pass. A serial
+ * is only taken when it stands alone the way stamps do, never from a stat line.
+ * The print run is then checked against the parallels the catalog knows about.
+ */
+
+import type { ExtractedText } from './VisionPipeline'
+import type { OcrEngine } from './TextRecognizer'
+import type { CardVariant } from '../interfaces/services'
+import { toGrayscale, boxBlur, createImageData, cropImageData, downscale, connectedComponents } from './image'
+
+export interface SerialNumber {
+  number: number
+  printRun: number
+  // As printed, e.g. "023/199"
+  text: string
+  // 0-1
+  confidence: number
+  face: 'front' | 'back'
+}
+
+export interface PrintRunCheck {
+  // Known parallel with this print run, when there is one
+  matchedVariant?: string
+  // Set when the serial cannot belong to any known parallel
+  warning?: string
+}
+
+// A row of marks laid out like a serial stamp
+export interface SerialStamp {
+  // x, y, width, height in the face's pixels
+  box: [number, number, number, number]
+  // Foil catches the light: marks brighter than the card around them
+  bright: boolean
+}
+
+interface CardFaces<T> {
+  front?: T
+  back?: T
+}
+
+// Glyph-sized blob in the stamp search, in search-scale pixels
+interface Mark {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+  slash: boolean
+}
+
+// The whole line is the serial: "23/99", "023 / 199", "#23/99", "No. 23/99";
+// not dates ("04/15/98") or fractions among other text ("FG 4/15 .267")
+const SERIAL_PATTERN = /^(?:#|No\.?)?\s*(\d{1,4})\s?\/\s?(\d{1,4})\.?$/i
+
+// Confidence penalty for serials only found in the enhanced foil pass
+const FOIL_PASS_WEIGHT = 0.8
+// Longest side the stamp search works at
+const STAMP_SEARCH_SIDE = 640
+// Gray levels a mark stands out from its neighbourhood by
+const MARK_CONTRAST = 24
+// Glyph height range, as a share of the face height
+const MIN_GLYPH_HEIGHT = 0.012
+const MAX_GLYPH_HEIGHT = 0.08
+// "1/1" to "1234/5000"
+const MIN_STAMP_MARKS = 3
+const MAX_STAMP_MARKS = 10
+// Foil passes per face at most
+const MAX_STAMPS = 2
+
+export function parseSerialNumber(text: string): Pick<SerialNumber, 'number' | 'printRun' | 'text'> | null {
+  const match = text.trim().match(SERIAL_PATTERN)
+  if (!match) return null
+
+  const number = parseInt(match[1], 10)
+  const printRun = parseInt(match[2], 10)
+  if (number < 1 || printRun < 1 || number > printRun) return null
+
+  return { number, printRun, text: `${match[1]}/${match[2]}` }
+}
+
+export function checkPrintRun(serial: SerialNumber, variants: CardVariant[]): PrintRunCheck {
+  const numbered = variants.filter(v => v.estimatedPrintRun !== undefined)
+  // Nothing to compare against: unverified, not suspicious
+  if (numbered.length === 0) return {}
+
+  const match = numbered.find(v => v.estimatedPrintRun === serial.printRun)
+  if (match) return { matchedVariant: match.name }
+
+  const known = numbered.map(v => `/${v.estimatedPrintRun}`).join(', ')
+  return {
+    warning: `Serial number ${serial.text} does not match any known parallel print run (${known})`
+  }
+}
+
+export class SerialNumberReader {
+  constructor(private ocrEngine: OcrEngine) {}
+
+  // lines: what the regular OCR pass already read from each face
+  async read(
+    faces: CardFaces<ImageData | string>,
+    lines: CardFaces<ExtractedText[]>
+  ): Promise<SerialNumber | null> {
+    for (const face of ['front', 'back'] as const) {
+      const found = this.findInLines(lines[face] ?? [], face, 1)
+      if (found) return found
+    }
+
+    for (const face of ['front', 'back'] as const) {
+      const image = faces[face]
+      // Enhancement needs pixels; raw data URL captures only get the regular pass
+      if (!image || typeof image === 'string') continue
+
+      for (const { box: [x, y, width, height], bright } of findSerialStamps(image, lines[face])) {
+        // Tesseract wants some margin around the text
+        const stamp = cropImageData(image, Math.max(0, x - height), Math.max(0, y - height), width + height * 2, height * 3)
+        // Dark-on-light either way: bright foil marks are flipped, ink marks are not
+        const enhanced = await this.ocrEngine.recognize(enhanceForFoil(stamp, !bright))
+        const found = this.findInLines(enhanced, face, FOIL_PASS_WEIGHT)
+        if (found) return found
+      }
+    }
+
+    return null
+  }
+
+  private findInLines(lines: ExtractedText[], face: 'front' | 'back', weight: number): SerialNumber | null {
+    for (const line of lines) {
+      const parsed = parseSerialNumber(line.text)
+      if (parsed) {
+        return { ...parsed, confidence: line.confidence * weight, face }
+      }
+    }
+    return null
+  }
+}
+
+/**
+ * Rows of marks shaped like a serial stamp, widest first: 3-10 glyph-sized
+ * marks of similar height side by side, one of them a slash. Marks are found
+ * by local contrast in both polarities; rows overlapping text the regular pass
+ * already read (lines) are skipped, since it found no serial there.
+ */
+export function findSerialStamps(image: ImageData, lines: ExtractedText[] = []): SerialStamp[] {
+  const { image: small, scale } = downscale(image, STAMP_SEARCH_SIDE)
+  const gray = toGrayscale(small)
+  const background = boxBlur(gray, Math.max(4, Math.round(small.width / 40)))
+  const minHeight = Math.max(5, small.height * MIN_GLYPH_HEIGHT)
+  const maxHeight = small.height * MAX_GLYPH_HEIGHT
+  const stamps: SerialStamp[] = []
+
+  for (const bright of [true, false]) {
+    const mask = new Uint8Array(gray.data.length)
+    for (let i = 0; i < mask.length; i++) {
+      const difference = gray.data[i] - background[i]
+      mask[i] = (bright ? difference : -difference) > MARK_CONTRAST ? 1 : 0
+    }
+
+    const marks = connectedComponents(mask, small.width, small.height)
+      .map(component => toMark(component, small.width))
+      .filter(mark => {
+        const height = mark.y1 - mark.y0
+        return height >= minHeight && height <= maxHeight && mark.x1 - mark.x0 <= height * 1.2
+      })
+
+    groupRows(marks)
+      .filter(row => row.length >= MIN_STAMP_MARKS && row.length <= MAX_STAMP_MARKS && row.some(mark => mark.slash))
+      .forEach(row => {
+        const x0 = Math.min(...row.map(mark => mark.x0))
+        const y0 = Math.min(...row.map(mark => mark.y0))
+        const x1 = Math.max(...row.map(mark => mark.x1))
+        const y1 = Math.max(...row.map(mark => mark.y1))
+        const box: SerialStamp['box'] = [x0 / scale, y0 / scale, (x1 - x0) / scale, (y1 - y0) / scale]
+        if (!lines.some(line => overlapShare(box, line.boundingBox) > 0.5)) stamps.push({ box, bright })
+      })
+  }
+
+  return stamps.sort((a, b) => b.box[2] - a.box[2]).slice(0, MAX_STAMPS)
+}
+
+// Bounds of a component, and whether it leans like a slash: thin, with its top well right of its bottom
+function toMark(component: number[], width: number): Mark {
+  let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity
+  for (const index of component) {
+    const x = index % width
+    const y = (index - x) / width
+    x0 = Math.min(x0, x)
+    y0 = Math.min(y0, y)
+    x1 = Math.max(x1, x + 1)
+    y1 = Math.max(y1, y + 1)
+  }
+
+  const markWidth = x1 - x0
+  const markHeight = y1 - y0
+  const quarter = markHeight / 4
+  let top = 0, topCount = 0, bottom = 0, bottomCount = 0
+  for (const index of component) {
+    const x = index % width
+    const y = (index - x) / width
+    if (y < y0 + quarter) { top += x; topCount++ }
+    if (y >= y1 - quarter) { bottom += x; bottomCount++ }
+  }
+  const lean = topCount > 0 && bottomCount > 0 ? (top / topCount - bottom / bottomCount) / markWidth : 0
+  const fill = component.length / (markWidth * markHeight)
+
+  return {
+    x0, y0, x1, y1,
+    slash: markWidth >= markHeight * 0.3 && fill <= 0.5 && lean > 0.45
+  }
+}
+
+// Marks chained left to right while they share a baseline and height and sit close together
+function groupRows(marks: Mark[]): Mark[][] {
+  const rows: Mark[][] = []
+
+  marks
+    .sort((a, b) => a.x0 - b.x0)
+    .forEach(mark => {
+      const height = mark.y1 - mark.y0
+      const row = rows.find(candidate => {
+        const last = candidate[candidate.length - 1]
+        const lastHeight = last.y1 - last.y0
+        const gap = mark.x0 - last.x1
+        return (
+          height / lastHeight > 0.6 && height / lastHeight < 1.6 &&
+          Math.abs((mark.y0 + mark.y1) - (last.y0 + last.y1)) / 2 < Math.max(height, lastHeight) * 0.35 &&
+          gap >= -1 && gap <= Math.max(height, lastHeight) * 0.8
+        )
+      })
+      if (row) row.push(mark)
+      else rows.push([mark])
+    })
+
+  return rows
+}
+
+// Share of box a covered by box b, both [x, y, width, height]
+function overlapShare(a: [number, number, number, number], b: [number, number, number, number]): number {
+  const width = Math.min(a[0] + a[2], b[0] + b[2]) - Math.max(a[0], b[0])
+  const height = Math.min(a[1] + a[3], b[1] + b[3]) - Math.max(a[1], b[1])
+  return width > 0 && height > 0 ? (width * height) / (a[2] * a[3]) : 0
+}
+
+/**
+ * Local-contrast stretch: foil digits differ from their surroundings mostly in
+ * brightness, not colour. Output is grayscale with text dark on light (or the
+ * reverse when invert is set), which is what Tesseract reads best.
+ */
+export function enhanceForFoil(image: ImageData, invert = false): ImageData {
+  const gray = toGrayscale(image)
+  const background = boxBlur(gray, Math.max(4, Math.round(image.width / 40)))
+  const out = new Uint8ClampedArray(image.width * image.height * 4)
+  const sign = invert ? 1 : -1
+
+  for (let i = 0; i < gray.data.length; i++) {
+    const value = 200 + sign * 4 * (gray.data[i] - background[i])
+    const p = i * 4
+    out[p] = out[p + 1] = out[p + 2] = value
+    out[p + 3] = 255
+  }
+
+  return createImageData(image.width, image.height, out)
+}
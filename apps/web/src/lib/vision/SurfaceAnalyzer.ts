@@ -0,0 +1,476 @@
+/**
+ * Surface Analyzer - Fei-Fei Li: Scratches, print lines, stains and fading with a heatmap
+ *
+ * Runs on the rectified card. The outer margin is skipped (corners and edges
+ * belong to WearAnalyzer). Detectors, all on raw pixels:
+ * - scratch: thin, elongated, bright and unsaturated streaks in the high-pass image
+ * - print-defect: rows/columns with a consistent offset across most of the card
+ * - stain: low-texture patches shifted warmer (yellow-brown) than their surroundings
+ * - fade: regions (or the whole card) that lost saturation and contrast
+ */
+
+import { toGrayscale, boxBlur, sobelMagnitude, createImageData, connectedComponents } from './image'
+import { Damage } from '../domain/models'
+import type { DetectedDamage } from './VisionPipeline'
+
+export type SurfaceDefectType = 'scratch' | 'stain' | 'fade' | 'print-defect'
+
+export interface SurfaceDefect extends DetectedDamage {
+  type: SurfaceDefectType
+}
+
+export interface SurfaceAnalysis {
+  defects: SurfaceDefect[]
+  // Same aspect as the card at heatmapScale; transparent where nothing was found
+  heatmap: ImageData
+  surfaceGrade: number
+  damages: Damage[]
+}
+
+export interface SurfaceAnalyzerOptions {
+  heatmapScale?: number
+  margin?: number
+}
+
+interface Block {
+  r: number
+  g: number
+  b: number
+  luminance: number
+  texture: number
+  gradient: number
+}
+
+const SEVERITY_PENALTY: Record<DetectedDamage['severity'], number> = {
+  minor: 0.5,
+  moderate: 1.5,
+  major: 3
+}
+
+export class SurfaceAnalyzer {
+  private readonly heatmapScale: number
+  private readonly margin: number
+
+  constructor(options: SurfaceAnalyzerOptions = {}) {
+    this.heatmapScale = options.heatmapScale ?? 0.25
+    this.margin = options.margin ?? 0.04
+  }
+
+  analyze(card: ImageData, view = 'front'): SurfaceAnalysis {
+    const { width, height } = card
+    const gray = toGrayscale(card)
+    const localMean = boxBlur(gray, 7)
+    const residual = new Float32Array(gray.data.length)
+    for (let i = 0; i < residual.length; i++) {
+      residual[i] = gray.data[i] - localMean[i]
+    }
+
+    const bounds = {
+      x0: Math.round(width * this.margin),
+      y0: Math.round(height * this.margin),
+      x1: Math.round(width * (1 - this.margin)),
+      y1: Math.round(height * (1 - this.margin))
+    }
+    const sigma = robustSigma(residual, width, bounds)
+    const heat = new Float32Array(width * height)
+
+    const defects: SurfaceDefect[] = [
+      ...this.findScratches(card, residual, sigma, bounds, heat),
+      ...this.findPrintLines(residual, sigma, width, bounds, heat),
+      ...this.findStainsAndFading(card, gray, bounds, heat)
+    ]
+
+    const penalty = defects.reduce((sum, d) => sum + SEVERITY_PENALTY[d.severity], 0)
+
+    return {
+      defects,
+      heatmap: this.renderHeatmap(heat, width, height),
+      surfaceGrade: Math.max(1, Math.min(10, Math.round((10 - penalty) * 2) / 2)),
+      damages: defects.map(defect => toDamage(defect, width, height, view))
+    }
+  }
+
+  private findScratches(
+    card: ImageData,
+    residual: Float32Array,
+    sigma: number,
+    bounds: Bounds,
+    heat: Float32Array
+  ): SurfaceDefect[] {
+    const { width } = card
+    const threshold = Math.max(4 * sigma, 12)
+    const candidate = new Uint8Array(residual.length)
+
+    for (let y = bounds.y0; y < bounds.y1; y++) {
+      for (let x = bounds.x0; x < bounds.x1; x++) {
+        const i = y * width + x
+        const p = i * 4
+        const saturation = Math.max(card.data[p], card.data[p + 1], card.data[p + 2]) -
+          Math.min(card.data[p], card.data[p + 1], card.data[p + 2])
+        // Scratches catch the light: brighter than their surroundings and nearly colourless
+        if (residual[i] > threshold && saturation < 60) candidate[i] = 1
+      }
+    }
+
+    const defects: SurfaceDefect[] = []
+    for (const component of connectedComponents(candidate, width, card.height)) {
+      if (component.length < 15) continue
+
+      const shape = principalAxes(component, width)
+      const elongation = shape.length / Math.max(shape.thickness, 1)
+      if (elongation < 5 || shape.length < width * 0.03) continue
+
+      const relativeLength = shape.length / width
+      const severity = relativeLength < 0.06 ? 'minor' : relativeLength < 0.15 ? 'moderate' : 'major'
+      for (const i of component) heat[i] = Math.max(heat[i], 1)
+
+      defects.push({
+        type: 'scratch',
+        severity,
+        location: boundingBox(component, width),
+        confidence: Math.min(1, 0.5 + elongation / 20)
+      })
+    }
+
+    return defects
+  }
+
+  private findPrintLines(
+    residual: Float32Array,
+    sigma: number,
+    width: number,
+    bounds: Bounds,
+    heat: Float32Array
+  ): SurfaceDefect[] {
+    const defects: SurfaceDefect[] = []
+
+    for (const orientation of ['horizontal', 'vertical'] as const) {
+      const horizontal = orientation === 'horizontal'
+      const lineStart = horizontal ? bounds.y0 : bounds.x0
+      const lineEnd = horizontal ? bounds.y1 : bounds.x1
+      const spanStart = horizontal ? bounds.x0 : bounds.y0
+      const spanEnd = horizontal ? bounds.x1 : bounds.y1
+      const index = (line: number, along: number) => horizontal ? line * width + along : along * width + line
+
+      // Fraction of each line that sits consistently above (or below) its neighbourhood
+      const coverage: number[] = []
+      for (let line = lineStart; line < lineEnd; line++) {
+        let positive = 0
+        let negative = 0
+        for (let along = spanStart; along < spanEnd; along++) {
+          const value = residual[index(line, along)]
+          if (value > 1.5 * sigma) positive++
+          else if (value < -1.5 * sigma) negative++
+        }
+        coverage.push(Math.max(positive, negative) / (spanEnd - spanStart))
+      }
+
+      let line = 0
+      while (line < coverage.length) {
+        if (coverage[line] < 0.6) {
+          line++
+          continue
+        }
+
+        const start = line
+        while (line < coverage.length && coverage[line] >= 0.6) line++
+        const thickness = line - start
+        // Genuine print lines are thin; thick bands are design elements
+        if (thickness > 4) continue
+
+        const strength = Math.max(...coverage.slice(start, line))
+        for (let l = start; l < line; l++) {
+          for (let along = spanStart; along < spanEnd; along++) {
+            const i = index(lineStart + l, along)
+            heat[i] = Math.max(heat[i], 0.6)
+          }
+        }
+
+        defects.push({
+          type: 'print-defect',
+          severity: strength > 0.85 ? 'moderate' : 'minor',
+          location: horizontal
+            ? [spanStart, lineStart + start, spanEnd - spanStart, thickness]
+            : [lineStart + start, spanStart, thickness, spanEnd - spanStart],
+          confidence: Math.min(1, strength)
+        })
+      }
+    }
+
+    return defects
+  }
+
+  private findStainsAndFading(
+    card: ImageData,
+    gray: { width: number; height: number; data: Float32Array },
+    bounds: Bounds,
+    heat: Float32Array
+  ): SurfaceDefect[] {
+    const { width } = card
+    const blockSize = Math.max(4, Math.round(width / 50))
+    const gradient = sobelMagnitude(gray)
+    const cols = Math.floor((bounds.x1 - bounds.x0) / blockSize)
+    const rows = Math.floor((bounds.y1 - bounds.y0) / blockSize)
+    const blocks: Block[] = []
+
+    for (let by = 0; by < rows; by++) {
+      for (let bx = 0; bx < cols; bx++) {
+        let r = 0, g = 0, b = 0, sum = 0, sumSquares = 0, grad = 0
+        const n = blockSize * blockSize
+        for (let y = 0; y < blockSize; y++) {
+          for (let x = 0; x < blockSize; x++) {
+            const i = (bounds.y0 + by * blockSize + y) * width + bounds.x0 + bx * blockSize + x
+            r += card.data[i * 4]
+            g += card.data[i * 4 + 1]
+            b += card.data[i * 4 + 2]
+            sum += gray.data[i]
+            sumSquares += gray.data[i] * gray.data[i]
+            grad += gradient[i]
+          }
+        }
+        const mean = sum / n
+        blocks.push({
+          r: r / n,
+          g: g / n,
+          b: b / n,
+          luminance: mean,
+          texture: Math.sqrt(Math.max(0, sumSquares / n - mean * mean)),
+          gradient: grad / n
+        })
+      }
+    }
+
+    if (blocks.length === 0) return []
+
+    const blockRect = (bx: number, by: number, bw = 1, bh = 1): [number, number, number, number] =>
+      [bounds.x0 + bx * blockSize, bounds.y0 + by * blockSize, bw * blockSize, bh * blockSize]
+    const paint = (rect: [number, number, number, number], value: number) => {
+      for (let y = rect[1]; y < rect[1] + rect[3]; y++) {
+        for (let x = rect[0]; x < rect[0] + rect[2]; x++) {
+          heat[y * width + x] = Math.max(heat[y * width + x], value)
+        }
+      }
+    }
+
+    // Stains: compare each smooth block with the median of its neighbourhood
+    const stainMask = new Uint8Array(blocks.length)
+    for (let by = 0; by < rows; by++) {
+      for (let bx = 0; bx < cols; bx++) {
+        const block = blocks[by * cols + bx]
+        if (block.texture > 12 || block.gradient > 20) continue
+
+        // A ring a few blocks out, so the reference is not the stain itself
+        const neighbours: Block[] = []
+        for (let dy = -6; dy <= 6; dy++) {
+          for (let dx = -6; dx <= 6; dx++) {
+            const nx = bx + dx
+            const ny = by + dy
+            if (Math.max(Math.abs(dx), Math.abs(dy)) >= 4 && nx >= 0 && ny >= 0 && nx < cols && ny < rows) {
+              neighbours.push(blocks[ny * cols + nx])
+            }
+          }
+        }
+        const reference = {
+          r: median(neighbours.map(n => n.r)),
+          g: median(neighbours.map(n => n.g)),
+          b: median(neighbours.map(n => n.b)),
+          luminance: median(neighbours.map(n => n.luminance))
+        }
+        if (neighbours.length === 0) continue
+
+        const warmth = (block.r + block.g) / 2 - block.b - ((reference.r + reference.g) / 2 - reference.b)
+        const shift = Math.hypot(block.r - reference.r, block.g - reference.g, block.b - reference.b)
+        // Moderate, yellow-brown shifts; large jumps are printed design changes
+        if (shift > 20 && shift < 90 && warmth > 8 && Math.abs(block.luminance - reference.luminance) > 5) {
+          stainMask[by * cols + bx] = 1
+        }
+      }
+    }
+
+    const defects: SurfaceDefect[] = []
+    for (const component of connectedComponents(stainMask, cols, rows)) {
+      // Single blocks are usually gradients in the artwork
+      if (component.length < 3) continue
+      const [bx, by, bw, bh] = boundingBox(component, cols)
+      const area = component.length / blocks.length
+      const rect = blockRect(bx, by, bw, bh)
+      for (const i of component) paint(blockRect(i % cols, Math.floor(i / cols)), 0.7)
+
+      defects.push({
+        type: 'stain',
+        severity: area < 0.01 ? 'minor' : area < 0.04 ? 'moderate' : 'major',
+        location: rect,
+        confidence: Math.min(0.9, 0.4 + component.length / 20)
+      })
+    }
+
+    // Fading: 4x4 grid of regions compared against the card as a whole
+    const grid = 4
+    const regions: Array<{ saturation: number; luminance: number; rect: [number, number, number, number] }> = []
+    for (let gy = 0; gy < grid; gy++) {
+      for (let gx = 0; gx < grid; gx++) {
+        const x0 = Math.floor((gx * cols) / grid)
+        const x1 = Math.floor(((gx + 1) * cols) / grid)
+        const y0 = Math.floor((gy * rows) / grid)
+        const y1 = Math.floor(((gy + 1) * rows) / grid)
+        const cells: Block[] = []
+        for (let by = y0; by < y1; by++) {
+          for (let bx = x0; bx < x1; bx++) cells.push(blocks[by * cols + bx])
+        }
+        if (cells.length === 0) continue
+        regions.push({
+          saturation: median(cells.map(c => Math.max(c.r, c.g, c.b) - Math.min(c.r, c.g, c.b))),
+          luminance: median(cells.map(c => c.luminance)),
+          rect: blockRect(x0, y0, x1 - x0, y1 - y0)
+        })
+      }
+    }
+
+    const cardSaturation = median(regions.map(r => r.saturation))
+    const cardLuminance = median(regions.map(r => r.luminance))
+    const luminances = blocks.map(b => b.luminance).sort((a, b) => a - b)
+    const contrast = luminances[Math.floor(luminances.length * 0.95)] - luminances[Math.floor(luminances.length * 0.05)]
+
+    if (cardSaturation < 25 && contrast < 110) {
+      const rect: [number, number, number, number] = [bounds.x0, bounds.y0, bounds.x1 - bounds.x0, bounds.y1 - bounds.y0]
+      paint(rect, 0.4)
+      defects.push({
+        type: 'fade',
+        severity: contrast < 70 ? 'major' : 'moderate',
+        location: rect,
+        confidence: 0.6
+      })
+    } else {
+      for (const region of regions) {
+        if (region.saturation < cardSaturation * 0.5 && region.luminance > cardLuminance + 15) {
+          paint(region.rect, 0.4)
+          defects.push({ type: 'fade', severity: 'minor', location: region.rect, confidence: 0.5 })
+        }
+      }
+    }
+
+    return defects
+  }
+
+  private renderHeatmap(heat: Float32Array, width: number, height: number): ImageData {
+    const outWidth = Math.max(1, Math.round(width * this.heatmapScale))
+    const outHeight = Math.max(1, Math.round(height * this.heatmapScale))
+    const step = width / outWidth
+    const out = new Uint8ClampedArray(outWidth * outHeight * 4)
+
+    for (let y = 0; y < outHeight; y++) {
+      for (let x = 0; x < outWidth; x++) {
+        // Max-pool so one-pixel scratches survive the downscale
+        let value = 0
+        for (let sy = Math.floor(y * step); sy < Math.min(height, Math.floor((y + 1) * step)); sy++) {
+          for (let sx = Math.floor(x * step); sx < Math.min(width, Math.floor((x + 1) * step)); sx++) {
+            value = Math.max(value, heat[sy * width + sx])
+          }
+        }
+
+        const o = (y * outWidth + x) * 4
+        // Yellow (weak) to red (strong)
+        out[o] = 255
+        out[o + 1] = Math.round(220 * (1 - value))
+        out[o + 2] = 0
+        out[o + 3] = Math.round(200 * value)
+      }
+    }
+
+    return createImageData(outWidth, outHeight, out)
+  }
+}
+
+interface Bounds {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+}
+
+function robustSigma(values: Float32Array, width: number, bounds: Bounds): number {
+  const sample: number[] = []
+  for (let y = bounds.y0; y < bounds.y1; y += 3) {
+    for (let x = bounds.x0; x < bounds.x1; x += 3) {
+      sample.push(Math.abs(values[y * width + x]))
+    }
+  }
+  // Median absolute deviation scaled to a Gaussian sigma
+  return Math.max(1, median(sample) * 1.4826)
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+function boundingBox(indices: number[], width: number): [number, number, number, number] {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity
+  for (const i of indices) {
+    const x = i % width
+    const y = (i - x) / width
+    minX = Math.min(minX, x)
+    maxX = Math.max(maxX, x)
+    minY = Math.min(minY, y)
+    maxY = Math.max(maxY, y)
+  }
+  return [minX, minY, maxX - minX + 1, maxY - minY + 1]
+}
+
+// Length and thickness of a pixel blob from its covariance eigenvalues
+function principalAxes(indices: number[], width: number): { length: number; thickness: number } {
+  let mx = 0, my = 0
+  for (const i of indices) {
+    mx += i % width
+    my += Math.floor(i / width)
+  }
+  mx /= indices.length
+  my /= indices.length
+
+  let sxx = 0, sxy = 0, syy = 0
+  for (const i of indices) {
+    const dx = (i % width) - mx
+    const dy = Math.floor(i / width) - my
+    sxx += dx * dx
+    sxy += dx * dy
+    syy += dy * dy
+  }
+  sxx /= indices.length
+  sxy /= indices.length
+  syy /= indices.length
+
+  const trace = sxx + syy
+  const root = Math.sqrt(Math.max(0, (trace * trace) / 4 - (sxx * syy - sxy * sxy)))
+  const major = trace / 2 + root
+  const minor = Math.max(0, trace / 2 - root)
+
+  // A uniform segment of length L has variance L^2 / 12 along its axis
+  return { length: Math.sqrt(12 * major), thickness: Math.sqrt(12 * minor) }
+}
+
+const DESCRIPTIONS: Record<SurfaceDefectType, string> = {
+  scratch: 'surface scratch',
+  'print-defect': 'print line',
+  stain: 'discoloured patch',
+  fade: 'faded ink'
+}
+
+function toDamage(defect: SurfaceDefect, width: number, height: number, view: string): Damage {
+  const [x, y, w, h] = defect.location
+  const cx = (x + w / 2) / width
+  const cy = (y + h / 2) / height
+  const vertical = cy < 1 / 3 ? 'upper' : cy > 2 / 3 ? 'lower' : 'middle'
+  const horizontal = cx < 1 / 3 ? 'left' : cx > 2 / 3 ? 'right' : 'center'
+  // Card-wide defects have no meaningful position
+  const region = w > width * 0.8 && h > height * 0.8
+    ? 'whole'
+    : vertical === 'middle' && horizontal === 'center' ? 'center' : `${vertical}-${horizontal}`
+
+  return new Damage(
+    defect.type,
+    defect.severity,
+    `${region} surface`,
+    `${DESCRIPTIONS[defect.type]} (${view})`
+  )
+}
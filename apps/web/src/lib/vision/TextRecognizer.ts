@@ -0,0 +1,74 @@
+/**
+ * Text Recognizer - Fei-Fei Li: In-browser OCR over the rectified card faces
+ *
+ * OcrEngine is the seam the pipeline depends on; TesseractOcrEngine is the
+ * default implementation. tesseract.js is imported on first use so it stays out
+ * of the main bundle, and one worker is reused across scans.
+ */
+
+import type Tesseract from 'tesseract.js'
+import type { ExtractedText } from './VisionPipeline'
+
+export interface OcrEngine {
+  // Lines of text, confidence 0-1, bounding boxes in input pixels
+  recognize(image: ImageData | string): Promise<ExtractedText[]>
+  terminate(): Promise<void>
+}
+
+export interface TesseractOcrOptions {
+  language?: string
+  // Lines below this confidence (0-1) are dropped as noise
+  minConfidence?: number
+}
+
+export class TesseractOcrEngine implements OcrEngine {
+  private worker: Promise<Tesseract.Worker> | null = null
+  private readonly language: string
+  private readonly minConfidence: number
+
+  constructor(options: TesseractOcrOptions = {}) {
+    this.language = options.language ?? 'eng'
+    this.minConfidence = options.minConfidence ?? 0.3
+  }
+
+  async recognize(image: ImageData | string): Promise<ExtractedText[]> {
+    const worker = await this.getWorker()
+    const { data } = await worker.recognize(image, {}, { text: true, blocks: true })
+
+    const lines = (data.blocks ?? []).flatMap(block =>
+      block.paragraphs.flatMap(paragraph => paragraph.lines)
+    )
+
+    return lines
+      .map(line => ({
+        text: line.text.trim(),
+        boundingBox: [
+          line.bbox.x0,
+          line.bbox.y0,
+          line.bbox.x1 - line.bbox.x0,
+          line.bbox.y1 - line.bbox.y0
+        ] as [number, number, number, number],
+        confidence: line.confidence / 100
+      }))
+      .filter(line => line.text.length > 0 && line.confidence >= this.minConfidence)
+  }
+
+  async terminate(): Promise<void> {
+    if (!this.worker) return
+
+    const worker = await this.worker
+    this.worker = null
+    await worker.terminate()
+  }
+
+  private getWorker(): Promise<Tesseract.Worker> {
+    if (!this.worker) {
+      this.worker = import('tesseract.js').then(({ createWorker }) => createWorker(this.language))
+      // Let the next call retry if the language data failed to download
+      this.worker.catch(() => {
+        this.worker = null
+      })
+    }
+    return this.worker
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * Trim Detector - Fei-Fei Li: Measure the card against the size it was cut to
+ *
+ * Works on the card outline found by CardDetector, in the original frame, since
+ * rectification stretches every card to the same canvas. Three checks:
+ * - aspect ratio: shaving one pair of edges moves the short/long ratio away
+ *   from the set's spec, and the direction says which pair was cut
+ * - edge straightness: factory cuts are straight; a hand-trimmed edge wanders
+ *   off the line fitted along it
+ * - physical size: when the card sits in a top-loader or slab of known size,
+ *   its outline gives a millimetre scale, so a card cut evenly on both sides
+ *   (which keeps the ratio) still shows up as undersized. Without a holder, a
+ *   calibrated camera's scale stands in, with less weight since the card's
+ *   distance from the lens varies
+ * Every check becomes an AuthenticityIndicator; detected problems also get a
+ * "possible trim" warning with the measured deviation.
+ */
+
+import type { AuthenticityIndicator } from '../domain/models'
+import type { CardSizeSpec } from '../interfaces/services'
+import type { CardBoundary } from './CardDetector'
+import { Point, Quad, distance, fitLine, intersectLines, Line } from './geometry'
+import { toGrayscale, GrayImage } from './image'
+
+// Known outer sizes of holders a card is commonly photographed in
+export interface SizeReference {
+  name: string
+  widthMm: number
+  heightMm: number
+}
+
+export interface TrimOptions {
+  // Spec from the card's set; the standard size when unknown
+  spec?: CardSizeSpec
+  // An object of known size in the same plane as the card; found automatically when omitted
+  reference?: { quad: Quad; size: SizeReference }
+  // Card-plane scale from the camera's calibration profile, for the same frame size
+  scale?: { pxPerMm: number }
+}
+
+export interface TrimAnalysis {
+  // Measured short/long side ratio
+  aspectRatio: number
+  expectedAspectRatio: number
+  // Relative to the spec; negative is narrower, positive is shorter
+  aspectDeviation: number
+  // Worst wander from the fitted line per card side, as a fraction of its length
+  straightness: Partial<Record<Side, number>>
+  // Only when a size reference was in frame or the camera scale is known
+  size?: { widthMm: number; heightMm: number; reference: string }
+  indicators: AuthenticityIndicator[]
+  warnings: string[]
+  // Any confident finding that points at a trimmed card
+  suspicious: boolean
+}
+
+type Side = 'top' | 'right' | 'bottom' | 'left'
+
+export const STANDARD_CARD_SIZE: CardSizeSpec = { widthMm: 63.5, heightMm: 88.9, toleranceMm: 0.8 }
+
+// Nominal outer sizes, portrait
+export const SIZE_REFERENCES: SizeReference[] = [
+  { name: 'top-loader', widthMm: 76.2, heightMm: 101.6 },
+  { name: 'PSA slab', widthMm: 83.8, heightMm: 134.6 },
+  { name: 'BGS slab', widthMm: 91.4, heightMm: 142.2 }
+]
+
+const SIDES: Side[] = ['top', 'right', 'bottom', 'left']
+// Ratio error a straight-on photo of an untouched card still shows
+const ASPECT_NOISE = 0.01
+// Opposite sides differing by more than this means the photo was taken at an angle
+const PERSPECTIVE_LIMIT = 0.08
+const STRAIGHTNESS_LIMIT = 0.006
+const STRAIGHTNESS_MIN_PIXELS = 2
+const EDGE_GRADIENT = 12
+const EDGE_SAMPLES = 40
+// A side needs this share of samples on a clear edge to be measured
+const EDGE_COVERAGE = 0.6
+// How far outside the card a holder edge is looked for, as fractions of the short side
+const HOLDER_GAP = 0.04
+const HOLDER_REACH = 0.6
+const HOLDER_ASPECT_TOLERANCE = 0.02
+// Holder sizes are nominal, so physical size carries its own error
+const SIZE_NOISE_MM = 0.5
+// The calibration card sat inside the same guide, but hand-held distance still drifts a few percent
+const CAMERA_SCALE_NOISE_MM = 2
+const CAMERA_SCALE_WEIGHT = 0.5
+const SUSPICIOUS_CONFIDENCE = 60
+
+export class TrimDetector {
+  analyze(image: ImageData, boundary: CardBoundary, options: TrimOptions = {}): TrimAnalysis {
+    const spec = options.spec ?? STANDARD_CARD_SIZE
+    const tolerance = spec.toleranceMm ?? STANDARD_CARD_SIZE.toleranceMm!
+    const gray = toGrayscale(image)
+    const quad = boundary.quad
+    const indicators: AuthenticityIndicator[] = []
+    const warnings: string[] = []
+    const specLabel = `${spec.widthMm} x ${spec.heightMm} mm`
+
+    // Photos at an angle foreshorten one pair of sides; trust the ratio less
+    const { short, long, skew } = measureQuad(quad)
+    const weight = Math.max(0.3, 1 - skew / PERSPECTIVE_LIMIT * 0.7)
+
+    const aspectRatio = short / long
+    const expectedAspectRatio = spec.widthMm / spec.heightMm
+    const aspectDeviation = (aspectRatio - expectedAspectRatio) / expectedAspectRatio
+    const aspectLimit = ASPECT_NOISE + tolerance / spec.widthMm
+    // A pre-cropped upload's outline is the frame, which says nothing about the card
+    const cropped = quad.every(p => p.x <= 1 || p.y <= 1 || p.x >= image.width - 2 || p.y >= image.height - 2)
+    const offRatio = !cropped && Math.abs(aspectDeviation) >= aspectLimit
+    if (!cropped) {
+      indicators.push({
+        feature: 'trim-aspect-ratio',
+        detected: offRatio,
+        confidence: certainty(Math.abs(aspectDeviation), aspectLimit, weight)
+      })
+    }
+    if (offRatio) {
+      const direction = aspectDeviation < 0 ? 'narrower' : 'shorter'
+      warnings.push(`Card is ${percent(aspectDeviation)} ${direction} in proportion than the ${specLabel} spec. Possible trim`)
+    }
+
+    const straightness: Partial<Record<Side, number>> = {}
+    const wavy: Side[] = []
+    sidesOnCard(boundary).forEach((side, index) => {
+      const a = quad[index]
+      const b = quad[(index + 1) % 4]
+      const length = distance(a, b)
+      const points = sampleEdge(gray, a, b, -0.015 * length, 0.015 * length, inwardOf(quad, index))
+      const wander = points && lineWander(points)
+      if (wander === null || wander === undefined) return
+      straightness[side] = Math.round(wander / length * 10000) / 10000
+      if (wander >= Math.max(STRAIGHTNESS_LIMIT * length, STRAIGHTNESS_MIN_PIXELS)) wavy.push(side)
+    })
+    const measured = Object.keys(straightness) as Side[]
+    if (measured.length > 0) {
+      const worst = Math.max(...measured.map(side => straightness[side]!))
+      indicators.push({
+        feature: 'trim-edge-straightness',
+        detected: wavy.length > 0,
+        confidence: certainty(worst, STRAIGHTNESS_LIMIT, measured.length / 4)
+      })
+      if (wavy.length > 0) {
+        warnings.push(`The ${joinSides(wavy)} edge${wavy.length > 1 ? 's are' : ' is'} not cut straight (off by up to ${percent(worst)} of its length). Possible trim`)
+      }
+    }
+
+    const reference = options.reference ?? (cropped ? null : findHolder(gray, quad))
+    // Millimetres per pixel on the card plane, from a holder or the calibrated camera
+    const holder = reference ? measureQuad(reference.quad) : null
+    const mmPerPixel = reference && holder
+      ? { x: reference.size.widthMm / holder.short, y: reference.size.heightMm / holder.long }
+      : options.scale && !cropped
+        ? { x: 1 / options.scale.pxPerMm, y: 1 / options.scale.pxPerMm }
+        : null
+    let size: TrimAnalysis['size']
+    if (mmPerPixel) {
+      const widthMm = short * mmPerPixel.x
+      const heightMm = long * mmPerPixel.y
+      size = { widthMm: round1(widthMm), heightMm: round1(heightMm), reference: reference ? reference.size.name : 'calibrated camera' }
+
+      const limit = tolerance + (reference ? SIZE_NOISE_MM : CAMERA_SCALE_NOISE_MM)
+      const narrow = spec.widthMm - widthMm
+      const shortBy = spec.heightMm - heightMm
+      const undersized = narrow >= limit || shortBy >= limit
+      indicators.push({
+        feature: 'trim-physical-size',
+        detected: undersized,
+        confidence: certainty(Math.max(narrow, shortBy, 0), limit, reference ? weight : weight * CAMERA_SCALE_WEIGHT)
+      })
+      if (undersized) {
+        const deficits = [
+          narrow >= limit ? `${round1(narrow)} mm narrow` : '',
+          shortBy >= limit ? `${round1(shortBy)} mm short` : ''
+        ].filter(Boolean).join(' and ')
+        warnings.push(`Card measures ${size.widthMm} x ${size.heightMm} mm against the ${size.reference}, ${deficits} of the ${specLabel} spec. Possible trim`)
+      }
+    }
+
+    const suspicious = indicators.some(indicator => indicator.detected && indicator.confidence >= SUSPICIOUS_CONFIDENCE)
+    return {
+      aspectRatio: Math.round(aspectRatio * 10000) / 10000,
+      expectedAspectRatio: Math.round(expectedAspectRatio * 10000) / 10000,
+      aspectDeviation: Math.round(aspectDeviation * 10000) / 10000,
+      straightness,
+      size,
+      indicators,
+      warnings,
+      suspicious
+    }
+  }
+}
+
+// Mean lengths of the short and long side pairs, and how unequal opposite sides are
+function measureQuad(quad: Quad): { short: number; long: number; skew: number } {
+  const top = distance(quad[0], quad[1])
+  const right = distance(quad[1], quad[2])
+  const bottom = distance(quad[2], quad[3])
+  const left = distance(quad[3], quad[0])
+  const horizontal = (top + bottom) / 2
+  const vertical = (left + right) / 2
+  const skew = Math.max(Math.abs(top - bottom) / Math.max(top, bottom), Math.abs(left - right) / Math.max(left, right))
+  return { short: Math.min(horizontal, vertical), long: Math.max(horizontal, vertical), skew }
+}
+
+// Quad sides in frame order (top, right, bottom, left) named as they sit on the upright card
+function sidesOnCard(boundary: CardBoundary): Side[] {
+  // Landscape cards are turned a quarter clockwise when rectified, so the frame's left becomes the top
+  return boundary.orientation === 'horizontal' ? ['right', 'bottom', 'left', 'top'] : SIDES
+}
+
+// Unit normal of side a->b pointing into the card
+function inwardOf(quad: Quad, index: number): Point {
+  const a = quad[index]
+  const b = quad[(index + 1) % 4]
+  const length = Math.max(distance(a, b), 1e-6)
+  const normal = { x: -(b.y - a.y) / length, y: (b.x - a.x) / length }
+  const cx = quad.reduce((sum, p) => sum + p.x, 0) / 4
+  const cy = quad.reduce((sum, p) => sum + p.y, 0) / 4
+  const toCenter = (cx - (a.x + b.x) / 2) * normal.x + (cy - (a.y + b.y) / 2) * normal.y
+  return toCenter >= 0 ? normal : { x: -normal.x, y: -normal.y }
+}
+
+/**
+ * Strongest luminance edge across the side a->b at each sample point, searched
+ * between offsets `from` and `to` along `normal`. Null when too few samples land
+ * on a clear edge to trust a fit.
+ */
+function sampleEdge(gray: GrayImage, a: Point, b: Point, from: number, to: number, normal: Point): Point[] | null {
+  const points: Point[] = []
+  // Skip the ends of each side where rounded corners bend away from the line
+  for (let s = 0; s < EDGE_SAMPLES; s++) {
+    const t = 0.12 + 0.76 * (s / (EDGE_SAMPLES - 1))
+    const px = a.x + (b.x - a.x) * t
+    const py = a.y + (b.y - a.y) * t
+    let bestOffset = 0
+    let bestGradient = 0
+
+    for (let d = from; d <= to; d += 0.5) {
+      const before = grayAt(gray, px + normal.x * (d - 1), py + normal.y * (d - 1))
+      const after = grayAt(gray, px + normal.x * (d + 1), py + normal.y * (d + 1))
+      const gradient = Math.abs(after - before)
+      if (gradient > bestGradient) {
+        bestGradient = gradient
+        bestOffset = d
+      }
+    }
+
+    if (bestGradient > EDGE_GRADIENT) {
+      points.push({ x: px + normal.x * bestOffset, y: py + normal.y * bestOffset })
+    }
+  }
+  return points.length >= EDGE_SAMPLES * EDGE_COVERAGE ? points : null
+}
+
+// 90th percentile distance from the fitted line, so one speck of dust does not count as a cut
+function lineWander(points: Point[]): number | null {
+  const line = fitLine(points)
+  if (!line) return null
+  const residuals = points.map(p => Math.abs(line.nx * p.x + line.ny * p.y - line.c)).sort((a, b) => a - b)
+  return residuals[Math.min(residuals.length - 1, Math.floor(residuals.length * 0.9))]
+}
+
+/**
+ * A top-loader or slab shows as a second, straight outline around the card.
+ * Each card side is pushed outward to the strongest parallel edge; the four
+ * fitted lines make the holder, which is named by its proportions.
+ */
+function findHolder(gray: GrayImage, quad: Quad): TrimOptions['reference'] | null {
+  const { short } = measureQuad(quad)
+  const lines: Line[] = []
+
+  for (let index = 0; index < 4; index++) {
+    const inward = inwardOf(quad, index)
+    const outward = { x: -inward.x, y: -inward.y }
+    const a = quad[index]
+    const b = quad[(index + 1) % 4]
+    const points = sampleEdge(gray, a, b, HOLDER_GAP * short, HOLDER_REACH * short, outward)
+    const wander = points && lineWander(points)
+    // A holder edge is as straight as a card edge; clutter in the background is not
+    if (!points || wander === null || wander > STRAIGHTNESS_LIMIT * 2 * distance(a, b)) return null
+    lines.push(fitLine(points)!)
+  }
+
+  const corners: Point[] = []
+  for (let corner = 0; corner < 4; corner++) {
+    const point = intersectLines(lines[(corner + 3) % 4], lines[corner])
+    if (!point) return null
+    corners.push(point)
+  }
+  const holderQuad = corners as Quad
+  const holder = measureQuad(holderQuad)
+  const aspect = holder.short / holder.long
+
+  const match = SIZE_REFERENCES
+    .map(size => ({ size, error: Math.abs(aspect - size.widthMm / size.heightMm) / (size.widthMm / size.heightMm) }))
+    .filter(candidate => candidate.error <= HOLDER_ASPECT_TOLERANCE)
+    .sort((x, y) => x.error - y.error)[0]
+  return match ? { quad: holderQuad, size: match.size } : null
+}
+
+function grayAt(gray: GrayImage, x: number, y: number): number {
+  const cx = Math.min(gray.width - 1, Math.max(0, Math.round(x)))
+  const cy = Math.min(gray.height - 1, Math.max(0, Math.round(y)))
+  return gray.data[cy * gray.width + cx]
+}
+
+// 50 at the threshold, rising to 100 as the value moves well clear of it either way
+function certainty(value: number, threshold: number, weight: number): number {
+  const distanceFromThreshold = Math.min(1, Math.abs(value - threshold) / threshold)
+  return Math.round(weight * (50 + 50 * distanceFromThreshold))
+}
+
+function percent(fraction: number): string {
+  return `${Math.round(Math.abs(fraction) * 1000) / 10}%`
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+function joinSides(sides: Side[]): string {
+  if (sides.length <= 1) return sides[0] ?? ''
+  return `${sides.slice(0, -1).join(', ')} and ${sides[sides.length - 1]}`
+}
@@ -0,0 +1,250 @@
+/**
+ * UV Analyzer - Fei-Fei Li: Read a blacklight capture for reprints, trimming and restoration
+ *
+ * Runs on the rectified card photographed under a 365 nm UV source. Modern
+ * paper carries optical brighteners that glow blue-white; vintage stock stays
+ * dull violet. Three checks:
+ * - paper fluorescence: a bright card that claims to be vintage is likely a
+ *   reprint on modern stock
+ * - localized fluorescence: patches that glow more or less than the visible
+ *   front predicts, from fillers, glue, bleach or re-coloured ink. Ink itself
+ *   absorbs UV, so each patch is compared with its brightness in normal light
+ *   and the check only runs when that front is available
+ * - edge fluorescence: a freshly cut edge exposes bright fibres, so a rim that
+ *   glows above the border next to it suggests trimming
+ * Every check becomes an AuthenticityIndicator; detected problems also get a
+ * warning worded for the results screen.
+ */
+
+import type { AuthenticityIndicator } from '../domain/models'
+
+export interface UVAnalysisOptions {
+  // Printed year of the card, when identified
+  year?: number
+  // The same card rectified under normal light, for the localized check
+  visible?: ImageData
+}
+
+export interface UVAnalysis {
+  // False when the capture looks like ordinary light; findings are then weak
+  underUV: boolean
+  // Median glow of the card, 0-1
+  fluorescence: number
+  indicators: AuthenticityIndicator[]
+  warnings: string[]
+  // Any detected finding that points at a fake or altered card
+  suspicious: boolean
+}
+
+type Side = 'top' | 'bottom' | 'left' | 'right'
+
+// Cards printed before this rarely used brightened stock
+const VINTAGE_BEFORE = 1980
+const BRIGHTENER_LEVEL = 0.45
+// Blue must beat red by this much for the capture to count as UV-lit
+const UV_BLUE_RATIO = 1.15
+const UV_MAX_LUMINANCE = 200
+const MARGIN = 0.06
+const GRID_COLUMNS = 5
+const GRID_ROWS = 7
+// Residual from the visible-light fit, in fluorescence levels (0-255), before a patch counts
+const ANOMALY_LEVELS = 30
+const ANOMALY_SPREAD = 4
+const EDGE_STRIP = 0.015
+const EDGE_RATIO = 1.25
+const EDGE_LEVELS = 20
+const SUSPICIOUS_CONFIDENCE = 60
+
+const ROWS = ['top', '', 'bottom']
+const COLUMNS = ['left', '', 'right']
+
+export class UVAnalyzer {
+  analyze(card: ImageData, options: UVAnalysisOptions = {}): UVAnalysis {
+    const underUV = looksUVLit(card)
+    // Findings from an image that is not UV-lit are kept but marked as weak
+    const weight = underUV ? 1 : 0.5
+    const indicators: AuthenticityIndicator[] = []
+    const warnings: string[] = []
+    let suspicious = false
+
+    if (!underUV) {
+      warnings.push('UV capture looks like ordinary light. Use a 365 nm UV torch in a dark room')
+    }
+
+    const cells = gridMeans(card, fluorescenceOf)
+    const fluorescence = median(cells) / 255
+    const glowing = fluorescence >= BRIGHTENER_LEVEL
+    indicators.push({
+      feature: 'modern-paper-fluorescence',
+      detected: glowing,
+      confidence: certainty(fluorescence, BRIGHTENER_LEVEL, weight)
+    })
+    if (glowing && options.year !== undefined && options.year < VINTAGE_BEFORE) {
+      warnings.push(`Card stock glows under UV like modern paper, which a ${options.year} card should not. Possible reprint`)
+      suspicious = suspicious || underUV
+    }
+
+    if (options.visible) {
+      const patches = findAnomalies(cells, gridMeans(options.visible, luminanceOf))
+      indicators.push({
+        feature: 'localized-fluorescence',
+        detected: patches.length > 0,
+        confidence: Math.round(100 * weight * (patches.length > 0 ? 0.8 : 0.7))
+      })
+      if (patches.length > 0) {
+        warnings.push(`Uneven fluorescence at ${joinRegions(patches)}. Possible restoration or re-colouring`)
+        suspicious = suspicious || underUV
+      }
+    }
+
+    const edges = measureEdges(card)
+    const bright = (Object.keys(edges) as Side[]).filter(side => edges[side].bright)
+    const strongest = Math.max(...(Object.keys(edges) as Side[]).map(side => edges[side].ratio))
+    indicators.push({
+      feature: 'edge-fluorescence',
+      detected: bright.length > 0,
+      confidence: certainty(strongest, EDGE_RATIO, weight)
+    })
+    if (bright.length > 0) {
+      warnings.push(`The ${joinRegions(bright)} edge${bright.length > 1 ? 's glow' : ' glows'} brighter than the border under UV. Possible trimming`)
+      suspicious = suspicious || underUV
+    }
+
+    const confident = indicators.some(indicator => indicator.detected && indicator.confidence >= SUSPICIOUS_CONFIDENCE)
+    return {
+      underUV,
+      fluorescence: Math.round(fluorescence * 100) / 100,
+      indicators,
+      warnings,
+      suspicious: suspicious && confident
+    }
+  }
+}
+
+// Brightener glow is blue-white; the lamp's own violet leak raises blue and red but little green
+function fluorescenceOf(r: number, g: number, b: number): number {
+  return 0.6 * g + 0.4 * b
+}
+
+function luminanceOf(r: number, g: number, b: number): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b
+}
+
+function looksUVLit(card: ImageData): boolean {
+  let r = 0
+  let g = 0
+  let b = 0
+  const pixels = card.data.length / 4
+  for (let i = 0; i < card.data.length; i += 4) {
+    r += card.data[i]
+    g += card.data[i + 1]
+    b += card.data[i + 2]
+  }
+  return b >= UV_BLUE_RATIO * r && luminanceOf(r / pixels, g / pixels, b / pixels) < UV_MAX_LUMINANCE
+}
+
+// Row-major means over the card interior; the outer margin is left to the edge check
+function gridMeans(image: ImageData, measure: (r: number, g: number, b: number) => number): number[] {
+  const { width, height, data } = image
+  const x0 = Math.round(width * MARGIN)
+  const y0 = Math.round(height * MARGIN)
+  const cellWidth = (width - 2 * x0) / GRID_COLUMNS
+  const cellHeight = (height - 2 * y0) / GRID_ROWS
+  const means: number[] = []
+
+  for (let row = 0; row < GRID_ROWS; row++) {
+    for (let column = 0; column < GRID_COLUMNS; column++) {
+      let sum = 0
+      let count = 0
+      const top = Math.round(y0 + row * cellHeight)
+      const left = Math.round(x0 + column * cellWidth)
+      for (let y = top; y < Math.round(top + cellHeight); y++) {
+        for (let x = left; x < Math.round(left + cellWidth); x++) {
+          const p = (y * width + x) * 4
+          sum += measure(data[p], data[p + 1], data[p + 2])
+          count++
+        }
+      }
+      means.push(count > 0 ? sum / count : 0)
+    }
+  }
+
+  return means
+}
+
+// Cells whose glow is far from what their visible brightness predicts, named on a 3x3 grid
+function findAnomalies(uv: number[], visible: number[]): string[] {
+  // Least-squares line from visible brightness to glow
+  const n = uv.length
+  const meanV = visible.reduce((sum, v) => sum + v, 0) / n
+  const meanU = uv.reduce((sum, u) => sum + u, 0) / n
+  let covariance = 0
+  let variance = 0
+  for (let i = 0; i < n; i++) {
+    covariance += (visible[i] - meanV) * (uv[i] - meanU)
+    variance += (visible[i] - meanV) ** 2
+  }
+  const slope = variance > 0 ? covariance / variance : 0
+  const residuals = uv.map((u, i) => u - (meanU + slope * (visible[i] - meanV)))
+
+  // Robust spread so one restored patch does not hide itself
+  const deviation = median(residuals.map(Math.abs))
+  const limit = Math.max(ANOMALY_LEVELS, ANOMALY_SPREAD * deviation)
+
+  const regions: string[] = []
+  residuals.forEach((residual, cell) => {
+    if (Math.abs(residual) < limit) return
+    const row = Math.min(2, Math.floor((Math.floor(cell / GRID_COLUMNS) * 3) / GRID_ROWS))
+    const column = Math.min(2, Math.floor(((cell % GRID_COLUMNS) * 3) / GRID_COLUMNS))
+    const name = [ROWS[row], COLUMNS[column]].filter(Boolean).join('-') || 'center'
+    if (!regions.includes(name)) regions.push(name)
+  })
+  return regions
+}
+
+function measureEdges(card: ImageData): Record<Side, { ratio: number; bright: boolean }> {
+  const { width, height } = card
+  const strip = Math.max(1, Math.round(Math.min(width, height) * EDGE_STRIP))
+  const band = Math.max(strip, Math.round(Math.min(width, height) * MARGIN) - strip)
+
+  const mean = (x0: number, y0: number, w: number, h: number) => {
+    let sum = 0
+    for (let y = y0; y < y0 + h; y++) {
+      for (let x = x0; x < x0 + w; x++) {
+        const p = (y * width + x) * 4
+        sum += fluorescenceOf(card.data[p], card.data[p + 1], card.data[p + 2])
+      }
+    }
+    return sum / Math.max(1, w * h)
+  }
+
+  const compare = (rim: number, border: number) => {
+    const ratio = rim / Math.max(1, border)
+    return { ratio, bright: ratio >= EDGE_RATIO && rim - border >= EDGE_LEVELS }
+  }
+
+  return {
+    top: compare(mean(0, 0, width, strip), mean(0, strip, width, band)),
+    bottom: compare(mean(0, height - strip, width, strip), mean(0, height - strip - band, width, band)),
+    left: compare(mean(0, 0, strip, height), mean(strip, 0, band, height)),
+    right: compare(mean(width - strip, 0, strip, height), mean(width - strip - band, 0, band, height))
+  }
+}
+
+// 50 at the threshold, rising to 100 as the value moves well clear of it either way
+function certainty(value: number, threshold: number, weight: number): number {
+  const distance = Math.min(1, Math.abs(value - threshold) / threshold)
+  return Math.round(weight * (50 + 50 * distance))
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = values.slice().sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+function joinRegions(regions: string[]): string {
+  if (regions.length <= 1) return regions[0] ?? ''
+  return `${regions.slice(0, -1).join(', ')} and ${regions[regions.length - 1]}`
+}
@@ -4,17 +4,36 @@
 
 import * as tf from '@tensorflow/tfjs'
 import { ILogger } from '../interfaces/services'
-import { Card, CardAttributes } from '../domain/models'
+import { ScanCancelledError } from '../errors'
+import { AuthenticityIndicator, Card, CardAttributes, ModelVersion } from '../domain/models'
+import { CardDetector, CardBoundary } from './CardDetector'
+import { Quad, quadBoundingBox } from './geometry'
+import { CenteringAnalyzer } from './CenteringAnalyzer'
+import { WearAnalyzer, WearFinding } from './WearAnalyzer'
+import { SurfaceAnalyzer } from './SurfaceAnalyzer'
+import { ReferenceComparator, ReferenceImageSource } from './ReferenceComparator'
+import { applyColorCorrection, calibrationConfidence, CalibrationProfile } from './Calibration'
+import { OcrEngine, TesseractOcrEngine } from './TextRecognizer'
+import { parseCardText, CardTextField } from './CardTextParser'
+import { createImageData } from './image'
+import { ModelRegistry, ModelType } from './ModelRegistry'
+import { modelRegistry } from './models'
 
 export interface VisionModel {
   name: string
   version: string
-  type: 'detection' | 'classification' | 'ocr' | 'damage' | 'authenticity'
+  type: ModelType
   load(): Promise<void>
-  process(input: tf.Tensor | ImageData): Promise<ModelOutput>
+  process(input: tf.Tensor | ImageData, context?: ModelContext): Promise<ModelOutput>
   dispose(): void
 }
 
+// How the input was captured, for models whose findings depend on it
+export interface ModelContext {
+  // Colour-corrected with the camera's calibration profile
+  calibrated?: boolean
+}
+
 export interface ModelOutput {
   confidence: number
   results: any
@@ -27,12 +46,21 @@ export interface PipelineResult {
   textExtraction?: TextExtractionResult
   damageAssessment?: DamageDetectionResult
   authenticityCheck?: AuthenticityCheckResult
+  // Corners of the card in the source frame (TL, TR, BR, BL)
+  cardQuad?: Quad
+  // Upright 2.5x3.5 crop every later stage runs on
+  rectifiedImage?: ImageData
   overallConfidence: number
+  // Whether a calibration profile corrected the captures; uncalibrated results carry less confidence
+  calibrated: boolean
   processingTime: number
+  // Every model that ran, from the registry
+  modelVersions: ModelVersion[]
 }
 
 export interface CardDetectionResult {
   boundingBox: [number, number, number, number]
+  quad?: Quad
   cardType: string
   orientation: 'horizontal' | 'vertical'
   confidence: number
@@ -45,6 +73,8 @@ export interface TextExtractionResult {
   year?: string
   setName?: string
   manufacturer?: string
+  // 0-1 per parsed field
+  fieldConfidence?: Partial<Record<CardTextField, number>>
 }
 
 export interface ExtractedText {
@@ -62,6 +92,10 @@ export interface DamageDetectionResult {
     edges: number
     surface: number
   }
+  // Surface defect heatmap at a fraction of the card resolution
+  heatmap?: ImageData
+  // 0-1, from how well the card's borders could be measured
+  confidence: number
 }
 
 export interface DetectedDamage {
@@ -73,17 +107,63 @@ export interface DetectedDamage {
 
 export interface AuthenticityCheckResult {
   isAuthentic: boolean
+  // Lowered when there was no reference to compare against
   confidence: number
   suspiciousFeatures: string[]
+  // 0-1 similarity to the reference; 0 without one
   printQuality: number
   colorAccuracy: number
+  indicators: AuthenticityIndicator[]
+  hasReference: boolean
+  warnings: string[]
+}
+
+// Stages in the order they run; progress events are reported per stage
+export type PipelineStage = 'detect' | 'ocr' | 'damage' | 'authenticity'
+
+export const PIPELINE_STAGES: PipelineStage[] = ['detect', 'ocr', 'damage', 'authenticity']
+
+export interface PipelineProgress {
+  stage: PipelineStage
+  status: 'started' | 'completed'
+}
+
+export interface PipelineRunOptions {
+  onProgress?: (progress: PipelineProgress) => void
+  // Checked between stages; a stage that has started runs to completion
+  signal?: AbortSignal
+  // Profile of the camera the captures came from; corrects colour before grading
+  calibration?: CalibrationProfile | null
+}
+
+/**
+ * Run one stage with progress reporting, refusing to start once cancelled.
+ * Shared by VisionPipeline and AIService so both report the same stages.
+ */
+export async function runStage<T>(
+  stage: PipelineStage,
+  options: PipelineRunOptions,
+  work: () => T | Promise<T>
+): Promise<T> {
+  if (options.signal?.aborted) throw new ScanCancelledError(stage)
+
+  options.onProgress?.({ stage, status: 'started' })
+  const result = await work()
+  options.onProgress?.({ stage, status: 'completed' })
+  return result
 }
 
 export class VisionPipeline {
   private models: Map<string, VisionModel> = new Map()
+  private cardDetector = new CardDetector()
   private isInitialized = false
   
-  constructor(private logger?: ILogger) {}
+  constructor(
+    private logger?: ILogger,
+    private ocrEngine: OcrEngine = new TesseractOcrEngine(),
+    private registry: ModelRegistry = modelRegistry,
+    private references?: ReferenceImageSource
+  ) {}
 
   async initialize(): Promise<void> {
     if (this.isInitialized) return
@@ -109,69 +189,76 @@ export class VisionPipeline {
     }
   }
 
-  async process(imageData: ImageData): Promise<PipelineResult> {
+  async process(imageData: ImageData, options: PipelineRunOptions = {}): Promise<PipelineResult> {
     if (!this.isInitialized) {
       await this.initialize()
     }
 
     const startTime = performance.now()
-    const tensor = tf.browser.fromPixels(imageData)
 
-    try {
-      // Run models in parallel where possible
-      const [cardDetection, textExtraction, damageAssessment, authenticityCheck] = await Promise.all([
-        this.detectCard(tensor),
-        this.extractText(imageData),
-        this.assessDamage(tensor),
-        this.checkAuthenticity(tensor)
-      ])
+    // Everything downstream runs on the rectified crop, so detection goes first
+    const { cardDetection, rectifiedImage } = await runStage('detect', options, async () => {
+      const cardDetection = await this.detectCard(imageData)
+      const rectifiedImage = cardDetection.quad
+        ? this.cardDetector.rectify(imageData, cardDetection.quad, cardDetection.orientation)
+        : undefined
+      return { cardDetection, rectifiedImage }
+    })
+    // Grading and the colour comparison see the card as printed, not as this light renders it
+    const calibration = options.calibration ?? null
+    const uncorrected = rectifiedImage ?? imageData
+    const cardImage = calibration ? applyColorCorrection(uncorrected, calibration) : uncorrected
+
+    // One stage at a time so progress is meaningful and cancellation can land between them
+    const textExtraction = await runStage('ocr', options, () => this.extractText(cardImage))
+    const damageAssessment = await runStage('damage', options, () => this.assessDamage(cardImage))
+    const authenticityCheck = await runStage('authenticity', options, () => this.checkAuthenticity(cardImage, calibration !== null))
+
+    const overallConfidence = this.calculateOverallConfidence({
+      cardDetection,
+      textExtraction,
+      damageAssessment,
+      authenticityCheck
+    }) * calibrationConfidence(calibration)
+
+    const processingTime = performance.now() - startTime
+
+    this.logger?.metric('vision_pipeline_processing_time', processingTime, {
+      confidence: overallConfidence.toString()
+    })
 
-      const overallConfidence = this.calculateOverallConfidence({
-        cardDetection,
-        textExtraction,
-        damageAssessment,
-        authenticityCheck
-      })
-
-      const processingTime = performance.now() - startTime
-
-      this.logger?.metric('vision_pipeline_processing_time', processingTime, {
-        confidence: overallConfidence.toString()
-      })
-
-      return {
-        cardDetection,
-        textExtraction,
-        damageAssessment,
-        authenticityCheck,
-        overallConfidence,
-        processingTime
-      }
-    } finally {
-      tensor.dispose()
+    return {
+      cardDetection,
+      textExtraction,
+      damageAssessment,
+      authenticityCheck,
+      cardQuad: cardDetection.quad,
+      rectifiedImage,
+      overallConfidence,
+      calibrated: calibration !== null,
+      processingTime,
+      modelVersions: this.registry.versions(Array.from(this.models.values(), model => model.name))
     }
   }
 
   private async loadCardDetectionModel(): Promise<void> {
-    // In production, load actual YOLO or similar model
-    // For now, create mock model
+    // Classical contour + homography detector; runs on raw pixels, nothing to download
+    const detector = this.cardDetector
     const model: VisionModel = {
-      name: 'card-detection',
-      version: '1.0.0',
-      type: 'detection',
-      async load() {
-        // Simulate model loading
-        await new Promise(resolve => setTimeout(resolve, 500))
-      },
+      ...this.describe('card-detection'),
+      async load() {},
       async process(input: tf.Tensor | ImageData): Promise<ModelOutput> {
+        const start = performance.now()
+        if (!isImageData(input)) {
+          throw new Error('Card detection requires ImageData input')
+        }
+
+        const boundary = detector.detect(input)
         return {
-          confidence: 0.92,
-          results: {
-            boundingBox: [50, 50, 300, 400],
-            cardType: 'sports-card',
-            orientation: 'vertical'
-          },
-          processingTime: 50
+          confidence: boundary?.confidence ?? 0,
+          results: boundary ?? null,
+          processingTime: performance.now() - start,
+          metadata: { width: input.width, height: input.height }
         }
       },
       dispose() {}
@@ -182,29 +269,27 @@ export class VisionPipeline {
   }
 
   private async loadOCRModel(): Promise<void> {
-    // In production, use TesseractJS or custom OCR model
+    // Tesseract in a web worker; language data is fetched on the first scan
+    const engine = this.ocrEngine
     const model: VisionModel = {
-      name: 'text-extraction',
-      version: '1.0.0',
-      type: 'ocr',
-      async load() {
-        await new Promise(resolve => setTimeout(resolve, 300))
-      },
+      ...this.describe('text-extraction'),
+      async load() {},
       async process(input: tf.Tensor | ImageData): Promise<ModelOutput> {
-        // Mock OCR results
+        const start = performance.now()
+        if (!isImageData(input)) {
+          throw new Error('Text extraction requires ImageData input')
+        }
+
+        const texts = await engine.recognize(input)
         return {
-          confidence: 0.88,
-          results: {
-            texts: [
-              { text: 'Mike Trout', boundingBox: [100, 350, 200, 30], confidence: 0.95 },
-              { text: '2023', boundingBox: [50, 50, 80, 25], confidence: 0.98 },
-              { text: 'Topps Chrome', boundingBox: [50, 80, 150, 25], confidence: 0.91 }
-            ]
-          },
-          processingTime: 120
+          confidence: texts.length > 0 ? texts.reduce((sum, t) => sum + t.confidence, 0) / texts.length : 0,
+          results: { texts },
+          processingTime: performance.now() - start
         }
       },
-      dispose() {}
+      dispose() {
+        engine.terminate().catch(() => {})
+      }
     }
 
     await model.load()
@@ -212,42 +297,47 @@ export class VisionPipeline {
   }
 
   private async loadDamageDetectionModel(): Promise<void> {
-    // Custom CNN for damage detection
+    // Pixel-level corner/edge wear, surface defects and centering on the rectified card
+    const centeringAnalyzer = new CenteringAnalyzer()
+    const wearAnalyzer = new WearAnalyzer()
+    const surfaceAnalyzer = new SurfaceAnalyzer()
     const model: VisionModel = {
-      name: 'damage-detection',
-      version: '1.0.0',
-      type: 'damage',
-      async load() {
-        await new Promise(resolve => setTimeout(resolve, 400))
-      },
+      ...this.describe('damage-detection'),
+      async load() {},
       async process(input: tf.Tensor | ImageData): Promise<ModelOutput> {
-        // Analyze for various damage types
-        const tensor = input as tf.Tensor
-        
-        // Edge detection for corner/edge wear
-        // Note: sobelEdges not available in current TensorFlow.js version
-        // const edges = tf.image.sobelEdges(tensor.expandDims(0) as tf.Tensor4D)
-        
-        // Surface analysis for scratches
-        const grayscale = tf.image.rgbToGrayscale(tensor as tf.Tensor3D)
-        const variance = tf.moments(grayscale).variance
-        
-        // edges.dispose()
-        grayscale.dispose()
-        
+        const start = performance.now()
+        if (!isImageData(input)) {
+          throw new Error('Damage detection requires ImageData input')
+        }
+
+        const centering = centeringAnalyzer.measure(input)
+        const wear = wearAnalyzer.analyze({ front: input })
+        const surface = surfaceAnalyzer.analyze(input)
+        const subgrades = {
+          corners: wear.cornersGrade,
+          edges: wear.edgesGrade,
+          surface: surface.surfaceGrade
+        }
+
+        const confidence = centering.confidence * 0.3 + 0.7
+        const results: DamageDetectionResult = {
+          damages: [
+            ...[...wear.corners, ...wear.edges]
+              .filter(finding => finding.score < 8.5)
+              .map(finding => wearToDetectedDamage(finding, input)),
+            ...surface.defects
+          ],
+          overallCondition: toCondition(Math.min(subgrades.corners, subgrades.edges, subgrades.surface)),
+          centering: { leftRight: centering.leftRight, topBottom: centering.topBottom },
+          subgrades,
+          heatmap: surface.heatmap,
+          confidence
+        }
+
         return {
-          confidence: 0.85,
-          results: {
-            damages: [],
-            overallCondition: 'near-mint',
-            centering: { leftRight: 52, topBottom: 48 },
-            subgrades: {
-              corners: 9.0,
-              edges: 8.5,
-              surface: 9.0
-            }
-          },
-          processingTime: 80
+          confidence,
+          results,
+          processingTime: performance.now() - start
         }
       },
       dispose() {}
@@ -258,24 +348,34 @@ export class VisionPipeline {
   }
 
   private async loadAuthenticityModel(): Promise<void> {
-    // Authenticity verification model
+    // Comparison with a stored genuine copy; without a reference source every card is unverified
+    const comparator = new ReferenceComparator()
+    const references = this.references
     const model: VisionModel = {
-      name: 'authenticity-check',
-      version: '1.0.0',
-      type: 'authenticity',
-      async load() {
-        await new Promise(resolve => setTimeout(resolve, 300))
-      },
-      async process(input: tf.Tensor | ImageData): Promise<ModelOutput> {
+      ...this.describe('authenticity-check'),
+      async load() {},
+      async process(input: tf.Tensor | ImageData, context: ModelContext = {}): Promise<ModelOutput> {
+        const start = performance.now()
+        if (!isImageData(input)) {
+          throw new Error('Authenticity check requires ImageData input')
+        }
+
+        const reference = references ? await references.findReference(input) : null
+        const comparison = comparator.compare(input, reference, { calibrated: context.calibrated })
+        const results: Omit<AuthenticityCheckResult, 'confidence'> = {
+          isAuthentic: !comparison.suspicious,
+          suspiciousFeatures: comparison.indicators.filter(indicator => indicator.detected).map(indicator => indicator.feature),
+          printQuality: comparison.scores['print-pattern'] ?? 0,
+          colorAccuracy: comparison.scores['color-profile'] ?? 0,
+          indicators: comparison.indicators,
+          hasReference: comparison.hasReference,
+          warnings: comparison.warnings
+        }
+
         return {
-          confidence: 0.94,
-          results: {
-            isAuthentic: true,
-            suspiciousFeatures: [],
-            printQuality: 0.92,
-            colorAccuracy: 0.88
-          },
-          processingTime: 60
+          confidence: comparison.confidence,
+          results,
+          processingTime: performance.now() - start
         }
       },
       dispose() {}
@@ -285,13 +385,33 @@ export class VisionPipeline {
     this.models.set('authenticity', model)
   }
 
-  private async detectCard(tensor: tf.Tensor): Promise<CardDetectionResult> {
+  private describe(id: string): Pick<VisionModel, 'name' | 'version' | 'type'> {
+    const { version, type } = this.registry.get(id)
+    return { name: id, version, type }
+  }
+
+  private async detectCard(imageData: ImageData): Promise<CardDetectionResult> {
     const model = this.models.get('card-detection')
     if (!model) throw new Error('Card detection model not loaded')
 
-    const output = await model.process(tensor)
+    const output = await model.process(imageData)
+    const boundary = output.results as CardBoundary | null
+
+    if (!boundary) {
+      // No card found: fall back to the full frame so the rest of the pipeline still runs
+      return {
+        boundingBox: [0, 0, imageData.width, imageData.height],
+        cardType: 'unknown',
+        orientation: imageData.width > imageData.height ? 'horizontal' : 'vertical',
+        confidence: 0
+      }
+    }
+
     return {
-      ...output.results,
+      boundingBox: quadBoundingBox(boundary.quad),
+      quad: boundary.quad,
+      cardType: 'sports-card',
+      orientation: boundary.orientation,
       confidence: output.confidence
     }
   }
@@ -301,50 +421,22 @@ export class VisionPipeline {
     if (!model) throw new Error('OCR model not loaded')
 
     const output = await model.process(imageData)
-    const texts = output.results.texts as ExtractedText[]
-
-    // Parse extracted text to identify card details
-    const result: TextExtractionResult = { texts }
-
-    for (const text of texts) {
-      // Year detection
-      const yearMatch = text.text.match(/\b(19|20)\d{2}\b/)
-      if (yearMatch && !result.year) {
-        result.year = yearMatch[0]
-      }
-
-      // Card number detection
-      const cardNumMatch = text.text.match(/\b#?\d{1,4}[A-Z]?\b/)
-      if (cardNumMatch && !result.cardNumber) {
-        result.cardNumber = cardNumMatch[0].replace('#', '')
-      }
-
-      // Known manufacturers
-      const manufacturers = ['Topps', 'Panini', 'Upper Deck', 'Fleer', 'Donruss', 'Bowman']
-      for (const mfg of manufacturers) {
-        if (text.text.toLowerCase().includes(mfg.toLowerCase())) {
-          result.manufacturer = mfg
-          break
-        }
-      }
-    }
-
-    return result
+    return parseCardText(output.results.texts as ExtractedText[])
   }
 
-  private async assessDamage(tensor: tf.Tensor): Promise<DamageDetectionResult> {
+  private async assessDamage(cardImage: ImageData): Promise<DamageDetectionResult> {
     const model = this.models.get('damage-detection')
     if (!model) throw new Error('Damage detection model not loaded')
 
-    const output = await model.process(tensor)
+    const output = await model.process(cardImage)
     return output.results
   }
 
-  private async checkAuthenticity(tensor: tf.Tensor): Promise<AuthenticityCheckResult> {
+  private async checkAuthenticity(cardImage: ImageData, calibrated: boolean): Promise<AuthenticityCheckResult> {
     const model = this.models.get('authenticity')
     if (!model) throw new Error('Authenticity model not loaded')
 
-    const output = await model.process(tensor)
+    const output = await model.process(cardImage, { calibrated })
     return {
       ...output.results,
       confidence: output.confidence
@@ -376,16 +468,8 @@ export class VisionPipeline {
     }
 
     if (results.damageAssessment) {
-      // Convert damage assessment to confidence (better condition = higher confidence)
-      const conditionScore = {
-        'mint': 1.0,
-        'near-mint': 0.9,
-        'excellent': 0.7,
-        'good': 0.5,
-        'poor': 0.3
-      }[results.damageAssessment.overallCondition] || 0.5
-
-      weightedSum += conditionScore * weights.damageAssessment
+      // How well the card was measured, not how good its condition is
+      weightedSum += results.damageAssessment.confidence * weights.damageAssessment
       totalWeight += weights.damageAssessment
     }
 
@@ -399,7 +483,7 @@ export class VisionPipeline {
 
   // Image preprocessing methods
   async preprocessImage(imageData: ImageData): Promise<ImageData> {
-    const tensor = tf.browser.fromPixels(imageData)
+    const tensor = tf.browser.fromPixels(toPixelData(imageData))
     
     try {
       // Apply preprocessing pipeline
@@ -421,14 +505,10 @@ export class VisionPipeline {
         'same'
       ).squeeze() as tf.Tensor3D
 
-      // Convert back to ImageData
-      const canvas = document.createElement('canvas')
-      canvas.width = 640
-      canvas.height = 480
-      await tf.browser.toPixels(processed as tf.Tensor3D, canvas)
-      
-      const ctx = canvas.getContext('2d')!
-      return ctx.getImageData(0, 0, 640, 480)
+      // Convert back to ImageData; no canvas, so this also works in a worker
+      const [height, width] = processed.shape
+      const pixels = await tf.browser.toPixels(processed as tf.Tensor3D)
+      return createImageData(width, height, pixels)
     } finally {
       tensor.dispose()
     }
@@ -440,4 +520,53 @@ export class VisionPipeline {
     this.models.clear()
     this.isInitialized = false
   }
-}
\ No newline at end of file
+}
+
+// fromPixels only accepts a real ImageData in browsers; raw RGBA bytes work everywhere, Node included
+function toPixelData(image: ImageData): tf.PixelData {
+  return {
+    width: image.width,
+    height: image.height,
+    data: new Uint8Array(image.data.buffer, image.data.byteOffset, image.data.length)
+  }
+}
+
+function isImageData(input: tf.Tensor | ImageData): input is ImageData {
+  return (input as ImageData).data !== undefined && typeof (input as ImageData).width === 'number'
+}
+
+function toCondition(lowestSubgrade: number): DamageDetectionResult['overallCondition'] {
+  if (lowestSubgrade >= 9.5) return 'mint'
+  if (lowestSubgrade >= 8.5) return 'near-mint'
+  if (lowestSubgrade >= 7) return 'excellent'
+  if (lowestSubgrade >= 5) return 'good'
+  return 'poor'
+}
+
+// Wear findings are per location; give them the pixel region they were measured in
+function wearToDetectedDamage(finding: WearFinding, card: ImageData): DetectedDamage {
+  const { width, height } = card
+  const size = Math.round(width * 0.08)
+  const [first, second] = finding.location.split(/[- ]/)
+  let location: [number, number, number, number]
+
+  if (finding.kind === 'corner') {
+    location = [
+      second === 'right' ? width - size : 0,
+      first === 'bottom' ? height - size : 0,
+      size,
+      size
+    ]
+  } else if (first === 'top' || first === 'bottom') {
+    location = [0, first === 'bottom' ? height - size : 0, width, size]
+  } else {
+    location = [first === 'right' ? width - size : 0, 0, size, height]
+  }
+
+  return {
+    type: finding.kind === 'corner' ? 'corner-wear' : 'edge-wear',
+    severity: finding.score >= 7 ? 'minor' : finding.score >= 5 ? 'moderate' : 'major',
+    location,
+    confidence: 0.8
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Wear Analyzer - Fei-Fei Li: Per-corner and per-edge wear from the multi-angle captures
+ *
+ * All inputs are rectified card images (see CardDetector). Corners are scored on
+ * the front and back; each edge is scored on its dedicated close-up capture when
+ * the scanner collected one, otherwise on the front/back. A location's score is
+ * the worst of the views it appears in.
+ *
+ * Two signals per location:
+ * - whitening: bright, unsaturated pixels on a coloured border (stock showing through)
+ * - deviation: outer-band pixels far from the border colour (chips, dings, fraying)
+ * Corners additionally compare the visible background area against a factory
+ * rounded corner to catch blunted or dinged tips.
+ */
+
+import { Damage } from '../domain/models'
+
+export type CornerPosition = 'top-left' | 'top-right' | 'bottom-right' | 'bottom-left'
+export type EdgePosition = 'top' | 'bottom' | 'left' | 'right'
+
+export interface WearFinding {
+  location: string
+  kind: 'corner' | 'edge'
+  // 1-10, half-point steps
+  score: number
+  whitening: number
+  deviation: number
+  rounding?: number
+  view: string
+}
+
+export interface WearAnalysis {
+  corners: WearFinding[]
+  edges: WearFinding[]
+  cornersGrade: number
+  edgesGrade: number
+  damages: Damage[]
+}
+
+export interface WearInputs {
+  front: ImageData
+  back?: ImageData
+  edges?: Partial<Record<EdgePosition, ImageData>>
+}
+
+type RGB = [number, number, number]
+
+const CORNERS: CornerPosition[] = ['top-left', 'top-right', 'bottom-right', 'bottom-left']
+const EDGES: EdgePosition[] = ['top', 'bottom', 'left', 'right']
+
+// Factory corner radius is roughly 3.5% of card width
+const CORNER_RADIUS_FRACTION = 0.035
+
+export class WearAnalyzer {
+  analyze(inputs: WearInputs): WearAnalysis {
+    const views: Array<{ name: string; image: ImageData }> = [{ name: 'front', image: inputs.front }]
+    if (inputs.back) views.push({ name: 'back', image: inputs.back })
+
+    const corners = CORNERS.map(corner =>
+      worst(views.map(view => this.scoreCorner(view.image, corner, view.name)))
+    )
+
+    const edges = EDGES.map(edge => {
+      const closeUp = inputs.edges?.[edge]
+      const edgeViews = closeUp ? [{ name: `edge-${edge}`, image: closeUp }] : views
+      return worst(edgeViews.map(view => this.scoreEdge(view.image, edge, view.name)))
+    })
+
+    return {
+      corners,
+      edges,
+      cornersGrade: subgrade(corners),
+      edgesGrade: subgrade(edges),
+      damages: [...corners, ...edges]
+        .map(finding => toDamage(finding))
+        .filter((damage): damage is Damage => damage !== null)
+    }
+  }
+
+  private scoreCorner(card: ImageData, corner: CornerPosition, view: string): WearFinding {
+    const { width, height } = card
+    const size = Math.max(8, Math.round(width * 0.06))
+    const band = Math.max(2, Math.round(width * 0.04))
+    const flipX = corner === 'top-right' || corner === 'bottom-right'
+    const flipY = corner === 'bottom-left' || corner === 'bottom-right'
+    // (u, v) are patch coordinates measured from the corner tip inward
+    const at = (u: number, v: number) => {
+      const x = flipX ? width - 1 - u : u
+      const y = flipY ? height - 1 - v : v
+      return (y * width + x) * 4
+    }
+
+    const border = averageColor([
+      this.borderColor(card, flipY ? 'bottom' : 'top'),
+      this.borderColor(card, flipX ? 'right' : 'left')
+    ])
+    const background = averageColor(
+      [[0, 0], [1, 0], [0, 1], [1, 1]].map(([u, v]) => pixel(card, at(u, v)))
+    )
+    const backgroundVisible = colorDistance(background, border) > 30
+
+    let missing = 0
+    let bandPixels = 0
+    let whitened = 0
+    let deviated = 0
+
+    for (let v = 0; v < size; v++) {
+      for (let u = 0; u < size; u++) {
+        const color = pixel(card, at(u, v))
+        const toBackground = colorDistance(color, background)
+
+        if (backgroundVisible && toBackground < 40 && toBackground < colorDistance(color, border)) {
+          missing++
+          continue
+        }
+
+        if (Math.min(u, v) >= band) continue
+        bandPixels++
+        if (isWhitening(color, border)) whitened++
+        else if (colorDistance(color, border) > 70) deviated++
+      }
+    }
+
+    const radius = width * CORNER_RADIUS_FRACTION
+    const expectedMissing = Math.min(size, radius) ** 2 * (1 - Math.PI / 4)
+    const rounding = backgroundVisible
+      ? Math.max(0, missing - expectedMissing * 1.5) / (size * size)
+      : 0
+    const whitening = bandPixels > 0 ? whitened / bandPixels : 0
+    const deviation = bandPixels > 0 ? deviated / bandPixels : 0
+
+    const penalty = Math.min(6, whitening * 30) + Math.min(5, deviation * 20) + Math.min(6, rounding * 50)
+
+    return {
+      location: `${corner} corner`,
+      kind: 'corner',
+      score: toHalfPoint(10 - penalty),
+      whitening,
+      deviation,
+      rounding,
+      view
+    }
+  }
+
+  private scoreEdge(card: ImageData, edge: EdgePosition, view: string): WearFinding {
+    const horizontal = edge === 'top' || edge === 'bottom'
+    const alongSize = horizontal ? card.width : card.height
+    const depthSize = horizontal ? card.height : card.width
+    const innerDepth = Math.max(1, Math.round(depthSize * 0.003))
+    const outerDepth = Math.max(innerDepth + 2, Math.round(depthSize * 0.025))
+    const border = this.borderColor(card, edge)
+
+    let positions = 0
+    let whitenedPositions = 0
+    let deviatedPositions = 0
+
+    // Leave the corners to scoreCorner
+    for (let along = Math.round(alongSize * 0.08); along < alongSize * 0.92; along++) {
+      let whitened = 0
+      let deviated = 0
+
+      for (let depth = innerDepth; depth < outerDepth; depth++) {
+        const d = edge === 'bottom' || edge === 'right' ? depthSize - 1 - depth : depth
+        const x = horizontal ? along : d
+        const y = horizontal ? d : along
+        const color = pixel(card, (y * card.width + x) * 4)
+
+        if (isWhitening(color, border)) whitened++
+        else if (colorDistance(color, border) > 70) deviated++
+      }
+
+      positions++
+      if (whitened >= 2) whitenedPositions++
+      else if (deviated >= 2) deviatedPositions++
+    }
+
+    const whitening = positions > 0 ? whitenedPositions / positions : 0
+    const deviation = positions > 0 ? deviatedPositions / positions : 0
+    const penalty = Math.min(7, whitening * 40) + Math.min(5, deviation * 25)
+
+    return {
+      location: `${edge} edge`,
+      kind: 'edge',
+      score: toHalfPoint(10 - penalty),
+      whitening,
+      deviation,
+      view
+    }
+  }
+
+  // Median colour of the border band in the middle of one side
+  private borderColor(card: ImageData, side: EdgePosition): RGB {
+    const horizontal = side === 'top' || side === 'bottom'
+    const alongSize = horizontal ? card.width : card.height
+    const depthSize = horizontal ? card.height : card.width
+    const channels: number[][] = [[], [], []]
+
+    for (let along = Math.round(alongSize * 0.3); along < alongSize * 0.7; along += 2) {
+      for (let depth = Math.round(depthSize * 0.01); depth < depthSize * 0.03; depth++) {
+        const d = side === 'bottom' || side === 'right' ? depthSize - 1 - depth : depth
+        const x = horizontal ? along : d
+        const y = horizontal ? d : along
+        const color = pixel(card, (y * card.width + x) * 4)
+        channels[0].push(color[0])
+        channels[1].push(color[1])
+        channels[2].push(color[2])
+      }
+    }
+
+    return channels.map(values => {
+      const sorted = values.sort((a, b) => a - b)
+      return sorted[Math.floor(sorted.length / 2)] ?? 0
+    }) as RGB
+  }
+}
+
+function pixel(image: ImageData, p: number): RGB {
+  return [image.data[p], image.data[p + 1], image.data[p + 2]]
+}
+
+function colorDistance(a: RGB, b: RGB): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2])
+}
+
+function averageColor(colors: RGB[]): RGB {
+  const sum = colors.reduce<RGB>((acc, c) => [acc[0] + c[0], acc[1] + c[1], acc[2] + c[2]], [0, 0, 0])
+  return [sum[0] / colors.length, sum[1] / colors.length, sum[2] / colors.length]
+}
+
+function luminance(c: RGB): number {
+  return 0.299 * c[0] + 0.587 * c[1] + 0.114 * c[2]
+}
+
+// Card stock showing through: near-white and clearly brighter than a non-white border
+function isWhitening(color: RGB, border: RGB): boolean {
+  const borderLuminance = luminance(border)
+  if (borderLuminance > 200) return false
+
+  const saturation = Math.max(...color) - Math.min(...color)
+  return luminance(color) > Math.max(borderLuminance + 35, 170) && saturation < 40
+}
+
+function worst(findings: WearFinding[]): WearFinding {
+  return findings.reduce((a, b) => (b.score < a.score ? b : a))
+}
+
+// Graders weight the worst location heavily: one bad corner caps the subgrade
+function subgrade(findings: WearFinding[]): number {
+  const scores = findings.map(f => f.score)
+  const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length
+  return toHalfPoint(0.6 * Math.min(...scores) + 0.4 * mean)
+}
+
+function toHalfPoint(value: number): number {
+  return Math.max(1, Math.min(10, Math.round(value * 2) / 2))
+}
+
+function toDamage(finding: WearFinding): Damage | null {
+  if (finding.score >= 8.5) return null
+
+  const severity = finding.score >= 7 ? 'minor' : finding.score >= 5 ? 'moderate' : 'major'
+  const details: string[] = []
+  if (finding.whitening > 0.01) details.push(`whitening on ${Math.round(finding.whitening * 100)}%`)
+  if (finding.deviation > 0.01) details.push(`chipping on ${Math.round(finding.deviation * 100)}%`)
+  if (finding.rounding && finding.rounding > 0.01) details.push('tip rounded beyond factory cut')
+
+  return new Damage(
+    finding.kind === 'corner' ? 'corner-wear' : 'edge-wear',
+    severity,
+    finding.location,
+    `${details.join(', ') || 'wear detected'} (${finding.view})`
+  )
+}
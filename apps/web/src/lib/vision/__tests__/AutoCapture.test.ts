@@ -0,0 +1,99 @@
+/**
+ * Tests for auto-capture stability tracking
+ */
+
+import { StabilityTracker, frameDifference } from '../AutoCapture'
+import { CaptureQuality, CaptureQualityAssessor, QualityIssue } from '../CaptureQuality'
+import { createImageData } from '../image'
+
+function quality(issues: QualityIssue[] = []): CaptureQuality {
+  return {
+    scores: { sharpness: 100, glare: 100, exposure: 100, fill: 100, skew: 100 },
+    overall: 100,
+    acceptable: !issues.some(issue => issue.severity === 'reject'),
+    issues,
+    glareRegions: [],
+    cardFound: true
+  }
+}
+
+describe('StabilityTracker', () => {
+  it('should fire once the frame has been still for the hold window', () => {
+    const tracker = new StabilityTracker({ holdMs: 600 })
+
+    expect(tracker.update(quality(), 0.01, 0)).toMatchObject({ status: 'holding', progress: 0 })
+    expect(tracker.update(quality(), 0.01, 300).progress).toBeCloseTo(0.5)
+    expect(tracker.update(quality(), 0.01, 600).status).toBe('ready')
+  })
+
+  it('should restart the hold when the card moves or the frame is rejected', () => {
+    const tracker = new StabilityTracker({ holdMs: 600 })
+    const glare: QualityIssue = { check: 'glare', severity: 'reject', message: 'Tilt the card slightly to remove glare at top-right' }
+
+    tracker.update(quality(), 0.01, 0)
+    expect(tracker.update(quality(), 0.1, 400).progress).toBe(0)
+    tracker.update(quality(), 0.01, 500)
+    expect(tracker.update(quality([glare]), 0.01, 900)).toMatchObject({ status: 'adjusting', hint: glare.message })
+    expect(tracker.update(quality(), 0.01, 1000).status).toBe('holding')
+  })
+
+  it('should not fire on a stable frame with a glare warning, and pass its coaching on', () => {
+    const tracker = new StabilityTracker({ holdMs: 600 })
+    const glare: QualityIssue = { check: 'glare', severity: 'warning', message: 'Tilt the card slightly to remove glare at top-right' }
+
+    tracker.update(quality(), 0.01, 0)
+    expect(tracker.update(quality([glare]), 0.01, 300)).toMatchObject({ status: 'adjusting', hint: glare.message })
+    expect(tracker.update(quality([glare]), 0.01, 1200)).toMatchObject({ status: 'adjusting', progress: 0 })
+    expect(tracker.update(quality(), 0.01, 1300).status).toBe('holding')
+  })
+
+  it('should keep counting down through warnings other than glare', () => {
+    const tracker = new StabilityTracker({ holdMs: 600 })
+    const dim: QualityIssue = { check: 'exposure', severity: 'warning', message: 'Add a little more light' }
+
+    tracker.update(quality([dim]), 0.01, 0)
+    expect(tracker.update(quality([dim]), 0.01, 600).status).toBe('ready')
+  })
+
+  it('should capture a steady white-bordered card', () => {
+    // Textured picture inside a near-white border, on a dark table
+    const frame = createImageData(640, 480)
+    for (let y = 0; y < 480; y++) {
+      for (let x = 0; x < 640; x++) {
+        const p = (y * 640 + x) * 4
+        const onCard = x >= 195 && x < 445 && y >= 65 && y < 415
+        const inPicture = x >= 213 && x < 427 && y >= 83 && y < 397
+        const value = !onCard ? 30 : !inPicture ? 252 : (Math.floor(x / 3) + Math.floor(y / 3)) % 2 === 0 ? 200 : 150
+        frame.data[p] = value
+        frame.data[p + 1] = value
+        frame.data[p + 2] = value
+        frame.data[p + 3] = 255
+      }
+    }
+    const assessed = new CaptureQualityAssessor().assess(frame)
+    const tracker = new StabilityTracker({ holdMs: 600 })
+
+    tracker.update(assessed, 0.01, 0)
+    expect(tracker.update(assessed, 0.01, 600)).toEqual({ status: 'ready', progress: 1 })
+  })
+
+  it('should wait for the scene to change before arming again', () => {
+    const tracker = new StabilityTracker({ holdMs: 0 })
+
+    expect(tracker.update(quality(), 0, 0).status).toBe('ready')
+    tracker.captured()
+    expect(tracker.update(quality(), 0, 100).status).toBe('waiting-for-move')
+    expect(tracker.update(quality(), 0.3, 200).status).toBe('holding')
+    expect(tracker.update(quality(), 0, 300).status).toBe('ready')
+  })
+})
+
+describe('frameDifference', () => {
+  it('should measure mean change and treat a missing frame as motion', () => {
+    const a = { width: 2, height: 1, data: new Float32Array([0, 100]) }
+    const b = { width: 2, height: 1, data: new Float32Array([51, 100]) }
+
+    expect(frameDifference(a, b)).toBeCloseTo(0.1)
+    expect(frameDifference(null, b)).toBe(1)
+  })
+})
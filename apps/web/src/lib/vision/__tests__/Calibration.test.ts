@@ -0,0 +1,94 @@
+/**
+ * Tests for the camera calibration card
+ */
+
+import {
+  CALIBRATION_COLORS,
+  CALIBRATION_TARGET,
+  UNCALIBRATED_CONFIDENCE,
+  applyColorCorrection,
+  calibrationConfidence,
+  measureCalibrationTarget
+} from '../Calibration'
+import { createImageData } from '../image'
+
+type Rgb = [number, number, number]
+
+const FRAME = { width: 400, height: 520 }
+// 250 x 350 px card: about 3.94 px/mm
+const CARD = { left: 75, top: 85, width: 250, height: 350 }
+
+// A warm light with some channel crosstalk
+function camera([r, g, b]: Rgb): Rgb {
+  return [0.8 * r + 20, 0.9 * g + 0.05 * r, 0.85 * b + 10]
+}
+
+function drawTarget(options: { upsideDown?: boolean; blank?: boolean } = {}): ImageData {
+  const { columns, rows, patchMm, gapMm, widthMm, heightMm } = CALIBRATION_TARGET
+  const pxPerMm = CARD.width / widthMm
+  const left = (widthMm - columns * patchMm - (columns - 1) * gapMm) / 2
+  const top = (heightMm - rows * patchMm - (rows - 1) * gapMm) / 2
+  const image = createImageData(FRAME.width, FRAME.height)
+
+  for (let y = 0; y < FRAME.height; y++) {
+    for (let x = 0; x < FRAME.width; x++) {
+      let color: Rgb = [40, 40, 40]
+      const inCard = x >= CARD.left && x < CARD.left + CARD.width && y >= CARD.top && y < CARD.top + CARD.height
+      if (inCard) {
+        color = camera([250, 250, 250])
+        let mmX = (x - CARD.left) / pxPerMm
+        let mmY = (y - CARD.top) / pxPerMm
+        if (options.upsideDown) {
+          mmX = widthMm - mmX
+          mmY = heightMm - mmY
+        }
+        const column = Math.floor((mmX - left) / (patchMm + gapMm))
+        const row = Math.floor((mmY - top) / (patchMm + gapMm))
+        const inPatch = column >= 0 && column < columns && row >= 0 && row < rows &&
+          (mmX - left) - column * (patchMm + gapMm) < patchMm &&
+          (mmY - top) - row * (patchMm + gapMm) < patchMm
+        if (inPatch && !options.blank) color = camera(CALIBRATION_COLORS[row * columns + column])
+      }
+      const p = (y * FRAME.width + x) * 4
+      image.data[p] = color[0]
+      image.data[p + 1] = color[1]
+      image.data[p + 2] = color[2]
+      image.data[p + 3] = 255
+    }
+  }
+  return image
+}
+
+function pixel(color: Rgb): ImageData {
+  return createImageData(1, 1, new Uint8ClampedArray([...color, 255]))
+}
+
+describe('Calibration', () => {
+  it('should fit a colour correction that undoes the light', () => {
+    const measurement = measureCalibrationTarget(drawTarget())
+
+    expect(measurement.errorBefore).toBeGreaterThan(10)
+    expect(measurement.residualError).toBeLessThan(3)
+    expect(measurement.pxPerMm).toBeCloseTo(CARD.width / CALIBRATION_TARGET.widthMm, 1)
+
+    const corrected = applyColorCorrection(pixel(camera([175, 54, 60])), measurement)
+    expect(Math.abs(corrected.data[0] - 175)).toBeLessThanOrEqual(3)
+    expect(Math.abs(corrected.data[1] - 54)).toBeLessThanOrEqual(3)
+    expect(Math.abs(corrected.data[2] - 60)).toBeLessThanOrEqual(3)
+  })
+
+  it('should read the card upside down', () => {
+    const measurement = measureCalibrationTarget(drawTarget({ upsideDown: true }))
+    expect(measurement.residualError).toBeLessThan(3)
+  })
+
+  it('should reject a card without the colour patches', () => {
+    expect(() => measureCalibrationTarget(drawTarget({ blank: true }))).toThrow(/does not look like the calibration card/)
+  })
+
+  it('should lower confidence for uncalibrated captures', () => {
+    expect(calibrationConfidence(null)).toBe(UNCALIBRATED_CONFIDENCE)
+    expect(calibrationConfidence({ residualError: 2 })).toBe(1)
+    expect(calibrationConfidence({ residualError: 20 })).toBeGreaterThan(UNCALIBRATED_CONFIDENCE)
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * Tests for the capture quality gate
+ */
+
+import { CaptureQualityAssessor } from '../CaptureQuality'
+import { createImageData } from '../image'
+
+interface CardOptions {
+  width?: number
+  height?: number
+  // Card rectangle: left, top, width, height
+  card?: [number, number, number, number]
+  // Fine print on the card; without it the card is a flat, blurry-looking block
+  textured?: boolean
+  // Blown-out rectangle in frame coordinates
+  glare?: [number, number, number, number]
+  // Plain border of this brightness around the card's picture
+  border?: number
+}
+
+function drawFrame({
+  width = 640,
+  height = 480,
+  card = [195, 65, 250, 350],
+  textured = true,
+  glare,
+  border
+}: CardOptions = {}): ImageData {
+  const image = createImageData(width, height)
+  const within = (x: number, y: number, [left, top, w, h]: [number, number, number, number]) =>
+    x >= left && x < left + w && y >= top && y < top + h
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4
+      let value = 30
+      if (within(x, y, card)) {
+        value = textured && (Math.floor(x / 3) + Math.floor(y / 3)) % 2 === 0 ? 200 : 150
+        if (border !== undefined && !within(x, y, [card[0] + 18, card[1] + 18, card[2] - 36, card[3] - 36])) value = border
+      }
+      if (glare && within(x, y, glare)) value = 255
+      image.data[p] = value
+      image.data[p + 1] = value
+      // Paper has a slight warm tint; glare and a plain border are neutral
+      const neutral = value === 255 || value === border
+      image.data[p + 2] = neutral ? value : value * 0.95
+      image.data[p + 3] = 255
+    }
+  }
+
+  return image
+}
+
+describe('CaptureQualityAssessor', () => {
+  const assessor = new CaptureQualityAssessor()
+
+  it('should accept a sharp, well-framed card', () => {
+    const quality = assessor.assess(drawFrame())
+
+    expect(quality.cardFound).toBe(true)
+    expect(quality.acceptable).toBe(true)
+    expect(quality.issues).toEqual([])
+  })
+
+  it('should say where the glare is', () => {
+    const quality = assessor.assess(drawFrame({ glare: [345, 70, 95, 100] }))
+
+    expect(quality.acceptable).toBe(false)
+    expect(quality.glareRegions[0]).toBe('top-right')
+    expect(quality.issues.find(issue => issue.check === 'glare')!.message).toContain('glare at top-right')
+  })
+
+  it('should not take a white border for glare', () => {
+    for (const border of [235, 245, 252]) {
+      const quality = assessor.assess(drawFrame({ border }))
+
+      expect(quality.glareRegions).toEqual([])
+      expect(quality.scores.glare).toBe(100)
+      expect(quality.issues.map(issue => issue.check)).not.toContain('glare')
+    }
+  })
+
+  it('should still find glare on a white-bordered card', () => {
+    const quality = assessor.assess(drawFrame({ border: 252, glare: [215, 300, 90, 95] }))
+
+    expect(quality.acceptable).toBe(false)
+    expect(quality.glareRegions[0]).toBe('bottom-left')
+  })
+
+  it('should reject a blurry card', () => {
+    const quality = assessor.assess(drawFrame({ textured: false }))
+
+    expect(quality.acceptable).toBe(false)
+    expect(quality.issues.map(issue => issue.check)).toContain('sharpness')
+  })
+
+  it('should coach the user closer when the card is small in frame', () => {
+    const quality = assessor.assess(drawFrame({ card: [250, 142, 140, 196] }))
+
+    const fill = quality.issues.find(issue => issue.check === 'fill')
+    expect(fill).toMatchObject({ severity: 'reject' })
+    expect(fill!.message).toContain('Move closer')
+  })
+
+  it('should reject a frame without a card', () => {
+    const quality = assessor.assess(drawFrame({ card: [0, 0, 0, 0] }))
+
+    expect(quality.cardFound).toBe(false)
+    expect(quality.acceptable).toBe(false)
+    expect(quality.issues[0].check).toBe('card')
+  })
+})
@@ -0,0 +1,97 @@
+/**
+ * Tests for card boundary detection and rectification
+ */
+
+import { CardDetector, RECTIFIED_WIDTH, RECTIFIED_HEIGHT } from '../CardDetector'
+import { createImageData } from '../image'
+import { Point, Quad } from '../geometry'
+
+// Paint a convex quad filled with a solid colour on a dark background
+function drawCard(width: number, height: number, quad: Quad, color: [number, number, number]): ImageData {
+  const image = createImageData(width, height)
+  const inside = (x: number, y: number) => quad.every((a, i) => {
+    const b = quad[(i + 1) % 4]
+    return (b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x) >= 0
+  })
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4
+      const [r, g, b] = inside(x + 0.5, y + 0.5) ? color : [30, 32, 35]
+      image.data[p] = r
+      image.data[p + 1] = g
+      image.data[p + 2] = b
+      image.data[p + 3] = 255
+    }
+  }
+
+  return image
+}
+
+function rotatedRect(cx: number, cy: number, w: number, h: number, degrees: number): Quad {
+  const angle = (degrees * Math.PI) / 180
+  const corner = (dx: number, dy: number): Point => ({
+    x: cx + dx * Math.cos(angle) - dy * Math.sin(angle),
+    y: cy + dx * Math.sin(angle) + dy * Math.cos(angle)
+  })
+  return [corner(-w / 2, -h / 2), corner(w / 2, -h / 2), corner(w / 2, h / 2), corner(-w / 2, h / 2)]
+}
+
+function maxCornerError(actual: Quad, expected: Quad): number {
+  return Math.max(...actual.map((p, i) => Math.hypot(p.x - expected[i].x, p.y - expected[i].y)))
+}
+
+describe('CardDetector', () => {
+  const detector = new CardDetector()
+
+  it('should find the corners of an upright card', () => {
+    const expected = rotatedRect(320, 240, 250, 350, 0)
+    const image = drawCard(640, 480, expected, [235, 235, 230])
+
+    const boundary = detector.detect(image)
+
+    expect(boundary).not.toBeNull()
+    expect(boundary!.orientation).toBe('vertical')
+    expect(maxCornerError(boundary!.quad, expected)).toBeLessThan(3)
+    expect(boundary!.confidence).toBeGreaterThan(0.8)
+  })
+
+  it('should find the corners of a rotated card', () => {
+    const expected = rotatedRect(320, 240, 220, 308, 12)
+    const image = drawCard(640, 480, expected, [200, 60, 60])
+
+    const boundary = detector.detect(image)
+
+    expect(boundary).not.toBeNull()
+    expect(maxCornerError(boundary!.quad, expected)).toBeLessThan(4)
+    expect(boundary!.aspectRatio).toBeCloseTo(2.5 / 3.5, 1)
+  })
+
+  it('should report landscape cards as horizontal', () => {
+    const image = drawCard(640, 480, rotatedRect(320, 240, 350, 250, 0), [235, 235, 230])
+
+    expect(detector.detect(image)?.orientation).toBe('horizontal')
+  })
+
+  it('should return null when no card is in frame', () => {
+    const image = drawCard(640, 480, rotatedRect(-100, -100, 10, 10, 0), [235, 235, 230])
+
+    expect(detector.detect(image)).toBeNull()
+  })
+
+  it('should rectify the card to an upright 2.5x3.5 image', () => {
+    const quad = rotatedRect(320, 240, 220, 308, -8)
+    const image = drawCard(640, 480, quad, [200, 60, 60])
+    const boundary = detector.detect(image)!
+
+    const rectified = detector.rectify(image, boundary.quad, boundary.orientation)
+
+    expect(rectified.width).toBe(RECTIFIED_WIDTH)
+    expect(rectified.height).toBe(RECTIFIED_HEIGHT)
+    // Centre and near-corner pixels are card colour, not background
+    for (const [x, y] of [[250, 350], [10, 10], [490, 690]]) {
+      const p = (y * rectified.width + x) * 4
+      expect(rectified.data[p]).toBeGreaterThan(150)
+    }
+  })
+})
@@ -0,0 +1,52 @@
+/**
+ * Tests for parsing card fields out of OCR lines
+ */
+
+import { parseCardText } from '../CardTextParser'
+import type { ExtractedText } from '../VisionPipeline'
+
+function line(text: string, height = 20, confidence = 0.9): ExtractedText {
+  return { text, boundingBox: [0, 0, 200, height], confidence }
+}
+
+describe('parseCardText', () => {
+  it('should read the fields printed on a modern card', () => {
+    const result = parseCardText(
+      [line('Topps Chrome', 18), line('MIKE TROUT', 40), line('ANGELS', 16)],
+      [line('#27', 14), line('2019 Season 134 G .291 AVG', 10), line('© 2023 The Topps Company, Inc.', 10)]
+    )
+
+    expect(result.playerName).toBe('Mike Trout')
+    expect(result.year).toBe('2023')
+    expect(result.cardNumber).toBe('27')
+    expect(result.manufacturer).toBe('Topps')
+    expect(result.setName).toBe('Topps Chrome')
+  })
+
+  it('should trust a copyright year over stat lines', () => {
+    const result = parseCardText([], [line('2019 Angels 157 HR'), line('(c) 2021 Panini America')])
+
+    expect(result.year).toBe('2021')
+    expect(result.fieldConfidence!.year).toBeCloseTo(0.9 * 0.95)
+  })
+
+  it('should read hyphenated insert codes as card numbers', () => {
+    const result = parseCardText([], [line('VRAP-BS'), line('Bishop Sankey')])
+
+    expect(result.cardNumber).toBe('VRAP-BS')
+  })
+
+  it('should prefer the largest name-shaped line for the player', () => {
+    const result = parseCardText([line('Rookie Card', 50), line('Connor Bedard', 36), line('Blackhawks Center', 12)])
+
+    expect(result.playerName).toBe('Connor Bedard')
+  })
+
+  it('should leave fields out when nothing matches', () => {
+    const result = parseCardText([line('???', 10, 0.4)])
+
+    expect(result.playerName).toBeUndefined()
+    expect(result.year).toBeUndefined()
+    expect(result.fieldConfidence).toEqual({})
+  })
+})
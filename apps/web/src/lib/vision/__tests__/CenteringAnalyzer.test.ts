@@ -0,0 +1,57 @@
+/**
+ * Tests for border-based centering measurement
+ */
+
+import { CenteringAnalyzer } from '../CenteringAnalyzer'
+import { createImageData } from '../image'
+
+const CARD = { width: 250, height: 350 }
+
+// Rectified card: light border around a dark blue picture area
+function drawCard(borders: { left: number; right: number; top: number; bottom: number } | null): ImageData {
+  const image = createImageData(CARD.width, CARD.height)
+  for (let y = 0; y < CARD.height; y++) {
+    for (let x = 0; x < CARD.width; x++) {
+      const inPicture = !borders || (
+        x >= borders.left && x < CARD.width - borders.right &&
+        y >= borders.top && y < CARD.height - borders.bottom
+      )
+      const p = (y * CARD.width + x) * 4
+      const color = inPicture ? [40, 70, 150] : [235, 232, 225]
+      image.data[p] = color[0]
+      image.data[p + 1] = color[1]
+      image.data[p + 2] = color[2]
+      image.data[p + 3] = 255
+    }
+  }
+  return image
+}
+
+describe('CenteringAnalyzer', () => {
+  const analyzer = new CenteringAnalyzer()
+
+  it('should report a centred card as 50/50', () => {
+    const measurement = analyzer.measure(drawCard({ left: 20, right: 20, top: 25, bottom: 25 }))
+
+    expect(measurement.score.leftRight).toBe(50)
+    expect(measurement.score.topBottom).toBe(50)
+    expect(measurement.confidence).toBeGreaterThan(0.9)
+  })
+
+  it('should measure off-centre borders as the left and top share', () => {
+    const measurement = analyzer.measure(drawCard({ left: 14, right: 26, top: 36, bottom: 24 }))
+
+    expect(measurement.leftRight).toBeCloseTo(35, 0)
+    expect(measurement.topBottom).toBeCloseTo(60, 0)
+    expect(measurement.borders.left).toBeLessThan(measurement.borders.right)
+    expect(measurement.overlay.inner.x).toBeCloseTo(measurement.borders.left / CARD.width, 5)
+  })
+
+  it('should have no confidence on a full-bleed card', () => {
+    const analysis = analyzer.analyze(drawCard({ left: 20, right: 20, top: 25, bottom: 25 }), drawCard(null))
+
+    expect(analysis.back).toBeDefined()
+    expect(analysis.back!.confidence).toBe(0)
+    expect(analysis.front.confidence).toBeGreaterThan(0.9)
+  })
+})
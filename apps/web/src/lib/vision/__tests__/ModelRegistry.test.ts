@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for model versioning and artifact integrity checks
+ */
+
+import type * as tf from '@tensorflow/tfjs'
+import { CachedArtifacts, checksumOf, ModelArtifactCache, ModelManifest, ModelRegistry } from '../ModelRegistry'
+
+class MemoryCache implements ModelArtifactCache {
+  entries = new Map<string, CachedArtifacts>()
+
+  async get(id: string, version: string) {
+    return this.entries.get(`${id}@${version}`) ?? null
+  }
+
+  async put(entry: CachedArtifacts) {
+    this.entries.set(`${entry.id}@${entry.version}`, entry)
+  }
+
+  async delete(id: string, version: string) {
+    this.entries.delete(`${id}@${version}`)
+  }
+}
+
+function artifacts(...bytes: number[]): tf.io.ModelArtifacts {
+  return { modelTopology: {}, weightSpecs: [], weightData: new Uint8Array(bytes).buffer }
+}
+
+const detector: ModelManifest = {
+  id: 'detector',
+  version: '1.0.0',
+  type: 'detection',
+  inputShape: [-1, -1, 3],
+  artifact: { url: 'detector/model.json', format: 'graph' }
+}
+
+// The detector pinned to the artifacts it is served
+async function pinned(served = artifacts(1, 2, 3)): Promise<ModelManifest> {
+  return { ...detector, artifact: { ...detector.artifact!, checksum: await checksumOf(served) } }
+}
+
+describe('ModelRegistry', () => {
+  it('should fetch relative artifacts from the base URL and cache them', async () => {
+    const cache = new MemoryCache()
+    const fetchArtifacts = jest.fn(async () => artifacts(1, 2, 3))
+    const registry = new ModelRegistry([await pinned()], { baseUrl: '/models/', cache, fetchArtifacts })
+
+    await registry.loadArtifacts('detector')
+    await registry.loadArtifacts('detector')
+
+    expect(fetchArtifacts).toHaveBeenCalledTimes(1)
+    expect(fetchArtifacts).toHaveBeenCalledWith('/models/detector/model.json')
+    expect(cache.entries.size).toBe(1)
+  })
+
+  it('should reject a download that does not match the pinned checksum', async () => {
+    const registry = new ModelRegistry([await pinned()], { fetchArtifacts: async () => artifacts(9, 9, 9) })
+
+    await expect(registry.loadArtifacts('detector')).rejects.toThrow('Failed to load AI model: detector')
+  })
+
+  it('should reject a model.json changed around the pinned weights', async () => {
+    const swapped = { ...artifacts(1, 2, 3), modelTopology: { node: [{ name: 'Identity' }] } }
+    const registry = new ModelRegistry([await pinned()], { fetchArtifacts: async () => swapped })
+
+    await expect(registry.loadArtifacts('detector')).rejects.toThrow('Failed to load AI model: detector')
+  })
+
+  it('should refuse to load artifacts without a pinned checksum', async () => {
+    const fetchArtifacts = jest.fn(async () => artifacts(1, 2, 3))
+    const registry = new ModelRegistry([detector], { fetchArtifacts })
+
+    await expect(registry.loadArtifacts('detector')).rejects.toThrow('Failed to load AI model: detector')
+    expect(fetchArtifacts).not.toHaveBeenCalled()
+  })
+
+  it('should hash model.json the same however its keys are ordered', async () => {
+    const written = { format: 'graph-model', modelTopology: { node: [], versions: { producer: 1 } }, weightData: new ArrayBuffer(0) }
+    const cached = { weightData: new ArrayBuffer(0), modelTopology: { versions: { producer: 1 }, node: [] }, format: 'graph-model' }
+
+    expect(await checksumOf(written)).toBe(await checksumOf(cached))
+  })
+
+  it('should replace a corrupted cache entry with a fresh download', async () => {
+    const cache = new MemoryCache()
+    const fetchArtifacts = jest.fn(async () => artifacts(1, 2, 3))
+    const registry = new ModelRegistry([await pinned()], { cache, fetchArtifacts })
+    await registry.loadArtifacts('detector')
+
+    const entry = cache.entries.get('detector@1.0.0')!
+    cache.entries.set('detector@1.0.0', { ...entry, artifacts: artifacts(0) })
+    const loaded = await registry.loadArtifacts('detector')
+
+    expect(fetchArtifacts).toHaveBeenCalledTimes(2)
+    expect(new Uint8Array(loaded.weightData as ArrayBuffer)).toEqual(new Uint8Array([1, 2, 3]))
+  })
+
+  it('should record the checksum of the weights a scan actually used', async () => {
+    const registry = new ModelRegistry(
+      [await pinned(), { id: 'ocr', version: '2.0.0', type: 'ocr', inputShape: [-1, -1, 4] }],
+      { fetchArtifacts: async () => artifacts(1, 2, 3) }
+    )
+    await registry.loadArtifacts('detector')
+
+    expect(registry.versions(['detector', 'ocr'])).toEqual([
+      { id: 'detector', version: '1.0.0', checksum: await checksumOf(artifacts(1, 2, 3)) },
+      { id: 'ocr', version: '2.0.0' }
+    ])
+  })
+
+  it('should refuse unknown models', () => {
+    expect(() => new ModelRegistry().get('missing')).toThrow('Model not found')
+  })
+})
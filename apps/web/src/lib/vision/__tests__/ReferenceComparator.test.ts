@@ -0,0 +1,123 @@
+/**
+ * Tests for comparing a scan with a genuine reference image
+ */
+
+import { ReferenceComparator } from '../ReferenceComparator'
+import { createImageData } from '../image'
+
+type Rgb = [number, number, number]
+
+interface CardOptions {
+  // Flat ink instead of halftone dots in the photo area
+  flatPrint?: boolean
+  // How far the logo is moved right, in pixels
+  logoShift?: number
+  // Colour of the team band
+  band?: Rgb
+  // Whole-card offset, as a rectifier might leave
+  offset?: number
+  // Multiplier on every channel, as a different exposure would give
+  exposure?: number
+  // A different card altogether
+  layout?: 'standard' | 'other'
+}
+
+const WIDTH = 500
+const HEIGHT = 700
+
+function drawCard(options: CardOptions = {}): ImageData {
+  const { flatPrint = false, logoShift = 0, band = [200, 30, 40], offset = 0, exposure = 1, layout = 'standard' } = options
+  const image = createImageData(WIDTH, HEIGHT)
+
+  for (let py = 0; py < HEIGHT; py++) {
+    for (let px = 0; px < WIDTH; px++) {
+      const x = px + offset
+      const y = py + offset
+      let color: Rgb = [235, 232, 225]
+
+      const photo = layout === 'standard'
+        ? x >= 40 && x < 460 && y >= 120 && y < 520
+        : x >= 60 && x < 300 && y >= 60 && y < 640
+      if (photo) {
+        // Halftone: dark dots on a light field averages to a mid-tone
+        const dot = (x % 4 < 2) && (y % 4 < 2)
+        const level = flatPrint ? 128 : dot ? 70 : 150
+        const shade = 0.7 + 0.3 * Math.sin(x / 40) * Math.cos(y / 55)
+        color = [level * shade, level * 0.9 * shade, level * 1.1 * shade]
+      }
+      if (y >= 540 && y < 580 && x >= 20 && x < 480) color = band
+
+      // Logo: a dark badge with a gold mark off-centre
+      const lx = x - 60 - logoShift
+      if (lx >= 0 && lx < 90 && y >= 30 && y < 90) color = (lx >= 20 && lx < 45 && y >= 45 && y < 75) ? [230, 210, 40] : [20, 20, 60]
+
+      // Name and stats: rows of short strokes
+      if (y >= 600 && y < 680 && x >= 40 && x < 460) {
+        const row = Math.floor((y - 600) / 16)
+        const inStroke = (y - 600) % 16 < 8 && ((x + row * 7) % 14 < 9)
+        if (inStroke) color = [15, 15, 15]
+      }
+
+      const p = (py * WIDTH + px) * 4
+      image.data[p] = color[0] * exposure
+      image.data[p + 1] = color[1] * exposure
+      image.data[p + 2] = color[2] * exposure
+      image.data[p + 3] = 255
+    }
+  }
+  return image
+}
+
+const detected = (result: { indicators: Array<{ feature: string; detected: boolean }> }, name: string) =>
+  result.indicators.find(indicator => indicator.feature === name)?.detected
+
+describe('ReferenceComparator', () => {
+  const comparator = new ReferenceComparator()
+  const reference = drawCard()
+
+  it('should match a genuine card despite offset and exposure', () => {
+    const result = comparator.compare(drawCard({ offset: 4, exposure: 0.9 }), reference)
+
+    expect(result.hasReference).toBe(true)
+    expect(result.alignment).toBeGreaterThan(0.8)
+    expect(result.indicators.map(indicator => indicator.feature)).toEqual([
+      'print-pattern', 'font-rendering', 'logo-placement', 'color-profile'
+    ])
+    expect(result.indicators.every(indicator => !indicator.detected)).toBe(true)
+    expect(result.suspicious).toBe(false)
+    expect(result.confidence).toBeGreaterThan(0.7)
+  })
+
+  it('should lower confidence instead of passing when there is no reference', () => {
+    const result = comparator.compare(drawCard(), null)
+
+    expect(result.hasReference).toBe(false)
+    expect(result.confidence).toBeLessThan(0.5)
+    expect(result.warnings[0]).toMatch(/No genuine reference/)
+  })
+
+  it('should flag a reprint without halftone dots', () => {
+    const result = comparator.compare(drawCard({ flatPrint: true }), reference)
+
+    expect(detected(result, 'print-pattern')).toBe(true)
+    expect(result.suspicious).toBe(true)
+    expect(result.warnings.some(warning => /smoother/.test(warning))).toBe(true)
+  })
+
+  it('should flag a moved logo and off colours', () => {
+    const moved = comparator.compare(drawCard({ logoShift: 10 }), reference)
+    expect(detected(moved, 'logo-placement')).toBe(true)
+    expect(moved.warnings.some(warning => /top-left/.test(warning))).toBe(true)
+
+    const recoloured = comparator.compare(drawCard({ band: [220, 110, 30] }), reference)
+    expect(detected(recoloured, 'color-profile')).toBe(true)
+  })
+
+  it('should not compare against a reference of another card', () => {
+    const result = comparator.compare(drawCard({ layout: 'other' }), reference)
+
+    expect(result.alignment).toBeLessThan(0.45)
+    expect(result.indicators).toEqual([])
+    expect(result.confidence).toBeLessThan(0.5)
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * Tests for reading stamped serial numbers
+ */
+
+import { SerialNumberReader, findSerialStamps, parseSerialNumber } from '../SerialNumberReader'
+import type { OcrEngine } from '../TextRecognizer'
+import type { ExtractedText } from '../VisionPipeline'
+import { createImageData } from '../image'
+
+const CARD = { width: 350, height: 490 }
+const GLYPH = { width: 9, height: 14, advance: 12 }
+// Seven segments per digit: a top, b top-right, c bottom-right, d bottom, e bottom-left, f top-left, g middle
+const SEGMENTS: Record<string, string> = {
+  '1': 'bc', '2': 'abdeg', '3': 'abcdg', '4': 'bcfg', '5': 'acdfg', '9': 'abcdfg', 'E': 'adefg', 'I': 'bc', 'K': 'bcefg', 'M': 'abcef'
+}
+
+function covers(char: string, x: number, y: number): boolean {
+  if (char === '/') return Math.abs(x - (GLYPH.width - 1) * (1 - y / (GLYPH.height - 1))) < 1.3
+  const on = SEGMENTS[char] ?? ''
+  const upper = y < GLYPH.height / 2
+  return (
+    (on.includes('a') && y < 2) ||
+    (on.includes('d') && y >= GLYPH.height - 2) ||
+    (on.includes('g') && y >= 6 && y < 8) ||
+    (on.includes('f') && x < 2 && upper) ||
+    (on.includes('e') && x < 2 && !upper) ||
+    (on.includes('b') && x >= GLYPH.width - 2 && upper) ||
+    (on.includes('c') && x >= GLYPH.width - 2 && !upper)
+  )
+}
+
+interface Label {
+  text: string
+  x: number
+  y: number
+  level: number
+}
+
+// Mid-grey card back with a halftone photo, and labels printed over it
+function drawCard(...labels: Label[]): ImageData {
+  const image = createImageData(CARD.width, CARD.height)
+  for (let y = 0; y < CARD.height; y++) {
+    for (let x = 0; x < CARD.width; x++) {
+      let level = 120
+      if (x >= 30 && x < 320 && y >= 40 && y < 260) level = (x % 4 < 2) && (y % 4 < 2) ? 60 : 140
+      labels.forEach(label => {
+        const index = Math.floor((x - label.x) / GLYPH.advance)
+        const gx = x - label.x - index * GLYPH.advance
+        const gy = y - label.y
+        if (index >= 0 && index < label.text.length && gx < GLYPH.width && gy >= 0 && gy < GLYPH.height && covers(label.text[index], gx, gy)) {
+          level = label.level
+        }
+      })
+      const p = (y * CARD.width + x) * 4
+      image.data[p] = image.data[p + 1] = image.data[p + 2] = level
+      image.data[p + 3] = 255
+    }
+  }
+  return image
+}
+
+// Bright foil serial stamped bottom right
+const FOIL_SERIAL: Label = { text: '23/99', x: 250, y: 420, level: 175 }
+// Dark ink name and a stat line with a fraction in it
+const NAME: Label = { text: 'MIKE', x: 40, y: 290, level: 30 }
+const STAT: Label = { text: '4/15', x: 40, y: 330, level: 30 }
+
+const line = (text: string, boundingBox: ExtractedText['boundingBox'] = [0, 0, 10, 10], confidence = 0.9): ExtractedText => ({
+  text, boundingBox, confidence
+})
+
+// Records the images it is asked to read and answers from a script
+class ScriptedOcr implements OcrEngine {
+  seen: ImageData[] = []
+
+  constructor(private answers: ExtractedText[][] = []) {}
+
+  async recognize(image: ImageData | string) {
+    this.seen.push(image as ImageData)
+    return this.answers.shift() ?? []
+  }
+
+  async terminate() {}
+}
+
+describe('parseSerialNumber', () => {
+  it('should take a serial standing alone the way stamps print it', () => {
+    expect(parseSerialNumber('23/99')).toEqual({ number: 23, printRun: 99, text: '23/99' })
+    expect(parseSerialNumber(' 023 / 199 ')).toEqual({ number: 23, printRun: 199, text: '023/199' })
+    expect(parseSerialNumber('#5/25')?.printRun).toBe(25)
+    expect(parseSerialNumber('No. 1/1')?.printRun).toBe(1)
+  })
+
+  it('should not take dates, stat lines or impossible numbers', () => {
+    expect(parseSerialNumber('04/15/98')).toBeNull()
+    expect(parseSerialNumber('FG 4/15 .267')).toBeNull()
+    expect(parseSerialNumber('Went 4/15 from three')).toBeNull()
+    expect(parseSerialNumber('99/23')).toBeNull()
+    expect(parseSerialNumber('0/50')).toBeNull()
+  })
+})
+
+describe('findSerialStamps', () => {
+  it('should find a foil stamp by its marks and slash', () => {
+    const stamps = findSerialStamps(drawCard(NAME, FOIL_SERIAL))
+
+    expect(stamps).toHaveLength(1)
+    expect(stamps[0].bright).toBe(true)
+    const [x, y, width, height] = stamps[0].box
+    expect(x).toBeCloseTo(FOIL_SERIAL.x, -1)
+    expect(y).toBeCloseTo(FOIL_SERIAL.y, -1)
+    expect(width).toBeGreaterThan(GLYPH.advance * 4)
+    expect(height).toBe(GLYPH.height)
+  })
+
+  it('should find nothing on a card without a stamp, and skip text already read', () => {
+    expect(findSerialStamps(drawCard(NAME))).toEqual([])
+
+    const card = drawCard(NAME, STAT)
+    expect(findSerialStamps(card).map(stamp => stamp.bright)).toEqual([false])
+    expect(findSerialStamps(card, [line('FG 4/15 .267', [35, 326, 120, 22])])).toEqual([])
+  })
+})
+
+describe('SerialNumberReader', () => {
+  it('should take a serial the regular pass read without another pass', async () => {
+    const ocr = new ScriptedOcr()
+    const serial = await new SerialNumberReader(ocr).read(
+      { front: drawCard(NAME) },
+      { front: [line('MIKE TROUT'), line('023/199', undefined, 0.8)] }
+    )
+
+    expect(serial).toEqual({ number: 23, printRun: 199, text: '023/199', confidence: 0.8, face: 'front' })
+    expect(ocr.seen).toHaveLength(0)
+  })
+
+  it('should spend no foil pass on a card without a stamp', async () => {
+    const ocr = new ScriptedOcr()
+    const card = drawCard(NAME, STAT)
+    const serial = await new SerialNumberReader(ocr).read(
+      { front: drawCard(NAME), back: card },
+      { front: [line('MIKE', [35, 286, 60, 22])], back: [line('MIKE', [35, 286, 60, 22]), line('FG 4/15 .267', [35, 326, 120, 22])] }
+    )
+
+    expect(serial).toBeNull()
+    expect(ocr.seen).toHaveLength(0)
+  })
+
+  it('should read a foil stamp from one pass over just the stamp', async () => {
+    const ocr = new ScriptedOcr([[line('23/99', undefined, 0.75)]])
+    const serial = await new SerialNumberReader(ocr).read(
+      { front: drawCard(NAME), back: drawCard(FOIL_SERIAL) },
+      { front: [line('MIKE', [35, 286, 60, 22])], back: [] }
+    )
+
+    expect(serial).toMatchObject({ number: 23, printRun: 99, face: 'back' })
+    expect(serial!.confidence).toBeCloseTo(0.6, 5)
+    expect(ocr.seen).toHaveLength(1)
+    expect(ocr.seen[0].width).toBeLessThan(CARD.width / 3)
+    expect(ocr.seen[0].height).toBe(GLYPH.height * 3)
+  })
+
+  it('should not take a fraction the foil pass reads among other text', async () => {
+    const ocr = new ScriptedOcr([[line('FG 4/15 .267')]])
+    const serial = await new SerialNumberReader(ocr).read({ back: drawCard(FOIL_SERIAL) }, {})
+
+    expect(serial).toBeNull()
+    expect(ocr.seen).toHaveLength(1)
+  })
+})
@@ -0,0 +1,76 @@
+/**
+ * Tests for surface defect detection
+ */
+
+import { SurfaceAnalyzer } from '../SurfaceAnalyzer'
+import { createImageData } from '../image'
+
+const CARD = { width: 250, height: 350 }
+
+type Paint = (x: number, y: number, color: [number, number, number]) => [number, number, number] | undefined
+
+// Rectified card: saturated blue with a little deterministic print grain
+function drawCard(...paints: Paint[]): ImageData {
+  const image = createImageData(CARD.width, CARD.height)
+  let seed = 7
+  const grain = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648
+    return (seed / 2147483648 - 0.5) * 6
+  }
+  for (let y = 0; y < CARD.height; y++) {
+    for (let x = 0; x < CARD.width; x++) {
+      const g = grain()
+      let color: [number, number, number] = [60 + g, 90 + g, 170 + g]
+      paints.forEach(paint => { color = paint(x, y, color) ?? color })
+      const p = (y * CARD.width + x) * 4
+      image.data[p] = color[0]
+      image.data[p + 1] = color[1]
+      image.data[p + 2] = color[2]
+      image.data[p + 3] = 255
+    }
+  }
+  return image
+}
+
+// Thin, bright, colourless diagonal streak
+const scratch: Paint = (x, y) => (Math.abs((y - 100) - (x - 60) * 0.8) < 0.8 && x > 60 && x < 160 ? [225, 225, 225] : undefined)
+// One row printed lighter across the whole card
+const printLine: Paint = (x, y, color) => (y === 240 ? [color[0] + 30, color[1] + 30, color[2] + 30] : undefined)
+// Yellow-brown blotch
+const stain: Paint = (x, y, color) =>
+  Math.hypot(x - 170, y - 260) < 22 ? [color[0] + 45, color[1] + 30, color[2] - 35] : undefined
+
+describe('SurfaceAnalyzer', () => {
+  const analyzer = new SurfaceAnalyzer()
+
+  it('should grade a clean surface 10 with an empty heatmap', () => {
+    const surface = analyzer.analyze(drawCard())
+
+    expect(surface.defects).toEqual([])
+    expect(surface.surfaceGrade).toBe(10)
+    expect(surface.heatmap.width).toBe(Math.round(CARD.width * 0.25))
+    expect(Array.from(surface.heatmap.data).some((value, i) => i % 4 === 3 && value > 0)).toBe(false)
+  })
+
+  it('should find a scratch and mark it on the heatmap', () => {
+    const surface = analyzer.analyze(drawCard(scratch))
+    const found = surface.defects.filter(defect => defect.type === 'scratch')
+
+    expect(found).toHaveLength(1)
+    const [x, y] = found[0].location
+    expect(x).toBeGreaterThanOrEqual(55)
+    expect(y).toBeGreaterThanOrEqual(95)
+    expect(surface.surfaceGrade).toBeLessThan(10)
+    expect(Array.from(surface.heatmap.data).some((value, i) => i % 4 === 3 && value > 0)).toBe(true)
+  })
+
+  it('should tell a print line from a stain', () => {
+    const lined = analyzer.analyze(drawCard(printLine))
+    expect(lined.defects.map(defect => defect.type)).toEqual(['print-defect'])
+    expect(lined.defects[0].location[1]).toBe(240)
+
+    const stained = analyzer.analyze(drawCard(stain), 'back')
+    expect(stained.defects.map(defect => defect.type)).toContain('stain')
+    expect(stained.damages[0].description).toMatch(/back/)
+  })
+})
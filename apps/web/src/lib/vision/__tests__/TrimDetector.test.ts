@@ -0,0 +1,113 @@
+/**
+ * Tests for trim detection from card geometry
+ */
+
+import { TrimDetector } from '../TrimDetector'
+import { CardBoundary } from '../CardDetector'
+import { createImageData } from '../image'
+import type { Quad } from '../geometry'
+
+interface Rect {
+  left: number
+  top: number
+  width: number
+  height: number
+  level: number
+  // Horizontal wobble of the right edge in pixels
+  wobble?: number
+}
+
+const FRAME = { width: 480, height: 560 }
+
+function drawScene(rects: Rect[]): ImageData {
+  const image = createImageData(FRAME.width, FRAME.height)
+  for (let y = 0; y < FRAME.height; y++) {
+    for (let x = 0; x < FRAME.width; x++) {
+      let level = 40
+      rects.forEach(rect => {
+        const right = rect.left + rect.width + (rect.wobble ? Math.round(rect.wobble * Math.sin(y / 9)) : 0)
+        if (x >= rect.left && x < right && y >= rect.top && y < rect.top + rect.height) level = rect.level
+      })
+      const p = (y * FRAME.width + x) * 4
+      image.data[p] = level
+      image.data[p + 1] = level
+      image.data[p + 2] = level
+      image.data[p + 3] = 255
+    }
+  }
+  return image
+}
+
+function boundaryOf({ left, top, width, height }: Rect): CardBoundary {
+  const quad: Quad = [
+    { x: left, y: top },
+    { x: left + width, y: top },
+    { x: left + width, y: top + height },
+    { x: left, y: top + height }
+  ]
+  return { quad, orientation: 'vertical', confidence: 0.9, aspectRatio: width / height }
+}
+
+// Centred in the frame, white
+function card(width: number, height: number, wobble?: number): Rect {
+  return { left: (FRAME.width - width) / 2, top: (FRAME.height - height) / 2, width, height, level: 230, wobble }
+}
+
+const detected = (result: { indicators: Array<{ feature: string; detected: boolean }> }, name: string) =>
+  result.indicators.find(indicator => indicator.feature === name)?.detected
+
+describe('TrimDetector', () => {
+  const detector = new TrimDetector()
+
+  it('should pass a card cut to the standard size', () => {
+    const rect = card(250, 350)
+    const result = detector.analyze(drawScene([rect]), boundaryOf(rect))
+
+    expect(result.suspicious).toBe(false)
+    expect(result.warnings).toEqual([])
+    expect(Math.abs(result.aspectDeviation)).toBeLessThan(0.01)
+    expect(result.straightness.right).toBeDefined()
+    expect(result.size).toBeUndefined()
+  })
+
+  it('should flag a card narrower than its set spec', () => {
+    const rect = card(238, 350)
+    const result = detector.analyze(drawScene([rect]), boundaryOf(rect))
+
+    expect(detected(result, 'trim-aspect-ratio')).toBe(true)
+    expect(result.aspectDeviation).toBeLessThan(0)
+    expect(result.suspicious).toBe(true)
+    expect(result.warnings[0]).toMatch(/narrower .* Possible trim/)
+
+    // The same proportions are fine for a set cut narrower at the factory
+    const narrowSet = detector.analyze(drawScene([rect]), boundaryOf(rect), {
+      spec: { widthMm: 60.5, heightMm: 88.9 }
+    })
+    expect(detected(narrowSet, 'trim-aspect-ratio')).toBe(false)
+  })
+
+  it('should flag a wandering edge', () => {
+    const rect = card(250, 350, 4)
+    const result = detector.analyze(drawScene([rect]), boundaryOf(rect))
+
+    expect(detected(result, 'trim-edge-straightness')).toBe(true)
+    expect(result.warnings.some(warning => /right edge is not cut straight/.test(warning))).toBe(true)
+  })
+
+  it('should measure physical size inside a top-loader', () => {
+    // Top-loader 76.2 x 101.6 mm at 4 px/mm around a card trimmed evenly on all sides
+    const holder: Rect = { left: 88, top: 77, width: 305, height: 406, level: 110 }
+    const even = card(243, 340)
+    const result = detector.analyze(drawScene([holder, even]), boundaryOf(even))
+
+    expect(result.size?.reference).toBe('top-loader')
+    expect(result.size!.widthMm).toBeCloseTo(60.8, 0)
+    expect(detected(result, 'trim-aspect-ratio')).toBe(false)
+    expect(detected(result, 'trim-physical-size')).toBe(true)
+    expect(result.warnings.some(warning => /mm narrow .* Possible trim/.test(warning))).toBe(true)
+
+    const untouched = card(254, 356)
+    const clean = detector.analyze(drawScene([holder, untouched]), boundaryOf(untouched))
+    expect(detected(clean, 'trim-physical-size')).toBe(false)
+  })
+})
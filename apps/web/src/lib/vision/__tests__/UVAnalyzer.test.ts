@@ -0,0 +1,89 @@
+/**
+ * Tests for blacklight authenticity analysis
+ */
+
+import { UVAnalyzer } from '../UVAnalyzer'
+import { createImageData } from '../image'
+
+type Rgb = [number, number, number]
+
+// Dull violet: vintage stock under UV
+const DULL: Rgb = [70, 30, 110]
+// Blue-white glow of brightened paper
+const GLOW: Rgb = [120, 190, 240]
+
+interface CardOptions {
+  base?: Rgb
+  // Rectangles in card pixels with a different colour
+  patches?: Array<{ rect: [number, number, number, number]; color: Rgb }>
+}
+
+function drawCard({ base = DULL, patches = [] }: CardOptions = {}, width = 100, height = 140): ImageData {
+  const image = createImageData(width, height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const patch = patches.find(({ rect: [left, top, w, h] }) => x >= left && x < left + w && y >= top && y < top + h)
+      const [r, g, b] = patch ? patch.color : base
+      const p = (y * width + x) * 4
+      image.data[p] = r
+      image.data[p + 1] = g
+      image.data[p + 2] = b
+      image.data[p + 3] = 255
+    }
+  }
+  return image
+}
+
+const detected = (features: Array<{ feature: string; detected: boolean }>, name: string) =>
+  features.find(indicator => indicator.feature === name)!.detected
+
+describe('UVAnalyzer', () => {
+  const analyzer = new UVAnalyzer()
+
+  it('should pass a dull vintage card with clean edges', () => {
+    const result = analyzer.analyze(drawCard(), { year: 1975, visible: drawCard({ base: [220, 220, 215] }) })
+
+    expect(result.underUV).toBe(true)
+    expect(result.suspicious).toBe(false)
+    expect(result.indicators.every(indicator => !indicator.detected)).toBe(true)
+    expect(result.warnings).toEqual([])
+  })
+
+  it('should flag brightened stock on a vintage card as a possible reprint', () => {
+    const result = analyzer.analyze(drawCard({ base: GLOW }), { year: 1968 })
+
+    expect(detected(result.indicators, 'modern-paper-fluorescence')).toBe(true)
+    expect(result.suspicious).toBe(true)
+    expect(result.warnings[0]).toContain('Possible reprint')
+  })
+
+  it('should not flag brightened stock on a modern card', () => {
+    const result = analyzer.analyze(drawCard({ base: GLOW }), { year: 2021 })
+
+    expect(result.suspicious).toBe(false)
+    expect(result.warnings).toEqual([])
+  })
+
+  it('should find a patch that glows unlike its visible brightness', () => {
+    const uv = drawCard({ patches: [{ rect: [60, 20, 25, 25], color: GLOW }] })
+    const result = analyzer.analyze(uv, { visible: drawCard({ base: [220, 220, 215] }) })
+
+    expect(detected(result.indicators, 'localized-fluorescence')).toBe(true)
+    expect(result.warnings[0]).toContain('top-right')
+  })
+
+  it('should flag a bright freshly cut edge', () => {
+    const result = analyzer.analyze(drawCard({ patches: [{ rect: [98, 0, 2, 140], color: GLOW }] }))
+
+    expect(detected(result.indicators, 'edge-fluorescence')).toBe(true)
+    expect(result.warnings[0]).toContain('right edge glows')
+  })
+
+  it('should weaken findings from a capture not taken under UV', () => {
+    const result = analyzer.analyze(drawCard({ base: [200, 200, 190] }), { year: 1968 })
+
+    expect(result.underUV).toBe(false)
+    expect(result.suspicious).toBe(false)
+    expect(result.warnings[0]).toContain('ordinary light')
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * Tests for per-corner and per-edge wear scoring
+ */
+
+import { WearAnalyzer } from '../WearAnalyzer'
+import { createImageData } from '../image'
+
+const CARD = { width: 250, height: 350 }
+const RED: [number, number, number] = [170, 30, 35]
+const STOCK: [number, number, number] = [245, 243, 238]
+const BACKGROUND: [number, number, number] = [30, 30, 30]
+// A factory-cut corner, a little inside the analyzer's 3.5% allowance
+const RADIUS = 7
+
+type Paint = (x: number, y: number) => [number, number, number] | undefined
+
+// Background showing past a corner rounded to the given radius
+function outsideCorner(x: number, y: number, radius: number): boolean {
+  const cx = x < radius ? radius : x >= CARD.width - radius ? CARD.width - 1 - radius : x
+  const cy = y < radius ? radius : y >= CARD.height - radius ? CARD.height - 1 - radius : y
+  return Math.hypot(x - cx, y - cy) > radius
+}
+
+// Rectified card with a red border all the way to the cut; paints override it
+function drawCard(...paints: Paint[]): ImageData {
+  const image = createImageData(CARD.width, CARD.height)
+  for (let y = 0; y < CARD.height; y++) {
+    for (let x = 0; x < CARD.width; x++) {
+      let color = RED
+      paints.forEach(paint => { color = paint(x, y) ?? color })
+      if (outsideCorner(x, y, RADIUS)) color = BACKGROUND
+      const p = (y * CARD.width + x) * 4
+      image.data[p] = color[0]
+      image.data[p + 1] = color[1]
+      image.data[p + 2] = color[2]
+      image.data[p + 3] = 255
+    }
+  }
+  return image
+}
+
+// White stock showing along the rounded top-left tip
+const whitenedTopLeft: Paint = (x, y) => (x + y < 16 ? STOCK : undefined)
+// Frayed top edge: white along the outer few rows
+const frayedTop: Paint = (x, y) => (y < 5 && x % 3 !== 0 ? STOCK : undefined)
+
+describe('WearAnalyzer', () => {
+  const analyzer = new WearAnalyzer()
+
+  it('should score a clean card 10 everywhere', () => {
+    const wear = analyzer.analyze({ front: drawCard() })
+
+    expect(wear.corners.map(corner => corner.score)).toEqual([10, 10, 10, 10])
+    expect(wear.edges.map(edge => edge.score)).toEqual([10, 10, 10, 10])
+    expect(wear.damages).toEqual([])
+  })
+
+  it('should find whitening on one corner and cap the corners subgrade', () => {
+    const wear = analyzer.analyze({ front: drawCard(), back: drawCard(whitenedTopLeft) })
+    const topLeft = wear.corners.find(corner => corner.location === 'top-left corner')!
+
+    expect(topLeft.view).toBe('back')
+    expect(topLeft.whitening).toBeGreaterThan(0.1)
+    expect(topLeft.score).toBeLessThan(8.5)
+    expect(wear.corners.filter(corner => corner.score === 10)).toHaveLength(3)
+    expect(wear.cornersGrade).toBeLessThan(10)
+    expect(wear.damages.map(damage => damage.location)).toEqual(['top-left corner'])
+  })
+
+  it('should score an edge on its close-up when there is one', () => {
+    const wear = analyzer.analyze({ front: drawCard(frayedTop), edges: { top: drawCard() } })
+    expect(wear.edges.find(edge => edge.location === 'top edge')).toMatchObject({ view: 'edge-top', score: 10 })
+
+    const frontOnly = analyzer.analyze({ front: drawCard(frayedTop) })
+    const top = frontOnly.edges.find(edge => edge.location === 'top edge')!
+    expect(top.score).toBeLessThan(7)
+    expect(frontOnly.damages.find(damage => damage.location === 'top edge')?.type).toBe('edge-wear')
+  })
+})
@@ -0,0 +1,27 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for the models this build ships with
+ */
+
+import { DEFAULT_MODELS, SCAN_MODELS, createModelRegistry } from '../models'
+
+// The artifact cache is IndexedDB-backed; the registry runs without one here
+jest.mock('../ModelArtifactStore', () => ({
+  IndexedDBModelArtifactCache: class {}
+}))
+
+describe('DEFAULT_MODELS', () => {
+  it('should register every model a scan runs', () => {
+    const registry = createModelRegistry()
+
+    expect(registry.versions(SCAN_MODELS).map(model => model.id)).toEqual(SCAN_MODELS)
+  })
+
+  it('should pin a checksum for every model that downloads artifacts', () => {
+    // The registry refuses unpinned artifacts, so one here would fail every scan
+    const unpinned = DEFAULT_MODELS.filter(model => model.artifact && !/^[0-9a-f]{64}$/.test(model.artifact.checksum ?? ''))
+
+    expect(unpinned.map(model => model.id)).toEqual([])
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * Canvas Helpers - Fei-Fei Li: Decode and encode images on or off the main thread
+ *
+ * Workers have no DOM, so decoding goes through createImageBitmap and an
+ * OffscreenCanvas whenever they exist. Older browsers on the main thread fall
+ * back to an <img> element and a DOM canvas.
+ */
+
+export async function decodeImage(source: string | Blob): Promise<ImageData> {
+  if (typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined') {
+    const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source
+    const bitmap = await createImageBitmap(blob)
+    try {
+      const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+      const ctx = canvas.getContext('2d')
+      if (!ctx) throw new Error('Could not get canvas context')
+      ctx.drawImage(bitmap, 0, 0)
+      return ctx.getImageData(0, 0, bitmap.width, bitmap.height)
+    } finally {
+      bitmap.close()
+    }
+  }
+
+  const url = typeof source === 'string' ? source : URL.createObjectURL(source)
+  try {
+    return await decodeWithElement(url)
+  } finally {
+    if (typeof source !== 'string') URL.revokeObjectURL(url)
+  }
+}
+
+// Data URL for display; PNG keeps the alpha channel for overlays
+export async function encodeImage(
+  image: ImageData,
+  type: string = 'image/jpeg',
+  quality: number = 0.9
+): Promise<string | undefined> {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(image.width, image.height)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return undefined
+    ctx.putImageData(image, 0, 0)
+    return blobToDataUrl(await canvas.convertToBlob({ type, quality }))
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = image.width
+  canvas.height = image.height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return undefined
+  ctx.putImageData(image, 0, 0)
+  return canvas.toDataURL(type, quality)
+}
+
+function decodeWithElement(url: string): Promise<ImageData> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = img.width
+      canvas.height = img.height
+      const ctx = canvas.getContext('2d')
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'))
+        return
+      }
+      ctx.drawImage(img, 0, 0)
+      resolve(ctx.getImageData(0, 0, img.width, img.height))
+    }
+    img.onerror = () => reject(new Error('Failed to load image'))
+    img.src = url
+  })
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to encode image'))
+    reader.readAsDataURL(blob)
+  })
+}
@@ -0,0 +1,282 @@
+/**
+ * Geometry - Fei-Fei Li: Quadrilaterals, homographies and perspective warping
+ */
+
+import { createImageData, sampleBilinear } from './image'
+
+export interface Point {
+  x: number
+  y: number
+}
+
+// Corners ordered top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point]
+
+/**
+ * Order four arbitrary corner points as top-left, top-right, bottom-right, bottom-left
+ */
+export function orderQuad(points: Point[]): Quad {
+  if (points.length !== 4) {
+    throw new Error(`A quadrilateral needs exactly 4 points, got ${points.length}`)
+  }
+
+  const cx = points.reduce((sum, p) => sum + p.x, 0) / 4
+  const cy = points.reduce((sum, p) => sum + p.y, 0) / 4
+
+  // Sort clockwise (screen coordinates) starting from the top-left quadrant
+  const sorted = [...points].sort(
+    (a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx)
+  )
+
+  let start = 0
+  let best = Infinity
+  sorted.forEach((p, i) => {
+    if (p.x + p.y < best) {
+      best = p.x + p.y
+      start = i
+    }
+  })
+
+  return [0, 1, 2, 3].map(i => sorted[(start + i) % 4]) as Quad
+}
+
+export function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y)
+}
+
+export function polygonArea(points: Point[]): number {
+  let area = 0
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    area += a.x * b.y - b.x * a.y
+  }
+  return Math.abs(area) / 2
+}
+
+export function quadBoundingBox(quad: Quad): [number, number, number, number] {
+  const xs = quad.map(p => p.x)
+  const ys = quad.map(p => p.y)
+  const minX = Math.min(...xs)
+  const minY = Math.min(...ys)
+  return [minX, minY, Math.max(...xs) - minX, Math.max(...ys) - minY]
+}
+
+/**
+ * Convex hull (Andrew's monotone chain), returned counter-clockwise
+ */
+export function convexHull(points: Point[]): Point[] {
+  if (points.length < 3) return [...points]
+
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y)
+  const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+
+  const lower: Point[] = []
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) {
+      lower.pop()
+    }
+    lower.push(p)
+  }
+
+  const upper: Point[] = []
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i]
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) {
+      upper.pop()
+    }
+    upper.push(p)
+  }
+
+  lower.pop()
+  upper.pop()
+  return lower.concat(upper)
+}
+
+/**
+ * Ramer-Douglas-Peucker simplification of a closed polygon
+ */
+export function simplifyPolygon(points: Point[], epsilon: number): Point[] {
+  if (points.length <= 4) return [...points]
+
+  // Split the closed ring at the two points farthest apart
+  let a = 0
+  let b = 0
+  let farthest = -1
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const d = distance(points[i], points[j])
+      if (d > farthest) {
+        farthest = d
+        a = i
+        b = j
+      }
+    }
+  }
+
+  const first = points.slice(a, b + 1)
+  const second = points.slice(b).concat(points.slice(0, a + 1))
+  const left = simplifyOpen(first, epsilon)
+  const right = simplifyOpen(second, epsilon)
+
+  return left.slice(0, -1).concat(right.slice(0, -1))
+}
+
+function simplifyOpen(points: Point[], epsilon: number): Point[] {
+  if (points.length < 3) return points
+
+  const start = points[0]
+  const end = points[points.length - 1]
+  let index = 0
+  let maxDistance = 0
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToLine(points[i], start, end)
+    if (d > maxDistance) {
+      maxDistance = d
+      index = i
+    }
+  }
+
+  if (maxDistance <= epsilon) return [start, end]
+
+  const left = simplifyOpen(points.slice(0, index + 1), epsilon)
+  const right = simplifyOpen(points.slice(index), epsilon)
+  return left.slice(0, -1).concat(right)
+}
+
+function distanceToLine(p: Point, a: Point, b: Point): number {
+  const length = distance(a, b)
+  if (length === 0) return distance(p, a)
+  return Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / length
+}
+
+// Line in normal form: nx * x + ny * y = c, with (nx, ny) unit length
+export interface Line {
+  nx: number
+  ny: number
+  c: number
+}
+
+/**
+ * Total least squares line fit
+ */
+export function fitLine(points: Point[]): Line | null {
+  if (points.length < 2) return null
+
+  const mx = points.reduce((sum, p) => sum + p.x, 0) / points.length
+  const my = points.reduce((sum, p) => sum + p.y, 0) / points.length
+  let sxx = 0, sxy = 0, syy = 0
+
+  for (const p of points) {
+    sxx += (p.x - mx) * (p.x - mx)
+    sxy += (p.x - mx) * (p.y - my)
+    syy += (p.y - my) * (p.y - my)
+  }
+
+  // Direction of greatest variance; the normal is perpendicular to it
+  const angle = 0.5 * Math.atan2(2 * sxy, sxx - syy)
+  const nx = -Math.sin(angle)
+  const ny = Math.cos(angle)
+
+  return { nx, ny, c: nx * mx + ny * my }
+}
+
+export function intersectLines(a: Line, b: Line): Point | null {
+  const det = a.nx * b.ny - a.ny * b.nx
+  if (Math.abs(det) < 1e-9) return null
+  return {
+    x: (a.c * b.ny - a.ny * b.c) / det,
+    y: (a.nx * b.c - a.c * b.nx) / det
+  }
+}
+
+/**
+ * 3x3 homography (row-major, h[8] = 1) mapping each src corner onto the matching dst corner
+ */
+export function computeHomography(src: Quad, dst: Quad): number[] {
+  const a: number[][] = []
+  const b: number[] = []
+
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i]
+    const { x: u, y: v } = dst[i]
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y])
+    b.push(u)
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y])
+    b.push(v)
+  }
+
+  return solveLinearSystem(a, b).concat(1)
+}
+
+export function applyHomography(h: number[], p: Point): Point {
+  const w = h[6] * p.x + h[7] * p.y + h[8]
+  return {
+    x: (h[0] * p.x + h[1] * p.y + h[2]) / w,
+    y: (h[3] * p.x + h[4] * p.y + h[5]) / w
+  }
+}
+
+/**
+ * Warp the region inside quad onto an upright width x height image
+ */
+export function warpPerspective(image: ImageData, quad: Quad, width: number, height: number): ImageData {
+  const target: Quad = [
+    { x: 0, y: 0 },
+    { x: width - 1, y: 0 },
+    { x: width - 1, y: height - 1 },
+    { x: 0, y: height - 1 }
+  ]
+  // Inverse mapping: for every output pixel find where it comes from
+  const h = computeHomography(target, quad)
+  const out = new Uint8ClampedArray(width * height * 4)
+  const pixel = [0, 0, 0, 0]
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const src = applyHomography(h, { x, y })
+      sampleBilinear(image, src.x, src.y, pixel)
+      const o = (y * width + x) * 4
+      out[o] = pixel[0]
+      out[o + 1] = pixel[1]
+      out[o + 2] = pixel[2]
+      out[o + 3] = 255
+    }
+  }
+
+  return createImageData(width, height, out)
+}
+
+// Gaussian elimination with partial pivoting
+export function solveLinearSystem(a: number[][], b: number[]): number[] {
+  const n = b.length
+  const m = a.map((row, i) => [...row, b[i]])
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) {
+      throw new Error('Degenerate system: no unique solution')
+    }
+    ;[m[col], m[pivot]] = [m[pivot], m[col]]
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col]
+      for (let k = col; k <= n; k++) {
+        m[row][k] -= factor * m[col][k]
+      }
+    }
+  }
+
+  const x = new Array<number>(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n]
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k]
+    x[row] = sum / m[row][row]
+  }
+
+  return x
+}
@@ -0,0 +1,260 @@
+/**
+ * Image Utilities - Fei-Fei Li: Plain pixel helpers shared by the vision stages
+ *
+ * Everything here works on raw RGBA buffers so it runs the same in the browser,
+ * in a worker and under Node (no canvas required).
+ */
+
+export interface GrayImage {
+  width: number
+  height: number
+  data: Float32Array
+}
+
+export function createImageData(width: number, height: number, data?: Uint8ClampedArray): ImageData {
+  const pixels = data ?? new Uint8ClampedArray(width * height * 4)
+
+  if (typeof ImageData !== 'undefined') {
+    return new ImageData(pixels, width, height)
+  }
+
+  // Node / test environments without a DOM implementation
+  return { width, height, data: pixels, colorSpace: 'srgb' } as ImageData
+}
+
+export function toGrayscale(image: ImageData): GrayImage {
+  const { width, height, data } = image
+  const gray = new Float32Array(width * height)
+
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]
+  }
+
+  return { width, height, data: gray }
+}
+
+/**
+ * Box-filter downscale so the longest side is at most maxSide pixels.
+ * Returns the scale factor applied (<= 1).
+ */
+export function downscale(image: ImageData, maxSide: number): { image: ImageData; scale: number } {
+  const scale = Math.min(1, maxSide / Math.max(image.width, image.height))
+  if (scale === 1) return { image, scale }
+
+  const width = Math.max(1, Math.round(image.width * scale))
+  const height = Math.max(1, Math.round(image.height * scale))
+  const out = new Uint8ClampedArray(width * height * 4)
+  const step = 1 / scale
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * step)
+    const y1 = Math.min(image.height, Math.floor((y + 1) * step))
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * step)
+      const x1 = Math.min(image.width, Math.floor((x + 1) * step))
+      let r = 0, g = 0, b = 0, a = 0, n = 0
+
+      for (let sy = y0; sy < Math.max(y1, y0 + 1); sy++) {
+        for (let sx = x0; sx < Math.max(x1, x0 + 1); sx++) {
+          const p = (sy * image.width + sx) * 4
+          r += image.data[p]
+          g += image.data[p + 1]
+          b += image.data[p + 2]
+          a += image.data[p + 3]
+          n++
+        }
+      }
+
+      const o = (y * width + x) * 4
+      out[o] = r / n
+      out[o + 1] = g / n
+      out[o + 2] = b / n
+      out[o + 3] = a / n
+    }
+  }
+
+  return { image: createImageData(width, height, out), scale }
+}
+
+/**
+ * Sobel gradient magnitude of a grayscale image (border pixels are zero)
+ */
+export function sobelMagnitude(gray: GrayImage): Float32Array {
+  const { width, height, data } = gray
+  const out = new Float32Array(width * height)
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const gx =
+        -data[i - width - 1] + data[i - width + 1] -
+        2 * data[i - 1] + 2 * data[i + 1] -
+        data[i + width - 1] + data[i + width + 1]
+      const gy =
+        -data[i - width - 1] - 2 * data[i - width] - data[i - width + 1] +
+        data[i + width - 1] + 2 * data[i + width] + data[i + width + 1]
+      out[i] = Math.sqrt(gx * gx + gy * gy)
+    }
+  }
+
+  return out
+}
+
+/**
+ * Otsu's method over arbitrary non-negative values, using a 256-bin histogram
+ */
+export function otsuThreshold(values: ArrayLike<number>): number {
+  let max = 0
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] > max) max = values[i]
+  }
+  if (max === 0) return 0
+
+  const histogram = new Array<number>(256).fill(0)
+  for (let i = 0; i < values.length; i++) {
+    histogram[Math.min(255, Math.floor((values[i] / max) * 255))]++
+  }
+
+  let sum = 0
+  for (let i = 0; i < 256; i++) sum += i * histogram[i]
+
+  let sumBackground = 0
+  let weightBackground = 0
+  let bestVariance = -1
+  let bestBin = 0
+
+  for (let i = 0; i < 256; i++) {
+    weightBackground += histogram[i]
+    if (weightBackground === 0) continue
+    const weightForeground = values.length - weightBackground
+    if (weightForeground === 0) break
+
+    sumBackground += i * histogram[i]
+    const meanBackground = sumBackground / weightBackground
+    const meanForeground = (sum - sumBackground) / weightForeground
+    const variance = weightBackground * weightForeground * Math.pow(meanBackground - meanForeground, 2)
+
+    if (variance > bestVariance) {
+      bestVariance = variance
+      bestBin = i
+    }
+  }
+
+  return ((bestBin + 0.5) / 255) * max
+}
+
+/**
+ * Bilinear sample of one RGBA pixel, clamped to the image bounds
+ */
+export function sampleBilinear(image: ImageData, x: number, y: number, out: number[]): void {
+  const { width, height, data } = image
+  const cx = Math.min(width - 1, Math.max(0, x))
+  const cy = Math.min(height - 1, Math.max(0, y))
+  const x0 = Math.floor(cx)
+  const y0 = Math.floor(cy)
+  const x1 = Math.min(width - 1, x0 + 1)
+  const y1 = Math.min(height - 1, y0 + 1)
+  const fx = cx - x0
+  const fy = cy - y0
+
+  const p00 = (y0 * width + x0) * 4
+  const p10 = (y0 * width + x1) * 4
+  const p01 = (y1 * width + x0) * 4
+  const p11 = (y1 * width + x1) * 4
+
+  for (let c = 0; c < 4; c++) {
+    const top = data[p00 + c] * (1 - fx) + data[p10 + c] * fx
+    const bottom = data[p01 + c] * (1 - fx) + data[p11 + c] * fx
+    out[c] = top * (1 - fy) + bottom * fy
+  }
+}
+
+/**
+ * Copy a rectangular region out of an image
+ */
+export function cropImageData(image: ImageData, x: number, y: number, width: number, height: number): ImageData {
+  const x0 = Math.max(0, Math.floor(x))
+  const y0 = Math.max(0, Math.floor(y))
+  const w = Math.max(1, Math.min(image.width - x0, Math.round(width)))
+  const h = Math.max(1, Math.min(image.height - y0, Math.round(height)))
+  const out = new Uint8ClampedArray(w * h * 4)
+
+  for (let row = 0; row < h; row++) {
+    const start = ((y0 + row) * image.width + x0) * 4
+    out.set(image.data.subarray(start, start + w * 4), row * w * 4)
+  }
+
+  return createImageData(w, h, out)
+}
+
+/**
+ * Mean filter over a (2 * radius + 1) square window, via an integral image
+ */
+export function boxBlur(gray: GrayImage, radius: number): Float32Array {
+  const { width, height, data } = gray
+  const integral = new Float64Array((width + 1) * (height + 1))
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0
+    for (let x = 0; x < width; x++) {
+      rowSum += data[y * width + x]
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum
+    }
+  }
+
+  const out = new Float32Array(width * height)
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius)
+    const y1 = Math.min(height, y + radius + 1)
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius)
+      const x1 = Math.min(width, x + radius + 1)
+      const sum =
+        integral[y1 * (width + 1) + x1] -
+        integral[y0 * (width + 1) + x1] -
+        integral[y1 * (width + 1) + x0] +
+        integral[y0 * (width + 1) + x0]
+      out[y * width + x] = sum / ((x1 - x0) * (y1 - y0))
+    }
+  }
+
+  return out
+}
+
+// 8-connected components of a binary mask, as lists of flat indices
+export function connectedComponents(mask: Uint8Array, width: number, height: number): number[][] {
+  const visited = new Uint8Array(mask.length)
+  const components: number[][] = []
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue
+
+    const component: number[] = []
+    const stack = [start]
+    visited[start] = 1
+
+    while (stack.length > 0) {
+      const index = stack.pop() as number
+      component.push(index)
+      const x = index % width
+      const y = (index - x) / width
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx
+          const ny = y + dy
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue
+          const n = ny * width + nx
+          if (mask[n] && !visited[n]) {
+            visited[n] = 1
+            stack.push(n)
+          }
+        }
+      }
+    }
+
+    components.push(component)
+  }
+
+  return components
+}
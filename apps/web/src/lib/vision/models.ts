@@ -0,0 +1,30 @@
+/**
+ * Models - Fei-Fei Li: The model versions this build ships with
+ *
+ * Bump a version whenever a model's weights or its analysis code change, so
+ * scans graded by the old model can be told apart from new ones. Downloaded
+ * artifacts only load with a pinned checksum: `pnpm model-digest <id>` prints it.
+ */
+
+import type { ILogger } from '../interfaces/services'
+import { ModelManifest, ModelRegistry } from './ModelRegistry'
+import { IndexedDBModelArtifactCache } from './ModelArtifactStore'
+
+export const DEFAULT_MODELS: ModelManifest[] = [
+  { id: 'card-detection', version: '2.0.0', type: 'detection', inputShape: [-1, -1, 4] },
+  { id: 'text-extraction', version: '2.0.0', type: 'ocr', inputShape: [-1, -1, 4] },
+  { id: 'damage-detection', version: '2.0.0', type: 'damage', inputShape: [-1, -1, 4] },
+  { id: 'authenticity-check', version: '2.1.0', type: 'authenticity', inputShape: [-1, -1, 4] }
+]
+
+// Every model a card or slab scan can run; AIService loads any with artifacts before the first scan
+export const SCAN_MODELS = ['card-detection', 'text-extraction', 'damage-detection', 'authenticity-check']
+
+export function createModelRegistry(logger?: ILogger): ModelRegistry {
+  // IndexedDB is missing during server rendering and in some private modes
+  const cache = typeof indexedDB !== 'undefined' ? new IndexedDBModelArtifactCache() : undefined
+  return new ModelRegistry(DEFAULT_MODELS, { cache, logger })
+}
+
+// One per JS context: the main thread and the vision worker each get their own
+export const modelRegistry = createModelRegistry()
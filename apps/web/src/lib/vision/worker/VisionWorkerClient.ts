@@ -0,0 +1,174 @@
+/**
+ * Vision Worker Client - Fei-Fei Li: Main-thread handle on the vision worker
+ *
+ * Wraps the message protocol in promises. Where workers or OffscreenCanvas are
+ * missing (older browsers, server rendering) the same calls run on the main
+ * thread through AIService, so callers never need to branch.
+ */
+
+import { aiService } from '@/services/AIService'
+import type { ScanResult } from '@/services/AIService'
+import type { ProcessedCard } from '../../interfaces/services'
+import { ScanCancelledError } from '../../errors'
+import { VisionPipeline, PipelineResult, PipelineRunOptions, PipelineProgress } from '../VisionPipeline'
+import { CardDatabaseManager } from '../../card-database/CardDatabaseManager'
+import {
+  collectTransferables,
+  resultOf,
+  EncodedCapture,
+  VisionWorkerResponse,
+  VisionWorkerResult,
+  VisionWorkerResults,
+  VisionWorkerTask
+} from './protocol'
+
+interface PendingTask {
+  resolve(response: VisionWorkerResult): void
+  reject(error: Error): void
+  onProgress?: (progress: PipelineProgress) => void
+  cleanup(): void
+}
+
+export class VisionWorkerClient {
+  private worker: Worker | null = null
+  private pending = new Map<string, PendingTask>()
+  private nextId = 0
+  // Main-thread fallback for runPipeline
+  private pipeline: VisionPipeline | null = null
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined'
+  }
+
+  initialize(): Promise<void> {
+    if (!VisionWorkerClient.isSupported()) return aiService.initialize()
+    return this.send({ type: 'initialize', id: this.createId() }, {})
+  }
+
+  // Captures go over as file bytes; the result carries these data URLs back for display
+  async processCard(captures: Record<string, string>, options: PipelineRunOptions = {}): Promise<ProcessedCard> {
+    if (!VisionWorkerClient.isSupported()) return aiService.processCard(captures, options)
+    const encoded = await encodeCaptures(captures)
+    const card = await this.send({ type: 'process-card', id: this.createId(), captures: encoded, calibration: options.calibration }, options)
+    return { ...card, captures }
+  }
+
+  async processSlab(captures: Record<string, string>, options: PipelineRunOptions = {}): Promise<ProcessedCard> {
+    if (!VisionWorkerClient.isSupported()) return aiService.processSlab(captures, options)
+    const encoded = await encodeCaptures(captures)
+    const card = await this.send({ type: 'process-slab', id: this.createId(), captures: encoded, calibration: options.calibration }, options)
+    return { ...card, captures }
+  }
+
+  // The image's pixel buffer moves to the worker; don't use `image` afterwards
+  analyzeCard(image: ImageData, options: PipelineRunOptions = {}): Promise<ScanResult> {
+    if (!VisionWorkerClient.isSupported()) return aiService.analyzeCard(image)
+    return this.send({ type: 'analyze-card', id: this.createId(), image }, options)
+  }
+
+  // The image's pixel buffer moves to the worker; don't use `image` afterwards
+  runPipeline(image: ImageData, options: PipelineRunOptions = {}): Promise<PipelineResult> {
+    if (!VisionWorkerClient.isSupported()) {
+      this.pipeline = this.pipeline ?? new VisionPipeline(undefined, undefined, undefined, new CardDatabaseManager())
+      return this.pipeline.process(image, options)
+    }
+    return this.send({ type: 'run-pipeline', id: this.createId(), image, calibration: options.calibration }, options)
+  }
+
+  terminate(): void {
+    this.failAll(new Error('Vision worker terminated'))
+    this.worker?.terminate()
+    this.worker = null
+  }
+
+  private send<T extends VisionWorkerTask>(
+    task: T,
+    options: PipelineRunOptions
+  ): Promise<VisionWorkerResults[T['type']]> {
+    const { signal, onProgress } = options
+    if (signal?.aborted) return Promise.reject(new ScanCancelledError())
+
+    const worker = this.getWorker()
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        worker.postMessage({ type: 'cancel', id: task.id })
+        // Don't wait for the running stage to finish; its result is dropped
+        this.pending.delete(task.id)
+        signal?.removeEventListener('abort', onAbort)
+        reject(new ScanCancelledError())
+      }
+      signal?.addEventListener('abort', onAbort)
+
+      this.pending.set(task.id, {
+        resolve: response => {
+          try {
+            resolve(resultOf<T['type']>(task.type, response))
+          } catch (error) {
+            reject(error as Error)
+          }
+        },
+        reject,
+        onProgress,
+        cleanup: () => signal?.removeEventListener('abort', onAbort)
+      })
+      worker.postMessage(task, collectTransferables(task))
+    })
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./vision.worker.ts', import.meta.url))
+      this.worker.onmessage = (event: MessageEvent<VisionWorkerResponse>) => this.handleResponse(event.data)
+      // A crashed worker takes its queue with it; the next call starts a fresh one
+      this.worker.onerror = event => {
+        event.preventDefault()
+        this.terminate()
+      }
+    }
+    return this.worker
+  }
+
+  private handleResponse(response: VisionWorkerResponse): void {
+    const task = this.pending.get(response.id)
+    // Cancelled on this side already
+    if (!task) return
+
+    if (response.type === 'progress') {
+      task.onProgress?.(response.progress)
+      return
+    }
+
+    this.pending.delete(response.id)
+    task.cleanup()
+    if (response.type === 'result') {
+      task.resolve(response)
+    } else {
+      task.reject(response.cancelled ? new ScanCancelledError() : new Error(response.message))
+    }
+  }
+
+  private failAll(error: Error): void {
+    this.pending.forEach(task => {
+      task.cleanup()
+      task.reject(error)
+    })
+    this.pending.clear()
+  }
+
+  private createId(): string {
+    return `vision-${++this.nextId}`
+  }
+}
+
+// Data URLs to their file bytes, which transfer to the worker instead of being copied
+async function encodeCaptures(captures: Record<string, string>): Promise<Record<string, EncodedCapture>> {
+  const encoded: Record<string, EncodedCapture> = {}
+  for (const name of Object.keys(captures)) {
+    const blob = await (await fetch(captures[name])).blob()
+    encoded[name] = { bytes: await blob.arrayBuffer(), type: blob.type }
+  }
+  return encoded
+}
+
+export const visionWorkerClient = new VisionWorkerClient()
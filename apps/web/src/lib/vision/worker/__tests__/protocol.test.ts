@@ -0,0 +1,59 @@
+/**
+ * Tests for the vision worker message protocol
+ */
+
+import { collectTransferables, resultOf } from '../protocol'
+import { createImageData } from '../../image'
+
+describe('collectTransferables', () => {
+  it('should find image buffers nested anywhere in a result', () => {
+    const rectified = createImageData(4, 4)
+    const heatmap = createImageData(2, 2)
+
+    const buffers = collectTransferables({
+      rectifiedImage: rectified,
+      surface: { heatmap, defects: [{ type: 'scratch' }] },
+      label: 'Mint'
+    })
+
+    expect(buffers).toHaveLength(2)
+    expect(buffers).toContain(rectified.data.buffer)
+    expect(buffers).toContain(heatmap.data.buffer)
+  })
+
+  it('should list a shared buffer once', () => {
+    const image = createImageData(4, 4)
+
+    expect(collectTransferables({ a: image, b: image, c: [image.data] })).toHaveLength(1)
+  })
+
+  it('should move encoded captures rather than copy them', () => {
+    const front = new ArrayBuffer(16)
+    const back = new ArrayBuffer(8)
+
+    const buffers = collectTransferables({
+      type: 'process-card',
+      id: 'vision-1',
+      captures: { front: { bytes: front, type: 'image/jpeg' }, back: { bytes: back, type: 'image/jpeg' } }
+    })
+
+    expect(buffers).toEqual([front, back])
+  })
+
+  it('should return nothing for messages without pixels', () => {
+    expect(collectTransferables({ type: 'process-card', id: 'vision-1', captures: { front: 'data:' } })).toEqual([])
+  })
+})
+
+describe('resultOf', () => {
+  it('should hand back the result a task asked for', () => {
+    const result = { confidence: 90, detections: [], processTime: 12 }
+
+    expect(resultOf('analyze-card', { type: 'result', id: 'vision-2', task: 'analyze-card', result })).toBe(result)
+  })
+
+  it('should refuse a result tagged for another kind of task', () => {
+    expect(() => resultOf('process-card', { type: 'result', id: 'vision-3', task: 'initialize', result: undefined }))
+      .toThrow(/initialize result to a process-card request/)
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * Vision Worker Protocol - Fei-Fei Li: Typed messages between the page and the vision worker
+ *
+ * Every request carries an id. The worker answers with any number of progress
+ * messages and then exactly one result or error; a result is tagged with the
+ * kind of task it answers. ImageData and encoded captures travel with their
+ * buffers in the transfer list, so they are moved rather than copied and the
+ * sender's copy is left detached.
+ */
+
+import type { PipelineProgress, PipelineResult } from '../VisionPipeline'
+import type { CalibrationProfile } from '../Calibration'
+import type { ProcessedCard } from '../../interfaces/services'
+import type { ScanResult } from '@/services/AIService'
+
+// A capture as its encoded file bytes (JPEG, PNG) rather than a data URL string, so it can be transferred
+export interface EncodedCapture {
+  bytes: ArrayBuffer
+  type: string
+}
+
+export type VisionWorkerRequest =
+  | { type: 'initialize'; id: string }
+  | { type: 'process-card'; id: string; captures: Record<string, EncodedCapture>; calibration?: CalibrationProfile | null }
+  | { type: 'process-slab'; id: string; captures: Record<string, EncodedCapture>; calibration?: CalibrationProfile | null }
+  | { type: 'analyze-card'; id: string; image: ImageData }
+  | { type: 'run-pipeline'; id: string; image: ImageData; calibration?: CalibrationProfile | null }
+  | { type: 'cancel'; id: string }
+
+export type VisionWorkerTask = Exclude<VisionWorkerRequest, { type: 'cancel' }>
+
+// What each request resolves to
+export interface VisionWorkerResults {
+  'initialize': void
+  'process-card': ProcessedCard
+  'process-slab': ProcessedCard
+  'analyze-card': ScanResult
+  'run-pipeline': PipelineResult
+}
+
+export type VisionWorkerResult = {
+  [K in VisionWorkerTask['type']]: { type: 'result'; id: string; task: K; result: VisionWorkerResults[K] }
+}[VisionWorkerTask['type']]
+
+export type VisionWorkerResponse =
+  | { type: 'progress'; id: string; progress: PipelineProgress }
+  | VisionWorkerResult
+  | { type: 'error'; id: string; message: string; cancelled: boolean }
+
+// The result a task asked for; one tagged for another kind of task is a protocol error
+export function resultOf<K extends VisionWorkerTask['type']>(type: K, response: VisionWorkerResult): VisionWorkerResults[K] {
+  if (response.task !== type) {
+    throw new Error(`Vision worker sent a ${response.task} result to a ${type} request`)
+  }
+  return response.result as VisionWorkerResults[K]
+}
+
+/**
+ * Pixel and file buffers anywhere inside a message, for postMessage's transfer list.
+ * Each buffer is listed once; listing a buffer twice throws.
+ */
+export function collectTransferables(value: unknown): Transferable[] {
+  const buffers = new Set<ArrayBuffer>()
+  const seen = new Set<object>()
+
+  const visit = (node: unknown): void => {
+    if (!node || typeof node !== 'object' || seen.has(node)) return
+    seen.add(node)
+
+    if (node instanceof ArrayBuffer) {
+      buffers.add(node)
+      return
+    }
+    if (ArrayBuffer.isView(node)) {
+      if (node.buffer instanceof ArrayBuffer) buffers.add(node.buffer)
+      return
+    }
+    if (isImageData(node)) {
+      buffers.add(node.data.buffer as ArrayBuffer)
+      return
+    }
+
+    const children = Array.isArray(node) ? node : Object.keys(node).map(key => (node as Record<string, unknown>)[key])
+    children.forEach(visit)
+  }
+
+  visit(value)
+  return Array.from(buffers)
+}
+
+function isImageData(value: object): value is ImageData {
+  const candidate = value as ImageData
+  return candidate.data instanceof Uint8ClampedArray && typeof candidate.width === 'number'
+}
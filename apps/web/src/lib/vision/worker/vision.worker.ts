@@ -0,0 +1,107 @@
+/**
+ * Vision Worker - Fei-Fei Li: Card detection, OCR and grading off the main thread
+ *
+ * Hosts its own AIService and VisionPipeline. Decoding and encoding go through
+ * OffscreenCanvas (see canvas.ts) and TF.js picks an OffscreenCanvas-backed
+ * backend, so nothing here needs the DOM. Cancellation aborts the request's
+ * signal; the running stage finishes and the next one refuses to start.
+ */
+
+import { aiService } from '@/services/AIService'
+import { VisionPipeline, PipelineRunOptions } from '../VisionPipeline'
+import { createCertLookupProvider } from '../../grading/CertLookup'
+import { CardDatabaseManager } from '../../card-database/CardDatabaseManager'
+import { ScanCancelledError } from '../../errors'
+import { blobToDataUrl } from '../canvas'
+import type { ProcessedCard } from '../../interfaces/services'
+import {
+  collectTransferables,
+  EncodedCapture,
+  VisionWorkerRequest,
+  VisionWorkerResponse,
+  VisionWorkerResult,
+  VisionWorkerTask
+} from './protocol'
+
+// The webworker lib clashes with the dom lib the rest of the app compiles against
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<VisionWorkerRequest>) => void) | null
+  postMessage(message: VisionWorkerResponse, transfer?: Transferable[]): void
+}
+
+// Genuine reference images live in IndexedDB, which workers can open too
+const pipeline = new VisionPipeline(undefined, undefined, undefined, new CardDatabaseManager())
+const running = new Map<string, AbortController>()
+
+const certLookup = createCertLookupProvider()
+if (certLookup) aiService.setCertLookupProvider(certLookup)
+
+scope.onmessage = event => {
+  const request = event.data
+  if (request.type === 'cancel') {
+    running.get(request.id)?.abort()
+    return
+  }
+  handle(request)
+}
+
+async function handle(task: VisionWorkerTask): Promise<void> {
+  const controller = new AbortController()
+  running.set(task.id, controller)
+
+  const options: PipelineRunOptions = {
+    signal: controller.signal,
+    onProgress: progress => scope.postMessage({ type: 'progress', id: task.id, progress })
+  }
+
+  try {
+    const response = await run(task, options)
+    if (controller.signal.aborted) throw new ScanCancelledError()
+    scope.postMessage(response, collectTransferables(response.result))
+  } catch (error) {
+    scope.postMessage({
+      type: 'error',
+      id: task.id,
+      message: error instanceof Error ? error.message : String(error),
+      cancelled: controller.signal.aborted
+    })
+  } finally {
+    running.delete(task.id)
+  }
+}
+
+async function run(task: VisionWorkerTask, options: PipelineRunOptions): Promise<VisionWorkerResult> {
+  const { id } = task
+  switch (task.type) {
+    case 'initialize':
+      return { type: 'result', id, task: task.type, result: await aiService.initialize() }
+    case 'process-card': {
+      const card = await aiService.processCard(await toDataUrls(task.captures), { ...options, calibration: task.calibration })
+      return { type: 'result', id, task: task.type, result: withoutCaptures(card) }
+    }
+    case 'process-slab': {
+      const card = await aiService.processSlab(await toDataUrls(task.captures), { ...options, calibration: task.calibration })
+      return { type: 'result', id, task: task.type, result: withoutCaptures(card) }
+    }
+    case 'analyze-card':
+      return { type: 'result', id, task: task.type, result: await aiService.analyzeCard(task.image) }
+    case 'run-pipeline':
+      return { type: 'result', id, task: task.type, result: await pipeline.process(task.image, { ...options, calibration: task.calibration }) }
+  }
+}
+
+// AIService reads captures as URLs; decoding and encoding here keeps it off the main thread
+async function toDataUrls(captures: Record<string, EncodedCapture>): Promise<Record<string, string>> {
+  const urls: Record<string, string> = {}
+  for (const name of Object.keys(captures)) {
+    const { bytes, type } = captures[name]
+    urls[name] = await blobToDataUrl(new Blob([bytes], { type }))
+  }
+  return urls
+}
+
+// The page still holds the captures it sent, so they aren't copied back
+function withoutCaptures(card: ProcessedCard): ProcessedCard {
+  const { captures, ...rest } = card
+  return rest
+}
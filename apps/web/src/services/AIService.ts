@@ -1,87 +1,124 @@
 // COST: $0.0001/scan (TensorFlow.js local processing)
-import * as tf from '@tensorflow/tfjs';
-import * as cocoSsd from '@tensorflow-models/coco-ssd';
 import { cardIdentificationService, CardDetails } from './CardIdentificationService';
 import { marketDataService } from './MarketDataService';
+import { CardDetector, CardBoundary } from '@/lib/vision/CardDetector';
+import { CenteringAnalyzer, CenteringMeasurement, CenteringOverlay } from '@/lib/vision/CenteringAnalyzer';
+import { WearAnalyzer, WearAnalysis, EdgePosition } from '@/lib/vision/WearAnalyzer';
+import { SurfaceAnalyzer, SurfaceAnalysis } from '@/lib/vision/SurfaceAnalyzer';
+import { UVAnalyzer } from '@/lib/vision/UVAnalyzer';
+import { TrimDetector } from '@/lib/vision/TrimDetector';
+import { ReferenceComparator } from '@/lib/vision/ReferenceComparator';
+import { applyColorCorrection, calibrationConfidence, CalibrationProfile } from '@/lib/vision/Calibration';
+import { GradingEngine, GradeReport } from '@/lib/grading/GradingEngine';
+import { CertLookupProvider, CertVerification, verifyCert } from '@/lib/grading/CertLookup';
+import type { SlabLabel } from '@/lib/grading/SlabReader';
+import { PipelineRunOptions, runStage } from '@/lib/vision/VisionPipeline';
+import { decodeImage, encodeImage } from '@/lib/vision/canvas';
+import { modelRegistry, SCAN_MODELS } from '@/lib/vision/models';
+import {
+  Card,
+  CenteringScore,
+  CollectionCard,
+  Damage,
+  ExternalGrade,
+  Grade,
+  ScanImages
+} from '@/lib/domain/models';
+import type { ProcessedCard } from '@/lib/interfaces/services';
+import { deriveAttributes } from '@/lib/card-database/VariantTaxonomy';
 
 export interface ScanResult {
   confidence: number;
-  detections: Detection[];
   processTime: number;
   damageAnalysis?: DamageAnalysis;
-}
-
-export interface Detection {
-  class: string;
-  score: number;
-  bbox: [number, number, number, number];
+  cardBoundary?: CardBoundary;
+  rectifiedImage?: ImageData;
+  centering?: CenteringMeasurement;
+  wear?: WearAnalysis;
+  surface?: SurfaceAnalysis;
 }
 
 export interface DamageAnalysis {
   hasScratches: boolean;
   hasCornerWear: boolean;
   hasEdgeDamage: boolean;
-  centeringScore: number;
+  centeringScore: number; // 0-100, 50 when the card could not be located
   overallGrade: number;
 }
 
+// Grade shown when the card could not be located and nothing was measured
+const FALLBACK_GRADE = 7;
+
+// Centering for one side of the card, ready for ScanResults to draw
+export interface CenteringReport {
+  leftRight: number;
+  topBottom: number;
+  label: string;
+  confidence: number;
+  overlay: CenteringOverlay;
+  image?: string; // Rectified card as a data URL; the overlay is relative to it
+}
+
 export class AIService {
-  private model: cocoSsd.ObjectDetection | null = null;
-  private isModelLoading = false;
+  private modelsLoaded: Promise<void> | null = null;
+  private cardDetector = new CardDetector();
+  private centeringAnalyzer = new CenteringAnalyzer();
+  private wearAnalyzer = new WearAnalyzer();
+  private surfaceAnalyzer = new SurfaceAnalyzer();
+  private uvAnalyzer = new UVAnalyzer();
+  private trimDetector = new TrimDetector();
+  private referenceComparator = new ReferenceComparator();
+  private gradingEngine = new GradingEngine();
+  private registry = modelRegistry;
+  // Without a provider slabs are recorded as unverified
+  private certLookup?: CertLookupProvider;
+
+  setCertLookupProvider(provider: CertLookupProvider): void {
+    this.certLookup = provider;
+  }
 
   async initialize(): Promise<void> {
-    if (this.model || this.isModelLoading) return;
-    
-    this.isModelLoading = true;
+    // Scan models with downloaded weights are fetched and verified once, before the first scan needs them
+    if (!this.modelsLoaded) {
+      this.modelsLoaded = Promise.all(
+        SCAN_MODELS
+          .filter(id => this.registry.get(id).artifact)
+          .map(id => this.registry.loadArtifacts(id))
+      ).then(() => undefined);
+    }
+
     try {
-      // Load COCO-SSD for basic object detection
-      // In production, would load custom card detection model
-      this.model = await cocoSsd.load();
-      console.log('AI model loaded successfully');
+      await this.modelsLoaded;
     } catch (error) {
+      this.modelsLoaded = null;
       console.error('Failed to load AI model:', error);
       throw error;
-    } finally {
-      this.isModelLoading = false;
     }
   }
 
   async analyzeCard(imageData: ImageData): Promise<ScanResult> {
     const startTime = performance.now();
-    
-    if (!this.model) {
-      await this.initialize();
-    }
 
     try {
-      // Convert ImageData to tensor
-      const imageTensor = tf.browser.fromPixels(imageData);
-      
-      // Run detection
-      const predictions = await this.model!.detect(imageTensor as any);
-      
-      // Clean up tensor to prevent memory leak
-      imageTensor.dispose();
-      
-      // Calculate confidence based on detections
-      const confidence = predictions.length > 0 
-        ? Math.max(...predictions.map(p => p.score))
-        : 0;
+      const { confidence, cardBoundary, rectifiedImage } = await this.detectCard(imageData);
+      const centering = rectifiedImage ? this.centeringAnalyzer.measure(rectifiedImage) : undefined;
+      const wear = rectifiedImage ? this.wearAnalyzer.analyze({ front: rectifiedImage }) : undefined;
+      const surface = rectifiedImage ? this.surfaceAnalyzer.analyze(rectifiedImage) : undefined;
 
       // Simulate damage analysis (would use specialized model in production)
-      const damageAnalysis = this.simulateDamageAnalysis(imageData, predictions);
+      const damageAnalysis = this.simulateDamageAnalysis(imageData, centering, wear, surface);
 
       const processTime = performance.now() - startTime;
 
       return {
         confidence,
-        detections: predictions.map(p => ({
-          class: p.class,
-          score: p.score,
-          bbox: p.bbox as [number, number, number, number]
-        })),
         processTime,
-        damageAnalysis
+        damageAnalysis,
+        cardBoundary,
+        rectifiedImage,
+        centering,
+        wear,
+        surface
       };
     } catch (error) {
       console.error('AI analysis failed:', error);
@@ -89,27 +126,56 @@ export class AIService {
     }
   }
 
+  private async detectCard(imageData: ImageData): Promise<{
+    confidence: number;
+    cardBoundary?: CardBoundary;
+    rectifiedImage?: ImageData;
+  }> {
+    await this.initialize();
+
+    // Confidence is in the card outline the later stages measure
+    const { cardBoundary, rectifiedImage } = this.locateCard(imageData);
+    const confidence = cardBoundary?.confidence ?? 0;
+
+    return { confidence, cardBoundary, rectifiedImage };
+  }
+
   private simulateDamageAnalysis(
-    imageData: ImageData, 
-    detections: cocoSsd.DetectedObject[]
+    imageData: ImageData,
+    centering?: CenteringMeasurement,
+    wear?: WearAnalysis,
+    surface?: SurfaceAnalysis
   ): DamageAnalysis {
-    // This is a placeholder - real implementation would:
-    // 1. Use specialized model trained on card damage
-    // 2. Analyze edge pixels for wear
-    // 3. Detect surface scratches using contrast analysis
-    // 4. Calculate centering based on border detection
-    
-    const randomScore = () => Math.random();
-    
+    // Centering, corner/edge wear and surface defects are measured from pixels;
+    // the overall grade comes from the grading engine's default rubric
+    const report = this.gradeCard(centering, wear, surface);
+
     return {
-      hasScratches: randomScore() > 0.7,
-      hasCornerWear: randomScore() > 0.8,
-      hasEdgeDamage: randomScore() > 0.75,
-      centeringScore: 50 + Math.floor(randomScore() * 50), // 50-100
-      overallGrade: Math.floor(5 + randomScore() * 5) // 5-10
+      hasScratches: surface ? surface.defects.some(defect => defect.type === 'scratch') : false,
+      hasCornerWear: wear ? wear.cornersGrade < 9 : false,
+      hasEdgeDamage: wear ? wear.edgesGrade < 9 : false,
+      centeringScore: centering ? Math.round(centering.score.score * 10) : 50,
+      overallGrade: report?.numeric ?? FALLBACK_GRADE
     };
   }
 
+  private gradeCard(
+    centering?: CenteringMeasurement,
+    wear?: WearAnalysis,
+    surface?: { surfaceGrade: number },
+    backCentering?: CenteringMeasurement
+  ): GradeReport | undefined {
+    if (!centering || !wear || !surface) return undefined;
+
+    return this.gradingEngine.grade({
+      centering: centering.score,
+      backCentering: backCentering?.score,
+      corners: wear.cornersGrade,
+      edges: wear.edgesGrade,
+      surface: surface.surfaceGrade
+    });
+  }
+
   async processWithCloudFallback(
     imageData: ImageData,
     cardValue: number
@@ -126,78 +192,334 @@ export class AIService {
     return localResult;
   }
 
-  async processCard(captures: Record<string, string>): Promise<{
-    grade: number;
-    confidence: number;
-    damages?: Array<{type: string; severity: string; location: string}>;
-    authentic: boolean;
-    estimatedValue?: number;
-    cardDetails?: CardDetails;
-    captures?: Record<string, string>;
-  }> {
+  async processCard(captures: Record<string, string>, options: PipelineRunOptions = {}): Promise<ProcessedCard> {
     // Convert base64 images to ImageData and analyze each
     const frontImage = captures['front'];
     if (!frontImage) {
       throw new Error('Front image capture is required');
     }
 
-    // Convert base64 to ImageData
-    const imageData = await this.base64ToImageData(frontImage);
-    
-    // Analyze the front image (most important for card identification)
-    const scanResult = await this.analyzeCard(imageData);
-    
-    // Identify the card using the dedicated service
-    const cardDetails = await cardIdentificationService.identifyCard(captures);
-    
-    // Convert damage analysis to expected format
-    const damages = [];
-    if (scanResult.damageAnalysis) {
-      if (scanResult.damageAnalysis.hasScratches) {
-        damages.push({ type: 'Scratch', severity: 'Minor', location: 'Surface' });
-      }
-      if (scanResult.damageAnalysis.hasCornerWear) {
-        damages.push({ type: 'Corner Wear', severity: 'Moderate', location: 'Corners' });
-      }
-      if (scanResult.damageAnalysis.hasEdgeDamage) {
-        damages.push({ type: 'Edge Damage', severity: 'Minor', location: 'Edges' });
+    // Visible-light captures are colour-corrected for this camera and light; UV is judged by its own glow
+    const calibration = options.calibration ?? null;
+
+    const { frontPixels, front, back, edges, uv } = await runStage('detect', options, async () => {
+      const frontPixels = await decodeImage(frontImage);
+      const front = await this.detectCard(frontPixels);
+      front.rectifiedImage = this.correctColor(front.rectifiedImage, calibration);
+
+      // Rectify the other captures so every analyzer sees the same upright card
+      const back = this.correctColor(captures['back'] ? await this.rectifyCapture(captures['back']) : undefined, calibration);
+      const edges: Partial<Record<EdgePosition, ImageData>> = {};
+      for (const edge of ['top', 'bottom', 'left', 'right'] as EdgePosition[]) {
+        const capture = captures[`edge-${edge}`];
+        const rectified = this.correctColor(capture ? await this.rectifyCapture(capture) : undefined, calibration);
+        if (rectified) edges[edge] = rectified;
       }
-    }
-    
+      const uv = captures['uv'] ? await this.rectifyCapture(captures['uv']) : undefined;
+      return { frontPixels, front, back, edges, uv };
+    });
+    const rectifiedImage = front.rectifiedImage;
+
+    // Identify the card using the dedicated service
+    // OCR reads the rectified faces so text is upright and free of background
+    const cardDetails = await runStage('ocr', options, () =>
+      cardIdentificationService.identifyCard(captures, { front: rectifiedImage, back })
+    );
+
+    const condition = await runStage('damage', options, async () => {
+      // Centering is measured on both faces; the back has looser tolerances when grading
+      const frontCentering = rectifiedImage ? this.centeringAnalyzer.measure(rectifiedImage) : undefined;
+      const backCentering = back ? this.centeringAnalyzer.measure(back) : undefined;
+      const centering = await this.buildCenteringReports(rectifiedImage, frontCentering, back, backCentering);
+
+      // Corners and edges from every view we have, not just the front
+      const wear = rectifiedImage
+        ? this.wearAnalyzer.analyze({ front: rectifiedImage, back, edges })
+        : undefined;
+
+      // Surface defects on both faces; the heatmaps are drawn over the rectified images
+      const frontSurface = rectifiedImage ? this.surfaceAnalyzer.analyze(rectifiedImage) : undefined;
+      const backSurface = back ? this.surfaceAnalyzer.analyze(back, 'back') : undefined;
+      const surfaceHeatmap = frontSurface
+        ? {
+            front: await encodeImage(frontSurface.heatmap, 'image/png'),
+            back: backSurface ? await encodeImage(backSurface.heatmap, 'image/png') : undefined
+          }
+        : undefined;
+
+      // Convert damage analysis to expected format
+      const damages = [
+        ...(wear?.damages ?? []),
+        ...(frontSurface?.damages ?? []),
+        ...(backSurface?.damages ?? [])
+      ].map(damage => this.toDamageEntry(damage));
+
+      // Grade from every view: back centering and the weaker surface both count
+      const report = this.gradeCard(
+        frontCentering,
+        wear,
+        frontSurface && {
+          surfaceGrade: Math.min(frontSurface.surfaceGrade, backSurface?.surfaceGrade ?? 10)
+        },
+        backCentering
+      );
+
+      return { centering, surfaceHeatmap, damages, report };
+    });
+    const { report } = condition;
+    const grade = report?.numeric ?? FALLBACK_GRADE;
+
+    const authenticity = await runStage('authenticity', options, async () => {
+      // Blacklight checks need the UV capture; the visible front calibrates the ink
+      const uvAnalysis = uv
+        ? this.uvAnalyzer.analyze(uv, { year: cardDetails.year, visible: rectifiedImage })
+        : undefined;
+      // Trim is measured on the outline in the original frame, against the set's cut size
+      // The calibrated scale only holds for frames the size the calibration card was captured at
+      const setInfo = front.cardBoundary ? await cardIdentificationService.getSetInfo(cardDetails) : null;
+      const scale = calibration && calibration.frameWidth === frontPixels.width && calibration.frameHeight === frontPixels.height
+        ? { pxPerMm: calibration.pxPerMm }
+        : undefined;
+      const trim = front.cardBoundary
+        ? this.trimDetector.analyze(frontPixels, front.cardBoundary, { spec: setInfo?.cardSize, scale })
+        : undefined;
+      // Print, fonts, logos and colour against a stored genuine copy; without one, confidence drops
+      const reference = rectifiedImage ? await cardIdentificationService.getReferenceImage(cardDetails) : null;
+      const comparison = rectifiedImage
+        ? this.referenceComparator.compare(rectifiedImage, reference, { calibrated: calibration !== null })
+        : undefined;
+      const warnings = [
+        ...(cardDetails.authenticityWarnings ?? []),
+        ...(uvAnalysis?.warnings ?? []),
+        ...(trim?.warnings ?? []),
+        ...(comparison?.warnings ?? [])
+      ];
+      const indicators = [
+        ...(uvAnalysis?.indicators ?? []),
+        ...(trim?.indicators ?? []),
+        ...(comparison?.indicators ?? [])
+      ];
+      return {
+        authentic: !uvAnalysis?.suspicious && !trim?.suspicious && !comparison?.suspicious,
+        confidence: Math.round((comparison?.confidence ?? 0) * 100),
+        warnings: warnings.length > 0 ? warnings : undefined,
+        indicators: indicators.length > 0 ? indicators : undefined
+      };
+    });
+
     // Get real market data for accurate pricing
-    const grade = scanResult.damageAnalysis?.overallGrade || 7;
     const marketData = await marketDataService.getMarketData(cardDetails, grade);
     const estimatedValue = marketData.averagePrice || 0;
-    
+
+    // Only the models that ran: without a card outline nothing is measured, and only UV is checked
+    const modelsRun = ['card-detection', 'text-extraction'];
+    if (rectifiedImage) modelsRun.push('damage-detection');
+    if (rectifiedImage || uv) modelsRun.push('authenticity-check');
+
     return {
-      grade: scanResult.damageAnalysis?.overallGrade || 7,
-      confidence: Math.round(scanResult.confidence * 100),
-      damages: damages.length > 0 ? damages : undefined,
-      authentic: scanResult.confidence > 0.7, // Simple threshold for demo
+      grade,
+      gradeReport: report
+        ? {
+            rubric: report.rubric,
+            label: report.grade.label,
+            cappedBy: report.cappedBy,
+            explanation: report.explanation
+          }
+        : undefined,
+      // Colours and sizes from an uncalibrated camera are less certain
+      confidence: Math.round(front.confidence * 100 * calibrationConfidence(calibration)),
+      calibrated: calibration !== null,
+      damages: condition.damages.length > 0 ? condition.damages : undefined,
+      authentic: authenticity.authentic,
+      authenticityConfidence: authenticity.confidence,
+      authenticityWarnings: authenticity.warnings,
+      authenticityIndicators: authenticity.indicators,
       estimatedValue,
       cardDetails,
+      centering: condition.centering,
+      surfaceHeatmap: condition.surfaceHeatmap,
+      subgrades: report
+        ? {
+            centering: report.centeringGrade,
+            corners: report.grade.corners,
+            edges: report.grade.edges,
+            // Graders take the weaker face for surface
+            surface: report.grade.surface
+          }
+        : undefined,
+      modelVersions: this.registry.versions(modelsRun),
       captures // Include the original images for display
     };
   }
 
-  private async base64ToImageData(base64: string): Promise<ImageData> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        canvas.width = img.width;
-        canvas.height = img.height;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          reject(new Error('Could not get canvas context'));
-          return;
-        }
-        ctx.drawImage(img, 0, 0);
-        resolve(ctx.getImageData(0, 0, img.width, img.height));
-      };
-      img.onerror = () => reject(new Error('Failed to load image'));
-      img.src = base64;
+  // Slabbed cards keep the grader's grade; we read the label instead of grading
+  // There is no damage stage: the grade on the label stands
+  async processSlab(captures: Record<string, string>, options: PipelineRunOptions = {}): Promise<ProcessedCard> {
+    const frontImage = captures['front'];
+    if (!frontImage) {
+      throw new Error('Front image capture is required');
+    }
+
+    const reading = await runStage('detect', options, async () =>
+      cardIdentificationService.readSlab(await decodeImage(frontImage))
+    );
+    if (!reading) {
+      throw new Error('No graded slab found. Fit the whole slab in frame with the label at the top, or switch to raw card mode.');
+    }
+
+    const { slab, label } = reading;
+    if (label.grade === undefined) {
+      throw new Error(`Found a ${label.company} label but could not read a numeric grade. Reduce glare on the label and try again.`);
+    }
+
+    // The label is read as captured; the card window and the kept picture are colour-corrected like a raw card
+    const calibration = options.calibration ?? null;
+    const card = this.correctColor(slab.card, calibration) ?? slab.card;
+
+    // The card window is identified like a raw capture
+    const cardDetails = await runStage('ocr', options, () =>
+      cardIdentificationService.identifyCard(captures, { front: card })
+    );
+
+    const grade = label.grade;
+    const verification = await runStage('authenticity', options, (): Promise<CertVerification> | CertVerification => {
+      if (!this.certLookup) {
+        return { status: 'unverified', provider: 'none', message: 'No cert lookup provider is configured' };
+      }
+      if (!label.certNumber) {
+        return { status: 'unverified', provider: this.certLookup.name, message: 'Cert number could not be read from the label' };
+      }
+      return verifyCert(this.certLookup, label.company, label.certNumber, grade);
     });
+
+    const marketData = await marketDataService.getMarketData(cardDetails, label.grade);
+
+    return {
+      grade: label.grade,
+      confidence: Math.round(label.confidence * 100),
+      authentic: verification.status !== 'mismatch' && verification.status !== 'not-found',
+      authenticityWarnings: [
+        ...(cardDetails.authenticityWarnings ?? []),
+        ...(verification.message && verification.status !== 'unverified' ? [verification.message] : [])
+      ],
+      estimatedValue: marketData.averagePrice || 0,
+      cardDetails,
+      slab: {
+        company: label.company,
+        grade: label.grade,
+        gradeLabel: label.gradeLabel,
+        certNumber: label.certNumber,
+        subgrades: label.subgrades,
+        verification,
+        image: await encodeImage(this.correctColor(slab.slab, calibration) ?? slab.slab)
+      },
+      collectionCard: this.toExternallyGradedCard(cardDetails, label, verification, frontImage),
+      modelVersions: this.registry.versions(['card-detection', 'text-extraction']),
+      captures
+    };
+  }
+
+  private toExternallyGradedCard(
+    details: CardDetails,
+    label: SlabLabel,
+    verification: CertVerification,
+    frontImage: string
+  ): CollectionCard | undefined {
+    if (label.grade === undefined || !label.certNumber) return undefined;
+
+    let card: Card;
+    try {
+      card = new Card(
+        `${label.company}-${label.certNumber}`,
+        details.player,
+        details.year,
+        details.manufacturer ?? '',
+        details.set,
+        details.cardNumber,
+        details.subset,
+        details.variant,
+        deriveAttributes(details)
+      );
+    } catch {
+      // Card could not be identified well enough to record
+      return undefined;
+    }
+
+    // Labels carry no centering ratio; BGS subgrades are kept, others mirror the grade
+    const subgrades = label.subgrades ?? {};
+    const grade = new Grade(
+      label.grade,
+      new CenteringScore(50, 50),
+      subgrades.corners ?? label.grade,
+      subgrades.edges ?? label.grade,
+      subgrades.surface ?? label.grade
+    );
+    const externalGrade = new ExternalGrade(
+      label.company,
+      label.grade,
+      label.certNumber,
+      verification.status,
+      label.gradeLabel
+    );
+
+    return new CollectionCard(card, grade, undefined, undefined, undefined, new ScanImages(frontImage), externalGrade);
+  }
+
+  private locateCard(imageData: ImageData): { cardBoundary?: CardBoundary; rectifiedImage?: ImageData } {
+    const cardBoundary = this.cardDetector.detect(imageData) ?? this.cardDetector.fullFrame(imageData) ?? undefined;
+    const rectifiedImage = cardBoundary
+      ? this.cardDetector.rectify(imageData, cardBoundary.quad, cardBoundary.orientation)
+      : undefined;
+    return { cardBoundary, rectifiedImage };
+  }
+
+  private correctColor(image: ImageData | undefined, calibration: CalibrationProfile | null): ImageData | undefined {
+    return image && calibration ? applyColorCorrection(image, calibration) : image;
+  }
+
+  private async rectifyCapture(capture: string): Promise<ImageData | undefined> {
+    return this.locateCard(await decodeImage(capture)).rectifiedImage;
+  }
+
+  private async buildCenteringReports(
+    front?: ImageData,
+    frontCentering?: CenteringMeasurement,
+    back?: ImageData,
+    backCentering?: CenteringMeasurement
+  ): Promise<ProcessedCard['centering']> {
+    if (!front || !frontCentering) return undefined;
+
+    const frontReport = await this.toCenteringReport(frontCentering, front);
+    if (!back || !backCentering) return { front: frontReport };
+
+    return { front: frontReport, back: await this.toCenteringReport(backCentering, back) };
+  }
+
+  private async toCenteringReport(measurement: CenteringMeasurement, rectifiedImage: ImageData): Promise<CenteringReport> {
+    return {
+      leftRight: measurement.score.leftRight,
+      topBottom: measurement.score.topBottom,
+      label: measurement.score.toString(),
+      confidence: Math.round(measurement.confidence * 100),
+      overlay: measurement.overlay,
+      image: await encodeImage(rectifiedImage)
+    };
+  }
+
+  private toDamageEntry(damage: Damage): { type: string; severity: string; location: string } {
+    const labels: Record<string, string> = {
+      'corner-wear': 'Corner Wear',
+      'edge-wear': 'Edge Wear',
+      'scratch': 'Scratch',
+      'print-defect': 'Print Line',
+      'stain': 'Stain',
+      'fade': 'Fading'
+    };
+    return {
+      type: labels[damage.type] ?? damage.type,
+      severity: damage.severity.charAt(0).toUpperCase() + damage.severity.slice(1),
+      location: damage.location
+    };
   }
 
   private calculateEstimatedValue(grade: number): number {
@@ -228,10 +550,8 @@ export class AIService {
 
   // Memory management
   dispose(): void {
-    if (this.model) {
-      // COCO-SSD doesn't have dispose method, but custom models would
-      this.model = null;
-    }
+    // Verified artifacts stay in the registry's cache; the next scan re-checks them
+    this.modelsLoaded = null;
   }
 }
 
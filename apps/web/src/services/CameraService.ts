@@ -1,3 +1,5 @@
+import { measureFrameGlare } from '@/lib/vision/CaptureQuality'
+
 export class CameraService {
   static async checkPermissions(): Promise<boolean> {
     try {
@@ -15,6 +17,7 @@ export class CameraService {
     return devices.filter(device => device.kind === 'videoinput')
   }
 
+  // Preview tint only; captures taken under a real UV light are analysed by UVAnalyzer
   static applyUVFilter(imageData: ImageData): ImageData {
     const data = imageData.data
     
@@ -33,19 +36,8 @@ export class CameraService {
   }
 
   static detectGlare(imageData: ImageData): boolean {
-    const data = imageData.data
-    let brightPixels = 0
-    const threshold = 240
-    
-    for (let i = 0; i < data.length; i += 4) {
-      const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3
-      if (brightness > threshold) {
-        brightPixels++
-      }
-    }
-    
-    const glarePercentage = (brightPixels / (data.length / 4)) * 100
-    return glarePercentage > 15 // More than 15% bright pixels indicates glare
+    // More than 15% of the card under glare; the scanner's quality gate says where
+    return measureFrameGlare(imageData).fraction > 0.15
   }
 
   static async captureFrame(video: HTMLVideoElement): Promise<string> {
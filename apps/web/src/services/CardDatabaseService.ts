@@ -1,4 +1,7 @@
 import { CardDetails } from './CardIdentificationService'
+import { ReferenceComparator } from '@/lib/vision/ReferenceComparator'
+import type { AuthenticityIndicator } from '@/lib/domain/models'
+import { playerRegistry, foldName } from '@/lib/card-database/PlayerRegistry'
 
 export interface CardDatabase {
   id: string
@@ -43,6 +46,7 @@ export interface PricePoint {
 export class CardDatabaseService {
   private static instance: CardDatabaseService
   private mockDatabase: Map<string, CardDatabase> = new Map()
+  private referenceComparator = new ReferenceComparator()
 
   constructor() {
     this.initializeMockDatabase()
@@ -70,7 +74,7 @@ export class CardDatabaseService {
     // Fuzzy match by player and year
     const entries = Array.from(this.mockDatabase.entries())
     for (const [key, card] of entries) {
-      if (card.player === details.player && card.year === details.year) {
+      if (details.player && playerRegistry.samePlayer(card.player, details.player) && card.year === details.year) {
         return card
       }
     }
@@ -79,34 +83,20 @@ export class CardDatabaseService {
     return null
   }
 
-  async verifyAuthenticity(cardId: string, features: any): Promise<{
+  // Compare a rectified scan with a genuine copy of the same card; null reference means none is on file
+  async verifyAuthenticity(card: ImageData, reference: ImageData | null): Promise<{
     authentic: boolean
     confidence: number
     warnings?: string[]
+    indicators: AuthenticityIndicator[]
   }> {
-    // In production: Compare against known counterfeit patterns
-    // Check print quality, color matching, security features
-    
-    await new Promise(resolve => setTimeout(resolve, 200))
-
-    const warnings: string[] = []
-    let confidence = 95
-
-    // Mock authenticity checks
-    if (Math.random() > 0.95) {
-      warnings.push('Unusual print pattern detected')
-      confidence -= 20
-    }
-
-    if (Math.random() > 0.98) {
-      warnings.push('Color saturation outside normal range')
-      confidence -= 15
-    }
+    const comparison = this.referenceComparator.compare(card, reference)
 
     return {
-      authentic: confidence > 70,
-      confidence,
-      warnings: warnings.length > 0 ? warnings : undefined
+      authentic: !comparison.suspicious,
+      confidence: Math.round(comparison.confidence * 100),
+      warnings: comparison.warnings.length > 0 ? comparison.warnings : undefined,
+      indicators: comparison.indicators
     }
   }
 
@@ -288,13 +278,18 @@ export class CardDatabaseService {
   }
 
   async searchPlayers(query: string): Promise<Array<{
+    playerId: string
     player: string
     teams: string[]
     years: number[]
     sport: string
   }>> {
     // In production: Full-text search across player database
+    // Aliases and nicknames count, so "The Kid" finds Ken Griffey Jr.'s cards
+    const wanted = new Set(playerRegistry.search(query).map(player => player.id))
+    const folded = foldName(query)
     const players = new Map<string, {
+      player: string
       teams: Set<string>
       years: Set<number>
       sport: string
@@ -302,22 +297,25 @@ export class CardDatabaseService {
 
     const cards = Array.from(this.mockDatabase.values())
     for (const card of cards) {
-      if (card.player.toLowerCase().includes(query.toLowerCase())) {
-        if (!players.has(card.player)) {
-          players.set(card.player, {
+      const playerId = playerRegistry.canonicalId(card.player)
+      if (wanted.has(playerId) || foldName(card.player).includes(folded)) {
+        if (!players.has(playerId)) {
+          players.set(playerId, {
+            player: playerRegistry.canonicalName(card.player),
             teams: new Set(),
             years: new Set(),
             sport: card.sport
           })
         }
-        const playerData = players.get(card.player)!
+        const playerData = players.get(playerId)!
         if (card.team) playerData.teams.add(card.team)
         playerData.years.add(card.year)
       }
     }
 
-    return Array.from(players.entries()).map(([player, data]) => ({
-      player,
+    return Array.from(players.entries()).map(([playerId, data]) => ({
+      playerId,
+      player: data.player,
       teams: Array.from(data.teams),
       years: Array.from(data.years).sort(),
       sport: data.sport
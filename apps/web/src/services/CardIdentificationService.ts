@@ -1,23 +1,76 @@
 import { cardDatabaseService } from './CardDatabaseService'
+import { OcrEngine, TesseractOcrEngine } from '@/lib/vision/TextRecognizer'
+import { parseCardText } from '@/lib/vision/CardTextParser'
+import { SerialNumberReader, SerialNumber, checkPrintRun } from '@/lib/vision/SerialNumberReader'
+import { SlabReader, SlabReading } from '@/lib/grading/SlabReader'
+import type { ExtractedText, TextExtractionResult } from '@/lib/vision/VisionPipeline'
+import { CardDatabaseManager } from '@/lib/card-database/CardDatabaseManager'
+import { playerRegistry } from '@/lib/card-database/PlayerRegistry'
+import { SetTaxonomy, findPrintedVariant, findVariant, toCardVariant } from '@/lib/card-database/VariantTaxonomy'
+import type { ICardDatabaseService, VisualMatch, CardVariant, SetInfo } from '@/lib/interfaces/services'
 
 // Card identification service that extracts player, year, set, and card number
 export interface CardDetails {
+  // Canonical name from the player registry; playerId is set once a name is read
   player: string
+  playerId?: string
   year: number
   set: string
   cardNumber?: string
   variant?: string
+  // The variant's entry in the set's taxonomy, once the variant is known
+  variantDetails?: CardVariant
   manufacturer?: string
   subset?: string
   isAutograph?: boolean
   isPatch?: boolean
   isRookie?: boolean
   serialNumber?: string
+  // Parsed from serialNumber; confidence is 0-100
+  serial?: {
+    number: number
+    printRun: number
+    confidence: number
+    matchedVariant?: string
+  }
+  // Problems that point at an altered or fake card, shown next to the authenticity check
+  authenticityWarnings?: string[]
   confidence: number
+  // 0-100 per field read from the card; missing fields were not found
+  fieldConfidence?: Partial<Record<'player' | 'year' | 'set' | 'cardNumber' | 'manufacturer', number>>
+  // Closest reference cards by appearance, best first; similarity is 0-100
+  visualMatches?: VisualMatchSummary[]
+}
+
+export interface VisualMatchSummary {
+  id: string
+  name: string
+  similarity: number
+}
+
+// Rectified card faces; OCR falls back to the raw captures when these are missing
+export interface RectifiedFaces {
+  front?: ImageData
+  back?: ImageData
 }
 
+const VISUAL_MATCH_LIMIT = 5
+// A visual match this close stands in for fields OCR could not read
+const VISUAL_MATCH_THRESHOLD = 85
+const WEAK_FIELD_CONFIDENCE = 50
+
 export class CardIdentificationService {
   private static instance: CardIdentificationService
+  private serialReader: SerialNumberReader
+  private slabReader: SlabReader
+
+  constructor(
+    private ocrEngine: OcrEngine = new TesseractOcrEngine(),
+    private catalog: ICardDatabaseService = new CardDatabaseManager()
+  ) {
+    this.serialReader = new SerialNumberReader(ocrEngine)
+    this.slabReader = new SlabReader(ocrEngine)
+  }
 
   static getInstance(): CardIdentificationService {
     if (!CardIdentificationService.instance) {
@@ -26,101 +79,229 @@ export class CardIdentificationService {
     return CardIdentificationService.instance
   }
 
-  async identifyCard(images: Record<string, string>): Promise<CardDetails> {
-    // In production, this would use:
-    // 1. OCR to extract text from card
-    // 2. Computer vision to identify logos/designs
-    // 3. Database lookup against known card sets
-    // 4. Machine learning model trained on card images
+  async identifyCard(images: Record<string, string>, rectified: RectifiedFaces = {}): Promise<CardDetails> {
+    const front = rectified.front ?? images['front']
+    const back = rectified.back ?? images['back']
+    if (!front) {
+      throw new Error('Front image capture is required')
+    }
 
-    // For MVP, we'll use a combination of:
-    // - Text extraction for visible card details
-    // - Pattern matching for common card formats
-    // - Fallback to mock data for demo
+    // Front carries the name and set; the back carries the number and copyright year
+    // The OCR model is fetched on first use, so offline the artwork alone has to identify the card
+    let frontText: ExtractedText[] = []
+    let backText: ExtractedText[] = []
+    let textRead = true
+    try {
+      frontText = await this.ocrEngine.recognize(front)
+      backText = back ? await this.ocrEngine.recognize(back) : []
+    } catch (error) {
+      console.warn('Text recognition unavailable; identifying by appearance:', error)
+      textRead = false
+    }
 
     try {
-      // Simulate processing time
-      await new Promise(resolve => setTimeout(resolve, 1000))
-
-      // Mock implementation with realistic card data
-      const mockCards: CardDetails[] = [
-        {
-          player: "Bishop Sankey",
-          year: 2015,
-          set: "Topps Valor Football",
-          cardNumber: "VRAP-BS",
-          variant: "Valor Rookie Autograph Patches",
-          manufacturer: "Topps",
-          isAutograph: true,
-          isPatch: true,
-          isRookie: true,
-          confidence: 92
-        },
-        {
-          player: "Mike Trout",
-          year: 2023,
-          set: "Topps Chrome",
-          cardNumber: "27",
-          variant: "Refractor",
-          manufacturer: "Topps",
-          isRookie: false,
-          confidence: 95
-        },
-        {
-          player: "Connor Bedard",
-          year: 2023,
-          set: "Upper Deck Young Guns",
-          cardNumber: "451",
-          manufacturer: "Upper Deck",
-          isRookie: true,
-          confidence: 88
-        },
-        {
-          player: "Julio Rodriguez",
-          year: 2022,
-          set: "Topps Series 1",
-          cardNumber: "215",
-          variant: "Base Rookie Card",
-          manufacturer: "Topps",
-          isRookie: true,
-          confidence: 91
-        },
-        {
-          player: "Michael Jordan",
-          year: 1986,
-          set: "Fleer Basketball",
-          cardNumber: "57",
-          manufacturer: "Fleer",
-          isRookie: true,
-          confidence: 87
+      const card = this.toCardDetails(parseCardText(frontText, backText))
+
+      // Chrome and foil defeat OCR; the artwork still identifies the card
+      let matched = false
+      if (rectified.front) {
+        const matches = await this.findVisualMatches(rectified.front)
+        if (matches.length > 0 && matches[0].similarity * 100 >= VISUAL_MATCH_THRESHOLD) {
+          this.applyVisualMatch(card, matches[0])
+          matched = true
         }
-      ]
+        card.visualMatches = matches.map(({ card: entry, similarity }) => ({
+          id: entry.id,
+          name: this.formatCardName({ ...entry, confidence: 0 }),
+          similarity: Math.round(similarity * 100)
+        }))
+      }
+      if (!textRead && !matched) {
+        throw new Error('No text was read and no reference card matched')
+      }
 
-      // Return a random card for demo purposes
-      const selectedCard = mockCards[Math.floor(Math.random() * mockCards.length)]
-      
-      // Add some variance to confidence
-      selectedCard.confidence = Math.max(70, Math.min(99, selectedCard.confidence + (Math.random() * 10 - 5)))
+      // Numbered parallels: read the serial and check it against the known print runs
+      const serial = textRead
+        ? await this.serialReader.read({ front, back }, { front: frontText, back: backText })
+        : null
+      if (serial) {
+        await this.applySerialNumber(card, serial)
+      }
 
       // Try to enrich with database info
-      const dbCard = await cardDatabaseService.lookupCard(selectedCard)
+      const dbCard = await cardDatabaseService.lookupCard(card)
       if (dbCard) {
         // Enhance with database details
-        selectedCard.manufacturer = dbCard.manufacturer
+        card.manufacturer = dbCard.manufacturer
         if (dbCard.attributes) {
-          selectedCard.isRookie = dbCard.attributes.isRookie
-          selectedCard.isAutograph = dbCard.attributes.isAutograph
-          selectedCard.isPatch = dbCard.attributes.isPatch
+          card.isRookie = dbCard.attributes.isRookie
+          card.isAutograph = dbCard.attributes.isAutograph
+          card.isPatch = dbCard.attributes.isPatch
         }
       }
 
-      return selectedCard
+      // Numbered or not, the variant's finish and colour come from the set's taxonomy
+      await this.resolveVariant(card, [...frontText, ...backText].map(text => text.text).join(' '))
+
+      return card
     } catch (error) {
       console.error('Card identification failed:', error)
       throw new Error('Unable to identify card. Please ensure the image is clear and well-lit.')
     }
   }
 
+  // Genuine reference of the identified card, for the counterfeit comparison; null when the catalog has none
+  async getReferenceImage(card: CardDetails): Promise<ImageData | null> {
+    try {
+      const [match] = card.visualMatches ?? []
+      const id = match && match.similarity >= VISUAL_MATCH_THRESHOLD
+        ? match.id
+        : (await this.catalog.lookupCard(card))?.id
+      return id ? await this.catalog.getReferenceImage(id) : null
+    } catch (error) {
+      console.warn('Reference image lookup failed:', error)
+      return null
+    }
+  }
+
+  // Grader label and the card window of a slabbed card; null when the frame holds no slab
+  async readSlab(image: ImageData): Promise<SlabReading | null> {
+    return this.slabReader.read(image)
+  }
+
+  // Set record for the identified card (cut size, checklist size); null when it cannot be looked up
+  async getSetInfo(card: CardDetails): Promise<SetInfo | null> {
+    if (!card.year || !card.set) return null
+    try {
+      return await this.catalog.getSetInfo(card.year, card.manufacturer ?? '', card.set)
+    } catch (error) {
+      console.warn('Set lookup failed:', error)
+      return null
+    }
+  }
+
+  private async applySerialNumber(card: CardDetails, serial: SerialNumber): Promise<void> {
+    card.serialNumber = serial.text
+    card.serial = {
+      number: serial.number,
+      printRun: serial.printRun,
+      confidence: Math.round(serial.confidence * 100)
+    }
+
+    let variants: CardVariant[] = []
+    try {
+      variants = await this.catalog.getVariants(card)
+    } catch (error) {
+      console.warn('Variant lookup failed; print run not verified:', error)
+    }
+
+    const check = checkPrintRun(serial, variants)
+    if (check.matchedVariant) {
+      card.serial.matchedVariant = check.matchedVariant
+      card.variant = card.variant ?? check.matchedVariant
+    }
+    card.variantDetails = variants.find(variant => variant.name === card.variant)
+    if (check.warning) {
+      card.authenticityWarnings = [...(card.authenticityWarnings ?? []), check.warning]
+    }
+  }
+
+  // Unnumbered parallels are named where the card prints its finish; the serial already named numbered ones
+  private async resolveVariant(card: CardDetails, text: string): Promise<void> {
+    let taxonomy: SetTaxonomy | null = null
+    try {
+      taxonomy = await this.catalog.getTaxonomy(card.year, card.manufacturer ?? '', card.set)
+    } catch (error) {
+      console.warn('Variant taxonomy unavailable:', error)
+    }
+
+    card.variant = card.variant ?? findPrintedVariant(taxonomy, text)?.name
+    const spec = findVariant(taxonomy, card.variant ?? 'Base')
+    if (!spec) return
+    // "Silver Prizm" is the set's Silver
+    if (card.variant) card.variant = spec.name
+    card.variantDetails = {
+      ...toCardVariant(spec),
+      // The catalog's print run for this card, when the serial matched it
+      estimatedPrintRun: card.variantDetails?.estimatedPrintRun ?? spec.printRun
+    }
+  }
+
+  private async findVisualMatches(front: ImageData): Promise<VisualMatch[]> {
+    try {
+      return await this.catalog.findVisualMatches(front, VISUAL_MATCH_LIMIT)
+    } catch (error) {
+      // No IndexedDB (private browsing, SSR): identification still works from text alone
+      console.warn('Visual matching unavailable:', error)
+      return []
+    }
+  }
+
+  // Fill fields OCR missed or barely read from a close visual match
+  private applyVisualMatch(card: CardDetails, match: VisualMatch): void {
+    const similarity = Math.round(match.similarity * 100)
+    const fieldConfidence = card.fieldConfidence ?? {}
+    const weak = (field: keyof NonNullable<CardDetails['fieldConfidence']>) =>
+      (fieldConfidence[field] ?? 0) < WEAK_FIELD_CONFIDENCE
+
+    if (weak('player')) {
+      card.player = playerRegistry.canonicalName(match.card.player)
+      card.playerId = playerRegistry.canonicalId(match.card.player)
+      fieldConfidence.player = similarity
+    }
+    if (weak('year')) {
+      card.year = match.card.year
+      fieldConfidence.year = similarity
+    }
+    if (weak('set')) {
+      card.set = match.card.set
+      fieldConfidence.set = similarity
+    }
+    if (weak('cardNumber') && match.card.cardNumber) {
+      card.cardNumber = match.card.cardNumber
+      fieldConfidence.cardNumber = similarity
+    }
+    if (weak('manufacturer')) {
+      card.manufacturer = match.card.manufacturer
+      fieldConfidence.manufacturer = similarity
+    }
+
+    card.fieldConfidence = fieldConfidence
+    card.confidence = Math.max(card.confidence, similarity)
+  }
+
+  private toCardDetails(parsed: TextExtractionResult): CardDetails {
+    const confidence = parsed.fieldConfidence ?? {}
+    const percent = (value?: number) => (value === undefined ? undefined : Math.round(value * 100))
+    const allText = parsed.texts.map(t => t.text).join(' ')
+
+    const fieldConfidence: CardDetails['fieldConfidence'] = {
+      player: percent(confidence.playerName),
+      year: percent(confidence.year),
+      set: percent(confidence.setName),
+      cardNumber: percent(confidence.cardNumber),
+      manufacturer: percent(confidence.manufacturer)
+    }
+
+    // Overall confidence covers the fields needed to identify a card; a missing field counts as zero
+    const identifying = [fieldConfidence.player, fieldConfidence.year, fieldConfidence.set, fieldConfidence.cardNumber]
+    const overall = identifying.reduce<number>((sum, value) => sum + (value ?? 0), 0) / identifying.length
+
+    return {
+      player: parsed.playerName ? playerRegistry.canonicalName(parsed.playerName) : 'Unknown Player',
+      playerId: parsed.playerName ? playerRegistry.canonicalId(parsed.playerName) : undefined,
+      year: parsed.year ? parseInt(parsed.year, 10) : 0,
+      set: parsed.setName ?? parsed.manufacturer ?? 'Unknown Set',
+      cardNumber: parsed.cardNumber,
+      manufacturer: parsed.manufacturer,
+      isRookie: /\brookie\b/i.test(allText) || /\bRC\b/.test(allText),
+      isAutograph: /\b(autograph|certified auto)/i.test(allText),
+      isPatch: /\b(patch|relic|memorabilia)\b/i.test(allText),
+      confidence: Math.round(overall),
+      fieldConfidence
+    }
+  }
+
   // Helper method to format card display name
   formatCardName(card: CardDetails): string {
     const parts = []
@@ -154,7 +335,7 @@ export class CardIdentificationService {
 
     // Adjust for player popularity (in real app, would use market data)
     const premiumPlayers = ['Mike Trout', 'Connor Bedard', 'Michael Jordan', 'Julio Rodriguez']
-    if (premiumPlayers.includes(card.player)) {
+    if (premiumPlayers.some(name => playerRegistry.samePlayer(name, card.player))) {
       baseValue *= 10
     }
 
@@ -173,11 +354,11 @@ export class CardIdentificationService {
       baseValue *= 2
     }
 
-    // Older cards can be worth more (vintage premium)
-    if (card.year < 2000) {
+    // Older cards can be worth more (vintage premium); 0 means the year was not read
+    if (card.year && card.year < 2000) {
       baseValue *= 2
     }
-    if (card.year < 1990) {
+    if (card.year && card.year < 1990) {
       baseValue *= 3
     }
 
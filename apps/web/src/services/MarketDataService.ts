@@ -1,4 +1,5 @@
 import { CardDetails } from './CardIdentificationService'
+import { playerRegistry } from '@/lib/card-database/PlayerRegistry'
 
 export interface MarketData {
   recentSales: Sale[]
@@ -156,9 +157,10 @@ export class MarketDataService {
     const elitePlayers = ['Mike Trout', 'Connor Bedard', 'Michael Jordan', 'Tom Brady', 'Shohei Ohtani']
     const starPlayers = ['Julio Rodriguez', 'Patrick Mahomes', 'LeBron James', 'Wayne Gretzky']
     
-    if (elitePlayers.includes(card.player)) {
+    const isPlayer = (name: string) => playerRegistry.samePlayer(name, card.player)
+    if (elitePlayers.some(isPlayer)) {
       basePrice *= 20
-    } else if (starPlayers.includes(card.player)) {
+    } else if (starPlayers.some(isPlayer)) {
       basePrice *= 10
     }
 
@@ -0,0 +1,93 @@
+/**
+ * Tests for scanning a card end to end through AIService.processCard
+ */
+
+import { AIService } from '../AIService';
+import { CardDetector } from '@/lib/vision/CardDetector';
+import { calibrationConfidence } from '@/lib/vision/Calibration';
+import { decodeImage } from '@/lib/vision/canvas';
+import { createImageData } from '@/lib/vision/image';
+import { SCAN_MODELS } from '@/lib/vision/models';
+
+// The artifact cache is IndexedDB-backed; the registry runs without one here
+jest.mock('@/lib/vision/ModelArtifactStore', () => ({
+  IndexedDBModelArtifactCache: class {}
+}));
+
+// jsdom has no canvas to decode or encode captures
+jest.mock('@/lib/vision/canvas', () => ({
+  decodeImage: jest.fn(),
+  encodeImage: jest.fn(async () => 'data:image/png;base64,')
+}));
+
+jest.mock('../CardIdentificationService', () => ({
+  cardIdentificationService: {
+    identifyCard: jest.fn(async () => ({ player: 'Mike Trout', year: 2011, set: 'Update', confidence: 80 })),
+    getSetInfo: jest.fn(async () => null),
+    getReferenceImage: jest.fn(async () => null)
+  }
+}));
+
+jest.mock('../MarketDataService', () => ({
+  marketDataService: {
+    getMarketData: jest.fn(async () => ({ averagePrice: 0 }))
+  }
+}));
+
+// A light card standing upright on a dark table
+function drawCard(width: number, height: number, card: { x: number; y: number; width: number; height: number }): ImageData {
+  const image = createImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inside = x >= card.x && x < card.x + card.width && y >= card.y && y < card.y + card.height;
+      const p = (y * width + x) * 4;
+      image.data[p] = image.data[p + 1] = image.data[p + 2] = inside ? 232 : 32;
+      image.data[p + 3] = 255;
+    }
+  }
+  return image;
+}
+
+describe('AIService.processCard', () => {
+  let aiService: AIService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    aiService = new AIService();
+  });
+
+  it('should load every model a scan runs', async () => {
+    await expect(aiService.initialize()).resolves.toBeUndefined();
+  });
+
+  it('should take its confidence from the card outline', async () => {
+    const frame = drawCard(640, 480, { x: 195, y: 65, width: 250, height: 350 });
+    (decodeImage as jest.Mock).mockResolvedValue(frame);
+
+    const result = await aiService.processCard({ front: 'front.jpg' });
+
+    const boundary = new CardDetector().detect(frame)!;
+    expect(boundary.confidence).toBeGreaterThan(0.8);
+    expect(result.confidence).toBe(Math.round(boundary.confidence * 100 * calibrationConfidence(null)));
+    expect(result.authentic).toBe(true);
+    expect(result.modelVersions?.map(model => model.id)).toEqual(SCAN_MODELS);
+  });
+
+  it('should take the whole frame as the card for a pre-cropped upload', async () => {
+    (decodeImage as jest.Mock).mockResolvedValue(drawCard(250, 350, { x: 0, y: 0, width: 250, height: 350 }));
+
+    const result = await aiService.processCard({ front: 'front.jpg' });
+
+    expect(result.confidence).toBe(Math.round(50 * calibrationConfidence(null)));
+    expect(result.authentic).toBe(true);
+  });
+
+  it('should record only the models that ran when no card is found', async () => {
+    (decodeImage as jest.Mock).mockResolvedValue(drawCard(640, 360, { x: 0, y: 0, width: 0, height: 0 }));
+
+    const result = await aiService.processCard({ front: 'front.jpg' });
+
+    expect(result.confidence).toBe(0);
+    expect(result.modelVersions?.map(model => model.id)).toEqual(['card-detection', 'text-extraction']);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Tests for card identification from OCR text and the catalog
+ */
+
+import { CardIdentificationService } from '../CardIdentificationService'
+import type { OcrEngine } from '@/lib/vision/TextRecognizer'
+import type { ExtractedText } from '@/lib/vision/VisionPipeline'
+import { createImageData } from '@/lib/vision/image'
+import { deriveAttributes, findBuiltInTaxonomy } from '@/lib/card-database/VariantTaxonomy'
+import type { ICardDatabaseService } from '@/lib/interfaces/services'
+
+function line(text: string, height = 20): ExtractedText {
+  return { text, boundingBox: [0, 0, 200, height], confidence: 0.9 }
+}
+
+// Reads fixed lines off each face, and nothing off anything else
+function ocr(front: ImageData, back: ImageData, lines: { front: ExtractedText[]; back: ExtractedText[] }): OcrEngine {
+  return {
+    recognize: async image => (image === front ? lines.front : image === back ? lines.back : []),
+    terminate: async () => {}
+  }
+}
+
+// Catalog with only the built-in taxonomies
+const catalog: ICardDatabaseService = {
+  lookupCard: async () => null,
+  searchCards: async () => [],
+  validateCard: async () => ({ isValid: true, confidence: 1, issues: [], suggestions: [] }),
+  getSetInfo: async () => { throw new Error('No set') },
+  getVariants: async () => [],
+  getTaxonomy: async (year, manufacturer, setName) => findBuiltInTaxonomy(year, manufacturer, setName),
+  findVisualMatches: async () => [],
+  getReferenceImage: async () => null,
+  importChecklist: async () => { throw new Error('Read-only catalog') }
+}
+
+describe('CardIdentificationService', () => {
+  const front = createImageData(50, 70)
+  const back = createImageData(50, 70)
+
+  it('should give an unnumbered parallel its taxonomy details', async () => {
+    const service = new CardIdentificationService(ocr(front, back, {
+      front: [line('Topps Chrome', 18), line('MIKE TROUT', 40)],
+      back: [line('#27', 14), line('REFRACTOR', 12), line('© 2023 The Topps Company, Inc.', 10)]
+    }), catalog)
+
+    const card = await service.identifyCard({}, { front, back })
+
+    expect(card.variant).toBe('Refractor')
+    expect(card.variantDetails).toMatchObject({ name: 'Refractor', kind: 'parallel', finish: 'refractor' })
+    expect(deriveAttributes(card).isRefractor).toBe(true)
+  })
+
+  it('should give a base card the set\'s base details', async () => {
+    const service = new CardIdentificationService(ocr(front, back, {
+      front: [line('Topps Chrome', 18), line('MIKE TROUT', 40)],
+      back: [line('#27', 14), line('© 2023 The Topps Company, Inc.', 10)]
+    }), catalog)
+
+    const card = await service.identifyCard({}, { front, back })
+
+    expect(card.variant).toBeUndefined()
+    expect(card.variantDetails).toMatchObject({ name: 'Base', kind: 'base' })
+    expect(deriveAttributes(card)).toMatchObject({ isParallel: false, isRefractor: false })
+  })
+})